@@ -1,6 +1,7 @@
 import { 
     WalletProvider, 
     NoteManager, 
+    deriveWalletKeys,
     ZKProver,
     Logger
 } from '../src';
@@ -29,8 +30,10 @@ async function sendTransfer() {
         logger.info('Wallet connected successfully');
 
         // 2. Initialize note manager
-        // The note manager handles creation and management of shielded notes
-        const noteManager = new NoteManager();
+        // The note manager handles creation and management of shielded notes; the spending key
+        // derived from the wallet's recovery phrase keeps stored notes spendable across restarts
+        const keys = deriveWalletKeys(process.env.CIPHERPAY_MNEMONIC || '');
+        const noteManager = new NoteManager({ spendingKey: keys.spendingKey });
         logger.info('Note manager initialized');
 
         // 3. Initialize ZK prover
@@ -0,0 +1,175 @@
+import { NoteManager, ExtendedNote } from '../core/NoteManager';
+import { ViewKeyManager } from '../core/ViewKeyManager';
+import { ChainType } from '../core/WalletProvider';
+import { NATIVE_ASSET, noteAsset } from '../core/AssetRegistry';
+import { ZKProver } from '../zk/ZKProver';
+import { ZKProof } from '../types/ZKProof';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { AuditDisclosure, AuditStatement, DisclosedStatement } from '../types/Audit';
+import { AUDIT_DISCLOSURE_VERSION } from './AuditVerifier';
+
+/**
+ * Proves statements about this wallet's notes with the audit_proof circuit.
+ * The view key only enters the private witness, so disclosures can be handed to auditors as-is.
+ */
+export class AuditProver {
+  private readonly noteManager: NoteManager;
+  private readonly viewKeyManager: ViewKeyManager;
+  private readonly zkProver: ZKProver;
+  private readonly chainType: ChainType;
+
+  constructor(noteManager: NoteManager, viewKeyManager: ViewKeyManager, zkProver: ZKProver, chainType: ChainType) {
+    this.noteManager = noteManager;
+    this.viewKeyManager = viewKeyManager;
+    this.zkProver = zkProver;
+    this.chainType = chainType;
+  }
+
+  /**
+   * Proves a statement, selecting the notes it covers. audit_proof covers a single note,
+   * so the disclosure holds one proof per note.
+   * @param statement Statement to prove
+   * @param ownerAddress Address notes must have been received at
+   * @param merkleRoot Root of the note tree the proofs are made against
+   * @returns Disclosure for the auditor
+   */
+  async prove(statement: AuditStatement, ownerAddress: string, merkleRoot: string): Promise<AuditDisclosure> {
+    const { notes, disclosed } = statement.type === 'received_at_least'
+      ? await this.selectReceivedNotes(statement, ownerAddress)
+      : await this.selectInvoiceNote(statement);
+
+    // The circuit compares times in unix seconds
+    const viewKey = this.viewKeyManager.exportViewKey();
+    const createdAt = Date.now();
+    const currentTime = Math.floor(createdAt / 1000);
+    const proofs: ZKProof[] = [];
+    for (const note of notes) {
+      proofs.push(await this.zkProver.generateAuditProof({
+        noteCommitment: note.commitment,
+        viewKey,
+        amount: note.amount,
+        timestamp: Math.floor(note.timestamp / 1000),
+        currentTime,
+        purpose: statement.type,
+        merkleRoot
+      }));
+    }
+
+    const totalAmount = notes.reduce((sum, note) => sum + note.amount, BigInt(0));
+    return {
+      version: AUDIT_DISCLOSURE_VERSION,
+      chainType: this.chainType,
+      statement: disclosed,
+      noteCommitments: notes.map(note => note.commitment),
+      provenAmount: totalAmount.toString(),
+      proofs,
+      createdAt
+    };
+  }
+
+  /**
+   * Picks the fewest received notes in the period that reach the minimum, so the proven total reveals little more
+   */
+  private async selectReceivedNotes(
+    statement: Extract<AuditStatement, { type: 'received_at_least' }>,
+    ownerAddress: string
+  ): Promise<{ notes: ExtendedNote[]; disclosed: DisclosedStatement }> {
+    const fromTime = statement.fromDate.getTime();
+    const toTime = statement.toDate.getTime();
+    const asset = statement.asset || NATIVE_ASSET;
+
+    if (statement.minimum <= BigInt(0)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Audit minimum must be greater than 0', 'minimum', {
+          minimum: statement.minimum.toString()
+        })
+      );
+    }
+    if (fromTime > toTime) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Audit period ends before it starts', 'toDate', { fromTime, toTime })
+      );
+    }
+
+    // Change returned to ourselves is not income
+    const received = (await this.noteManager.getNotes())
+      .filter(note =>
+        note.recipientAddress === ownerAddress &&
+        (note.status === 'confirmed' || note.status === 'spent') &&
+        note.metadata.role !== 'change' &&
+        noteAsset(note) === asset &&
+        note.timestamp >= fromTime &&
+        note.timestamp <= toTime
+      )
+      .sort((a, b) => (a.amount === b.amount ? 0 : b.amount > a.amount ? 1 : -1));
+
+    const notes: ExtendedNote[] = [];
+    let total = BigInt(0);
+    for (const note of received) {
+      if (total >= statement.minimum) break;
+      notes.push(note);
+      total += note.amount;
+    }
+
+    if (total < statement.minimum) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(
+          `Statement does not hold: received ${total} between the dates, below ${statement.minimum}`,
+          'minimum',
+          { received: total.toString(), minimum: statement.minimum.toString(), asset }
+        )
+      );
+    }
+
+    return {
+      notes,
+      disclosed: {
+        type: 'received_at_least',
+        minimum: statement.minimum.toString(),
+        fromTime,
+        toTime,
+        asset
+      }
+    };
+  }
+
+  /**
+   * Finds the note that paid an invoice
+   */
+  private async selectInvoiceNote(
+    statement: Extract<AuditStatement, { type: 'invoice_payment' }>
+  ): Promise<{ notes: ExtendedNote[]; disclosed: DisclosedStatement }> {
+    const [note] = await this.noteManager.findNotesByCommitment(statement.noteCommitment);
+    if (!note) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        `Note not found: ${statement.noteCommitment}`,
+        ErrorType.NOTE_NOT_FOUND,
+        { commitment: statement.noteCommitment },
+        {
+          action: 'Check the note commitment',
+          description: 'Only notes held by this wallet can be disclosed.'
+        },
+        false
+      ));
+    }
+    if (note.metadata.invoice !== statement.invoiceId) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(
+          `Note ${statement.noteCommitment} is not recorded as paying invoice ${statement.invoiceId}`,
+          'invoiceId',
+          { commitment: statement.noteCommitment, invoiceId: statement.invoiceId }
+        )
+      );
+    }
+
+    return {
+      notes: [note],
+      disclosed: {
+        type: 'invoice_payment',
+        noteCommitment: note.commitment,
+        invoiceId: statement.invoiceId,
+        amount: note.amount.toString()
+      }
+    };
+  }
+}
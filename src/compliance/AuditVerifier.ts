@@ -0,0 +1,89 @@
+import * as snarkjs from 'snarkjs';
+import { AuditDisclosure, AuditVerificationResult } from '../types/Audit';
+
+/** Version of the disclosure format written by AuditProver */
+export const AUDIT_DISCLOSURE_VERSION = 2;
+
+/** audit_proof's only public signal, its validity flag, for a note it accepts */
+export const AUDIT_VALID_SIGNAL = '1';
+
+/**
+ * Checks audit disclosures on the auditor's side. Needs only the audit_proof
+ * verification key (verifier-audit_proof.json), not the prover's wallet or circuits.
+ */
+export class AuditVerifier {
+  private readonly verificationKey: any;
+
+  constructor(verificationKey: any) {
+    this.verificationKey = verificationKey;
+  }
+
+  /**
+   * Verifies every proof in a disclosure and that the claimed total supports its statement
+   * @param disclosure Disclosure received from the prover
+   * @returns Whether the disclosure holds, and why not if it doesn't
+   */
+  async verify(disclosure: AuditDisclosure): Promise<AuditVerificationResult> {
+    if (disclosure.version !== AUDIT_DISCLOSURE_VERSION) {
+      return { valid: false, reason: `Unsupported disclosure version: ${disclosure.version}` };
+    }
+
+    if (disclosure.proofs.length === 0 || disclosure.proofs.length !== disclosure.noteCommitments.length) {
+      return { valid: false, reason: 'Disclosure needs one proof per note' };
+    }
+    const rejected = disclosure.proofs.findIndex(proof =>
+      proof.publicSignals.length !== 1 || proof.publicSignals[0] !== AUDIT_VALID_SIGNAL
+    );
+    if (rejected !== -1) {
+      return { valid: false, reason: `Proof does not accept note ${disclosure.noteCommitments[rejected]}` };
+    }
+
+    const statementCheck = this.checkStatement(disclosure);
+    if (statementCheck) {
+      return { valid: false, reason: statementCheck };
+    }
+
+    try {
+      for (const zkProof of disclosure.proofs) {
+        const proof = { ...zkProof.proof, curve: zkProof.proof.curve || 'bn128' };
+        if (!(await snarkjs.groth16.verify(this.verificationKey, zkProof.publicSignals, proof))) {
+          return { valid: false, reason: 'Proof is invalid' };
+        }
+      }
+      return { valid: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, reason: `Proof could not be verified: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Checks the statement against the claimed total
+   * @returns Why the statement doesn't hold, if it doesn't
+   */
+  private checkStatement(disclosure: AuditDisclosure): string | undefined {
+    const statement = disclosure.statement;
+    const proven = BigInt(disclosure.provenAmount);
+
+    switch (statement.type) {
+      case 'received_at_least':
+        if (statement.fromTime > statement.toTime) {
+          return 'Statement period ends before it starts';
+        }
+        if (proven < BigInt(statement.minimum)) {
+          return `Proven total ${proven} is below ${statement.minimum}`;
+        }
+        return undefined;
+      case 'invoice_payment':
+        if (disclosure.noteCommitments.length !== 1 || disclosure.noteCommitments[0] !== statement.noteCommitment) {
+          return 'Proof does not cover the invoice note';
+        }
+        if (proven !== BigInt(statement.amount)) {
+          return `Proven amount ${proven} does not match the invoice amount ${statement.amount}`;
+        }
+        return undefined;
+      default:
+        return `Unknown statement type: ${(statement as { type: string }).type}`;
+    }
+  }
+}
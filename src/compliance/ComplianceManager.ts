@@ -70,6 +70,7 @@ export class ComplianceManager {
    * Validates a transaction for compliance
    * @param transaction Transaction data
    * @param userId User ID
+   * @param recordAudit Whether to record the validation in the audit trail (false for dry runs)
    * @returns Compliance validation result
    */
   async validateTransaction(
@@ -79,7 +80,8 @@ export class ComplianceManager {
       senderAddress: string;
       type: string;
     },
-    userId: string
+    userId: string,
+    recordAudit: boolean = true
   ): Promise<{
     compliant: boolean;
     violations: string[];
@@ -126,7 +128,7 @@ export class ComplianceManager {
       }
 
       // Record audit trail
-      if (this.config.enableAuditTrail) {
+      if (this.config.enableAuditTrail && recordAudit) {
         this.recordAuditTrail({
           operation: 'transaction_validation',
           userId,
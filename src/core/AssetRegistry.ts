@@ -0,0 +1,202 @@
+import { ethers } from 'ethers';
+import { ChainConfig } from '../config/chains';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+
+/** Asset identifier used for the chain's native currency (ETH, SOL) */
+export const NATIVE_ASSET = 'native';
+
+/** Token address the circuits use for the native currency */
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const TOKEN_REGISTRY_ABI = [
+  'function tokenBySymbol(string symbol) view returns (address)',
+  'function isSupported(address token) view returns (bool)'
+];
+
+const ERC20_METADATA_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+export interface AssetInfo {
+  /** Identifier stored on notes: NATIVE_ASSET or the token's address */
+  id: string;
+  symbol: string;
+  decimals: number;
+  native: boolean;
+}
+
+/**
+ * Looks a token up by symbol or address, returning null when the registry doesn't know it
+ */
+export type TokenLookup = (symbolOrAddress: string) => Promise<AssetInfo | null>;
+
+export interface AssetRegistryOptions {
+  /** Provider used to read the EVM token registry contract */
+  provider?: ethers.providers.Provider;
+  /** Replaces the on-chain registry lookup (required to resolve unregistered Solana tokens) */
+  lookup?: TokenLookup;
+  /** Assets known up front, resolved without a registry lookup */
+  assets?: AssetInfo[];
+}
+
+/**
+ * Gets the asset a note holds; notes created before multi-asset support hold the native asset
+ * @param note Note to inspect
+ * @returns The note's asset identifier
+ */
+export function noteAsset(note: { asset?: string }): string {
+  return note.asset || NATIVE_ASSET;
+}
+
+/**
+ * Maps an asset identifier to the token address committed to in proofs
+ * @param asset Asset identifier
+ * @returns The token address
+ */
+export function assetTokenAddress(asset: string = NATIVE_ASSET): string {
+  return asset === NATIVE_ASSET ? NATIVE_TOKEN_ADDRESS : asset;
+}
+
+/**
+ * Resolves asset symbols and addresses through the chain's token registry and caches the results
+ */
+export class AssetRegistry {
+  private readonly chain: ChainConfig;
+  private readonly options: AssetRegistryOptions;
+  private readonly assets: Map<string, AssetInfo> = new Map();
+  private registryContract?: ethers.Contract;
+
+  constructor(chain: ChainConfig, options: AssetRegistryOptions = {}) {
+    this.chain = chain;
+    this.options = options;
+
+    this.register({
+      id: NATIVE_ASSET,
+      symbol: chain.nativeCurrency.symbol,
+      decimals: chain.nativeCurrency.decimals,
+      native: true
+    });
+    (options.assets || []).forEach(asset => this.register(asset));
+  }
+
+  /**
+   * Adds an asset to the cache so it resolves without a registry lookup
+   * @param asset Asset to register
+   */
+  register(asset: AssetInfo): void {
+    const info = { ...asset, id: this.normalizeId(asset.id) };
+    this.assets.set(info.id, info);
+    this.assets.set(this.symbolKey(info.symbol), info);
+  }
+
+  /**
+   * Gets an asset that has already been resolved or registered
+   * @param asset Asset identifier, address or symbol
+   * @returns The asset, if cached
+   */
+  get(asset: string): AssetInfo | undefined {
+    return this.assets.get(this.normalizeId(asset)) || this.assets.get(this.symbolKey(asset));
+  }
+
+  /**
+   * Resolves an asset symbol or token address, querying the token registry when it isn't cached
+   * @param asset Asset identifier, address or symbol (defaults to the native asset)
+   * @returns The resolved asset
+   */
+  async resolve(asset: string = NATIVE_ASSET): Promise<AssetInfo> {
+    const cached = this.get(asset);
+    if (cached) {
+      return cached;
+    }
+
+    let resolved: AssetInfo | null;
+    try {
+      resolved = this.options.lookup
+        ? await this.options.lookup(asset)
+        : await this.lookupOnChain(asset);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to resolve asset ${asset}: ${errorMessage}`,
+        ErrorType.NETWORK_ERROR,
+        { asset, chain: this.chain.name, tokenRegistry: this.chain.contracts.tokenRegistry },
+        {
+          action: 'Check the RPC connection and retry',
+          description: 'The token registry could not be queried.'
+        },
+        true
+      );
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+
+    if (!resolved) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`Asset ${asset} is not supported on ${this.chain.name}`, 'asset', {
+          asset,
+          tokenRegistry: this.chain.contracts.tokenRegistry
+        })
+      );
+    }
+
+    this.register(resolved);
+    return this.get(resolved.id)!;
+  }
+
+  /**
+   * Gets every asset resolved or registered so far
+   */
+  getAssets(): AssetInfo[] {
+    return Array.from(new Set(this.assets.values()));
+  }
+
+  /**
+   * Queries the EVM token registry contract for a symbol or token address
+   */
+  private async lookupOnChain(asset: string): Promise<AssetInfo | null> {
+    if (this.chain.type !== 'ethereum') {
+      // The Solana registry is a program account; tokens must be registered or resolved by a custom lookup
+      return null;
+    }
+
+    const registry = this.getRegistryContract();
+    let tokenAddress: string;
+    if (ethers.utils.isAddress(asset)) {
+      tokenAddress = ethers.utils.getAddress(asset);
+      if (!(await registry.isSupported(tokenAddress))) {
+        return null;
+      }
+    } else {
+      tokenAddress = await registry.tokenBySymbol(asset);
+      if (!tokenAddress || tokenAddress === NATIVE_TOKEN_ADDRESS) {
+        return null;
+      }
+    }
+
+    const token = new ethers.Contract(tokenAddress, ERC20_METADATA_ABI, registry.provider);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { id: tokenAddress, symbol, decimals: Number(decimals), native: false };
+  }
+
+  private getRegistryContract(): ethers.Contract {
+    if (!this.registryContract) {
+      const provider = this.options.provider || new ethers.providers.JsonRpcProvider(this.chain.rpcUrl);
+      this.registryContract = new ethers.Contract(this.chain.contracts.tokenRegistry, TOKEN_REGISTRY_ABI, provider);
+    }
+    return this.registryContract;
+  }
+
+  /**
+   * EVM addresses are stored checksummed so differently-cased inputs map to one asset
+   */
+  private normalizeId(id: string): string {
+    if (id === NATIVE_ASSET) {
+      return id;
+    }
+    return this.chain.type === 'ethereum' && ethers.utils.isAddress(id) ? ethers.utils.getAddress(id) : id;
+  }
+
+  private symbolKey(symbol: string): string {
+    return `symbol:${symbol.toUpperCase()}`;
+  }
+}
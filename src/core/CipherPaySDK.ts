@@ -1,21 +1,57 @@
-import { NoteManager } from './NoteManager';
+import { ethers } from 'ethers';
+import { NoteManager, ExtendedNote, NoteChange, NoteReservation } from './NoteManager';
+import { NoteStore } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
 import { ViewKeyManager } from './ViewKeyManager';
+import { NoteScanner, NoteScanResult, sealNote } from './NoteScanner';
+import { ConsolidationService, ConsolidationConfig, ConsolidationOutcome } from './ConsolidationService';
 import { WalletProvider, ChainType } from './WalletProvider';
 import { MerkleTreeClient } from './MerkleTreeClient';
+import { AssetRegistry, AssetInfo, NATIVE_ASSET, noteAsset, assetTokenAddress } from './AssetRegistry';
+import {
+  TransactionHistory,
+  NewTransactionRecord,
+  TransactionHistoryFilter,
+  TransactionHistoryPage,
+  TransactionHistoryResult
+} from './TransactionHistory';
+import { StreamManager, PaymentStream, StreamFilter, currentStreamTime } from './StreamManager';
+import {
+  EscrowManager,
+  Escrow,
+  EscrowCondition,
+  EscrowEvidence,
+  EscrowFilter,
+  escrowConditionId,
+  releaseConditionCheck,
+  refundConditionCheck
+} from './EscrowManager';
 import { TransactionBuilder } from '../tx/TransactionBuilder';
 import { TransactionSigner } from '../tx/TransactionSigner';
 import { ReshieldBuilder } from '../tx/ReshieldBuilder';
 import { WithdrawBuilder } from '../tx/WithdrawBuilder';
+import { CoinSelector, CoinSelectorConfig, CoinSelectionStrategy, MAX_INPUT_NOTES } from '../tx/CoinSelector';
 import { RelayerClient } from '../relayer/RelayerClient';
-import { ZKProver } from '../zk/ZKProver';
-import { ZKProofGenerator } from '../zkp/ZKProofGenerator';
-import { EventMonitor } from '../events/EventMonitor';
+import { RelayerRequest } from '../relayer/RelayerAPI';
+import { ZKProver, CircuitUrls } from '../zk/ZKProver';
+import { computeStreamId } from '../zk/StreamWitness';
+import { computeSplitCommitment, SPLIT_OUTPUT_COUNT, SPLIT_MAX_AMOUNT } from '../zk/SplitWitness';
+import { randomFieldHex } from '../zk/field';
+import { EventMonitor, NoteSpentEvent, ShieldedTransferEvent } from '../events/EventMonitor';
+import { SDKEventEmitter, SDKEventName, SDKEventListener, SDKTransactionType } from '../events/SDKEventEmitter';
 import { StealthAddressManager } from './StealthAddressManager';
 import { ComplianceManager, ComplianceConfig } from '../compliance/ComplianceManager';
+import { AuditProver } from '../compliance/AuditProver';
+import { getChainByName } from '../config/chains';
 import { CacheManager } from '../utils/CacheManager';
+import { validateMemo } from '../utils/memo';
+import { deriveWalletKeys, deriveStorageNamespace } from './KeyDerivation';
+import { AsyncProcessor } from '../performance/AsyncProcessor';
 import { Logger } from '../monitoring/observability/logger';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
 import { ShieldedNote } from '../types/Note';
 import { ZKProof } from '../types/ZKProof';
+import { AuditStatement, AuditDisclosure } from '../types/Audit';
 
 export interface CipherPaySDKConfig {
   chainType: ChainType;
@@ -24,6 +60,14 @@ export interface CipherPaySDKConfig {
   relayerApiKey?: string;
   contractAddress?: string;
   programId?: string;
+  /** Chain in config/chains.ts whose token registry resolves assets (defaults to chainType) */
+  network?: string;
+  /** Assets resolved without querying the token registry */
+  assets?: AssetInfo[];
+  /** Circuit files loaded by initialize(), keyed by circuit type */
+  circuits?: Record<string, CircuitUrls>;
+  /** Start the event monitor while syncing during initialize() */
+  startEventMonitoring?: boolean;
   enableCompliance?: boolean;
   complianceConfig?: ComplianceConfig;
   enableCaching?: boolean;
@@ -31,6 +75,41 @@ export interface CipherPaySDKConfig {
     maxSize?: number;
     defaultTTL?: number;
   };
+  /** Where notes are persisted; stores that load asynchronously are loaded by initialize(). Needs a mnemonic. */
+  noteStore?: NoteStore;
+  /** Where the note scanner's cursor is persisted, e.g. the file store in Node so scans resume after a restart */
+  scanCursorStore?: NoteStore;
+  /** Where transaction history is persisted (defaults to localStorage, or memory where there is none) */
+  historyStore?: NoteStore;
+  /** Where payment streams are persisted (defaults to localStorage, or memory where there is none) */
+  streamStore?: NoteStore;
+  /** Where escrows are persisted (defaults to localStorage, or memory where there is none) */
+  escrowStore?: NoteStore;
+  /**
+   * BIP-39 mnemonic the wallet's keys are derived from; without one the keys are random and cannot be recovered,
+   * so notes are kept in memory only
+   */
+  mnemonic?: string;
+  /**
+   * Lets deposits, transfers and other operations that move value run while notes are kept only in memory
+   * (no mnemonic, or no localStorage and no noteStore). Such notes are lost on restart; meant for tests and scripts.
+   */
+  allowEphemeralNotes?: boolean;
+  /** BIP-39 passphrase protecting the mnemonic */
+  mnemonicPassphrase?: string;
+  /** Account derived from the mnemonic (defaults to 0) */
+  account?: number;
+  /** Milliseconds a note may stay pending before it expires (defaults to 1 hour) */
+  pendingNoteTimeout?: number;
+  /** How notes are chosen to fund transactions */
+  coinSelection?: CoinSelectorConfig;
+  /**
+   * Merge fragmented notes in the background while the wallet is idle; rejected at construction while
+   * the bundled circuits spend one note per proof
+   */
+  enableConsolidation?: boolean;
+  /** Its maxInputs is always the bundled circuits' input count, MAX_INPUT_NOTES */
+  consolidationConfig?: ConsolidationConfig;
   enableStealthAddresses?: boolean;
   stealthAddressConfig?: {
     curve?: 'secp256k1' | 'ed25519';
@@ -38,19 +117,62 @@ export interface CipherPaySDKConfig {
   };
 }
 
+export type SDKLifecycleState =
+  | 'uninitialized'
+  | 'loading_circuits'
+  | 'syncing'
+  | 'ready'
+  | 'degraded'
+  | 'destroyed';
+
+export type SDKSubsystem = 'notes' | 'circuits' | 'merkleTree' | 'eventMonitor';
+
+export interface SubsystemFailure {
+  subsystem: SDKSubsystem;
+  error: string;
+}
+
+export interface DepositRequest {
+  amount: bigint;
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface DepositResult {
+  success: boolean;
+  txHash?: string;
+  note?: ShieldedNote;
+  error?: string;
+}
+
 export interface TransferRequest {
   amount: bigint;
   recipientAddress: string;
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
   stealthAddress?: boolean;
+  /** Recipient's note encryption key; the note is sealed to it so the recipient's scanner finds it */
+  recipientEncryptionKey?: string;
+  /** Message for the recipient, such as an invoice ID; needs recipientEncryptionKey, as only the recipient can read it */
+  memo?: string;
+  /** How input notes are chosen (defaults to the configured strategy) */
+  selectionStrategy?: CoinSelectionStrategy;
   complianceCheck?: boolean;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
   metadata?: Record<string, any>;
 }
 
 export interface TransferResult {
   success: boolean;
   txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
   stealthAddress?: string;
   proof?: ZKProof;
+  inputNotes?: ShieldedNote[];
+  outputNote?: ShieldedNote;
+  changeNote?: ShieldedNote;
   error?: string;
   complianceStatus?: {
     compliant: boolean;
@@ -62,14 +184,124 @@ export interface TransferResult {
 export interface WithdrawRequest {
   amount: bigint;
   recipientAddress: string;
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
+  /** How input notes are chosen (defaults to the configured strategy) */
+  selectionStrategy?: CoinSelectionStrategy;
+  complianceCheck?: boolean;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface FeeEstimate {
+  gasLimit: string;
+  maxFeePerGas: string;
+  priorityFee: string;
+  totalFee: number;
+}
+
+interface BaseTransactionPlan {
+  /** Recipient the transaction will pay, after any stealth address derivation */
+  recipientAddress: string;
+  /** Stealth address generated for the recipient, if one is used */
+  stealthAddress?: string;
+  /** Resolved asset identifier the plan spends */
+  asset: string;
+  inputNotes: ShieldedNote[];
+  inputNoteIds: string[];
+  inputTotal: bigint;
+  changeAmount: bigint;
+  fee: FeeEstimate;
+  complianceStatus?: {
+    compliant: boolean;
+    violations: string[];
+    riskScore: number;
+  };
+  /** Reasons the plan cannot be executed; empty when it can */
+  blockers: string[];
+  createdAt: number;
+}
+
+export interface TransferPlan extends BaseTransactionPlan {
+  kind: 'transfer';
+  request: TransferRequest;
+}
+
+export interface WithdrawPlan extends BaseTransactionPlan {
+  kind: 'withdraw';
+  request: WithdrawRequest;
+}
+
+export type TransactionPlan = TransferPlan | WithdrawPlan;
+
+export interface BatchRecipient {
+  recipientAddress: string;
+  amount: bigint;
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface BatchTransferOptions {
+  /** Maximum number of payments proven and submitted at once (default 4) */
+  concurrency?: number;
+  /** Report from an earlier run of the same batch; payments it already submitted are skipped */
+  resume?: BatchTransferReport;
   complianceCheck?: boolean;
+}
+
+export interface BatchPaymentResult {
+  index: number;
+  recipientAddress: string;
+  amount: bigint;
+  status: 'submitted' | 'failed';
+  txHash?: string;
+  inputNoteIds?: string[];
+  error?: string;
+}
+
+export interface BatchTransferReport {
+  batchId: string;
+  results: BatchPaymentResult[];
+  submitted: number;
+  failed: number;
+  /** True once every payment has been submitted */
+  complete: boolean;
+}
+
+export interface ReshieldRequest {
+  /** Amount to re-issue; defaults to the total of `noteIds` when those are given */
+  amount?: bigint;
+  /** Specific notes to refresh, at most MAX_INPUT_NOTES (otherwise notes are selected to cover `amount`) */
+  noteIds?: string[];
+  /** Asset symbol or token address (defaults to the asset of `noteIds`, else the native asset) */
+  asset?: string;
+  /** How notes are chosen when `noteIds` is not given (defaults to the configured strategy) */
+  selectionStrategy?: CoinSelectionStrategy;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
   metadata?: Record<string, any>;
 }
 
+export interface ReshieldResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  proof?: ZKProof;
+  inputNotes?: ShieldedNote[];
+  outputNote?: ShieldedNote;
+  changeNote?: ShieldedNote;
+  error?: string;
+}
+
 export interface WithdrawResult {
   success: boolean;
   txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
   proof?: ZKProof;
+  inputNotes?: ShieldedNote[];
+  changeNote?: ShieldedNote;
   error?: string;
   complianceStatus?: {
     compliant: boolean;
@@ -78,6 +310,127 @@ export interface WithdrawResult {
   };
 }
 
+export interface SplitOutput {
+  recipientAddress: string;
+  amount: bigint;
+  metadata?: Record<string, any>;
+}
+
+export interface SplitPaymentRequest {
+  /**
+   * Shares the input note is divided into: at most SPLIT_OUTPUT_COUNT (2), since zkSplit creates exactly two notes.
+   * With one share the second note is change back to this wallet. Each note, change included, holds at most
+   * SPLIT_MAX_AMOUNT (2^32) base units.
+   */
+  outputs: SplitOutput[];
+  /** Relayer fee taken from the input note (defaults to 0) */
+  fee?: bigint;
+  /** Note to split (otherwise the smallest note covering the outputs and fee is used) */
+  noteId?: string;
+  /** Asset symbol or token address (defaults to the asset of `noteId`, else the native asset) */
+  asset?: string;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface SplitPaymentResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  proof?: ZKProof;
+  inputNote?: ShieldedNote;
+  /** One note per requested output, in request order */
+  outputNotes?: ShieldedNote[];
+  /** What is left of the input note after the outputs and fee */
+  changeNote?: ShieldedNote;
+  error?: string;
+}
+
+export interface CreateStreamOptions {
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Options for stream claims and cancellations and escrow releases and refunds
+ */
+export interface SettlementOptions {
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface CreateStreamResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  /** Share with the recipient; they pass it to claimStream() */
+  stream?: PaymentStream;
+  proof?: ZKProof;
+  inputNotes?: ShieldedNote[];
+  changeNote?: ShieldedNote;
+  error?: string;
+}
+
+export interface ClaimStreamResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  stream?: PaymentStream;
+  /** Amount released by this claim */
+  amount?: bigint;
+  proof?: ZKProof;
+  outputNote?: ShieldedNote;
+  error?: string;
+}
+
+export interface CancelStreamResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  stream?: PaymentStream;
+  /** Unvested amount returned to the sender */
+  refundAmount?: bigint;
+  proof?: ZKProof;
+  refundNote?: ShieldedNote;
+  error?: string;
+}
+
+export interface CreateEscrowOptions {
+  /** Asset symbol or token address (defaults to the native asset) */
+  asset?: string;
+  /** Wait for the relayer to confirm before resolving (otherwise tracked in the background) */
+  waitForConfirmation?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface CreateEscrowResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  /** Share with the recipient; they pass it to releaseEscrow() */
+  escrow?: Escrow;
+  proof?: ZKProof;
+  inputNotes?: ShieldedNote[];
+  changeNote?: ShieldedNote;
+  error?: string;
+}
+
+export interface SettleEscrowResult {
+  success: boolean;
+  txHash?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  escrow?: Escrow;
+  proof?: ZKProof;
+  /** Note the escrowed funds were released or refunded to */
+  outputNote?: ShieldedNote;
+  error?: string;
+}
+
 export class CipherPaySDK {
   private readonly config: CipherPaySDKConfig;
   private readonly logger: Logger;
@@ -87,37 +440,145 @@ export class CipherPaySDK {
   public readonly viewKeyManager: ViewKeyManager;
   public readonly walletProvider: WalletProvider;
   public readonly merkleTreeClient: MerkleTreeClient;
+  public readonly assetRegistry: AssetRegistry;
+  public readonly transactionHistory: TransactionHistory;
+  public readonly streamManager: StreamManager;
+  public readonly escrowManager: EscrowManager;
 
   // Transaction components
   public readonly transactionBuilder: TransactionBuilder;
   public readonly transactionSigner: TransactionSigner;
   public readonly reshieldBuilder: ReshieldBuilder;
   public readonly withdrawBuilder: WithdrawBuilder;
+  public readonly coinSelector: CoinSelector;
+  public readonly consolidationService: ConsolidationService;
 
   // ZK components
-  public zkProver: ZKProver;
-  public zkProofGenerator?: ZKProofGenerator;
+  public readonly zkProver: ZKProver;
+  public readonly auditProver: AuditProver;
 
   // Relayer and events
   public readonly relayerClient: RelayerClient;
   public readonly eventMonitor: EventMonitor;
+  public readonly noteScanner: NoteScanner;
 
   // Phase 2 enhancements
   public readonly stealthAddressManager?: StealthAddressManager;
   public readonly complianceManager?: ComplianceManager;
   public readonly cacheManager?: CacheManager;
 
+  // Wallet activity events
+  private readonly events: SDKEventEmitter = new SDKEventEmitter();
+  private lastBalances: Record<string, bigint>;
+
+  // Claim in progress per stream id; claims of one stream run one at a time
+  private readonly streamClaims: Map<string, Promise<ClaimStreamResult>> = new Map();
+
+  // Lifecycle
+  private state: SDKLifecycleState = 'uninitialized';
+  private failedSubsystems: SubsystemFailure[] = [];
+  private readonly readyPromise: Promise<SDKLifecycleState>;
+  private resolveReady!: (state: SDKLifecycleState) => void;
+  private rejectReady!: (error: CipherPayError) => void;
+
+  /**
+   * Creates an SDK instance and runs its initialization lifecycle
+   * @param config SDK configuration
+   * @returns An SDK in the 'ready' or 'degraded' state
+   */
+  static async create(config: CipherPaySDKConfig): Promise<CipherPaySDK> {
+    const sdk = new CipherPaySDK(config);
+    await sdk.initialize();
+    return sdk;
+  }
+
+  /**
+   * Restores a wallet on a new device from its mnemonic: derives its keys, then rescans the pool
+   * for notes sealed to them
+   * @param config SDK configuration, including the mnemonic
+   * @param fromBlock Block to rescan from, e.g. the pool's deployment block (defaults to the first block)
+   * @returns An SDK in the 'ready' or 'degraded' state; if the rescan fails, call scanForNotes() to retry.
+   * Solana pool events cannot be scanned yet, so Solana wallets restore their notes from a backup.
+   */
+  static async restore(
+    config: CipherPaySDKConfig & { mnemonic: string },
+    fromBlock: number = 0
+  ): Promise<CipherPaySDK> {
+    const sdk = await CipherPaySDK.create(config);
+    await sdk.noteScanner.resetCursor(fromBlock - 1);
+    try {
+      await sdk.scanForNotes();
+    } catch (error) {
+      sdk.logger.warn('Rescan after restoring from mnemonic failed', {
+        fromBlock,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    return sdk;
+  }
+
+  /**
+   * Sets up components without touching the network. Operations are rejected
+   * until initialize() has run; prefer CipherPaySDK.create().
+   */
   constructor(config: CipherPaySDKConfig) {
     this.config = config;
     this.logger = Logger.getInstance();
 
+    this.readyPromise = new Promise<SDKLifecycleState>((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // Callers observe rejection through whenReady(); don't surface it as unhandled
+    this.readyPromise.catch(() => undefined);
+
     // Initialize core components
-    this.noteManager = new NoteManager();
-    this.viewKeyManager = new ViewKeyManager(config.chainType);
+    const keys = config.mnemonic
+      ? deriveWalletKeys(config.mnemonic, config.account, config.mnemonicPassphrase)
+      : undefined;
+    // Each derived account keeps its state under its own keys, so accounts sharing a device never mix
+    const namespace = keys ? deriveStorageNamespace(keys) : undefined;
+    const storageKey = (base: string) => (namespace ? `${base}_${namespace}` : base);
+    this.noteManager = new NoteManager({
+      store: config.noteStore || (keys ? undefined : new MemoryNoteStore()),
+      storageKey: storageKey('cipherpay_notes'),
+      spendingKey: keys?.spendingKey,
+      pendingTimeout: config.pendingNoteTimeout
+    });
+    this.transactionHistory = new TransactionHistory({
+      store: config.historyStore,
+      storageKey: storageKey('cipherpay_history')
+    });
+    this.streamManager = new StreamManager({ store: config.streamStore, storageKey: storageKey('cipherpay_streams') });
+    this.escrowManager = new EscrowManager(config.chainType, {
+      store: config.escrowStore,
+      storageKey: storageKey('cipherpay_escrows')
+    });
+    this.viewKeyManager = new ViewKeyManager(config.chainType, keys?.fullViewingKey);
     this.walletProvider = new WalletProvider(config.chainType, {
       rpcUrl: config.rpcUrl
     });
 
+    // Assets are resolved through the token registry of the configured chain
+    const network = config.network || config.chainType;
+    const chain = getChainByName(network);
+    if (!chain) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        `Unknown network: ${network}`,
+        ErrorType.CONFIGURATION_ERROR,
+        { network },
+        {
+          action: 'Use a network from config/chains.ts',
+          description: 'The SDK needs the chain configuration to resolve assets through its token registry.'
+        },
+        false
+      ));
+    }
+    this.assetRegistry = new AssetRegistry(
+      { ...chain, rpcUrl: config.rpcUrl || chain.rpcUrl },
+      { assets: config.assets }
+    );
+
     // Initialize MerkleTreeClient with chain-specific configuration
     if (config.chainType === 'solana') {
       // For Solana, initialize without contract but with relayer URL
@@ -128,9 +589,9 @@ export class CipherPaySDK {
       this.merkleTreeClient = new MerkleTreeClient(mockContract, 'evm');
     }
 
-    // Initialize transaction components - ZK components will be configured later with circuit files
-    this.zkProver = new ZKProver(); // Will be configured later with circuit files
-    // ZKProofGenerator will be initialized when configureZKComponents is called
+    // Circuits are registered on the prover by initialize() or configureZKComponents()
+    this.zkProver = new ZKProver();
+    this.auditProver = new AuditProver(this.noteManager, this.viewKeyManager, this.zkProver, config.chainType);
 
     // Initialize relayer first since TransactionBuilder needs it
     this.relayerClient = new RelayerClient({
@@ -160,28 +621,40 @@ export class CipherPaySDK {
       }
     );
 
-    // These builders will be initialized when ZK components are configured
-    // For now, create them with placeholder ZKProofGenerator instances
-    const placeholderZKGenerator = new ZKProofGenerator({
-      wasmBuffer: new ArrayBuffer(0),
-      zkeyBuffer: new ArrayBuffer(0),
-      verificationKey: {}
-    });
+    this.coinSelector = new CoinSelector(config.coinSelection);
 
     this.reshieldBuilder = new ReshieldBuilder(
       this.noteManager,
       this.viewKeyManager,
-      placeholderZKGenerator,
-      config.chainType
+      this.zkProver,
+      config.chainType,
+      this.merkleTreeClient,
+      this.coinSelector
     );
 
     this.withdrawBuilder = new WithdrawBuilder(
       this.noteManager,
       this.viewKeyManager,
-      placeholderZKGenerator,
-      config.chainType
+      this.zkProver,
+      config.chainType,
+      this.merkleTreeClient,
+      this.coinSelector
     );
 
+    // Consolidation merges notes with ordinary reshields, priced like any other reshield and proven
+    // with the bundled circuits, so a merge spends at most their input count
+    this.consolidationService = new ConsolidationService(this.noteManager, {
+      estimateFee: async (notes, asset) => (await this.transactionBuilder.estimateTransactionFees({
+        fromNotes: notes,
+        toAddress: this.walletProvider.getAddress() || '',
+        amount: notes.reduce((sum, note) => sum + note.amount, BigInt(0))
+      }, 'reshield')).totalFee,
+      reshield: plan => this.reshield({ noteIds: plan.noteIds, asset: plan.asset, metadata: { consolidation: true } })
+    }, { ...config.consolidationConfig, maxInputs: MAX_INPUT_NOTES });
+    if (config.enableConsolidation) {
+      this.consolidationService.assertCanMerge();
+    }
+
     // Initialize events
     this.eventMonitor = new EventMonitor({
       chainType: config.chainType,
@@ -189,6 +662,10 @@ export class CipherPaySDK {
       contractAddress: config.contractAddress,
       programId: config.programId
     });
+    this.noteScanner = new NoteScanner(this.noteManager, this.viewKeyManager, this.eventMonitor, this.relayerClient, {
+      store: config.scanCursorStore,
+      storageKey: storageKey('cipherpay_scanner')
+    });
 
     // Initialize Phase 2 enhancements
     if (config.enableStealthAddresses) {
@@ -206,7 +683,158 @@ export class CipherPaySDK {
       this.cacheManager = new CacheManager(config.cacheConfig);
     }
 
-    this.logger.info('CipherPay SDK initialized', { config: { chainType: config.chainType } });
+    // Mark notes spent once the pool reports their nullifier
+    this.eventMonitor.on('note_spent', event => {
+      this.handleNoteSpentEvent(event as NoteSpentEvent).catch(error => {
+        this.logger.error('Failed to process note spent event', {
+          nullifier: (event as NoteSpentEvent).nullifier,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    });
+
+    // Pick up notes paid to us as the pool reports them
+    this.eventMonitor.on('shielded_transfer', event => {
+      this.noteScanner.processEvent(event).catch(error => {
+        this.logger.error('Failed to process shielded transfer event', {
+          commitment: (event as ShieldedTransferEvent).commitment,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    });
+
+    // Promote pending deposit notes once the pool reports their commitment
+    this.eventMonitor.on('shielded_transfer', event => {
+      this.handleDepositEvent(event as ShieldedTransferEvent).catch(error => {
+        this.logger.error('Failed to confirm deposit', {
+          commitment: (event as ShieldedTransferEvent).commitment,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    });
+
+    // Derive note and balance events from note state changes
+    this.lastBalances = this.noteManager.getBalances();
+    this.noteManager.onChange(change => this.handleNoteChange(change));
+
+    this.logger.info('CipherPay SDK constructed', { config: { chainType: config.chainType } });
+  }
+
+  /**
+   * Registers a listener for a wallet activity event
+   * @param event The event to listen for
+   * @param listener Called with the typed event payload
+   */
+  on<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    this.events.on(event, listener);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call
+   * @param event The event to listen for
+   * @param listener Called with the typed event payload
+   */
+  once<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    this.events.once(event, listener);
+  }
+
+  /**
+   * Removes a wallet activity listener
+   * @param event The event
+   * @param listener The listener to remove
+   */
+  off<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Runs the initialization lifecycle: loads circuits, then syncs with the chain.
+   * Subsystems that fail are reported and leave the SDK 'degraded' rather than failing outright.
+   * @returns The state the SDK settled in
+   */
+  async initialize(): Promise<SDKLifecycleState> {
+    if (this.state !== 'uninitialized') {
+      return this.whenReady();
+    }
+
+    const steps: Array<{ state: SDKLifecycleState; subsystem: SDKSubsystem; run: () => Promise<void> }> = [
+      { state: 'loading_circuits', subsystem: 'circuits', run: () => this.loadConfiguredCircuits() },
+      {
+        state: 'syncing',
+        subsystem: 'merkleTree',
+        run: async () => {
+          await this.merkleTreeClient.fetchMerkleRoot();
+        }
+      }
+    ];
+    // Stores that load asynchronously hold the wallet's state until they finish
+    const loading = [
+      { store: this.config.noteStore, ready: this.noteManager.ready },
+      { store: this.config.historyStore, ready: this.transactionHistory.ready },
+      { store: this.config.streamStore, ready: this.streamManager.ready },
+      { store: this.config.escrowStore, ready: this.escrowManager.ready }
+    ].filter(({ store }) => store && !store.loadSync);
+    if (loading.length > 0) {
+      steps.splice(1, 0, {
+        state: 'syncing',
+        subsystem: 'notes',
+        run: async () => {
+          await Promise.all(loading.map(({ ready }) => ready));
+        }
+      });
+    }
+    if (this.config.startEventMonitoring) {
+      steps.push({ state: 'syncing', subsystem: 'eventMonitor', run: async () => this.startBackgroundMonitoring() });
+    }
+
+    for (const [index, step] of steps.entries()) {
+      if (this.state !== step.state) {
+        this.setState(step.state);
+      }
+      const error = await this.initializeSubsystem(step.subsystem, step.run);
+      this.events.emit('syncProgress', {
+        state: step.state,
+        subsystem: step.subsystem,
+        completed: index + 1,
+        total: steps.length,
+        error
+      });
+    }
+
+    // destroy() may have been called while we were initializing
+    if (this.getState() === 'destroyed') {
+      return this.whenReady();
+    }
+
+    this.setState(this.failedSubsystems.length > 0 ? 'degraded' : 'ready');
+    this.noteManager.startExpiryChecks();
+    if (this.config.enableConsolidation) {
+      this.consolidationService.start();
+    }
+    this.resolveReady(this.state);
+    return this.state;
+  }
+
+  /**
+   * Resolves once initialization has finished; rejects if the SDK is destroyed first
+   * @returns The state the SDK settled in ('ready' or 'degraded')
+   */
+  whenReady(): Promise<SDKLifecycleState> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Gets the current lifecycle state
+   */
+  getState(): SDKLifecycleState {
+    return this.state;
+  }
+
+  /**
+   * Gets the subsystems that failed to initialize
+   */
+  getFailedSubsystems(): SubsystemFailure[] {
+    return [...this.failedSubsystems];
   }
 
   /**
@@ -264,18 +892,167 @@ export class CipherPaySDK {
     return this.walletProvider.isConnected();
   }
 
+  /**
+   * Shields funds: creates a blinded note commitment, sends it with the deposit
+   * transaction and tracks the note as pending until the pool reports its commitment
+   * @param request Deposit request
+   * @returns Deposit result
+   */
+  async deposit(request: DepositRequest): Promise<DepositResult> {
+    this.assertReady('deposit');
+    this.assertPersistentNotes('deposit');
+
+    try {
+      this.logger.info('Starting deposit', { amount: request.amount.toString() });
+
+      if (request.amount <= BigInt(0)) {
+        throw ErrorHandler.createValidationError('Deposit amount must be greater than 0', 'amount', {
+          amount: request.amount.toString()
+        });
+      }
+
+      // The pool contract only accepts native value with a deposit; tokens arrive as shielded transfers
+      const asset = await this.assetRegistry.resolve(request.asset);
+      if (!asset.native) {
+        throw ErrorHandler.createValidationError(
+          `Deposits of ${asset.symbol} are not supported; only the native asset can be deposited`,
+          'asset',
+          { asset: asset.id }
+        );
+      }
+
+      const note = await this.noteManager.createNote(
+        request.amount,
+        this.getOwnerAddress(),
+        'deposit',
+        request.metadata,
+        asset.id
+      );
+
+      const poolAddress = this.config.chainType === 'ethereum' ? this.config.contractAddress : this.config.programId;
+      let receipt;
+      try {
+        receipt = await this.walletProvider.signAndSendDepositTx(
+          poolAddress || '',
+          request.amount,
+          note.commitment,
+          this.sealOwnNote(note)
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await this.noteManager.deleteNote(note.id);
+        await this.transactionHistory.record({
+          type: 'deposit',
+          status: 'failed',
+          amount: request.amount,
+          asset: asset.id,
+          error: errorMessage,
+          metadata: request.metadata
+        });
+        this.events.emit('transactionFailed', { type: 'deposit', error: errorMessage });
+        throw error;
+      }
+
+      if (receipt.status !== 'success') {
+        await this.noteManager.deleteNote(note.id);
+        await this.transactionHistory.record({
+          type: 'deposit',
+          status: 'failed',
+          amount: request.amount,
+          asset: asset.id,
+          txHash: receipt.txHash,
+          error: 'Deposit transaction failed',
+          metadata: request.metadata
+        });
+        this.events.emit('transactionFailed', {
+          type: 'deposit',
+          txHash: receipt.txHash,
+          error: 'Deposit transaction failed'
+        });
+        return {
+          success: false,
+          txHash: receipt.txHash,
+          error: 'Deposit transaction failed'
+        };
+      }
+
+      const tracked = await this.noteManager.updateNoteMetadata(note.id, { txHash: receipt.txHash });
+      await this.transactionHistory.record({
+        type: 'deposit',
+        status: 'pending',
+        amount: request.amount,
+        asset: asset.id,
+        txHash: receipt.txHash,
+        outputNotes: [tracked || note],
+        metadata: request.metadata
+      });
+      this.logger.info('Deposit sent, awaiting pool event', { txHash: receipt.txHash, commitment: note.commitment });
+      this.events.emit('transactionSubmitted', {
+        type: 'deposit',
+        txHash: receipt.txHash,
+        inputNotes: [],
+        outputNotes: [tracked || note]
+      });
+
+      return {
+        success: true,
+        txHash: receipt.txHash,
+        note: tracked || note
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Deposit failed', { error: errorMessage, amount: request.amount.toString() });
+
+      return {
+        success: false,
+        error: `Deposit failed: ${errorMessage}`
+      };
+    }
+  }
+
   /**
    * Performs a shielded transfer
    * @param request Transfer request
    * @returns Transfer result
    */
   async transfer(request: TransferRequest): Promise<TransferResult> {
+    this.assertReady('transfer', 'transfer');
+    this.assertPersistentNotes('transfer');
+    return this.runTransfer(request);
+  }
+
+  /**
+   * Runs a transfer, spending the notes chosen by a plan when one is given; notes the plan's
+   * reservation already holds are spent under it
+   */
+  private async runTransfer(
+    request: TransferRequest,
+    plan?: Pick<TransferPlan, 'kind' | 'inputNoteIds' | 'stealthAddress'> & { reservation?: NoteReservation }
+  ): Promise<TransferResult> {
+    let reservedNoteIds: string[] = [];
     try {
       this.logger.info('Starting shielded transfer', { amount: request.amount.toString(), recipient: request.recipientAddress });
 
-      // Generate stealth address if requested
-      let stealthAddress: string | undefined;
-      if (request.stealthAddress && this.stealthAddressManager) {
+      if (request.amount <= BigInt(0)) {
+        throw ErrorHandler.createValidationError('Transfer amount must be greater than 0', 'amount', {
+          amount: request.amount.toString()
+        });
+      }
+      if (!request.recipientAddress) {
+        throw ErrorHandler.createValidationError('A transfer requires a recipient address', 'recipientAddress');
+      }
+
+      // A memo is only delivered inside the note sealed to the recipient
+      if (request.memo !== undefined) {
+        if (!request.recipientEncryptionKey) {
+          throw ErrorHandler.createValidationError('A memo requires the recipient\'s encryption key', 'recipientEncryptionKey');
+        }
+        validateMemo(request.memo);
+      }
+
+      // Generate stealth address if requested (a plan has already resolved it)
+      let stealthAddress = plan?.stealthAddress;
+      if (!plan && request.stealthAddress && this.stealthAddressManager) {
         const stealthResult = this.stealthAddressManager.generateStealthAddress(request.recipientAddress);
         stealthAddress = stealthResult.address;
         request.recipientAddress = stealthAddress;
@@ -293,6 +1070,13 @@ export class CipherPaySDK {
         }, 'user');
 
         if (!complianceStatus.compliant) {
+          this.events.emit('complianceBlocked', {
+            type: 'transfer',
+            amount: request.amount,
+            recipientAddress: request.recipientAddress,
+            violations: complianceStatus.violations,
+            riskScore: complianceStatus.riskScore
+          });
           return {
             success: false,
             error: `Compliance check failed: ${complianceStatus.violations.join(', ')}`,
@@ -301,15 +1085,112 @@ export class CipherPaySDK {
         }
       }
 
-      // For now, return a mock successful result
-      // In a real implementation, this would build and submit the transaction
-      return {
-        success: true,
-        txHash: 'mock-tx-hash',
-        stealthAddress,
-        complianceStatus
-      };
-    } catch (error) {
+      // Select notes of the requested asset and fetch their Merkle paths
+      const asset = (await this.assetRegistry.resolve(request.asset)).id;
+      const inputNotes = plan
+        ? this.resolvePlannedNotes(plan)
+        : this.selectNotesForAmount(request.amount, this.noteManager.getSpendableNotes(asset), request.selectionStrategy);
+      // Hold the inputs until the transaction confirms or fails
+      if (!plan?.reservation) {
+        this.noteManager.reserveNotes(inputNotes.map(note => note.id), { operation: 'transfer' });
+      }
+      reservedNoteIds = inputNotes.map(note => note.id);
+      const merkleProofs = await Promise.all(
+        inputNotes.map(note => this.merkleTreeClient.getMerklePath(note.commitment))
+      );
+
+      const inputTotal = inputNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+      const changeAmount = inputTotal - request.amount;
+
+      // Build the recipient note, which we cannot spend and so do not store, and, if the inputs overshoot, a change note back to us
+      const outputNote = await this.noteManager.buildNote(
+        request.amount,
+        request.recipientAddress,
+        'transfer',
+        { ...request.metadata, role: 'recipient' },
+        asset,
+        request.memo
+      );
+      const changeNote = changeAmount > BigInt(0)
+        ? await this.noteManager.createNote(changeAmount, this.getOwnerAddress(), 'transfer', { role: 'change' }, asset)
+        : undefined;
+      const createdNotes = changeNote ? [outputNote, changeNote] : [outputNote];
+
+      let txHash: string;
+      let proof: ZKProof;
+      try {
+        proof = await this.zkProver.generateTransferProof({
+          inputNotes,
+          outputNote,
+          changeNote,
+          merkleProofs,
+          viewKey: this.viewKeyManager.exportViewKey(),
+          nullifierKey: this.noteManager.getNullifierKey()
+        });
+
+        txHash = await this.relay('transfer', {
+          type: 'shielded_transfer',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNote: request.recipientEncryptionKey
+              ? sealNote(outputNote, request.recipientEncryptionKey)
+              : outputNote.encryptedNote,
+            changeEncryptedNote: changeNote ? this.sealOwnNote(changeNote) : undefined,
+            recipientAddress: request.recipientAddress,
+            amount: request.amount.toString(),
+            tokenAddress: assetTokenAddress(asset)
+          }
+        }, {
+          amount: request.amount,
+          asset,
+          recipientAddress: request.recipientAddress,
+          inputNotes,
+          outputNotes: createdNotes,
+          metadata: request.metadata
+        });
+      } catch (error) {
+        // Nothing was relayed, so the change note never existed on-chain
+        if (changeNote) {
+          await this.noteManager.deleteNote(changeNote.id);
+        }
+        throw error;
+      }
+
+      // Inputs are consumed on submission; the change note stays pending until the relayer confirms
+      for (const note of inputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Spent by submitted transfer', txHash });
+      }
+      if (changeNote) {
+        await this.noteManager.updateNoteMetadata(changeNote.id, { txHash });
+      }
+
+      this.logger.info('Shielded transfer submitted', {
+        txHash,
+        inputNotes: inputNotes.length,
+        change: changeAmount.toString()
+      });
+      this.events.emit('transactionSubmitted', { type: 'transfer', txHash, inputNotes, outputNotes: createdNotes });
+
+      // Only the change note is ours to confirm; the recipient note is tracked by its owner
+      const ownedOutputs = changeNote ? [changeNote] : [];
+      const status = await this.settle('transfer', txHash, inputNotes, ownedOutputs, request.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        stealthAddress,
+        proof,
+        inputNotes,
+        outputNote,
+        changeNote,
+        error: status === 'failed' ? 'Transfer transaction failed on-chain' : undefined,
+        complianceStatus
+      };
+    } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error('Transfer failed', { error: errorMessage, request });
 
@@ -326,6 +1207,16 @@ export class CipherPaySDK {
    * @returns Withdraw result
    */
   async withdraw(request: WithdrawRequest): Promise<WithdrawResult> {
+    this.assertReady('withdraw', 'withdraw');
+    this.assertPersistentNotes('withdraw');
+    return this.runWithdraw(request);
+  }
+
+  /**
+   * Runs a withdrawal, spending the notes chosen by a plan when one is given
+   */
+  private async runWithdraw(request: WithdrawRequest, plan?: WithdrawPlan): Promise<WithdrawResult> {
+    let reservedNoteIds: string[] = [];
     try {
       this.logger.info('Starting withdrawal', { amount: request.amount.toString(), recipient: request.recipientAddress });
 
@@ -341,6 +1232,13 @@ export class CipherPaySDK {
         }, 'user');
 
         if (!complianceStatus.compliant) {
+          this.events.emit('complianceBlocked', {
+            type: 'withdraw',
+            amount: request.amount,
+            recipientAddress: request.recipientAddress,
+            violations: complianceStatus.violations,
+            riskScore: complianceStatus.riskScore
+          });
           return {
             success: false,
             error: `Compliance check failed: ${complianceStatus.violations.join(', ')}`,
@@ -349,14 +1247,84 @@ export class CipherPaySDK {
         }
       }
 
-      // For now, return a mock successful result
-      // In a real implementation, this would build and submit the withdrawal
+      // Select notes, create any change note and generate the withdraw proof
+      const asset = (await this.assetRegistry.resolve(request.asset)).id;
+      const build = await this.withdrawBuilder.buildWithdraw({
+        amount: request.amount,
+        recipientAddress: request.recipientAddress,
+        chainType: this.config.chainType,
+        changeAddress: this.walletProvider.getAddress() || undefined,
+        noteIds: plan?.inputNoteIds,
+        asset,
+        selectionStrategy: request.selectionStrategy
+      });
+
+      if (!build.success || !build.proof || !build.inputNotes) {
+        return {
+          success: false,
+          error: build.error || 'Withdrawal failed: no proof generated',
+          complianceStatus
+        };
+      }
+
+      // The builder reserved the inputs; they stay held until the transaction confirms or fails
+      const inputNotes = build.inputNotes;
+      const changeNote = build.changeNote;
+      reservedNoteIds = inputNotes.map(note => note.id);
+
+      let txHash: string;
+      try {
+        txHash = await this.relay('withdraw', {
+          type: 'withdrawal',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(build.proof.proof),
+            publicInputs: build.proof.publicSignals,
+            changeEncryptedNote: changeNote ? this.sealOwnNote(changeNote) : undefined,
+            recipientAddress: request.recipientAddress,
+            amount: request.amount.toString(),
+            tokenAddress: assetTokenAddress(asset)
+          }
+        }, {
+          amount: request.amount,
+          asset,
+          recipientAddress: request.recipientAddress,
+          inputNotes,
+          outputNotes: changeNote ? [changeNote] : [],
+          metadata: request.metadata
+        });
+      } catch (error) {
+        if (changeNote) {
+          await this.noteManager.deleteNote(changeNote.id);
+        }
+        throw error;
+      }
+
+      for (const note of inputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Spent by submitted withdrawal', txHash });
+      }
+      if (changeNote) {
+        await this.noteManager.updateNoteMetadata(changeNote.id, { txHash });
+      }
+
+      this.logger.info('Withdrawal submitted', { txHash, inputNotes: inputNotes.length });
+
+      const outputNotes = changeNote ? [changeNote] : [];
+      this.events.emit('transactionSubmitted', { type: 'withdraw', txHash, inputNotes, outputNotes });
+      const status = await this.settle('withdraw', txHash, inputNotes, outputNotes, request.waitForConfirmation);
+
       return {
-        success: true,
-        txHash: 'mock-withdraw-tx-hash',
+        success: status !== 'failed',
+        txHash,
+        status,
+        proof: build.proof,
+        inputNotes,
+        changeNote,
+        error: status === 'failed' ? 'Withdrawal transaction failed on-chain' : undefined,
         complianceStatus
       };
     } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error('Withdrawal failed', { error: errorMessage, request });
 
@@ -368,102 +1336,1973 @@ export class CipherPaySDK {
   }
 
   /**
-   * Gets the current balance
-   * @returns Current balance
+   * Plans a transfer without generating a proof or submitting anything
+   * @param request Transfer request
+   * @returns Plan describing the notes, change, fee and compliance outcome; pass it to execute()
    */
-  getBalance(): bigint {
-    return this.noteManager.getBalance();
+  async simulateTransfer(request: TransferRequest): Promise<TransferPlan> {
+    this.assertReady('simulate transfer');
+
+    let recipientAddress = request.recipientAddress;
+    let stealthAddress: string | undefined;
+    if (request.stealthAddress && this.stealthAddressManager) {
+      stealthAddress = this.stealthAddressManager.generateStealthAddress(request.recipientAddress).address;
+      recipientAddress = stealthAddress;
+    }
+
+    const plan = await this.buildPlan('transfer', request, recipientAddress);
+    return { ...plan, kind: 'transfer', request: { ...request }, stealthAddress };
   }
 
   /**
-   * Gets all notes
-   * @returns Array of notes
+   * Plans a withdrawal without generating a proof or submitting anything
+   * @param request Withdraw request
+   * @returns Plan describing the notes, change, fee and compliance outcome; pass it to execute()
    */
-  async getNotes(): Promise<ShieldedNote[]> {
-    return this.noteManager.getNotes();
+  async simulateWithdraw(request: WithdrawRequest): Promise<WithdrawPlan> {
+    this.assertReady('simulate withdraw');
+
+    const plan = await this.buildPlan('withdraw', request, request.recipientAddress);
+    return { ...plan, kind: 'withdraw', request: { ...request } };
   }
 
   /**
-   * Gets spendable notes
-   * @returns Array of spendable notes
+   * Executes a plan from simulateTransfer() or simulateWithdraw(), spending exactly the planned notes.
+   * Fails if the plan has blockers or its notes are no longer spendable.
+   * @param plan Plan to execute
+   * @returns Result of the transfer or withdrawal
+   */
+  async execute(plan: TransferPlan): Promise<TransferResult>;
+  async execute(plan: WithdrawPlan): Promise<WithdrawResult>;
+  async execute(plan: TransactionPlan): Promise<TransferResult | WithdrawResult> {
+    this.assertReady(plan.kind, plan.kind);
+    this.assertPersistentNotes(plan.kind);
+
+    if (plan.blockers.length > 0) {
+      return {
+        success: false,
+        error: `Plan cannot be executed: ${plan.blockers.join('; ')}`
+      };
+    }
+
+    if (plan.kind === 'transfer') {
+      return this.runTransfer({ ...plan.request, recipientAddress: plan.recipientAddress }, plan);
+    }
+    return this.runWithdraw(plan.request, plan);
+  }
+
+  /**
+   * Pays many recipients in one operation. Notes are allocated and reserved for every payment up front
+   * so concurrent payments, in the batch or outside it, never share inputs; proving and relaying then run through an
+   * AsyncProcessor with bounded concurrency. Failed payments are reported, not retried;
+   * pass the report back as `options.resume` to retry only those.
+   * @param recipients Payments to make
+   * @param options Concurrency and resume options
+   * @returns Per-recipient report
    */
-  getSpendableNotes(): ShieldedNote[] {
-    return this.noteManager.getSpendableNotes();
+  async batchTransfer(recipients: BatchRecipient[], options: BatchTransferOptions = {}): Promise<BatchTransferReport> {
+    this.assertReady('batch transfer', 'transfer');
+    this.assertPersistentNotes('batch transfer');
+
+    if (recipients.length === 0) {
+      throw ErrorHandler.createValidationError('Batch transfer requires at least one recipient', 'recipients');
+    }
+
+    const batchId = options.resume?.batchId || `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const results: BatchPaymentResult[] = new Array(recipients.length);
+    const outstanding: number[] = [];
+
+    recipients.forEach((recipient, index) => {
+      const previous = options.resume?.results[index];
+      if (previous && (previous.recipientAddress !== recipient.recipientAddress || previous.amount !== recipient.amount)) {
+        throw ErrorHandler.createValidationError(
+          `Recipient ${index} does not match the batch being resumed`,
+          'recipients',
+          { batchId, index }
+        );
+      }
+
+      if (previous?.status === 'submitted') {
+        results[index] = previous;
+      } else {
+        outstanding.push(index);
+      }
+    });
+
+    this.logger.info('Starting batch transfer', {
+      batchId,
+      recipients: recipients.length,
+      outstanding: outstanding.length
+    });
+
+    // Reserve disjoint input notes for each outstanding payment before any proof is generated
+    type BatchJob = { index: number; inputNoteIds: string[]; reservation: NoteReservation };
+    const jobs: BatchJob[] = [];
+    for (const index of outstanding) {
+      const { recipientAddress, amount } = recipients[index];
+      try {
+        const asset = (await this.assetRegistry.resolve(recipients[index].asset)).id;
+        const inputNotes = this.selectNotesForAmount(amount, this.noteManager.getSpendableNotes(asset));
+        const inputNoteIds = inputNotes.map(note => note.id);
+        const reservation = this.noteManager.reserveNotes(inputNoteIds, { operation: 'batch_transfer' });
+        jobs.push({ index, inputNoteIds, reservation });
+      } catch (error) {
+        results[index] = {
+          index,
+          recipientAddress,
+          amount,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Note selection failed'
+        };
+      }
+    }
+
+    // No automatic retries or timeouts: a payment may already be on-chain when either would fire
+    const processor = new AsyncProcessor({
+      maxWorkers: options.concurrency || 4,
+      maxQueueSize: Math.max(jobs.length, 1),
+      maxRetries: 0,
+      jobTimeout: 0,
+      enablePriority: false,
+      enableMetrics: false
+    });
+    processor.registerHandler<BatchJob, TransferResult>('batch_transfer', job => {
+      const recipient = recipients[job.data.index];
+      return this.runTransfer(
+        {
+          amount: recipient.amount,
+          recipientAddress: recipient.recipientAddress,
+          asset: recipient.asset,
+          complianceCheck: options.complianceCheck,
+          metadata: { ...recipient.metadata, batchId, batchIndex: job.data.index }
+        },
+        { kind: 'transfer', inputNoteIds: job.data.inputNoteIds, reservation: job.data.reservation }
+      );
+    });
+
+    try {
+      const jobIds = await processor.submitJobs(jobs.map(job => ({ type: 'batch_transfer', data: job })));
+      const jobResults = await Promise.all(jobIds.map(jobId => processor.waitForJob<TransferResult>(jobId)));
+
+      jobResults.forEach((jobResult, position) => {
+        const { index, inputNoteIds } = jobs[position];
+        const transfer = jobResult.data;
+        const submitted = jobResult.success && !!transfer?.success;
+        results[index] = {
+          index,
+          recipientAddress: recipients[index].recipientAddress,
+          amount: recipients[index].amount,
+          status: submitted ? 'submitted' : 'failed',
+          txHash: transfer?.txHash,
+          inputNoteIds,
+          error: submitted ? undefined : transfer?.error || jobResult.error
+        };
+      });
+    } finally {
+      await processor.close();
+      // Free the notes of payments that never submitted, unless something else holds them by now
+      for (const job of jobs) {
+        if (results[job.index]?.status !== 'submitted') {
+          this.noteManager.releaseNotes(
+            job.inputNoteIds.filter(id => this.noteManager.getReservation(id) === job.reservation)
+          );
+        }
+      }
+    }
+
+    const submitted = results.filter(result => result.status === 'submitted').length;
+    const report: BatchTransferReport = {
+      batchId,
+      results,
+      submitted,
+      failed: results.length - submitted,
+      complete: submitted === results.length
+    };
+
+    this.logger.info('Batch transfer finished', {
+      batchId,
+      submitted: report.submitted,
+      failed: report.failed
+    });
+
+    return report;
   }
 
   /**
-   * Configures ZK components with circuit files (browser-compatible)
+   * Reshields notes: spends them and re-issues their value to the owner under fresh commitments.
+   * Used to refresh old notes; a proof spends at most MAX_INPUT_NOTES notes, so the bundled circuits cannot merge notes.
+   * @param request Reshield request
+   * @returns Reshield result
    */
-  async configureZKComponents(circuitUrls: Record<string, {
-    wasmUrl: string;
-    zkeyUrl: string;
-    verifierUrl: string;
-  }>): Promise<void> {
+  async reshield(request: ReshieldRequest): Promise<ReshieldResult> {
+    this.assertReady('reshield', 'transfer');
+    this.assertPersistentNotes('reshield');
+
+    let reservedNoteIds: string[] = [];
     try {
-      // Configure ZKProver with circuit URLs
-      this.zkProver = await ZKProver.fromUrls(circuitUrls);
-
-      // Configure ZKProofGenerator with the first circuit (assuming they're compatible)
-      const firstCircuit = Object.values(circuitUrls)[0];
-      if (firstCircuit) {
-        this.zkProofGenerator = await ZKProofGenerator.fromUrls({
-          wasmUrl: firstCircuit.wasmUrl,
-          zkeyUrl: firstCircuit.zkeyUrl,
-          verificationKeyUrl: firstCircuit.verifierUrl
+      const ownerAddress = this.getOwnerAddress();
+      const spendable = this.noteManager.getSpendableNotes();
+      const requestedNotes = (request.noteIds || [])
+        .map(id => spendable.find(candidate => candidate.id === id))
+        .filter((note): note is ExtendedNote => !!note);
+
+      // Without an explicit asset, reshield the asset of the requested notes
+      const asset = request.asset !== undefined
+        ? (await this.assetRegistry.resolve(request.asset)).id
+        : requestedNotes.length > 0 ? noteAsset(requestedNotes[0]) : NATIVE_ASSET;
+
+      let amount = request.amount;
+      if (amount === undefined) {
+        if (!request.noteIds || request.noteIds.length === 0) {
+          throw ErrorHandler.createValidationError('Reshield requires an amount or a list of note ids', 'amount');
+        }
+        amount = requestedNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+      }
+      if (amount <= BigInt(0)) {
+        throw ErrorHandler.createValidationError('Reshield amount must be greater than 0', 'amount', {
+          amount: amount.toString()
+        });
+      }
+
+      this.logger.info('Starting reshield', { amount: amount.toString(), notes: request.noteIds?.length });
+
+      // Select notes, create the output and change notes and generate the reshield proof
+      const build = await this.reshieldBuilder.buildReshield({
+        amount,
+        chainType: this.config.chainType,
+        ownerAddress,
+        noteIds: request.noteIds,
+        asset,
+        selectionStrategy: request.selectionStrategy
+      });
+
+      if (!build.success || !build.proof || !build.inputNotes || !build.outputNote) {
+        return {
+          success: false,
+          error: build.error || 'Reshield failed: no proof generated'
+        };
+      }
+
+      // The builder reserved the inputs; they stay held until the transaction confirms or fails
+      const inputNotes = build.inputNotes;
+      const outputNotes = build.changeNote ? [build.outputNote, build.changeNote] : [build.outputNote];
+      reservedNoteIds = inputNotes.map(note => note.id);
+
+      let txHash: string;
+      try {
+        txHash = await this.relay('reshield', {
+          type: 'reshield',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(build.proof.proof),
+            publicInputs: build.proof.publicSignals,
+            encryptedNotes: outputNotes.map(note => this.sealOwnNote(note)),
+            amount: amount.toString(),
+            tokenAddress: assetTokenAddress(asset)
+          }
+        }, {
+          amount,
+          asset,
+          inputNotes,
+          outputNotes,
+          metadata: request.metadata
         });
+      } catch (error) {
+        for (const note of outputNotes) {
+          await this.noteManager.deleteNote(note.id);
+        }
+        throw error;
       }
 
-      this.logger.info('ZK components configured successfully', { circuitCount: Object.keys(circuitUrls).length });
+      for (const note of inputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Spent by submitted reshield', txHash });
+      }
+      for (const note of outputNotes) {
+        await this.noteManager.updateNoteMetadata(note.id, { ...request.metadata, txHash });
+      }
+
+      this.logger.info('Reshield submitted', { txHash, inputNotes: inputNotes.length });
+
+      this.events.emit('transactionSubmitted', { type: 'reshield', txHash, inputNotes, outputNotes });
+      const status = await this.settle('reshield', txHash, inputNotes, outputNotes, request.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        proof: build.proof,
+        inputNotes,
+        outputNote: build.outputNote,
+        changeNote: build.changeNote,
+        error: status === 'failed' ? 'Reshield transaction failed on-chain' : undefined
+      };
     } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error('Failed to configure ZK components', { error: errorMessage });
-      throw error;
+      this.logger.error('Reshield failed', { error: errorMessage, request });
+
+      return {
+        success: false,
+        error: `Reshield failed: ${errorMessage}`
+      };
     }
   }
 
   /**
-   * Starts event monitoring
+   * Divides one note between two outputs, such as a revenue share or marketplace fee, with a single zkSplit proof.
+   * zkSplit creates exactly two notes, so a single output takes change and two outputs must use the whole note;
+   * more than two outputs, or a note above SPLIT_MAX_AMOUNT, are rejected before any note is created.
+   * @param request Outputs, fee and the note to split
+   * @returns Split result
    */
-  async startEventMonitoring(): Promise<void> {
-    await this.eventMonitor.startMonitoring();
+  async splitPayment(request: SplitPaymentRequest): Promise<SplitPaymentResult> {
+    this.assertReady('split payment', 'zkSplit');
+    this.assertPersistentNotes('split payment');
+
+    let reservedNoteIds: string[] = [];
+    try {
+      const fee = request.fee ?? BigInt(0);
+      this.validateSplitRequest(request, fee);
+
+      const ownerAddress = this.getOwnerAddress();
+      const spendable = this.noteManager.getSpendableNotes();
+      const requestedNote = request.noteId ? spendable.find(note => note.id === request.noteId) : undefined;
+      if (request.noteId && !requestedNote) {
+        throw ErrorHandler.createValidationError(`Note ${request.noteId} is not spendable`, 'noteId', {
+          noteId: request.noteId
+        });
+      }
+
+      // Without an explicit asset, split in the asset of the requested note
+      const asset = request.asset !== undefined
+        ? (await this.assetRegistry.resolve(request.asset)).id
+        : requestedNote ? noteAsset(requestedNote) : NATIVE_ASSET;
+      const outputTotal = request.outputs.reduce((sum, output) => sum + output.amount, BigInt(0));
+      const required = outputTotal + fee;
+
+      let inputNote: ExtendedNote;
+      if (requestedNote) {
+        if (noteAsset(requestedNote) !== asset) {
+          throw ErrorHandler.createValidationError(
+            `Note ${requestedNote.id} holds ${noteAsset(requestedNote)}, not ${asset}`,
+            'noteId',
+            { noteId: requestedNote.id, asset }
+          );
+        }
+        if (requestedNote.amount < required) {
+          throw ErrorHandler.createInsufficientFundsError(required.toString(), requestedNote.amount.toString(), {
+            operation: 'split_payment',
+            noteId: requestedNote.id
+          });
+        }
+        if (request.outputs.length < SPLIT_OUTPUT_COUNT && requestedNote.amount - required > SPLIT_MAX_AMOUNT) {
+          throw ErrorHandler.createValidationError(
+            `Note ${requestedNote.id} would leave more change than the zkSplit limit of 2^32`,
+            'noteId',
+            { noteId: requestedNote.id, change: (requestedNote.amount - required).toString(), max: SPLIT_MAX_AMOUNT.toString() }
+          );
+        }
+        if (!this.fitsSplit(requestedNote.amount, request.outputs.length, required)) {
+          throw ErrorHandler.createValidationError(
+            `Note ${requestedNote.id} must leave change for a single output and none for two`,
+            'noteId',
+            { noteId: requestedNote.id, outputs: request.outputs.length, required: required.toString() }
+          );
+        }
+        inputNote = requestedNote;
+      } else {
+        // The circuit spends a single note, so pick the smallest one that covers everything
+        const covering = this.noteManager.getSpendableNotes(asset)
+          .filter(note => note.amount >= required)
+          .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? 1 : -1));
+        if (covering.length === 0) {
+          const largest = this.noteManager.getSpendableNotes(asset)
+            .reduce((max, note) => (note.amount > max ? note.amount : max), BigInt(0));
+          throw ErrorHandler.createInsufficientFundsError(required.toString(), largest.toString(), {
+            operation: 'split_payment',
+            reason: 'no single note covers the split'
+          });
+        }
+        const fitting = covering.find(note => this.fitsSplit(note.amount, request.outputs.length, required));
+        if (!fitting) {
+          throw ErrorHandler.createValidationError(
+            request.outputs.length < SPLIT_OUTPUT_COUNT
+              ? 'No spendable note leaves change within the zkSplit limit of 2^32'
+              : `No spendable note splits into exactly ${SPLIT_OUTPUT_COUNT} notes; two outputs need a note of exactly ${required}`,
+            'outputs',
+            { outputs: request.outputs.length, required: required.toString() }
+          );
+        }
+        inputNote = fitting;
+      }
+
+      this.logger.info('Starting split payment', {
+        outputs: request.outputs.length,
+        total: outputTotal.toString(),
+        fee: fee.toString()
+      });
+
+      this.noteManager.reserveNotes([inputNote.id], { operation: 'split' });
+      reservedNoteIds = [inputNote.id];
+      const merkleProof = await this.merkleTreeClient.getMerklePath(inputNote.commitment);
+
+      const outputNotes: ExtendedNote[] = [];
+      // Shares paid to other wallets are built but not stored, since we cannot spend them
+      for (const [index, output] of request.outputs.entries()) {
+        const build = output.recipientAddress === ownerAddress ? 'createNote' : 'buildNote';
+        outputNotes.push(await this.noteManager[build](
+          output.amount,
+          output.recipientAddress,
+          'transfer',
+          { ...request.metadata, ...output.metadata, role: 'split', splitIndex: index },
+          asset
+        ));
+      }
+      const changeAmount = inputNote.amount - required;
+      const changeNote = request.outputs.length < SPLIT_OUTPUT_COUNT
+        ? await this.noteManager.createNote(changeAmount, ownerAddress, 'transfer', { role: 'change' }, asset)
+        : undefined;
+      const createdNotes = changeNote ? [...outputNotes, changeNote] : outputNotes;
+      const ownedOutputs = createdNotes.filter(note => note.recipientAddress === ownerAddress);
+
+      let txHash: string;
+      let proof: ZKProof;
+      try {
+        const splitSecret = randomFieldHex();
+        const splitCommitment = computeSplitCommitment({
+          inputCommitment: inputNote.commitment,
+          outputCommitments: createdNotes.map(note => note.commitment),
+          salt: splitSecret
+        });
+        proof = await this.zkProver.generateSplitProof({
+          inputNote,
+          outputNotes: createdNotes,
+          fee,
+          splitSecret,
+          splitCommitment,
+          merkleRoot: merkleProof.root
+        });
+
+        txHash = await this.relay('split', {
+          type: 'split',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNotes: createdNotes.map(note =>
+              note.recipientAddress === ownerAddress ? this.sealOwnNote(note) : note.encryptedNote
+            ),
+            amount: outputTotal.toString(),
+            fee: fee.toString(),
+            tokenAddress: assetTokenAddress(asset)
+          }
+        }, {
+          amount: outputTotal,
+          asset,
+          inputNotes: [inputNote],
+          outputNotes: createdNotes,
+          metadata: { ...request.metadata, fee: fee.toString() }
+        });
+      } catch (error) {
+        for (const note of ownedOutputs) {
+          await this.noteManager.deleteNote(note.id);
+        }
+        throw error;
+      }
+
+      await this.noteManager.updateNoteStatus(inputNote.id, 'spent', { reason: 'Spent by submitted split', txHash });
+      for (const note of ownedOutputs) {
+        await this.noteManager.updateNoteMetadata(note.id, { txHash });
+      }
+
+      this.logger.info('Split payment submitted', { txHash, outputs: createdNotes.length });
+      this.events.emit('transactionSubmitted', { type: 'split', txHash, inputNotes: [inputNote], outputNotes: createdNotes });
+
+      // Only the change and shares paid to us are ours to confirm; each other share is tracked by its owner
+      const status = await this.settle('split', txHash, [inputNote], ownedOutputs, request.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        proof,
+        inputNote,
+        outputNotes,
+        changeNote,
+        error: status === 'failed' ? 'Split transaction failed on-chain' : undefined
+      };
+    } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Split payment failed', { error: errorMessage, outputs: request.outputs.length });
+
+      return {
+        success: false,
+        error: `Split payment failed: ${errorMessage}`
+      };
+    }
   }
 
   /**
-   * Stops event monitoring
+   * Starts a payment stream that vests `rate` per second to the recipient between `start` and `end`.
+   * The full amount is escrowed up front; the recipient claims what has vested with claimStream().
+   * @param recipient Address the stream pays
+   * @param rate Amount vested per second, in base units
+   * @param start When vesting starts (unix seconds or a Date)
+   * @param end When the stream is fully vested (unix seconds or a Date)
+   * @param options Asset, confirmation and metadata options
+   * @returns The stream, to share with the recipient, and the funding transaction
    */
-  stopEventMonitoring(): void {
-    this.eventMonitor.stopMonitoring();
+  async createStream(
+    recipient: string,
+    rate: bigint,
+    start: number | Date,
+    end: number | Date,
+    options: CreateStreamOptions = {}
+  ): Promise<CreateStreamResult> {
+    this.assertReady('create stream', 'transfer');
+    this.assertPersistentNotes('create stream');
+
+    let reservedNoteIds: string[] = [];
+    try {
+      const ownerAddress = this.getOwnerAddress();
+      const asset = (await this.assetRegistry.resolve(options.asset)).id;
+      const stream = await this.streamManager.create({
+        sender: ownerAddress,
+        recipient,
+        asset,
+        rate,
+        startTime: this.toUnixTime(start),
+        endTime: this.toUnixTime(end)
+      });
+
+      this.logger.info('Creating payment stream', {
+        streamId: stream.id,
+        recipient,
+        rate: rate.toString(),
+        total: stream.totalAmount.toString()
+      });
+
+      let inputNotes: ExtendedNote[];
+      let merkleProofs;
+      try {
+        inputNotes = this.selectNotesForAmount(stream.totalAmount, this.noteManager.getSpendableNotes(asset));
+        this.noteManager.reserveNotes(inputNotes.map(note => note.id), { operation: 'stream_create' });
+        reservedNoteIds = inputNotes.map(note => note.id);
+        merkleProofs = await Promise.all(
+          inputNotes.map(note => this.merkleTreeClient.getMerklePath(note.commitment))
+        );
+      } catch (error) {
+        await this.streamManager.deleteStream(stream.id);
+        throw error;
+      }
+
+      const inputTotal = inputNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+      const changeAmount = inputTotal - stream.totalAmount;
+
+      // The escrow note holds the whole stream; the pool releases it to the recipient as it vests, so we do not store it
+      const escrowNote = await this.noteManager.buildNote(
+        stream.totalAmount,
+        recipient,
+        'transfer',
+        { ...options.metadata, role: 'stream_escrow', streamId: stream.id },
+        asset
+      );
+      const changeNote = changeAmount > BigInt(0)
+        ? await this.noteManager.createNote(changeAmount, ownerAddress, 'transfer', { role: 'change' }, asset)
+        : undefined;
+      const createdNotes = changeNote ? [escrowNote, changeNote] : [escrowNote];
+
+      let txHash: string;
+      let proof: ZKProof;
+      try {
+        proof = await this.zkProver.generateTransferProof({
+          inputNotes,
+          outputNote: escrowNote,
+          changeNote,
+          merkleProofs,
+          viewKey: this.viewKeyManager.exportViewKey(),
+          nullifierKey: this.noteManager.getNullifierKey()
+        });
+
+        txHash = await this.relay('stream_create', {
+          type: 'stream_create',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNote: escrowNote.encryptedNote,
+            changeEncryptedNote: changeNote ? this.sealOwnNote(changeNote) : undefined,
+            recipientAddress: recipient,
+            amount: stream.totalAmount.toString(),
+            tokenAddress: assetTokenAddress(asset),
+            streamCommitment: stream.commitment
+          }
+        }, {
+          amount: stream.totalAmount,
+          asset,
+          recipientAddress: recipient,
+          inputNotes,
+          outputNotes: createdNotes,
+          metadata: { ...options.metadata, streamId: stream.id }
+        });
+      } catch (error) {
+        if (changeNote) {
+          await this.noteManager.deleteNote(changeNote.id);
+        }
+        await this.streamManager.deleteStream(stream.id);
+        throw error;
+      }
+
+      for (const note of inputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Spent by submitted stream funding', txHash });
+      }
+      if (changeNote) {
+        await this.noteManager.updateNoteMetadata(changeNote.id, { txHash });
+      }
+      const funded = (await this.streamManager.updateStream(stream.id, { txHash }))!;
+
+      this.logger.info('Payment stream submitted', { txHash, streamId: stream.id });
+      this.events.emit('transactionSubmitted', { type: 'stream_create', txHash, inputNotes, outputNotes: createdNotes });
+
+      // The escrow note is released to the recipient; only the change is ours to confirm
+      const ownedOutputs = changeNote ? [changeNote] : [];
+      const status = await this.settle('stream_create', txHash, inputNotes, ownedOutputs, options.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        stream: funded,
+        proof,
+        inputNotes,
+        changeNote,
+        error: status === 'failed' ? 'Stream funding transaction failed on-chain' : undefined
+      };
+    } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Create stream failed', { error: errorMessage, recipient });
+
+      return {
+        success: false,
+        error: `Create stream failed: ${errorMessage}`
+      };
+    }
   }
 
   /**
-   * Generates a compliance report
-   * @param startTime Start timestamp
-   * @param endTime End timestamp
-   * @returns Compliance report
+   * Claims everything a stream has vested since the last claim, proving the vested amount with zkStream.
+   * Claims of the same stream run one after another, so each sees the amount the previous one claimed.
+   * @param stream Id of a known stream, or the stream record shared by its sender
+   * @param options Confirmation and metadata options
+   * @returns The claimed amount and the note it was released to
    */
-  generateComplianceReport(startTime: number, endTime: number): any {
-    if (!this.complianceManager) {
-      throw new Error('Compliance manager not enabled');
+  async claimStream(stream: string | PaymentStream, options: SettlementOptions = {}): Promise<ClaimStreamResult> {
+    this.assertReady('claim stream', 'zkStream');
+    this.assertPersistentNotes('claim stream');
+
+    const streamId = typeof stream === 'string' ? stream : stream.id;
+    const previous = this.streamClaims.get(streamId);
+    const claim = (previous || Promise.resolve()).then(() => this.runStreamClaim(stream, options));
+    this.streamClaims.set(streamId, claim);
+    try {
+      return await claim;
+    } finally {
+      if (this.streamClaims.get(streamId) === claim) {
+        this.streamClaims.delete(streamId);
+      }
     }
-    return this.complianceManager.generateComplianceReport(startTime, endTime);
   }
 
   /**
-   * Gets cache statistics
-   * @returns Cache statistics
+   * Claims a stream once no other claim of it is running
    */
-  getCacheStats(): any {
-    if (!this.cacheManager) {
-      throw new Error('Cache manager not enabled');
+  private async runStreamClaim(stream: string | PaymentStream, options: SettlementOptions): Promise<ClaimStreamResult> {
+    try {
+      const record = typeof stream === 'string'
+        ? this.requireStream(stream)
+        : await this.streamManager.importStream(stream);
+
+      const ownerAddress = this.getOwnerAddress();
+      if (record.recipient !== ownerAddress) {
+        throw ErrorHandler.createValidationError(`Stream ${record.id} pays ${record.recipient}, not this wallet`, 'recipient', {
+          streamId: record.id
+        });
+      }
+
+      const now = currentStreamTime();
+      if (now <= record.startTime) {
+        throw ErrorHandler.createValidationError(`Stream ${record.id} has not started vesting`, 'startTime', {
+          streamId: record.id,
+          startTime: record.startTime
+        });
+      }
+
+      const provenAt = this.streamManager.getProofTime(record, now);
+      const amount = this.streamManager.getVestedAmount(record, provenAt) - await this.getClaimedStreamAmount(record.id);
+      if (amount <= BigInt(0)) {
+        throw ErrorHandler.createValidationError(`Stream ${record.id} has nothing left to claim`, 'amount', {
+          streamId: record.id
+        });
+      }
+
+      this.logger.info('Claiming payment stream', { streamId: record.id, amount: amount.toString() });
+
+      const proof = await this.zkProver.generateStreamProof({
+        streamId: computeStreamId(record),
+        streamSecret: record.salt,
+        streamCommitment: record.commitment,
+        recipient: record.recipient,
+        startTime: record.startTime,
+        endTime: record.endTime,
+        currentTime: provenAt,
+        totalAmount: record.totalAmount,
+        merkleRoot: await this.merkleTreeClient.fetchMerkleRoot()
+      });
+
+      const outputNote = await this.noteManager.createNote(
+        amount,
+        ownerAddress,
+        'transfer',
+        { ...options.metadata, role: 'stream_claim', streamId: record.id },
+        record.asset
+      );
+
+      let txHash: string;
+      try {
+        txHash = await this.relay('stream_claim', {
+          type: 'stream_claim',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNote: this.sealOwnNote(outputNote),
+            recipientAddress: ownerAddress,
+            amount: amount.toString(),
+            tokenAddress: assetTokenAddress(record.asset),
+            streamCommitment: record.commitment
+          }
+        }, {
+          amount,
+          asset: record.asset,
+          recipientAddress: ownerAddress,
+          outputNotes: [outputNote],
+          metadata: { ...options.metadata, streamId: record.id }
+        });
+      } catch (error) {
+        await this.noteManager.deleteNote(outputNote.id);
+        throw error;
+      }
+
+      await this.noteManager.updateNoteMetadata(outputNote.id, { txHash });
+
+      this.logger.info('Stream claim submitted', { txHash, streamId: record.id });
+      this.events.emit('transactionSubmitted', { type: 'stream_claim', txHash, inputNotes: [], outputNotes: [outputNote] });
+
+      // A failed claim expires its note, which returns the amount to the claimable balance
+      const status = await this.settle('stream_claim', txHash, [], [outputNote], options.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        stream: record,
+        amount,
+        proof,
+        outputNote,
+        error: status === 'failed' ? 'Stream claim failed on-chain' : undefined
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Claim stream failed', { error: errorMessage });
+
+      return {
+        success: false,
+        error: `Claim stream failed: ${errorMessage}`
+      };
     }
-    return this.cacheManager.getStats();
   }
 
   /**
-   * Destroys the SDK and cleans up resources
+   * Cancels an outgoing stream, returning the unvested amount to the sender.
+   * What has already vested stays claimable by the recipient.
+   * @param streamId Id of a stream this wallet pays
+   * @param options Confirmation and metadata options
+   * @returns The refunded amount and the note it was returned to
    */
-  destroy(): void {
+  async cancelStream(streamId: string, options: SettlementOptions = {}): Promise<CancelStreamResult> {
+    this.assertReady('cancel stream', 'zkStream');
+    this.assertPersistentNotes('cancel stream');
+
+    try {
+      const record = this.requireStream(streamId);
+      if (record.role !== 'sender') {
+        throw ErrorHandler.createValidationError(`Only the sender can cancel stream ${streamId}`, 'streamId', { streamId });
+      }
+      if (record.cancelledAt !== undefined) {
+        throw ErrorHandler.createValidationError(`Stream ${streamId} is already cancelled`, 'streamId', { streamId });
+      }
+
+      const now = currentStreamTime();
+      if (now >= record.endTime) {
+        throw ErrorHandler.createValidationError(`Stream ${streamId} has fully vested`, 'endTime', {
+          streamId,
+          endTime: record.endTime
+        });
+      }
+
+      // zkStream only proves times after the start, so a stream cancelled before it starts vests its first second
+      const cancelledAt = Math.max(now, record.startTime + 1);
+      const refundAmount = record.totalAmount - this.streamManager.getVestedAmount(record, cancelledAt);
+      const ownerAddress = this.getOwnerAddress();
+
+      this.logger.info('Cancelling payment stream', { streamId, refund: refundAmount.toString() });
+
+      const proof = await this.zkProver.generateStreamProof({
+        streamId: computeStreamId(record),
+        streamSecret: record.salt,
+        streamCommitment: record.commitment,
+        recipient: record.recipient,
+        startTime: record.startTime,
+        endTime: record.endTime,
+        currentTime: cancelledAt,
+        totalAmount: record.totalAmount,
+        merkleRoot: await this.merkleTreeClient.fetchMerkleRoot()
+      });
+
+      const refundNote = await this.noteManager.createNote(
+        refundAmount,
+        ownerAddress,
+        'transfer',
+        { ...options.metadata, role: 'stream_refund', streamId },
+        record.asset
+      );
+
+      let txHash: string;
+      try {
+        txHash = await this.relay('stream_cancel', {
+          type: 'stream_cancel',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNote: this.sealOwnNote(refundNote),
+            recipientAddress: ownerAddress,
+            amount: refundAmount.toString(),
+            tokenAddress: assetTokenAddress(record.asset),
+            streamCommitment: record.commitment
+          }
+        }, {
+          amount: refundAmount,
+          asset: record.asset,
+          recipientAddress: ownerAddress,
+          outputNotes: [refundNote],
+          metadata: { ...options.metadata, streamId }
+        });
+      } catch (error) {
+        await this.noteManager.deleteNote(refundNote.id);
+        throw error;
+      }
+
+      await this.noteManager.updateNoteMetadata(refundNote.id, { txHash });
+      // Reopened by handleNoteChange if the refund note expires because the cancellation failed
+      const cancelled = (await this.streamManager.updateStream(streamId, { cancelledAt }))!;
+
+      this.logger.info('Stream cancellation submitted', { txHash, streamId });
+      this.events.emit('transactionSubmitted', { type: 'stream_cancel', txHash, inputNotes: [], outputNotes: [refundNote] });
+
+      const status = await this.settle('stream_cancel', txHash, [], [refundNote], options.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        stream: cancelled,
+        refundAmount,
+        proof,
+        refundNote,
+        error: status === 'failed' ? 'Stream cancellation failed on-chain' : undefined
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Cancel stream failed', { error: errorMessage, streamId });
+
+      return {
+        success: false,
+        error: `Cancel stream failed: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * Lists the streams this wallet pays or receives
+   * @param filter Criteria streams must match
+   * @returns Matching streams, oldest first
+   */
+  getStreams(filter?: StreamFilter): PaymentStream[] {
+    return this.streamManager.getStreams(filter);
+  }
+
+  /**
+   * Gets how much of an incoming stream has vested but not yet been claimed
+   * @param streamId Stream id
+   * @returns Claimable amount in base units
+   */
+  async getClaimableStreamAmount(streamId: string): Promise<bigint> {
+    const record = this.requireStream(streamId);
+    const claimable = this.streamManager.getVestedAmount(record, this.streamManager.getProofTime(record))
+      - await this.getClaimedStreamAmount(streamId);
+    return claimable > BigInt(0) ? claimable : BigInt(0);
+  }
+
+  /**
+   * Locks funds for the recipient until a condition holds. The sender can reclaim them once `timeout` passes.
+   * @param recipient Address the funds are released to
+   * @param amount Amount to lock, in base units
+   * @param condition Deadline, oracle attestation or hashlock that releases the funds
+   * @param timeout When the sender may reclaim unreleased funds (unix seconds or a Date)
+   * @param options Asset, confirmation and metadata options
+   * @returns The escrow, to share with the recipient, and the funding transaction
+   */
+  async createEscrow(
+    recipient: string,
+    amount: bigint,
+    condition: EscrowCondition,
+    timeout: number | Date,
+    options: CreateEscrowOptions = {}
+  ): Promise<CreateEscrowResult> {
+    this.assertReady('create escrow', 'transfer');
+    this.assertPersistentNotes('create escrow');
+
+    let reservedNoteIds: string[] = [];
+    try {
+      const ownerAddress = this.getOwnerAddress();
+      const asset = (await this.assetRegistry.resolve(options.asset)).id;
+      const escrow = await this.escrowManager.create({
+        sender: ownerAddress,
+        recipient,
+        asset,
+        amount,
+        condition,
+        timeout: this.toUnixTime(timeout)
+      });
+
+      this.logger.info('Creating escrow', { escrowId: escrow.id, recipient, condition: condition.type, amount: amount.toString() });
+
+      let inputNotes: ExtendedNote[];
+      let merkleProofs;
+      try {
+        inputNotes = this.selectNotesForAmount(amount, this.noteManager.getSpendableNotes(asset));
+        this.noteManager.reserveNotes(inputNotes.map(note => note.id), { operation: 'escrow_create' });
+        reservedNoteIds = inputNotes.map(note => note.id);
+        merkleProofs = await Promise.all(
+          inputNotes.map(note => this.merkleTreeClient.getMerklePath(note.commitment))
+        );
+      } catch (error) {
+        await this.escrowManager.deleteEscrow(escrow.id);
+        throw error;
+      }
+
+      const inputTotal = inputNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+      const changeAmount = inputTotal - amount;
+
+      // The conditional note is released to the recipient or refunded, never spent by us directly, so we do not store it
+      const escrowNote = await this.noteManager.buildNote(
+        amount,
+        recipient,
+        'transfer',
+        { ...options.metadata, role: 'escrow', escrowId: escrow.id },
+        asset
+      );
+      const changeNote = changeAmount > BigInt(0)
+        ? await this.noteManager.createNote(changeAmount, ownerAddress, 'transfer', { role: 'change' }, asset)
+        : undefined;
+      const createdNotes = changeNote ? [escrowNote, changeNote] : [escrowNote];
+
+      let txHash: string;
+      let proof: ZKProof;
+      try {
+        proof = await this.zkProver.generateTransferProof({
+          inputNotes,
+          outputNote: escrowNote,
+          changeNote,
+          merkleProofs,
+          viewKey: this.viewKeyManager.exportViewKey(),
+          nullifierKey: this.noteManager.getNullifierKey()
+        });
+
+        txHash = await this.relay('escrow_create', {
+          type: 'escrow_create',
+          chainType: this.config.chainType,
+          data: {
+            proof: JSON.stringify(proof.proof),
+            publicInputs: proof.publicSignals,
+            encryptedNote: escrowNote.encryptedNote,
+            changeEncryptedNote: changeNote ? this.sealOwnNote(changeNote) : undefined,
+            recipientAddress: recipient,
+            amount: amount.toString(),
+            tokenAddress: assetTokenAddress(asset),
+            escrowCommitment: escrow.commitment
+          }
+        }, {
+          amount,
+          asset,
+          recipientAddress: recipient,
+          inputNotes,
+          outputNotes: createdNotes,
+          metadata: { ...options.metadata, escrowId: escrow.id }
+        });
+      } catch (error) {
+        if (changeNote) {
+          await this.noteManager.deleteNote(changeNote.id);
+        }
+        await this.escrowManager.deleteEscrow(escrow.id);
+        throw error;
+      }
+
+      for (const note of inputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Spent by submitted escrow funding', txHash });
+      }
+      if (changeNote) {
+        await this.noteManager.updateNoteMetadata(changeNote.id, { txHash });
+      }
+      const funded = (await this.escrowManager.updateEscrow(escrow.id, { txHash }))!;
+
+      this.logger.info('Escrow submitted', { txHash, escrowId: escrow.id });
+      this.events.emit('transactionSubmitted', { type: 'escrow_create', txHash, inputNotes, outputNotes: createdNotes });
+
+      const ownedOutputs = changeNote ? [changeNote] : [];
+      const status = await this.settle('escrow_create', txHash, inputNotes, ownedOutputs, options.waitForConfirmation);
+
+      return {
+        success: status !== 'failed',
+        txHash,
+        status,
+        escrow: funded,
+        proof,
+        inputNotes,
+        changeNote,
+        error: status === 'failed' ? 'Escrow funding transaction failed on-chain' : undefined
+      };
+    } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Create escrow failed', { error: errorMessage, recipient });
+
+      return {
+        success: false,
+        error: `Create escrow failed: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * Releases escrowed funds to this wallet, proving with zkCondition that the escrow's condition holds
+   * @param escrow Id of a known escrow, or the escrow record shared by its sender
+   * @param evidence Hashlock preimage or oracle attestation (not needed for deadlines)
+   * @param options Confirmation and metadata options
+   * @returns The release transaction and the note the funds were released to
+   */
+  async releaseEscrow(
+    escrow: string | Escrow,
+    evidence: EscrowEvidence = {},
+    options: SettlementOptions = {}
+  ): Promise<SettleEscrowResult> {
+    this.assertReady('release escrow', 'zkCondition');
+    this.assertPersistentNotes('release escrow');
+
+    try {
+      const record = typeof escrow === 'string'
+        ? this.requireEscrow(escrow)
+        : await this.escrowManager.importEscrow(escrow);
+
+      const ownerAddress = this.getOwnerAddress();
+      if (record.recipient !== ownerAddress) {
+        throw ErrorHandler.createValidationError(`Escrow ${record.id} pays ${record.recipient}, not this wallet`, 'recipient', {
+          escrowId: record.id
+        });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      this.escrowManager.assertReleasable(record, evidence, now);
+
+      this.logger.info('Releasing escrow', { escrowId: record.id, condition: record.condition.type });
+
+      const proof = await this.zkProver.generateConditionProof({
+        conditionId: escrowConditionId(record),
+        conditionSecret: record.salt,
+        conditionCommitment: record.commitment,
+        merkleRoot: await this.merkleTreeClient.fetchMerkleRoot(),
+        ...releaseConditionCheck(record, evidence, now)
+      });
+
+      return await this.settleEscrow(record, 'escrow_release', proof, ownerAddress, evidence.preimage ?? evidence.attestation, options);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Release escrow failed', { error: errorMessage });
+
+      return {
+        success: false,
+        error: `Release escrow failed: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * Returns an unreleased escrow to the sender once its timeout has passed
+   * @param escrowId Id of an escrow this wallet funded
+   * @param options Confirmation and metadata options
+   * @returns The refund transaction and the note the funds were returned to
+   */
+  async refundEscrow(escrowId: string, options: SettlementOptions = {}): Promise<SettleEscrowResult> {
+    this.assertReady('refund escrow', 'zkCondition');
+    this.assertPersistentNotes('refund escrow');
+
+    try {
+      const record = this.requireEscrow(escrowId);
+      const now = Math.floor(Date.now() / 1000);
+      this.escrowManager.assertRefundable(record, now);
+      const ownerAddress = this.getOwnerAddress();
+
+      this.logger.info('Refunding escrow', { escrowId });
+
+      // A refund proves the timeout rather than the release condition
+      const proof = await this.zkProver.generateConditionProof({
+        conditionId: escrowConditionId(record),
+        conditionSecret: record.salt,
+        conditionCommitment: record.commitment,
+        merkleRoot: await this.merkleTreeClient.fetchMerkleRoot(),
+        ...refundConditionCheck(record, now)
+      });
+
+      return await this.settleEscrow(record, 'escrow_refund', proof, ownerAddress, undefined, options);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Refund escrow failed', { error: errorMessage, escrowId });
+
+      return {
+        success: false,
+        error: `Refund escrow failed: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * Lists the escrows this wallet funds or receives
+   * @param filter Criteria escrows must match
+   * @returns Matching escrows, oldest first
+   */
+  getEscrows(filter?: EscrowFilter): Escrow[] {
+    return this.escrowManager.getEscrows(filter);
+  }
+
+  /**
+   * Proves a statement about received notes to an auditor without revealing the view key
+   * @param statement Statement to prove
+   * @returns Disclosure that AuditVerifier checks with the audit_proof verification key
+   */
+  async proveAuditStatement(statement: AuditStatement): Promise<AuditDisclosure> {
+    this.assertReady('prove audit statement', 'audit_proof');
+
+    const disclosure = await this.auditProver.prove(
+      statement,
+      this.getOwnerAddress(),
+      await this.merkleTreeClient.fetchMerkleRoot()
+    );
+    this.logger.info('Audit statement proven', {
+      statement: statement.type,
+      notes: disclosure.noteCommitments.length
+    });
+    return disclosure;
+  }
+
+  /**
+   * Gets the address other wallets pay this one at, the owner public key derived from its spending key
+   * @returns The shielded address as a 32-byte hex string
+   */
+  getShieldedAddress(): string {
+    return this.noteManager.getShieldedAddress();
+  }
+
+  /**
+   * Gets the spendable balance of one asset
+   * @param asset Asset identifier, or a symbol or address that has already been resolved (defaults to native)
+   * @returns Current balance
+   */
+  getBalance(asset: string = NATIVE_ASSET): bigint {
+    return this.noteManager.getBalance(this.assetRegistry.get(asset)?.id || asset);
+  }
+
+  /**
+   * Gets the spendable balance of every asset held
+   * @returns Balances keyed by asset identifier
+   */
+  getBalances(): Record<string, bigint> {
+    return this.noteManager.getBalances();
+  }
+
+  /**
+   * Gets the balance of one asset held by in-flight transactions, which getBalance() leaves out
+   * @param asset Asset identifier, or a symbol or address that has already been resolved (defaults to native)
+   * @returns Locked balance
+   */
+  getLockedBalance(asset: string = NATIVE_ASSET): bigint {
+    return this.noteManager.getLockedBalance(this.assetRegistry.get(asset)?.id || asset);
+  }
+
+  /**
+   * Gets the locked balance of every asset with notes held by in-flight transactions
+   * @returns Locked balances keyed by asset identifier
+   */
+  getLockedBalances(): Record<string, bigint> {
+    return this.noteManager.getLockedBalances();
+  }
+
+  /**
+   * Lists recorded deposits, transfers, withdrawals and reshields, newest first
+   * @param filter Criteria records must match
+   * @param page Offset and limit of the page to return
+   * @returns The page of records and the total number matching the filter
+   */
+  getTransactionHistory(filter?: TransactionHistoryFilter, page?: TransactionHistoryPage): TransactionHistoryResult {
+    return this.transactionHistory.getRecords(filter, page);
+  }
+
+  /**
+   * Exports the transaction history as a stable JSON document
+   * @returns JSON document
+   */
+  exportTransactionHistory(): string {
+    return this.transactionHistory.exportJSON();
+  }
+
+  /**
+   * Gets all notes
+   * @returns Array of notes
+   */
+  async getNotes(): Promise<ShieldedNote[]> {
+    return this.noteManager.getNotes();
+  }
+
+  /**
+   * Gets spendable notes
+   * @param asset Only return notes of this asset
+   * @returns Array of spendable notes
+   */
+  getSpendableNotes(asset?: string): ShieldedNote[] {
+    return this.noteManager.getSpendableNotes(asset === undefined ? undefined : this.assetRegistry.get(asset)?.id || asset);
+  }
+
+  /**
+   * Configures ZK components with circuit files (browser-compatible)
+   */
+  async configureZKComponents(circuitUrls: Record<string, CircuitUrls>): Promise<void> {
+    try {
+      // Load the circuits into the existing prover so builders holding it see them
+      const loaded = await this.zkProver.loadCircuitsFromUrls(circuitUrls);
+      const missing = Object.keys(circuitUrls).filter(circuit => !loaded.includes(circuit));
+      if (missing.length > 0) {
+        throw new Error(`Failed to load circuits: ${missing.join(', ')}`);
+      }
+
+      // Circuits loaded after initialization can recover a degraded SDK
+      this.failedSubsystems = this.failedSubsystems.filter(failure => failure.subsystem !== 'circuits');
+      if (this.state === 'degraded' && this.failedSubsystems.length === 0) {
+        this.setState('ready');
+      }
+
+      this.logger.info('ZK components configured successfully', { circuitCount: loaded.length });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Failed to configure ZK components', { error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts event monitoring
+   */
+  async startEventMonitoring(): Promise<void> {
+    await this.eventMonitor.startMonitoring();
+  }
+
+  /**
+   * Stops event monitoring
+   */
+  stopEventMonitoring(): void {
+    this.eventMonitor.stopMonitoring();
+  }
+
+  /**
+   * Merges fragmented notes now instead of waiting for the wallet to go idle
+   * @returns What happened to each planned merge
+   * @throws CipherPayError while the bundled circuits spend one note per proof, as no proof can merge notes
+   */
+  async consolidateNotes(): Promise<ConsolidationOutcome[]> {
+    this.assertReady('consolidate notes', 'transfer');
+    this.assertPersistentNotes('consolidate notes');
+    return this.consolidationService.runOnce();
+  }
+
+  /**
+   * Scans pool events since the last scan for notes paid to this wallet
+   * @param toBlock Last block to scan (defaults to the latest block)
+   * @returns The notes found and the new scan cursor
+   * @throws CipherPayError CONFIGURATION_ERROR on Solana, where pool events cannot be scanned yet
+   */
+  async scanForNotes(toBlock?: number): Promise<NoteScanResult> {
+    this.assertReady('scan for notes');
+    const result = await this.noteScanner.scan(toBlock);
+    this.logger.info('Note scan completed', {
+      scanned: result.scanned,
+      discovered: result.discovered.length,
+      cursor: result.cursor
+    });
+    return result;
+  }
+
+  /**
+   * Generates a compliance report
+   * @param startTime Start timestamp
+   * @param endTime End timestamp
+   * @returns Compliance report
+   */
+  generateComplianceReport(startTime: number, endTime: number): any {
+    if (!this.complianceManager) {
+      throw new Error('Compliance manager not enabled');
+    }
+    return this.complianceManager.generateComplianceReport(startTime, endTime);
+  }
+
+  /**
+   * Gets cache statistics
+   * @returns Cache statistics
+   */
+  getCacheStats(): any {
+    if (!this.cacheManager) {
+      throw new Error('Cache manager not enabled');
+    }
+    return this.cacheManager.getStats();
+  }
+
+  /**
+   * Waits for the relayer to confirm a transaction and settles note states.
+   * On confirmation the outputs become spendable and the input reservations are consumed; if the
+   * transaction fails the inputs are restored and released and the outputs expire. A timeout leaves everything pending.
+   * @param type Kind of transaction being tracked
+   * @param txHash Relayed transaction hash
+   * @param inputNotes Notes consumed by the transaction
+   * @param outputNotes Notes created by the transaction that belong to us
+   * @returns Final status of the transaction
+   */
+  private async trackConfirmation(
+    type: SDKTransactionType,
+    txHash: string,
+    inputNotes: ExtendedNote[],
+    outputNotes: ExtendedNote[]
+  ): Promise<'pending' | 'confirmed' | 'failed'> {
+    let receipt;
+    try {
+      receipt = (await this.relayerClient.waitForConfirmation(txHash)).receipt;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      // Only a failure the relayer reports is final; a timeout or unreadable status leaves the transaction pending
+      if (!(error instanceof CipherPayError && error.type === ErrorType.TRANSACTION_FAILED)) {
+        this.logger.warn('Transaction still unconfirmed', { txHash, error: errorMessage });
+        return 'pending';
+      }
+
+      await this.noteManager.restoreFailedSpend(inputNotes.map(note => note.id), txHash);
+      for (const note of outputNotes) {
+        await this.noteManager.updateNoteStatus(note.id, 'expired', { reason: 'Transaction failed', txHash });
+      }
+      await this.transactionHistory.updateStatus(txHash, 'failed', { error: errorMessage });
+      this.logger.error('Transaction failed on-chain', { txHash, error: errorMessage });
+      this.events.emit('transactionFailed', { type, txHash, error: errorMessage });
+      return 'failed';
+    }
+
+    await this.noteManager.consumeNotes(inputNotes.map(note => note.id), txHash);
+    for (const note of outputNotes) {
+      await this.noteManager.updateNoteStatus(note.id, 'confirmed', { reason: 'Transaction confirmed', txHash });
+    }
+    await this.transactionHistory.updateStatus(txHash, 'confirmed', {
+      blockNumber: receipt?.blockNumber,
+      fee: receipt ? { gasUsed: receipt.gasUsed, effectiveGasPrice: receipt.effectiveGasPrice } : undefined
+    });
+    this.logger.info('Transaction confirmed', { txHash });
+    this.events.emit('transactionConfirmed', { type, txHash });
+    return 'confirmed';
+  }
+
+  /**
+   * Tracks confirmation of a relayed transaction, either awaiting it or in the background
+   * @returns The settled status, or 'pending' when tracking continues in the background
+   */
+  private async settle(
+    type: SDKTransactionType,
+    txHash: string,
+    inputNotes: ExtendedNote[],
+    outputNotes: ExtendedNote[],
+    waitForConfirmation?: boolean
+  ): Promise<'pending' | 'confirmed' | 'failed'> {
+    if (waitForConfirmation) {
+      return this.trackConfirmation(type, txHash, inputNotes, outputNotes);
+    }
+
+    this.trackConfirmation(type, txHash, inputNotes, outputNotes).catch(error => {
+      this.logger.error('Confirmation tracking failed', {
+        type,
+        txHash,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+    return 'pending';
+  }
+
+  /**
+   * Submits a proven transaction through the relayer and records the outcome in the transaction history
+   * @param type Kind of transaction being relayed
+   * @param request Relayer request
+   * @param entry Details recorded in the transaction history
+   * @returns The relayed transaction hash
+   */
+  private async relay(
+    type: SDKTransactionType,
+    request: RelayerRequest,
+    entry: Omit<NewTransactionRecord, 'type' | 'status' | 'txHash' | 'error'>
+  ): Promise<string> {
+    this.consolidationService.recordActivity();
+    let txHash: string;
+    try {
+      const response = await this.relayerClient.submitTransaction(request);
+      if (!response.success || !response.txHash) {
+        throw new CipherPayError(
+          `Relayer rejected ${type}: ${response.error || 'no transaction hash returned'}`,
+          ErrorType.TRANSACTION_FAILED,
+          { relayerStatus: response.status, transactionType: type },
+          {
+            action: `Retry the ${type}`,
+            description: `The relayer did not accept the ${type} transaction.`
+          },
+          true
+        );
+      }
+      txHash = response.txHash;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.transactionHistory.record({ ...entry, type, status: 'failed', error: errorMessage });
+      this.events.emit('transactionFailed', { type, error: errorMessage });
+      throw error;
+    }
+
+    // Outside the try: the relayer has the transaction, so a failed write must not record it as rejected
+    await this.transactionHistory.record({ ...entry, type, status: 'pending', txHash });
+    return txHash;
+  }
+
+  /**
+   * Confirms the pending deposit note whose commitment a pool event reports, including one that timed out;
+   * the note scanner records its leaf index
+   * @param event Shielded transfer event from the event monitor
+   */
+  private async handleDepositEvent(event: ShieldedTransferEvent): Promise<void> {
+    const notes = await this.noteManager.findNotesByCommitment(event.commitment);
+    for (const note of notes) {
+      if (note.type !== 'deposit' || (note.status !== 'pending' && note.status !== 'expired')) continue;
+
+      await this.noteManager.updateNoteMetadata(note.id, { depositTxHash: event.transactionHash });
+      await this.noteManager.updateNoteStatus(note.id, 'confirmed', {
+        reason: 'Deposit observed on-chain',
+        txHash: event.transactionHash || note.metadata.txHash
+      });
+      if (note.metadata.txHash) {
+        await this.transactionHistory.updateStatus(note.metadata.txHash, 'confirmed', { blockNumber: event.blockNumber });
+      }
+      this.logger.info('Deposit confirmed', { commitment: event.commitment });
+      this.events.emit('transactionConfirmed', {
+        type: 'deposit',
+        txHash: event.transactionHash || note.metadata.txHash
+      });
+    }
+  }
+
+  /**
+   * Marks notes spent when the pool reports their nullifier, e.g. spends made from another device
+   * @param event Note spent event from the event monitor
+   */
+  private async handleNoteSpentEvent(event: NoteSpentEvent): Promise<void> {
+    const notes = await this.noteManager.findNotesByNullifier(event.nullifier);
+    for (const note of notes) {
+      if (note.status !== 'confirmed') continue;
+      await this.noteManager.updateNoteStatus(note.id, 'spent', { reason: 'Nullifier observed on-chain' });
+    }
+  }
+
+  /**
+   * Translates note state changes into wallet activity events
+   * @param change Change reported by the note manager
+   */
+  private handleNoteChange(change: NoteChange): void {
+    if (change.type === 'created' && change.note.metadata.discovered) {
+      this.events.emit('noteReceived', { note: change.note });
+    } else if (change.type === 'status' && change.previousStatus !== change.note.status) {
+      if (change.note.status === 'confirmed' && change.previousStatus === 'pending') {
+        this.events.emit('noteReceived', { note: change.note });
+      } else if (change.note.status === 'spent') {
+        this.events.emit('noteSpent', { note: change.note });
+      } else if (change.note.status === 'expired' && change.note.metadata.role === 'stream_refund') {
+        // The cancellation never landed, so the stream keeps vesting
+        this.streamManager.updateStream(change.note.metadata.streamId, { cancelledAt: undefined }).catch(error => {
+          this.logger.error('Failed to reopen stream', {
+            streamId: change.note.metadata.streamId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      } else if (change.note.status === 'expired' && ['escrow_release', 'escrow_refund'].includes(change.note.metadata.role)) {
+        // The release or refund never landed, so the funds are still locked
+        this.escrowManager.updateEscrow(change.note.metadata.escrowId, { status: 'locked', settlementTxHash: undefined })
+          .catch(error => {
+            this.logger.error('Failed to relock escrow', {
+              escrowId: change.note.metadata.escrowId,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          });
+      }
+    }
+
+    const balances = this.noteManager.getBalances();
+    const assets = new Set([...Object.keys(this.lastBalances), ...Object.keys(balances)]);
+    const previousBalances = this.lastBalances;
+    this.lastBalances = balances;
+    for (const asset of assets) {
+      const previousBalance = previousBalances[asset] || BigInt(0);
+      const balance = balances[asset] || BigInt(0);
+      if (balance !== previousBalance) {
+        this.events.emit('balanceChanged', { asset, previousBalance, balance });
+      }
+    }
+  }
+
+  /**
+   * Works out what a transfer or withdrawal would do, collecting anything that would stop it
+   * @param kind Kind of transaction being planned
+   * @param request Transfer or withdraw request
+   * @param recipientAddress Resolved recipient address
+   * @returns The plan fields shared by transfers and withdrawals
+   */
+  private async buildPlan(
+    kind: 'transfer' | 'withdraw',
+    request: TransferRequest | WithdrawRequest,
+    recipientAddress: string
+  ): Promise<Omit<BaseTransactionPlan, 'stealthAddress'>> {
+    const blockers: string[] = [];
+
+    // Dry runs are not recorded in the compliance audit trail
+    let complianceStatus;
+    if (this.complianceManager && request.complianceCheck !== false) {
+      complianceStatus = await this.complianceManager.validateTransaction({
+        amount: request.amount,
+        recipientAddress,
+        senderAddress: this.walletProvider.getAddress() || 'unknown',
+        type: kind
+      }, 'user', false);
+
+      if (!complianceStatus.compliant) {
+        blockers.push(`Compliance check failed: ${complianceStatus.violations.join(', ')}`);
+      }
+    }
+
+    let asset = request.asset || NATIVE_ASSET;
+    let inputNotes: ExtendedNote[] = [];
+    try {
+      asset = (await this.assetRegistry.resolve(request.asset)).id;
+      inputNotes = this.selectNotesForAmount(request.amount, this.noteManager.getSpendableNotes(asset), request.selectionStrategy);
+    } catch (error) {
+      blockers.push(error instanceof Error ? error.message : 'Note selection failed');
+    }
+
+    const inputTotal = inputNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+    const changeAmount = inputTotal > request.amount ? inputTotal - request.amount : BigInt(0);
+    if (changeAmount > BigInt(0) && !this.walletProvider.getAddress()) {
+      blockers.push('A connected wallet is required to receive change');
+    }
+    if (!this.zkProver.isCircuitAvailable(kind)) {
+      blockers.push(`${kind} circuit is not loaded`);
+    }
+
+    const fee = await this.transactionBuilder.estimateTransactionFees(
+      { fromNotes: inputNotes, toAddress: recipientAddress, amount: request.amount },
+      kind === 'transfer' ? 'shielded_transfer' : 'withdrawal'
+    );
+
+    return {
+      recipientAddress,
+      asset,
+      inputNotes,
+      inputNoteIds: inputNotes.map(note => note.id),
+      inputTotal,
+      changeAmount,
+      fee,
+      complianceStatus,
+      blockers,
+      createdAt: Date.now()
+    };
+  }
+
+  /**
+   * Looks up the notes a plan spends, failing if any has been spent since planning or, for a plan
+   * holding a reservation, is no longer held by it
+   * @param plan Plan being executed
+   * @returns The planned notes
+   */
+  private resolvePlannedNotes(
+    plan: Pick<TransactionPlan, 'kind' | 'inputNoteIds'> & { reservation?: NoteReservation }
+  ): ExtendedNote[] {
+    const spendable = plan.reservation
+      ? this.noteManager.getReservedNotes().filter(note =>
+        this.noteManager.getReservation(note.id) === plan.reservation && note.status === 'confirmed' && !note.spent
+      )
+      : this.noteManager.getSpendableNotes();
+    return plan.inputNoteIds.map(id => {
+      const note = spendable.find(candidate => candidate.id === id);
+      if (!note) {
+        throw new CipherPayError(
+          `Note ${id} is not spendable`,
+          ErrorType.NOTE_ALREADY_SPENT,
+          { noteId: id, operation: plan.kind },
+          {
+            action: 'Simulate the transaction again',
+            description: 'A note chosen by the plan was spent or changed after the plan was created.'
+          },
+          false
+        );
+      }
+      return note;
+    });
+  }
+
+  /**
+   * Selects spendable notes covering the requested amount
+   * @param amount Amount the selected notes must cover
+   * @param candidates Notes to choose from, all holding the asset being spent
+   * @param strategy Coin selection strategy (defaults to the configured one)
+   * @returns Selected notes
+   */
+  private selectNotesForAmount(amount: bigint, candidates: ExtendedNote[], strategy?: CoinSelectionStrategy): ExtendedNote[] {
+    return this.coinSelector.select(candidates, amount, strategy).notes;
+  }
+
+  /**
+   * Checks a note splits into exactly the circuit's two notes: a single output plus change the circuit can hold,
+   * or two outputs and no change
+   */
+  private fitsSplit(amount: bigint, outputs: number, required: bigint): boolean {
+    return outputs < SPLIT_OUTPUT_COUNT
+      ? amount > required && amount - required <= SPLIT_MAX_AMOUNT
+      : amount === required;
+  }
+
+  /**
+   * Rejects split requests with no outputs, more outputs than zkSplit creates, empty recipients,
+   * or amounts outside 1..SPLIT_MAX_AMOUNT
+   */
+  private validateSplitRequest(request: SplitPaymentRequest, fee: bigint): void {
+    if (request.outputs.length === 0) {
+      throw ErrorHandler.createValidationError('Split payment requires at least one output', 'outputs');
+    }
+    if (request.outputs.length > SPLIT_OUTPUT_COUNT) {
+      throw ErrorHandler.createValidationError(`Split payment takes at most ${SPLIT_OUTPUT_COUNT} outputs`, 'outputs', {
+        outputs: request.outputs.length
+      });
+    }
+    if (fee < BigInt(0)) {
+      throw ErrorHandler.createValidationError('Split fee cannot be negative', 'fee', { fee: fee.toString() });
+    }
+    request.outputs.forEach((output, index) => {
+      if (!output.recipientAddress) {
+        throw ErrorHandler.createValidationError(`Split output ${index} has no recipient`, 'outputs', { index });
+      }
+      if (output.amount <= BigInt(0)) {
+        throw ErrorHandler.createValidationError(`Split output ${index} must have an amount greater than 0`, 'outputs', {
+          index,
+          amount: output.amount.toString()
+        });
+      }
+      if (output.amount > SPLIT_MAX_AMOUNT) {
+        throw ErrorHandler.createValidationError(`Split output ${index} exceeds the zkSplit limit of 2^32`, 'outputs', {
+          index,
+          amount: output.amount.toString(),
+          max: SPLIT_MAX_AMOUNT.toString()
+        });
+      }
+    });
+  }
+
+  /**
+   * Relays a proven escrow release or refund and moves the escrowed funds into a note we own
+   */
+  private async settleEscrow(
+    escrow: Escrow,
+    type: 'escrow_release' | 'escrow_refund',
+    proof: ZKProof,
+    ownerAddress: string,
+    conditionEvidence: string | undefined,
+    options: SettlementOptions
+  ): Promise<SettleEscrowResult> {
+    const outputNote = await this.noteManager.createNote(
+      escrow.amount,
+      ownerAddress,
+      'transfer',
+      { ...options.metadata, role: type, escrowId: escrow.id },
+      escrow.asset
+    );
+
+    let txHash: string;
+    try {
+      txHash = await this.relay(type, {
+        type,
+        chainType: this.config.chainType,
+        data: {
+          proof: JSON.stringify(proof.proof),
+          publicInputs: proof.publicSignals,
+          encryptedNote: this.sealOwnNote(outputNote),
+          recipientAddress: ownerAddress,
+          amount: escrow.amount.toString(),
+          tokenAddress: assetTokenAddress(escrow.asset),
+          escrowCommitment: escrow.commitment,
+          conditionEvidence
+        }
+      }, {
+        amount: escrow.amount,
+        asset: escrow.asset,
+        recipientAddress: ownerAddress,
+        outputNotes: [outputNote],
+        metadata: { ...options.metadata, escrowId: escrow.id }
+      });
+    } catch (error) {
+      await this.noteManager.deleteNote(outputNote.id);
+      throw error;
+    }
+
+    await this.noteManager.updateNoteMetadata(outputNote.id, { txHash });
+    // Reverted to 'locked' by handleNoteChange if the output note expires because the transaction failed
+    const settled = (await this.escrowManager.updateEscrow(escrow.id, {
+      status: type === 'escrow_release' ? 'released' : 'refunded',
+      settlementTxHash: txHash
+    }))!;
+
+    this.logger.info('Escrow settlement submitted', { txHash, escrowId: escrow.id, type });
+    this.events.emit('transactionSubmitted', { type, txHash, inputNotes: [], outputNotes: [outputNote] });
+
+    const status = await this.settle(type, txHash, [], [outputNote], options.waitForConfirmation);
+
+    return {
+      success: status !== 'failed',
+      txHash,
+      status,
+      escrow: settled,
+      proof,
+      outputNote,
+      error: status === 'failed'
+        ? `Escrow ${type === 'escrow_release' ? 'release' : 'refund'} failed on-chain`
+        : undefined
+    };
+  }
+
+  /**
+   * Gets a stored escrow, rejecting unknown ids
+   */
+  private requireEscrow(escrowId: string): Escrow {
+    const escrow = this.escrowManager.getEscrow(escrowId);
+    if (!escrow) {
+      throw new CipherPayError(
+        `Escrow not found: ${escrowId}`,
+        ErrorType.NOT_FOUND,
+        { escrowId },
+        {
+          action: 'Check the escrow id',
+          description: 'Incoming escrows must be released with the escrow record shared by the sender first.'
+        },
+        false
+      );
+    }
+    return escrow;
+  }
+
+  /**
+   * Gets a stored stream, rejecting unknown ids
+   */
+  private requireStream(streamId: string): PaymentStream {
+    const stream = this.streamManager.getStream(streamId);
+    if (!stream) {
+      throw new CipherPayError(
+        `Stream not found: ${streamId}`,
+        ErrorType.NOT_FOUND,
+        { streamId },
+        {
+          action: 'Check the stream id',
+          description: 'Incoming streams must be claimed with the stream record shared by the sender first.'
+        },
+        false
+      );
+    }
+    return stream;
+  }
+
+  /**
+   * Sums the claims made against a stream, ignoring claims that failed
+   */
+  private async getClaimedStreamAmount(streamId: string): Promise<bigint> {
+    const notes = await this.noteManager.getNotes();
+    return notes
+      .filter(note => note.metadata.streamId === streamId && note.metadata.role === 'stream_claim' && note.status !== 'expired')
+      .reduce((sum, note) => sum + note.amount, BigInt(0));
+  }
+
+  /**
+   * Converts a stream or escrow time to unix seconds
+   */
+  private toUnixTime(time: number | Date): number {
+    return time instanceof Date ? Math.floor(time.getTime() / 1000) : time;
+  }
+
+  /**
+   * Gets the address that change notes are assigned to
+   * @returns Connected wallet address
+   */
+  private getOwnerAddress(): string {
+    const address = this.walletProvider.getAddress();
+    if (!address) {
+      throw new CipherPayError(
+        'No wallet connected',
+        ErrorType.WALLET_CONNECTION_FAILED,
+        { chainType: this.config.chainType },
+        {
+          action: 'Connect wallet first',
+          description: 'A connected wallet is required to receive change notes.'
+        },
+        false
+      );
+    }
+    return address;
+  }
+
+  /**
+   * Seals a note to this wallet's own encryption key, so a wallet restored from the mnemonic rediscovers it
+   * @param note Change, deposit or other note paid back to this wallet
+   * @returns The sealed note (hex) to publish with the transaction
+   */
+  private sealOwnNote(note: ExtendedNote): string {
+    return sealNote(note, this.viewKeyManager.getNoteEncryptionKey());
+  }
+
+  /**
+   * Loads the circuits listed in the config into the prover
+   */
+  private async loadConfiguredCircuits(): Promise<void> {
+    const circuitUrls = this.config.circuits || {};
+    const loaded = await this.zkProver.loadCircuitsFromUrls(circuitUrls);
+
+    const missing = Object.keys(circuitUrls).filter(circuit => !loaded.includes(circuit));
+    if (missing.length > 0) {
+      throw new Error(`Failed to load circuits: ${missing.join(', ')}`);
+    }
+    if (this.zkProver.getAvailableCircuits().length === 0) {
+      throw new Error('No circuits configured');
+    }
+  }
+
+  /**
+   * Runs one initialization step, recording a failure instead of throwing
+   * @param subsystem Subsystem being initialized
+   * @param step Initialization step
+   * @returns The failure message, if the step failed
+   */
+  private async initializeSubsystem(subsystem: SDKSubsystem, step: () => Promise<void>): Promise<string | undefined> {
+    try {
+      await step();
+      return undefined;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.failedSubsystems.push({ subsystem, error: errorMessage });
+      this.logger.warn('Subsystem failed to initialize', { subsystem, error: errorMessage });
+      return errorMessage;
+    }
+  }
+
+  /**
+   * Starts the event monitor's polling loop without waiting for it to finish
+   */
+  private startBackgroundMonitoring(): void {
+    this.eventMonitor.startMonitoring().catch(error => {
+      this.logger.error('Event monitoring stopped', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+
+  private setState(state: SDKLifecycleState): void {
+    this.logger.debug('SDK state changed', { from: this.state, to: state });
+    this.state = state;
+  }
+
+  /**
+   * Rejects operations until the SDK has initialized and the circuit they prove with is loaded
+   * @param operation Operation being invoked
+   * @param circuit Circuit the operation needs, if any
+   */
+  private assertReady(operation: string, circuit?: string): void {
+    const context = { operation, failedSubsystems: this.getFailedSubsystems() };
+
+    if (this.state !== 'ready' && this.state !== 'degraded') {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createNotReadyError(`Cannot ${operation}: SDK is ${this.state}`, this.state, context)
+      );
+    }
+    if (circuit && !this.zkProver.isCircuitAvailable(circuit)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createNotReadyError(`Cannot ${operation}: ${circuit} circuit is not loaded`, this.state, {
+          ...context,
+          circuit
+        })
+      );
+    }
+  }
+
+  /**
+   * Rejects operations that move value while notes live only in memory, where a reload would lose them,
+   * unless the configuration allows it
+   * @param operation Operation being invoked
+   */
+  private assertPersistentNotes(operation: string): void {
+    if (this.noteManager.isPersistent() || this.config.noteStore || this.config.allowEphemeralNotes) {
+      return;
+    }
+    throw ErrorHandler.getInstance().handleError(new CipherPayError(
+      `Cannot ${operation}: notes are only kept in memory and would be lost on restart`,
+      ErrorType.CONFIGURATION_ERROR,
+      { operation, mnemonic: !!this.config.mnemonic },
+      {
+        action: 'Pass the wallet mnemonic (in a browser) or a persistent noteStore, or set allowEphemeralNotes',
+        description: 'Without persistent storage, notes holding funds disappear when the page or process restarts.'
+      },
+      false
+    ));
+  }
+
+  /**
+   * Destroys the SDK and cleans up resources
+   */
+  destroy(): void {
+    if (this.state !== 'destroyed') {
+      this.setState('destroyed');
+      this.rejectReady(ErrorHandler.createNotReadyError('SDK was destroyed', this.state));
+    }
     this.stopEventMonitoring();
+    this.noteManager.stopExpiryChecks();
+    this.consolidationService.stop();
+    this.events.removeAllListeners();
     if (this.cacheManager) {
       this.cacheManager.destroy();
     }
@@ -0,0 +1,261 @@
+import { NoteManager, ExtendedNote } from './NoteManager';
+import { noteAsset } from './AssetRegistry';
+import { MAX_INPUT_NOTES } from '../tx/CoinSelector';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+
+/** Fewest notes one proof must spend for a merge to reduce the note count */
+const MIN_MERGE_INPUTS = 2;
+
+export interface ConsolidationConfig {
+  /** Spendable notes of one asset above which its balance counts as fragmented (defaults to twice maxInputs) */
+  maxNotesPerAsset?: number;
+  /** Per-asset amounts below which a note is dust; two or more dust notes are always worth merging */
+  dustThresholds?: Record<string, bigint>;
+  /**
+   * Most notes merged by one reshield: the input count of the circuit the executor proves with
+   * (defaults to MAX_INPUT_NOTES). Merging needs a circuit that spends at least 2 notes.
+   */
+  maxInputs?: number;
+  /** Highest estimated fee a consolidation may cost, in the units of FeeEstimate.totalFee (no cap by default) */
+  maxFee?: number;
+  /** Milliseconds without wallet activity before consolidations run */
+  idleTime?: number;
+  /** Milliseconds between idle checks while the service is started */
+  checkInterval?: number;
+}
+
+/**
+ * How spread out one asset's balance is
+ */
+export interface FragmentationReport {
+  asset: string;
+  spendableNotes: number;
+  dustNotes: number;
+  balance: bigint;
+  fragmented: boolean;
+}
+
+/**
+ * A reshield merging some of one asset's notes into a single note
+ */
+export interface ConsolidationPlan {
+  asset: string;
+  noteIds: string[];
+  amount: bigint;
+  estimatedFee: number;
+  /** False when the estimated fee is above the fee cap */
+  withinFeeCap: boolean;
+}
+
+export interface ConsolidationOutcome {
+  plan: ConsolidationPlan;
+  status: 'submitted' | 'failed' | 'skipped';
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * How the service prices and submits merges; the SDK backs these with its fee estimate and reshield
+ */
+export interface ConsolidationExecutor {
+  estimateFee(notes: ExtendedNote[], asset: string): Promise<number>;
+  reshield(plan: ConsolidationPlan): Promise<{ success: boolean; txHash?: string; error?: string }>;
+}
+
+/**
+ * Keeps note counts low enough for one transaction to spend a balance by merging
+ * fragmented notes with reshields while the wallet is idle
+ */
+export class ConsolidationService {
+  private readonly noteManager: NoteManager;
+  private readonly executor: ConsolidationExecutor;
+  private config: ConsolidationConfig;
+  private lastActivity: number = Date.now();
+  private running: boolean = false;
+  private checkTimer?: ReturnType<typeof setInterval>;
+
+  constructor(noteManager: NoteManager, executor: ConsolidationExecutor, config: ConsolidationConfig = {}) {
+    this.noteManager = noteManager;
+    this.executor = executor;
+    const maxInputs = config.maxInputs || MAX_INPUT_NOTES;
+    this.config = {
+      maxNotesPerAsset: maxInputs * 2,
+      dustThresholds: {},
+      idleTime: 5 * 60 * 1000,
+      checkInterval: 60 * 1000,
+      ...config,
+      maxInputs
+    };
+  }
+
+  /**
+   * Checks whether one proof can spend enough notes to merge them
+   */
+  canMerge(): boolean {
+    return this.config.maxInputs! >= MIN_MERGE_INPUTS;
+  }
+
+  /**
+   * Fails unless one proof can spend enough notes to merge them
+   * @throws CipherPayError if the spending circuit takes fewer than 2 input notes
+   */
+  assertCanMerge(): void {
+    if (this.canMerge()) {
+      return;
+    }
+    throw ErrorHandler.getInstance().handleError(new CipherPayError(
+      `Cannot consolidate notes: the spending circuit takes ${this.config.maxInputs} input note per proof, so no proof can merge notes`,
+      ErrorType.CONFIGURATION_ERROR,
+      { maxInputs: this.config.maxInputs, required: MIN_MERGE_INPUTS },
+      {
+        action: `Consolidate with a spending circuit that takes at least ${MIN_MERGE_INPUTS} input notes`,
+        description: 'Merging notes spends several of them in one proof, which a single-input circuit cannot prove.'
+      },
+      false
+    ));
+  }
+
+  /**
+   * Starts consolidating in the background whenever the wallet has been idle long enough
+   * @throws CipherPayError if the spending circuit cannot merge notes
+   */
+  start(): void {
+    if (this.checkTimer) {
+      return; // Already running
+    }
+    this.assertCanMerge();
+
+    this.checkTimer = setInterval(async () => {
+      if (!this.isIdle()) return;
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Background note consolidation failed:', error);
+      }
+    }, this.config.checkInterval);
+  }
+
+  /**
+   * Stops background consolidation; a run in progress finishes
+   */
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = undefined;
+    }
+  }
+
+  /**
+   * Notes wallet activity, postponing background consolidation until the wallet is idle again
+   */
+  recordActivity(): void {
+    this.lastActivity = Date.now();
+  }
+
+  /**
+   * Checks whether the wallet has been idle for the configured time and no run is in progress
+   */
+  isIdle(): boolean {
+    return !this.running && Date.now() - this.lastActivity >= this.config.idleTime!;
+  }
+
+  /**
+   * Reports how fragmented each asset's spendable balance is
+   * @returns One report per asset held
+   */
+  analyze(): FragmentationReport[] {
+    const byAsset = new Map<string, ExtendedNote[]>();
+    for (const note of this.noteManager.getSpendableNotes()) {
+      const asset = noteAsset(note);
+      byAsset.set(asset, [...(byAsset.get(asset) || []), note]);
+    }
+
+    return Array.from(byAsset.entries()).map(([asset, notes]) => {
+      const dustNotes = this.dustNotes(asset, notes).length;
+      return {
+        asset,
+        spendableNotes: notes.length,
+        dustNotes,
+        balance: notes.reduce((sum, note) => sum + note.amount, BigInt(0)),
+        fragmented: notes.length > this.config.maxNotesPerAsset! || dustNotes >= 2
+      };
+    });
+  }
+
+  /**
+   * Plans one merge per fragmented asset: its dust first, then its smallest notes, up to the input limit
+   * @returns The planned reshields with their estimated fees
+   * @throws CipherPayError if the spending circuit cannot merge notes
+   */
+  async plan(): Promise<ConsolidationPlan[]> {
+    this.assertCanMerge();
+    const plans: ConsolidationPlan[] = [];
+    for (const report of this.analyze()) {
+      if (!report.fragmented) continue;
+
+      const notes = this.noteManager.getSpendableNotes(report.asset)
+        .sort((a, b) => (a.amount === b.amount
+          ? a.createdAt.getTime() - b.createdAt.getTime()
+          : a.amount < b.amount ? -1 : 1))
+        .slice(0, this.config.maxInputs);
+      const estimatedFee = await this.executor.estimateFee(notes, report.asset);
+
+      plans.push({
+        asset: report.asset,
+        noteIds: notes.map(note => note.id),
+        amount: notes.reduce((sum, note) => sum + note.amount, BigInt(0)),
+        estimatedFee,
+        withinFeeCap: this.config.maxFee === undefined || estimatedFee <= this.config.maxFee
+      });
+    }
+    return plans;
+  }
+
+  /**
+   * Plans and submits merges now, skipping those above the fee cap, and records the run in the note statistics
+   * @returns What happened to each plan
+   * @throws CipherPayError if the spending circuit cannot merge notes
+   */
+  async runOnce(): Promise<ConsolidationOutcome[]> {
+    this.assertCanMerge();
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const outcomes: ConsolidationOutcome[] = [];
+      for (const plan of await this.plan()) {
+        if (!plan.withinFeeCap) {
+          outcomes.push({ plan, status: 'skipped', error: `Estimated fee ${plan.estimatedFee} exceeds the cap of ${this.config.maxFee}` });
+          continue;
+        }
+
+        try {
+          const result = await this.executor.reshield(plan);
+          outcomes.push(result.success
+            ? { plan, status: 'submitted', txHash: result.txHash }
+            : { plan, status: 'failed', txHash: result.txHash, error: result.error || 'Consolidation reshield failed' });
+        } catch (error) {
+          outcomes.push({ plan, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      this.noteManager.recordConsolidation({
+        submitted: outcomes
+          .filter(outcome => outcome.status === 'submitted')
+          .map(outcome => ({ notesMerged: outcome.plan.noteIds.length, fee: outcome.plan.estimatedFee })),
+        failed: outcomes.filter(outcome => outcome.status === 'failed').map(outcome => outcome.error!),
+        skipped: outcomes.filter(outcome => outcome.status === 'skipped').length
+      });
+      return outcomes;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private dustNotes(asset: string, notes: ExtendedNote[]): ExtendedNote[] {
+    const threshold = this.config.dustThresholds![asset];
+    return threshold === undefined ? [] : notes.filter(note => note.amount < threshold);
+  }
+}
@@ -0,0 +1,501 @@
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import * as nacl from 'tweetnacl';
+import { ChainType } from './WalletProvider';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { ConditionCircuitType, ConditionProofInput } from '../types/ZKProof';
+import { hash } from '../utils/hash';
+import { CONDITION_TYPES, computeConditionCommitment, computeConditionId } from '../zk/ConditionWitness';
+import { randomFieldHex, toFieldElement } from '../zk/field';
+import { NoteStore, NoteStoreTransaction, StoredNote } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
+import { LocalStorageNoteStore } from '../storage/LocalStorageNoteStore';
+import { ScopedNoteStore } from '../storage/ScopedNoteStore';
+
+/**
+ * What must hold before escrowed funds are released to the recipient:
+ * - deadline: the time has passed
+ * - oracle: the oracle has signed the statement
+ * - hashlock: the preimage of `hash` (keccak256 of its UTF-8 bytes) is revealed
+ */
+export type EscrowCondition =
+  | { type: 'deadline'; releaseAfter: number }
+  | { type: 'oracle'; oracle: string; statement: string }
+  | { type: 'hashlock'; hash: string };
+
+/**
+ * Proof offered by the recipient that an escrow's condition holds
+ */
+export interface EscrowEvidence {
+  /** Preimage of a hashlock */
+  preimage?: string;
+  /** Oracle's signature over the statement, hex encoded */
+  attestation?: string;
+}
+
+export type EscrowRole = 'sender' | 'recipient';
+
+export type EscrowStatus = 'locked' | 'released' | 'refunded';
+
+/**
+ * Funds held until a condition is met, or returned to the sender after the timeout.
+ * The sender shares this record with the recipient, who needs it to release the funds.
+ */
+export interface Escrow {
+  id: string;
+  commitment: string;
+  salt: string;
+  /** Whether this wallet funded or receives the escrow */
+  role: EscrowRole;
+  sender: string;
+  recipient: string;
+  asset: string;
+  amount: bigint;
+  condition: EscrowCondition;
+  /** Unix time (seconds) after which the sender may reclaim unreleased funds */
+  timeout: number;
+  status: EscrowStatus;
+  /** Hash of the transaction that funded the escrow */
+  txHash?: string;
+  /** Hash of the release or refund transaction */
+  settlementTxHash?: string;
+  createdAt: number;
+}
+
+export interface NewEscrow {
+  sender: string;
+  recipient: string;
+  asset: string;
+  amount: bigint;
+  condition: EscrowCondition;
+  timeout: number;
+}
+
+export interface EscrowFilter {
+  role?: EscrowRole;
+  status?: EscrowStatus;
+  asset?: string;
+}
+
+export interface EscrowManagerConfig {
+  /**
+   * Where escrows are persisted (defaults to localStorage under storageKey, or memory where there is none);
+   * may be shared with other modules, which never see the escrows
+   */
+  store?: NoteStore;
+  /** localStorage key of the default store */
+  storageKey?: string;
+  autoSync?: boolean;
+}
+
+/**
+ * Maps an escrow condition onto the zkCondition circuit's condition type and data.
+ * Hashlocks are proven as event conditions, the event being the preimage reveal.
+ * @param condition The escrow condition
+ * @returns The circuit's condition type and data
+ */
+export function conditionCircuitInput(condition: EscrowCondition): {
+  conditionType: ConditionCircuitType;
+  conditionData: bigint;
+} {
+  switch (condition.type) {
+    case 'deadline':
+      return { conditionType: CONDITION_TYPES.TIME, conditionData: BigInt(condition.releaseAfter) };
+    case 'oracle':
+      return {
+        conditionType: CONDITION_TYPES.EVENT,
+        conditionData: toFieldElement(hash(`${condition.oracle}:${condition.statement}`))
+      };
+    case 'hashlock':
+      return { conditionType: CONDITION_TYPES.EVENT, conditionData: toFieldElement(condition.hash) };
+  }
+}
+
+/**
+ * The part of a zkCondition proof that states which condition holds
+ */
+export type ConditionCheck = Pick<ConditionProofInput, 'conditionType' | 'currentTime' | 'targetTime' | 'eventHash' | 'targetHash'>;
+
+/**
+ * Computes the id the zkCondition circuit knows an escrow by
+ * @param terms Escrow terms
+ * @returns The id as a 32-byte hex string
+ */
+export function escrowConditionId(terms: NewEscrow): string {
+  return computeConditionId({
+    recipient: terms.recipient,
+    amount: terms.amount,
+    asset: terms.asset,
+    timeout: terms.timeout,
+    ...conditionCircuitInput(terms.condition)
+  });
+}
+
+/**
+ * Maps a release onto the zkCondition circuit, whose time conditions hold while the proof is made
+ * before a target time. A deadline is proven against the escrow's timeout, the pool checking the
+ * deadline itself against block time; hashlocks and oracle attestations are proven as events.
+ * @param escrow The escrow, already checked with assertReleasable
+ * @param evidence Preimage or attestation satisfying the condition
+ * @param at Unix time (seconds) the release is made at
+ */
+export function releaseConditionCheck(escrow: Escrow, evidence: EscrowEvidence, at: number): ConditionCheck {
+  const condition = escrow.condition;
+  switch (condition.type) {
+    case 'deadline':
+      return { conditionType: CONDITION_TYPES.TIME, currentTime: at, targetTime: escrow.timeout };
+    case 'oracle': {
+      // The attestation was verified against this statement, so the attested event is the expected one
+      const statement = toFieldElement(hash(`${condition.oracle}:${condition.statement}`));
+      return { conditionType: CONDITION_TYPES.EVENT, currentTime: at, eventHash: statement, targetHash: statement };
+    }
+    case 'hashlock':
+      return {
+        conditionType: CONDITION_TYPES.EVENT,
+        currentTime: at,
+        eventHash: toFieldElement(hash(evidence.preimage ?? '')),
+        targetHash: toFieldElement(condition.hash)
+      };
+  }
+}
+
+/**
+ * Maps a refund onto the zkCondition circuit. It cannot prove that a time has passed, so a refund
+ * proves the escrow's opening with the timeout as its event; the pool checks the timeout against block time.
+ * @param escrow The escrow, already checked with assertRefundable
+ * @param at Unix time (seconds) the refund is made at
+ */
+export function refundConditionCheck(escrow: Escrow, at: number): ConditionCheck {
+  const timeout = BigInt(escrow.timeout);
+  return { conditionType: CONDITION_TYPES.EVENT, currentTime: at, eventHash: timeout, targetHash: timeout };
+}
+
+/**
+ * Tracks conditional payments this wallet funds or receives
+ */
+export class EscrowManager {
+  private escrows: Map<string, Escrow> = new Map();
+  private readonly chainType: ChainType;
+  private config: EscrowManagerConfig;
+  private readonly store: NoteStore;
+  private writes: Promise<void> = Promise.resolve();
+  public readonly ready: Promise<void>;
+
+  constructor(chainType: ChainType, config: EscrowManagerConfig = {}) {
+    this.chainType = chainType;
+    this.config = {
+      storageKey: 'cipherpay_escrows',
+      autoSync: true,
+      ...config
+    };
+
+    this.store = new ScopedNoteStore(config.store || (LocalStorageNoteStore.isAvailable()
+      ? new LocalStorageNoteStore(this.config.storageKey)
+      : new MemoryNoteStore()), 'escrow');
+    this.ready = this.config.autoSync ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Waits for the writes made so far to reach the store, e.g. before a process exits
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Registers a new outgoing escrow
+   * @param params Escrow terms
+   * @returns The stored escrow
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async create(params: NewEscrow): Promise<Escrow> {
+    this.validateTerms(params);
+
+    const salt = randomFieldHex();
+    const escrow: Escrow = {
+      id: this.generateEscrowId(),
+      commitment: this.computeCommitment({ ...params, salt }),
+      salt,
+      role: 'sender',
+      ...params,
+      status: 'locked',
+      createdAt: Date.now()
+    };
+
+    // Keep the escrow only once it is persisted
+    await this.saveToStorage(tx => tx.put(this.serializeEscrow(escrow)));
+    this.escrows.set(escrow.id, escrow);
+    return escrow;
+  }
+
+  /**
+   * Stores an incoming escrow shared by its sender, after checking its terms match its commitment
+   * @param escrow Escrow record received from the sender
+   * @returns The stored escrow
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async importEscrow(escrow: Escrow): Promise<Escrow> {
+    this.validateTerms(escrow);
+
+    if (this.computeCommitment(escrow) !== escrow.commitment) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Escrow terms do not match its commitment', 'commitment', {
+          escrowId: escrow.id,
+          commitment: escrow.commitment
+        })
+      );
+    }
+
+    // Keep what this wallet already knows about the escrow's settlement
+    const existing = this.escrows.get(escrow.id);
+    const imported: Escrow = {
+      ...escrow,
+      role: 'recipient',
+      status: existing?.status ?? escrow.status,
+      settlementTxHash: existing?.settlementTxHash ?? escrow.settlementTxHash
+    };
+    await this.saveToStorage(tx => tx.put(this.serializeEscrow(imported)));
+    this.escrows.set(imported.id, imported);
+    return imported;
+  }
+
+  /**
+   * Gets an escrow by id
+   */
+  getEscrow(id: string): Escrow | null {
+    return this.escrows.get(id) || null;
+  }
+
+  /**
+   * Lists escrows oldest first
+   * @param filter Criteria escrows must match
+   */
+  getEscrows(filter: EscrowFilter = {}): Escrow[] {
+    return Array.from(this.escrows.values())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .filter(escrow => {
+        if (filter.role && escrow.role !== filter.role) return false;
+        if (filter.status && escrow.status !== filter.status) return false;
+        if (filter.asset && escrow.asset !== filter.asset) return false;
+        return true;
+      });
+  }
+
+  /**
+   * Updates fields of a stored escrow
+   * @param id Escrow id
+   * @param update Fields to change
+   * @returns The updated escrow, or null if it doesn't exist
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async updateEscrow(id: string, update: Partial<Pick<Escrow, 'status' | 'txHash' | 'settlementTxHash'>>): Promise<Escrow | null> {
+    const escrow = this.escrows.get(id);
+    if (!escrow) {
+      return null;
+    }
+
+    Object.assign(escrow, update);
+    await this.saveToStorage(tx => tx.put(this.serializeEscrow(escrow)));
+    return escrow;
+  }
+
+  /**
+   * Removes an escrow
+   * @returns True if the escrow existed
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async deleteEscrow(id: string): Promise<boolean> {
+    const deleted = this.escrows.delete(id);
+    if (deleted) {
+      await this.saveToStorage(tx => tx.delete(id));
+    }
+    return deleted;
+  }
+
+  /**
+   * Checks that an escrow can be released: it is still locked, has not timed out and its condition holds
+   * @param escrow The escrow
+   * @param evidence Preimage or attestation satisfying the condition
+   * @param at Unix time (seconds) to evaluate at
+   */
+  assertReleasable(escrow: Escrow, evidence: EscrowEvidence, at: number): void {
+    const context = { escrowId: escrow.id, condition: escrow.condition.type };
+
+    if (escrow.status !== 'locked') {
+      throw ErrorHandler.createValidationError(`Escrow ${escrow.id} is already ${escrow.status}`, 'status', context);
+    }
+    if (at >= escrow.timeout) {
+      throw ErrorHandler.createValidationError(`Escrow ${escrow.id} timed out at ${escrow.timeout}`, 'timeout', context);
+    }
+
+    const condition = escrow.condition;
+    switch (condition.type) {
+      case 'deadline':
+        if (at < condition.releaseAfter) {
+          throw ErrorHandler.createValidationError(
+            `Escrow ${escrow.id} cannot be released before ${condition.releaseAfter}`,
+            'releaseAfter',
+            context
+          );
+        }
+        return;
+      case 'hashlock':
+        if (!evidence.preimage || hash(evidence.preimage).toLowerCase() !== condition.hash.toLowerCase()) {
+          throw ErrorHandler.createValidationError('Preimage does not match the escrow hashlock', 'preimage', context);
+        }
+        return;
+      case 'oracle':
+        if (!evidence.attestation || !this.verifyAttestation(condition, evidence.attestation)) {
+          throw ErrorHandler.createValidationError('Oracle attestation is missing or invalid', 'attestation', context);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Checks that an escrow can be refunded to its sender: it is still locked and has timed out
+   * @param escrow The escrow
+   * @param at Unix time (seconds) to evaluate at
+   */
+  assertRefundable(escrow: Escrow, at: number): void {
+    const context = { escrowId: escrow.id };
+
+    if (escrow.role !== 'sender') {
+      throw ErrorHandler.createValidationError(`Only the sender can refund escrow ${escrow.id}`, 'escrowId', context);
+    }
+    if (escrow.status !== 'locked') {
+      throw ErrorHandler.createValidationError(`Escrow ${escrow.id} is already ${escrow.status}`, 'status', context);
+    }
+    if (at < escrow.timeout) {
+      throw ErrorHandler.createValidationError(
+        `Escrow ${escrow.id} cannot be refunded before ${escrow.timeout}`,
+        'timeout',
+        context
+      );
+    }
+  }
+
+  /**
+   * Removes all escrows
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async clear(): Promise<void> {
+    this.escrows.clear();
+    await this.saveToStorage(tx => tx.clear());
+  }
+
+  private computeCommitment(terms: NewEscrow & { salt: string }): string {
+    return computeConditionCommitment({
+      recipient: terms.recipient,
+      amount: terms.amount,
+      asset: terms.asset,
+      timeout: terms.timeout,
+      salt: terms.salt,
+      ...conditionCircuitInput(terms.condition)
+    });
+  }
+
+  /**
+   * Verifies the oracle's signature over the condition statement with the chain's signature scheme
+   */
+  private verifyAttestation(condition: { oracle: string; statement: string }, attestation: string): boolean {
+    try {
+      if (this.chainType === 'ethereum') {
+        return ethers.utils.verifyMessage(condition.statement, attestation).toLowerCase() === condition.oracle.toLowerCase();
+      }
+      return nacl.sign.detached.verify(
+        ethers.utils.toUtf8Bytes(condition.statement),
+        ethers.utils.arrayify(attestation),
+        new PublicKey(condition.oracle).toBytes()
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private validateTerms(terms: NewEscrow): void {
+    if (!terms.recipient) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Escrow recipient is required', 'recipient')
+      );
+    }
+    if (terms.amount <= BigInt(0)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Escrow amount must be greater than 0', 'amount', {
+          amount: terms.amount.toString()
+        })
+      );
+    }
+    if (!Number.isInteger(terms.timeout)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Escrow timeout must be a unix time in seconds', 'timeout', {
+          timeout: terms.timeout
+        })
+      );
+    }
+
+    const condition = terms.condition;
+    const invalid =
+      (condition.type === 'deadline' && (!Number.isInteger(condition.releaseAfter) || condition.releaseAfter >= terms.timeout)) ||
+      (condition.type === 'oracle' && (!condition.oracle || !condition.statement)) ||
+      (condition.type === 'hashlock' && !/^0x[0-9a-fA-F]{64}$/.test(condition.hash));
+    if (!['deadline', 'oracle', 'hashlock'].includes(condition.type) || invalid) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`Invalid ${condition.type} escrow condition`, 'condition', { condition })
+      );
+    }
+  }
+
+  /**
+   * Generates a unique escrow ID
+   */
+  private generateEscrowId(): string {
+    return `escrow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Writes changes to the store in one transaction
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  private async saveToStorage(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    if (!this.config.autoSync) {
+      return;
+    }
+    const saved = this.store.transaction(write);
+    this.writes = Promise.all([this.writes, saved.catch(() => undefined)]).then(() => undefined);
+    try {
+      await saved;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createStorageError(`Failed to save escrows to storage: ${errorMessage}`, { operation: 'save_escrows' })
+      );
+    }
+  }
+
+  /**
+   * Converts an escrow to its stored form
+   */
+  private serializeEscrow(escrow: Escrow): StoredNote {
+    return {
+      ...escrow,
+      amount: escrow.amount.toString()
+    };
+  }
+
+  /**
+   * Loads escrows from the store, keeping escrows registered while it was loading
+   */
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = this.store.loadSync ? this.store.loadSync() : await this.store.load();
+      stored.forEach((data: any) => {
+        if (!this.escrows.has(data.id)) {
+          this.escrows.set(data.id, { ...data, amount: BigInt(data.amount) });
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to load escrows from storage:', error);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { utils } from 'ethers';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { deriveNullifierKey, deriveOwnerPublicKey } from '../zk/NoteCrypto';
+import { fieldToHex } from '../zk/field';
+
+/**
+ * Wallet key hierarchy. Every key comes from one BIP-39 mnemonic:
+ *
+ *   mnemonic ──BIP-32──▶ m/44'/7331'/account' ──▶ spending key
+ *   spending key ──Poseidon──▶ nullifier key          computes nullifiers, so it can detect spends
+ *   spending key ──Poseidon──▶ owner public key       notes paid to the wallet commit to it; its hex is the shielded address
+ *   spending key ──keccak256──▶ full viewing key      the view key: opens notes and backs audit disclosures
+ *   full viewing key ──keccak256──▶ incoming viewing key   X25519 secret that opens notes sent to the wallet
+ *
+ * Each key is one-way from the key it is derived from, so sharing a viewing key never reveals the
+ * spending key. Keys live under their own coin type and never coincide with the chain wallet's keys,
+ * even when both come from the same mnemonic.
+ */
+export const DERIVATION_PATH_PREFIX = "m/44'/7331'";
+
+/** Accounts are hardened BIP-32 indices */
+const MAX_ACCOUNT = 0x7fffffff;
+
+export interface WalletKeys {
+  /** Index the keys were derived at */
+  account: number;
+  /** Authorizes spends; never leaves the wallet */
+  spendingKey: string;
+  /** Computes the nullifiers of the wallet's notes (32-byte hex field element) */
+  nullifierKey: string;
+  /** Owner public key as a 32-byte hex string: the shielded address other wallets pay this one at */
+  ownerPublicKey: string;
+  /** View key of the ViewKeyManager */
+  fullViewingKey: string;
+  /** X25519 secret key notes sent to the wallet are sealed to */
+  incomingViewingKey: string;
+}
+
+/**
+ * Generates a new 24-word BIP-39 mnemonic
+ */
+export function generateMnemonic(): string {
+  return utils.entropyToMnemonic(utils.randomBytes(32));
+}
+
+/**
+ * Checks that a mnemonic is a valid BIP-39 phrase
+ * @throws CipherPayError if a word is not in the word list or the checksum does not match
+ */
+export function validateMnemonic(mnemonic: string): void {
+  if (!utils.isValidMnemonic(mnemonic)) {
+    throw ErrorHandler.getInstance().handleError(new CipherPayError(
+      'Invalid recovery phrase',
+      ErrorType.INVALID_PRIVATE_KEY,
+      { words: mnemonic.trim().split(/\s+/).length },
+      {
+        action: 'Check the spelling and order of the recovery phrase',
+        description: 'The recovery phrase is not a valid BIP-39 mnemonic.'
+      },
+      false
+    ));
+  }
+}
+
+/**
+ * Derives the keys of one account
+ * @param mnemonic BIP-39 mnemonic
+ * @param account Account index (defaults to 0)
+ * @param passphrase Optional BIP-39 passphrase; a different passphrase gives an unrelated wallet
+ * @returns The account's keys
+ */
+export function deriveWalletKeys(mnemonic: string, account: number = 0, passphrase: string = ''): WalletKeys {
+  validateMnemonic(mnemonic);
+  if (!Number.isInteger(account) || account < 0 || account > MAX_ACCOUNT) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Account must be an integer from 0 to ${MAX_ACCOUNT}`, 'account', { account })
+    );
+  }
+
+  const spendingKey = utils.HDNode.fromMnemonic(mnemonic, passphrase)
+    .derivePath(`${DERIVATION_PATH_PREFIX}/${account}'`)
+    .privateKey;
+  const fullViewingKey = utils.keccak256(utils.concat([utils.toUtf8Bytes('cipherpay-full-viewing-key'), spendingKey]));
+
+  return {
+    account,
+    spendingKey,
+    nullifierKey: fieldToHex(deriveNullifierKey(spendingKey)),
+    ownerPublicKey: fieldToHex(deriveOwnerPublicKey(spendingKey)),
+    fullViewingKey,
+    incomingViewingKey: deriveIncomingViewingKey(fullViewingKey)
+  };
+}
+
+/**
+ * Derives the incoming viewing key from a view key
+ * @param viewKey Full viewing key, as held by the ViewKeyManager
+ * @returns The X25519 secret key (hex)
+ */
+export function deriveIncomingViewingKey(viewKey: string): string {
+  return utils.keccak256(
+    utils.concat([utils.toUtf8Bytes('cipherpay-note-encryption'), utils.toUtf8Bytes(viewKey)])
+  );
+}
+
+/**
+ * Derives the suffix an account's local state is stored under, so accounts and wallets sharing a device
+ * never read each other's notes, cursor or history
+ * @param keys The account's keys
+ * @returns 16 hex characters, one-way from the full viewing key
+ */
+export function deriveStorageNamespace(keys: WalletKeys): string {
+  return utils.keccak256(
+    utils.concat([utils.toUtf8Bytes('cipherpay-storage-namespace'), keys.fullViewingKey])
+  ).slice(2, 18);
+}
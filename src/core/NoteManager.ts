@@ -1,9 +1,25 @@
 import { Note, NoteStatus, NoteType, ShieldedNote } from '../types/Note';
-import { encryptNote, decryptNote, generateCommitment, generateNullifier } from '../utils/encryption';
+import { encryptNote, decryptNote } from '../utils/encryption';
+import {
+  computeNoteCommitment,
+  computeNoteSecret,
+  computeNullifier,
+  deriveNullifierKey,
+  deriveOwnerPublicKey,
+  blindingFromSeed
+} from '../zk/NoteCrypto';
+import { randomFieldHex, fieldToHex, toFieldElement } from '../zk/field';
 import { hash } from '../utils/hash';
 import * as nacl from 'tweetnacl';
 import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
 import { globalRateLimiter } from '../utils/RateLimiter';
+import { NATIVE_ASSET, noteAsset } from './AssetRegistry';
+import { NoteStore, NoteStoreTransaction, StoredNote } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
+import { LocalStorageNoteStore } from '../storage/LocalStorageNoteStore';
+import { ScopedNoteStore } from '../storage/ScopedNoteStore';
+import { createNoteBackup, openNoteBackup, BackupOptions } from '../storage/NoteBackup';
+import { validateMemo } from '../utils/memo';
 
 // Export types for backward compatibility
 export { ShieldedNote, Note, NoteStatus, NoteType };
@@ -12,11 +28,38 @@ export { ShieldedNote, Note, NoteStatus, NoteType };
 export { encryptNote, decryptNote } from '../utils/encryption';
 
 export interface NoteManagerConfig {
+  /** Where notes are persisted (defaults to localStorage under storageKey, or memory where there is none) */
+  store?: NoteStore;
+  /** localStorage key of the default store */
   storageKey?: string;
+  /** Key note data is encrypted with; pass the same key across restarts to read stored notes */
   encryptionKey?: string;
+  /**
+   * Key the nullifiers of this wallet's notes are derived from. Required when notes are persisted, as stored
+   * nullifiers must stay spendable after a restart; notes kept in memory or not synced may use a random key.
+   */
+  spendingKey?: string;
+  /** Milliseconds a note reservation lasts unless released or consumed first (defaults to 10 minutes) */
+  reservationTtl?: number;
+  /** Milliseconds a note may stay pending before it expires (defaults to 1 hour) */
+  pendingTimeout?: number;
+  /** Milliseconds between checks for timed-out pending notes while expiry checks run (defaults to 1 minute) */
+  expiryCheckInterval?: number;
   autoSync?: boolean;
 }
 
+/**
+ * Notes held for one in-flight transaction so no other transaction selects them
+ */
+export interface NoteReservation {
+  id: string;
+  noteIds: string[];
+  /** Operation the notes are held for */
+  operation?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
 export interface NoteFilter {
   status?: NoteStatus;
   type?: NoteType;
@@ -25,10 +68,42 @@ export interface NoteFilter {
   fromDate?: Date;
   toDate?: Date;
   recipientAddress?: string;
+  asset?: string;
+}
+
+/**
+ * A note paid to this wallet by someone else, as decrypted from the chain
+ */
+export interface ReceivedNote {
+  amount: bigint;
+  recipientAddress: string;
+  asset?: string;
+  /** Blinding seed the sender committed with */
+  randomSeed: number[];
+  /** Commitment published on chain; must match the other fields */
+  commitment: string;
+  leafIndex?: number;
+  /** Memo the sender sealed with the note */
+  memo?: string;
+  /** How the note entered the pool (defaults to 'transfer') */
+  type?: NoteType;
+  metadata?: Record<string, any>;
 }
 
-// Extended Note interface for internal use
-interface ExtendedNote extends Note {
+/**
+ * One status change of a note
+ */
+export interface NoteStatusTransition {
+  from: NoteStatus;
+  to: NoteStatus;
+  at: number;
+  reason?: string;
+  /** Transaction that caused the change */
+  txHash?: string;
+}
+
+// Extended Note interface tracked by the manager
+export interface ExtendedNote extends Note {
   id: string;
   status: NoteStatus;
   type: NoteType;
@@ -37,18 +112,127 @@ interface ExtendedNote extends Note {
   updatedAt: Date;
   metadata: Record<string, any>;
   randomSeed: number[];
+  /** Status changes, oldest first; absent on notes saved before it was tracked */
+  statusHistory?: NoteStatusTransition[];
+}
+
+/**
+ * Statuses each status may move to
+ */
+export const NOTE_STATUS_TRANSITIONS: Record<NoteStatus, readonly NoteStatus[]> = {
+  pending: ['confirmed', 'expired'],
+  confirmed: ['spent'],
+  // Final; inputs of a submitted transaction that fails are restored with restoreFailedSpend()
+  spent: [],
+  // A note that timed out is still confirmed if its transaction lands late
+  expired: ['confirmed']
+};
+
+/**
+ * Checks whether a note may move from one status to another
+ */
+export function isValidStatusTransition(from: NoteStatus, to: NoteStatus): boolean {
+  return NOTE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export type NoteChangeType = 'created' | 'status' | 'metadata' | 'deleted' | 'reserved' | 'released';
+
+export interface NoteChange {
+  type: NoteChangeType;
+  note: ExtendedNote;
+  previousStatus?: NoteStatus;
+}
+
+export type NoteChangeListener = (change: NoteChange) => void;
+
+/**
+ * What importing a backup did
+ */
+export interface NoteImportResult {
+  /** Notes added that were not tracked before */
+  imported: number;
+  /** Tracked notes the backup moved further along, e.g. to spent */
+  updated: number;
+  /** Notes already tracked in the same state, or invalid */
+  skipped: number;
+  /** Tracked notes left unchanged because their status may not move to the backup's */
+  rejected: RejectedNoteImport[];
+}
+
+export interface RejectedNoteImport {
+  noteId: string;
+  from: NoteStatus;
+  to: NoteStatus;
+}
+
+/** How far along a note is; an import never moves a note backwards */
+const STATUS_RANK: Record<NoteStatus, number> = {
+  pending: 0,
+  expired: 1,
+  confirmed: 2,
+  spent: 3
+};
+
+/**
+ * Totals of the note consolidation runs reported to this manager
+ */
+export interface ConsolidationStats {
+  runs: number;
+  /** Reshields submitted to merge notes */
+  submitted: number;
+  failed: number;
+  /** Plans not run because they exceeded the fee cap */
+  skipped: number;
+  /** Input notes spent by submitted consolidations */
+  notesMerged: number;
+  /** Estimated fees of submitted consolidations, in the units of FeeEstimate.totalFee */
+  feesPaid: number;
+  lastRunAt?: number;
+  lastError?: string;
+}
+
+/**
+ * One consolidation run, as reported by the consolidation service
+ */
+export interface ConsolidationRunReport {
+  submitted: Array<{ notesMerged: number; fee: number }>;
+  failed: string[];
+  skipped: number;
 }
 
 export class NoteManager {
   private notes: Map<string, ExtendedNote> = new Map();
   private config: NoteManagerConfig;
   private encryptionKey: Uint8Array;
+  private nullifierKey: bigint;
+  private ownerKey: bigint;
+  private changeListeners: NoteChangeListener[] = [];
+  /** The configured store, of which the manager sees only notes */
+  private store: ScopedNoteStore;
+  /** Active reservations keyed by note id */
+  private reservations: Map<string, NoteReservation> = new Map();
+  private expiryTimer?: ReturnType<typeof setInterval>;
+  private consolidation: ConsolidationStats = {
+    runs: 0,
+    submitted: 0,
+    failed: 0,
+    skipped: 0,
+    notesMerged: 0,
+    feesPaid: 0
+  };
+
+  /** Settles once stored notes are loaded; rejects if the store could not be read */
+  public readonly ready: Promise<void>;
 
   constructor(config: NoteManagerConfig = {}) {
     this.config = {
       storageKey: 'cipherpay_notes',
+      reservationTtl: 10 * 60 * 1000,
+      expiryCheckInterval: 60 * 1000,
       autoSync: true,
-      ...config
+      ...config,
+      // The SDK passes its own option through, which may be undefined
+      pendingTimeout: config.pendingTimeout || 60 * 60 * 1000
     };
     
     // Generate or use provided encryption key
@@ -57,40 +241,124 @@ export class NoteManager {
     } else {
       this.encryptionKey = nacl.randomBytes(32);
     }
-
-    if (this.config.autoSync) {
-      this.loadFromStorage();
+    this.store = new ScopedNoteStore(config.store || (LocalStorageNoteStore.isAvailable()
+      ? new LocalStorageNoteStore(this.config.storageKey)
+      : new MemoryNoteStore()), 'note');
+
+    // A random key is lost on restart, after which stored notes' nullifiers could not be recomputed
+    if (!config.spendingKey && this.config.autoSync && this.isPersistent()) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        'A spending key is required to persist notes',
+        ErrorType.CONFIGURATION_ERROR,
+        { operation: 'create_note_manager' },
+        {
+          action: 'Pass the wallet\'s spending key, e.g. from deriveWalletKeys, or keep notes in a MemoryNoteStore',
+          description: 'Nullifiers derive from the spending key; notes persisted under a random key cannot be spent after a restart.'
+        },
+        false
+      ));
     }
+    const spendingKey = config.spendingKey || randomFieldHex();
+    this.nullifierKey = deriveNullifierKey(spendingKey);
+    this.ownerKey = deriveOwnerPublicKey(spendingKey);
+    this.ready = this.config.autoSync ? this.loadFromStorage() : Promise.resolve();
+    // Callers that never await ready still get the failure logged by loadFromStorage
+    this.ready.catch(() => undefined);
   }
 
   /**
-   * Creates a new note
+   * Creates a note owned by this wallet: it commits to the wallet's owner public key whatever the recipient address
+   * @param memo Message sealed with the note for its recipient, at most MAX_MEMO_BYTES long
    */
   async createNote(
     amount: bigint,
     recipientAddress: string,
     type: NoteType = 'transfer',
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    asset: string = NATIVE_ASSET,
+    memo?: string
+  ): Promise<ExtendedNote> {
+    const note = await this.composeNote(amount, recipientAddress, this.ownerKey, type, metadata, asset, memo);
+
+    // Store note, keeping it only once it is persisted
+    await this.saveToStorage(tx => tx.put(this.serializeNote(note)));
+    this.notes.set(note.id, note);
+
+    this.notifyChange({ type: 'created', note });
+    return note;
+  }
+
+  /**
+   * Builds a note without tracking it, for outputs paid to another wallet: this wallet cannot spend them,
+   * so they are neither stored nor counted in its balance
+   * @param recipientAddress The recipient's shielded address (see getShieldedAddress), which the note commits to
+   * @param memo Message sealed with the note for its recipient, at most MAX_MEMO_BYTES long
+   */
+  async buildNote(
+    amount: bigint,
+    recipientAddress: string,
+    type: NoteType = 'transfer',
+    metadata?: Record<string, any>,
+    asset: string = NATIVE_ASSET,
+    memo?: string
   ): Promise<ExtendedNote> {
+    return this.composeNote(amount, recipientAddress, toFieldElement(recipientAddress), type, metadata, asset, memo);
+  }
+
+  /**
+   * Checks whether notes survive a restart, i.e. are kept in a store other than memory
+   */
+  isPersistent(): boolean {
+    return !(this.store.backend instanceof MemoryNoteStore);
+  }
+
+  /**
+   * Gets the address other wallets pay this one at: its owner public key, which only its spending key derives
+   * @returns The shielded address as a 32-byte hex string
+   */
+  getShieldedAddress(): string {
+    return fieldToHex(this.ownerKey);
+  }
+
+  /**
+   * Generates the fields of a note committed to the given owner public key
+   */
+  private async composeNote(
+    amount: bigint,
+    recipientAddress: string,
+    ownerKey: bigint,
+    type: NoteType,
+    metadata: Record<string, any> | undefined,
+    asset: string,
+    memo: string | undefined
+  ): Promise<ExtendedNote> {
+    if (memo !== undefined) {
+      validateMemo(memo);
+    }
+
     // Apply rate limiting for note creation
     globalRateLimiter.consume('NOTE_ENCRYPTION', {
       operation: 'create',
       noteType: type,
       amount: amount.toString(),
+      asset,
       hasMetadata: !!metadata
     });
 
     try {
-      // Generate note components
-      const commitment = await generateCommitment(amount, recipientAddress);
-      const nullifier = await generateNullifier(commitment);
-      const randomSeed = nacl.randomBytes(32);
+      // Generate note components; the random seed blinds the commitment
+      const randomSeed = nacl.randomBytes(31);
+      const opening = { asset, ownerKey, blinding: blindingFromSeed(randomSeed) };
+      const commitment = computeNoteCommitment({ amount, ...opening });
+      const secret = computeNoteSecret(opening);
+      const nullifier = computeNullifier(this.nullifierKey, secret, metadata?.leafIndex);
       
       // Create note object
       const note: ExtendedNote = {
         id: this.generateNoteId(),
         amount,
         recipientAddress,
+        asset,
         commitment,
         nullifier,
         type,
@@ -98,7 +366,9 @@ export class NoteManager {
         createdAt: new Date(),
         updatedAt: new Date(),
         metadata: metadata || {},
+        memo,
         randomSeed: Array.from(randomSeed),
+        secret,
         encryptedNote: '',
         spent: false,
         timestamp: Date.now()
@@ -107,14 +377,6 @@ export class NoteManager {
       // Encrypt note data
       const encryptedNote = await this.encryptNote(note);
       note.encryptedData = encryptedNote;
-
-      // Store note
-      this.notes.set(note.id, note);
-      
-      if (this.config.autoSync) {
-        this.saveToStorage();
-      }
-
       return note;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -124,7 +386,8 @@ export class NoteManager {
         { 
           amount: amount.toString(),
           recipientAddress,
-          type
+          type,
+          asset
         },
         {
           action: 'Check inputs and retry',
@@ -136,6 +399,58 @@ export class NoteManager {
     }
   }
 
+  /**
+   * Adds a confirmed note another wallet paid to this one
+   * @param received The decrypted note and where it sits in the tree
+   * @returns The stored note; the existing one if its commitment is already known
+   */
+  async addReceivedNote(received: ReceivedNote): Promise<ExtendedNote> {
+    const existing = Array.from(this.notes.values()).find(note => note.commitment === received.commitment);
+    if (existing) {
+      return existing;
+    }
+
+    const asset = received.asset || NATIVE_ASSET;
+    const opening = { asset, ownerKey: this.ownerKey, blinding: blindingFromSeed(received.randomSeed) };
+    const commitment = computeNoteCommitment({ amount: received.amount, ...opening });
+    const secret = computeNoteSecret(opening);
+    // A sender could publish any payload, so only notes that open the on-chain commitment, paid to our key, count
+    if (commitment !== received.commitment.toLowerCase()) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Received note does not match its commitment', 'commitment', {
+          commitment: received.commitment
+        })
+      );
+    }
+
+    const note: ExtendedNote = {
+      id: this.generateNoteId(),
+      amount: received.amount,
+      recipientAddress: received.recipientAddress,
+      asset,
+      commitment,
+      nullifier: computeNullifier(this.nullifierKey, secret, received.leafIndex),
+      type: received.type || 'transfer',
+      status: 'confirmed',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      metadata: { ...received.metadata, leafIndex: received.leafIndex },
+      memo: received.memo,
+      randomSeed: received.randomSeed,
+      secret,
+      encryptedNote: '',
+      spent: false,
+      timestamp: Date.now()
+    };
+    note.encryptedData = await this.encryptNote(note);
+
+    await this.saveToStorage(tx => tx.put(this.serializeNote(note)));
+    this.notes.set(note.id, note);
+
+    this.notifyChange({ type: 'created', note });
+    return note;
+  }
+
   /**
    * Decrypts and retrieves a note
    */
@@ -190,6 +505,7 @@ export class NoteManager {
         if (filter.fromDate && note.createdAt < filter.fromDate) return false;
         if (filter.toDate && note.createdAt > filter.toDate) return false;
         if (filter.recipientAddress && note.recipientAddress !== filter.recipientAddress) return false;
+        if (filter.asset && noteAsset(note) !== filter.asset) return false;
         return true;
       });
     }
@@ -214,51 +530,261 @@ export class NoteManager {
   }
 
   /**
-   * Gets spendable notes (not spent and confirmed)
+   * Gets spendable notes (not spent, confirmed and not reserved)
+   * @param asset Only return notes holding this asset
    */
-  getSpendableNotes(): ExtendedNote[] {
+  getSpendableNotes(asset?: string): ExtendedNote[] {
     return Array.from(this.notes.values()).filter(note => 
-      !note.spent && note.status === 'confirmed'
+      !note.spent && note.status === 'confirmed' && !this.getReservation(note.id) &&
+      (asset === undefined || noteAsset(note) === asset)
     );
   }
 
   /**
-   * Gets total balance
+   * Locks spendable notes for an in-flight transaction. Release them if the transaction fails,
+   * consume them once it confirms; otherwise they unlock when the reservation expires.
+   * @param noteIds Notes the transaction spends
+   * @param options Reservation lifetime and the operation it is for
+   * @returns The reservation
+   * @throws CipherPayError if a note is not spendable or already reserved
    */
-  getBalance(): bigint {
-    return Array.from(this.notes.values())
-      .filter(note => !note.spent && note.status === 'confirmed')
+  reserveNotes(noteIds: string[], options: { ttl?: number; operation?: string } = {}): NoteReservation {
+    for (const noteId of noteIds) {
+      const note = this.notes.get(noteId);
+      const held = this.getReservation(noteId);
+      if (!note || note.spent || note.status !== 'confirmed' || held) {
+        throw ErrorHandler.getInstance().handleError(new CipherPayError(
+          held ? `Note ${noteId} is reserved by another transaction` : `Note ${noteId} is not spendable`,
+          ErrorType.NOTE_ALREADY_SPENT,
+          { noteId, operation: options.operation, reservedFor: held?.operation },
+          {
+            action: held ? 'Retry once the other transaction settles' : 'Select other notes',
+            description: 'Notes can only be spent by one transaction at a time.'
+          },
+          !!held
+        ));
+      }
+    }
+
+    const createdAt = Date.now();
+    const reservation: NoteReservation = {
+      id: `reservation_${createdAt}_${Math.random().toString(36).substr(2, 9)}`,
+      noteIds: [...noteIds],
+      operation: options.operation,
+      createdAt,
+      expiresAt: createdAt + (options.ttl ?? this.config.reservationTtl!)
+    };
+    for (const noteId of noteIds) {
+      this.reservations.set(noteId, reservation);
+      this.notifyChange({ type: 'reserved', note: this.notes.get(noteId)! });
+    }
+    return reservation;
+  }
+
+  /**
+   * Unlocks notes whose transaction failed, making them spendable again
+   * @param noteIds Notes to unlock; notes without a reservation are ignored
+   */
+  releaseNotes(noteIds: string[]): void {
+    for (const noteId of noteIds) {
+      if (this.reservations.delete(noteId) && this.notes.has(noteId)) {
+        this.notifyChange({ type: 'released', note: this.notes.get(noteId)! });
+      }
+    }
+  }
+
+  /**
+   * Marks reserved notes spent once their transaction confirms and drops their reservation
+   * @param noteIds Notes the confirmed transaction spent
+   * @param txHash The confirmed transaction
+   */
+  async consumeNotes(noteIds: string[], txHash?: string): Promise<void> {
+    for (const noteId of noteIds) {
+      this.reservations.delete(noteId);
+      await this.updateNoteStatus(noteId, 'spent', { reason: 'Transaction confirmed', txHash });
+    }
+  }
+
+  /**
+   * Makes notes spendable again when the transaction that spent them failed. Only notes this wallet
+   * marked spent on submitting that transaction are restored; a spend observed on-chain is final.
+   * @param noteIds Inputs of the failed transaction
+   * @param txHash The failed transaction
+   * @throws CipherPayError if a note was not spent by that transaction
+   */
+  async restoreFailedSpend(noteIds: string[], txHash: string): Promise<void> {
+    const notes = noteIds.map(noteId => this.notes.get(noteId)).filter((note): note is ExtendedNote => !!note);
+    for (const note of notes) {
+      const spend = note.status === 'spent' ? (note.statusHistory || []).slice(-1)[0] : undefined;
+      if (!spend || spend.to !== 'spent' || spend.txHash !== txHash) {
+        throw ErrorHandler.getInstance().handleError(new CipherPayError(
+          `Note ${note.id} was not spent by transaction ${txHash}`,
+          ErrorType.INVALID_NOTE_TRANSITION,
+          { noteId: note.id, status: note.status, txHash, spentBy: spend?.txHash },
+          {
+            action: 'Only restore the inputs of a failed transaction',
+            description: 'A spent note can only be restored when the transaction that spent it failed.'
+          },
+          false
+        ));
+      }
+    }
+
+    for (const note of notes) {
+      await this.applyStatus(note, 'confirmed', { reason: 'Spending transaction failed', txHash });
+    }
+    this.releaseNotes(noteIds);
+  }
+
+  /**
+   * Gets the active reservation holding a note
+   * @param noteId Note to look up
+   * @returns The reservation, or undefined if the note is not reserved or its reservation expired
+   */
+  getReservation(noteId: string): NoteReservation | undefined {
+    const reservation = this.reservations.get(noteId);
+    if (reservation && reservation.expiresAt <= Date.now()) {
+      this.reservations.delete(noteId);
+      return undefined;
+    }
+    return reservation;
+  }
+
+  /**
+   * Gets notes reserved by in-flight transactions, including those already submitted but unconfirmed
+   * @param asset Only return notes holding this asset
+   */
+  getReservedNotes(asset?: string): ExtendedNote[] {
+    return Array.from(this.reservations.keys())
+      .filter(noteId => this.getReservation(noteId) && this.notes.has(noteId))
+      .map(noteId => this.notes.get(noteId)!)
+      .filter(note => asset === undefined || noteAsset(note) === asset);
+  }
+
+  /**
+   * Gets the balance of one asset locked by in-flight transactions; not included in getBalance()
+   * @param asset Asset to total (defaults to the native asset)
+   */
+  getLockedBalance(asset: string = NATIVE_ASSET): bigint {
+    return this.getReservedNotes(asset).reduce((sum, note) => sum + note.amount, BigInt(0));
+  }
+
+  /**
+   * Gets the locked balance of every asset with reserved notes
+   * @returns Locked balances keyed by asset identifier
+   */
+  getLockedBalances(): Record<string, bigint> {
+    const balances: Record<string, bigint> = {};
+    for (const note of this.getReservedNotes()) {
+      const asset = noteAsset(note);
+      balances[asset] = (balances[asset] || BigInt(0)) + note.amount;
+    }
+    return balances;
+  }
+
+  /**
+   * Gets the spendable balance of one asset
+   * @param asset Asset to total (defaults to the native asset)
+   */
+  getBalance(asset: string = NATIVE_ASSET): bigint {
+    return this.getSpendableNotes(asset)
       .reduce((sum, note) => sum + note.amount, BigInt(0));
   }
 
   /**
-   * Updates a note's status
+   * Gets the spendable balance of every asset held
+   * @returns Balances keyed by asset identifier
+   */
+  getBalances(): Record<string, bigint> {
+    const balances: Record<string, bigint> = {};
+    for (const note of this.getSpendableNotes()) {
+      const asset = noteAsset(note);
+      balances[asset] = (balances[asset] || BigInt(0)) + note.amount;
+    }
+    return balances;
+  }
+
+  /**
+   * Moves a note to another status, recording the change in its status history
+   * @param noteId Note to update
+   * @param status New status; must be allowed by NOTE_STATUS_TRANSITIONS
+   * @param details Why the status changed and the transaction that changed it
+   * @returns The note, unchanged if it already has the status, or null if it is not tracked
+   * @throws CipherPayError if the note may not move to the status
    */
-  async updateNoteStatus(noteId: string, status: NoteStatus): Promise<ExtendedNote | null> {
+  async updateNoteStatus(
+    noteId: string,
+    status: NoteStatus,
+    details: { reason?: string; txHash?: string } = {}
+  ): Promise<ExtendedNote | null> {
     const note = this.notes.get(noteId);
     if (!note) {
       return null;
     }
+    if (note.status === status) {
+      return note;
+    }
+    if (!isValidStatusTransition(note.status, status)) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        `Note ${noteId} cannot move from ${note.status} to ${status}`,
+        ErrorType.INVALID_NOTE_TRANSITION,
+        { noteId, from: note.status, to: status, reason: details.reason },
+        {
+          action: 'Check the note status before updating it',
+          description: NOTE_STATUS_TRANSITIONS[note.status].length > 0
+            ? `A ${note.status} note can only become ${NOTE_STATUS_TRANSITIONS[note.status].join(' or ')}.`
+            : `A ${note.status} note cannot change status.`
+        },
+        false
+      ));
+    }
 
-    console.log('DEBUG: updateNoteStatus - Original timestamp:', note.updatedAt.getTime());
-    
+    await this.applyStatus(note, status, details);
+    return note;
+  }
+
+  /**
+   * Moves a note to a status without checking the transition, then persists it and notifies listeners
+   */
+  private async applyStatus(
+    note: ExtendedNote,
+    status: NoteStatus,
+    details: { reason?: string; txHash?: string }
+  ): Promise<void> {
+    const previousStatus = note.status;
     note.status = status;
-    // Force a minimum increment of 2ms to ensure timestamps are different
-    const originalTime = note.updatedAt.getTime();
-    note.updatedAt = new Date(originalTime + 2);
-    
-    console.log('DEBUG: updateNoteStatus - New timestamp:', note.updatedAt.getTime());
-    console.log('DEBUG: updateNoteStatus - Difference:', note.updatedAt.getTime() - originalTime);
+    note.spent = status === 'spent';
+    note.updatedAt = new Date();
+    note.statusHistory = [
+      ...(note.statusHistory || []),
+      { from: previousStatus, to: status, at: note.updatedAt.getTime(), ...details }
+    ];
 
     // Re-encrypt note with updated data
     const encryptedNote = await this.encryptNote(note);
     note.encryptedData = encryptedNote;
+    await this.saveToStorage(tx => tx.put(this.serializeNote(note)));
 
-    if (this.config.autoSync) {
-      this.saveToStorage();
-    }
+    this.notifyChange({ type: 'status', note, previousStatus });
+  }
 
-    return note;
+  /**
+   * Gets the key this wallet's nullifiers are derived with, as proof witnesses take it
+   * @returns The nullifier key as a 32-byte hex string
+   */
+  getNullifierKey(): string {
+    return fieldToHex(this.nullifierKey);
+  }
+
+  /**
+   * Gets the secret of a tracked note; notes saved before it was kept are this wallet's, so it is recomputed
+   */
+  private noteSecret(note: ExtendedNote): string {
+    return note.secret || computeNoteSecret({
+      asset: note.asset,
+      ownerKey: this.ownerKey,
+      blinding: blindingFromSeed(note.randomSeed)
+    });
   }
 
   /**
@@ -270,37 +796,91 @@ export class NoteManager {
       return null;
     }
 
-    console.log('DEBUG: updateNoteMetadata - Original timestamp:', note.updatedAt.getTime());
-    
     note.metadata = { ...note.metadata, ...metadata };
-    // Force a minimum increment of 2ms to ensure timestamps are different
-    const originalTime = note.updatedAt.getTime();
-    note.updatedAt = new Date(originalTime + 2);
-    
-    console.log('DEBUG: updateNoteMetadata - New timestamp:', note.updatedAt.getTime());
-    console.log('DEBUG: updateNoteMetadata - Difference:', note.updatedAt.getTime() - originalTime);
+    // The nullifier commits to the leaf index, so it is final only once the note is in the tree
+    if (metadata.leafIndex !== undefined) {
+      note.nullifier = computeNullifier(this.nullifierKey, this.noteSecret(note), metadata.leafIndex);
+    }
+    note.updatedAt = new Date();
 
     // Re-encrypt note with updated data
     const encryptedNote = await this.encryptNote(note);
     note.encryptedData = encryptedNote;
+    await this.saveToStorage(tx => tx.put(this.serializeNote(note)));
+
+    this.notifyChange({ type: 'metadata', note });
+    return note;
+  }
+
+  /**
+   * Gets the status changes of a note
+   * @param noteId Note to look up
+   * @returns Its transitions, oldest first; empty if the note is not tracked
+   */
+  getStatusHistory(noteId: string): NoteStatusTransition[] {
+    return [...(this.notes.get(noteId)?.statusHistory || [])];
+  }
+
+  /**
+   * Expires notes that have been pending for longer than the pending timeout
+   * @returns The notes expired
+   */
+  async expirePendingNotes(): Promise<ExtendedNote[]> {
+    const cutoff = Date.now() - this.config.pendingTimeout!;
+    const stale = Array.from(this.notes.values())
+      .filter(note => note.status === 'pending' && note.createdAt.getTime() <= cutoff);
+
+    for (const note of stale) {
+      await this.updateNoteStatus(note.id, 'expired', {
+        reason: 'Pending timeout',
+        txHash: note.metadata.txHash
+      });
+    }
+    return stale;
+  }
 
-    if (this.config.autoSync) {
-      this.saveToStorage();
+  /**
+   * Starts expiring timed-out pending notes in the background
+   */
+  startExpiryChecks(): void {
+    if (this.expiryTimer) {
+      return; // Already running
     }
 
-    return note;
+    this.expiryTimer = setInterval(async () => {
+      try {
+        await this.expirePendingNotes();
+      } catch (error) {
+        console.error('Pending note expiry failed:', error);
+      }
+    }, this.config.expiryCheckInterval);
+  }
+
+  /**
+   * Stops the background expiry checks
+   */
+  stopExpiryChecks(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
   }
 
   /**
    * Deletes a note
    */
   async deleteNote(noteId: string): Promise<boolean> {
+    const note = this.notes.get(noteId);
     const deleted = this.notes.delete(noteId);
+    this.reservations.delete(noteId);
     
-    if (deleted && this.config.autoSync) {
-      this.saveToStorage();
+    if (deleted) {
+      await this.saveToStorage(tx => tx.delete(noteId));
     }
 
+    if (note) {
+      this.notifyChange({ type: 'deleted', note });
+    }
     return deleted;
   }
 
@@ -358,6 +938,9 @@ export class NoteManager {
     byStatus: Record<NoteStatus, number>;
     byType: Record<NoteType, number>;
     totalAmount: number;
+    /** Spendable note count per asset; how fragmented each balance is */
+    spendableByAsset: Record<string, number>;
+    consolidation: ConsolidationStats;
   }> {
     const notes = Array.from(this.notes.values());
     
@@ -369,6 +952,7 @@ export class NoteManager {
     };
 
     const byType: Record<NoteType, number> = {
+      deposit: 0,
       transfer: 0,
       withdraw: 0,
       reshield: 0
@@ -382,109 +966,164 @@ export class NoteManager {
       totalAmount += Number(note.amount);
     });
 
+    const spendableByAsset: Record<string, number> = {};
+    for (const note of this.getSpendableNotes()) {
+      const asset = noteAsset(note);
+      spendableByAsset[asset] = (spendableByAsset[asset] || 0) + 1;
+    }
+
     return {
       total: notes.length,
       byStatus,
       byType,
-      totalAmount
+      totalAmount,
+      spendableByAsset,
+      consolidation: { ...this.consolidation }
     };
   }
 
   /**
-   * Exports notes to JSON
+   * Records the outcome of a consolidation run for getNoteStatistics()
+   * @param report What the run submitted, failed and skipped
    */
-  async exportNotes(password?: string): Promise<string> {
-    const notesData = Array.from(this.notes.values());
-    
-    if (password) {
-      // Encrypt the entire export with a password
-      const exportData = JSON.stringify(notesData);
-      const passwordKey = await this.deriveKeyFromPassword(password);
-      const encryptedExport = await this.encryptData(exportData, passwordKey);
-      return JSON.stringify({
-        encrypted: true,
-        data: Array.from(encryptedExport)
-      });
+  recordConsolidation(report: ConsolidationRunReport): void {
+    const stats = this.consolidation;
+    stats.runs++;
+    stats.submitted += report.submitted.length;
+    stats.failed += report.failed.length;
+    stats.skipped += report.skipped;
+    for (const merge of report.submitted) {
+      stats.notesMerged += merge.notesMerged;
+      stats.feesPaid += merge.fee;
+    }
+    stats.lastRunAt = Date.now();
+    if (report.failed.length > 0) {
+      stats.lastError = report.failed[report.failed.length - 1];
     }
-
-    return JSON.stringify(notesData);
   }
 
   /**
-   * Imports notes from JSON
+   * Exports every note as a backup (see storage/NoteBackup for the format)
+   * @param password Password to encrypt the backup with
+   * @param options Key derivation options
+   * @returns The backup as a JSON string
    */
-  async importNotes(jsonData: string, password?: string): Promise<number> {
-    try {
-      let data: any;
-      
-      if (password) {
-        // Decrypt the JSON data first
-        const key = await this.deriveKeyFromPassword(password);
-        const decryptedData = await this.decryptData(new TextEncoder().encode(jsonData), key);
-        data = JSON.parse(decryptedData);
-      } else {
-        data = JSON.parse(jsonData);
-      }
+  async exportNotes(password?: string, options?: BackupOptions): Promise<string> {
+    const notes = Array.from(this.notes.values()).map(note => this.serializeNote(note));
+    return createNoteBackup(notes, password, options);
+  }
 
-      if (!Array.isArray(data.notes)) {
-        throw new CipherPayError(
-          'Invalid notes data format',
-          ErrorType.INVALID_NOTE_FORMAT,
-          { dataType: typeof data.notes },
-          {
-            action: 'Check data format',
-            description: 'Invalid notes data format. Expected an array of notes.'
-          },
-          false
-        );
+  /**
+   * Restores notes from a backup of any supported version, merging with the notes already tracked.
+   * Notes are matched by commitment: unknown notes are added, and known notes take the backup's
+   * status only when it is further along and NOTE_STATUS_TRANSITIONS allows the move, so restoring
+   * an old backup never revives spent notes. Moves it does not allow are reported in `rejected`.
+   * @param backup Backup JSON string
+   * @param password Password the backup was encrypted with
+   * @returns How many notes were added, updated and skipped, and the status changes rejected
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write; no note is changed then
+   */
+  async importNotes(backup: string, password?: string): Promise<NoteImportResult> {
+    const stored = await openNoteBackup(backup, password);
+
+    const byCommitment = new Map(Array.from(this.notes.values()).map(note => [note.commitment, note] as [string, ExtendedNote]));
+    const result: NoteImportResult = { imported: 0, updated: 0, skipped: 0, rejected: [] };
+    const added: ExtendedNote[] = [];
+    const updates = new Map<ExtendedNote, ExtendedNote>();
+
+    for (const noteData of stored) {
+      if (!this.isValidNote(noteData)) {
+        result.skipped++;
+        continue;
       }
+      const restored = this.deserializeNote(noteData);
+      const existing = byCommitment.get(restored.commitment);
 
-      let importedCount = 0;
-      for (const noteData of data.notes) {
-        if (this.isValidNote(noteData)) {
-          const note: ExtendedNote = {
-            ...noteData,
-            createdAt: new Date(noteData.createdAt),
-            updatedAt: new Date(noteData.updatedAt)
-          };
-          
-          // Generate new ID to avoid conflicts
-          note.id = this.generateNoteId();
-          
-          this.notes.set(note.id, note);
-          importedCount++;
+      if (!existing) {
+        // Keep the backup's id unless it now belongs to a different note
+        if (this.notes.has(restored.id) || added.some(note => note.id === restored.id)) {
+          restored.id = this.generateNoteId();
         }
+        // The backup may come from a wallet with another encryption key
+        restored.encryptedData = await this.encryptNote(restored);
+        byCommitment.set(restored.commitment, restored);
+        added.push(restored);
+        result.imported++;
+      } else if (added.includes(existing) || STATUS_RANK[restored.status] <= STATUS_RANK[existing.status]) {
+        result.skipped++;
+      } else if (!isValidStatusTransition(existing.status, restored.status)) {
+        result.rejected.push({ noteId: existing.id, from: existing.status, to: restored.status });
+      } else {
+        const updatedAt = new Date();
+        updates.set(existing, {
+          ...existing,
+          status: restored.status,
+          spent: existing.spent || restored.spent,
+          metadata: { ...restored.metadata, ...existing.metadata },
+          updatedAt,
+          statusHistory: [
+            ...(existing.statusHistory || []),
+            { from: existing.status, to: restored.status, at: updatedAt.getTime(), reason: 'Restored from backup' }
+          ]
+        });
+        result.updated++;
       }
+    }
 
-      if (this.config.autoSync) {
-        this.saveToStorage();
-      }
+    // Apply the changes only once they are persisted
+    await this.saveToStorage(tx => {
+      added.forEach(note => tx.put(this.serializeNote(note)));
+      updates.forEach(update => tx.put(this.serializeNote(update)));
+    });
 
-      return importedCount;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const cipherPayError = new CipherPayError(
-        `Failed to import notes: ${errorMessage}`,
-        ErrorType.INVALID_NOTE_FORMAT,
-        { notesCount: jsonData.length },
-        {
-          action: 'Check data format and password',
-          description: 'Failed to import notes. Please verify the data format and password if provided.'
-        },
-        true
-      );
-      throw ErrorHandler.getInstance().handleError(cipherPayError);
-    }
+    const changes: NoteChange[] = [];
+    added.forEach(note => {
+      this.notes.set(note.id, note);
+      changes.push({ type: 'created', note });
+    });
+    updates.forEach((update, existing) => {
+      const previousStatus = existing.status;
+      Object.assign(existing, update);
+      changes.push({ type: 'status', note: existing, previousStatus });
+    });
+    changes.forEach(change => this.notifyChange(change));
+    return result;
   }
 
   /**
    * Clears all notes
    */
   async clearAllNotes(): Promise<void> {
+    const cleared = Array.from(this.notes.values());
     this.notes.clear();
-    
-    if (this.config.autoSync) {
-      this.saveToStorage();
+    this.reservations.clear();
+    await this.saveToStorage(tx => tx.clear());
+
+    cleared.forEach(note => this.notifyChange({ type: 'deleted', note }));
+  }
+
+  /**
+   * Registers a listener for note creation, status, metadata and deletion changes
+   * @param listener Called after each change has been applied
+   * @returns Function that removes the listener
+   */
+  onChange(listener: NoteChangeListener): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Notifies change listeners, isolating failures in individual listeners
+   */
+  private notifyChange(change: NoteChange): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error(`Error in note ${change.type} listener:`, error);
+      }
     }
   }
 
@@ -495,6 +1134,7 @@ export class NoteManager {
     const noteData = JSON.stringify({
       amount: note.amount,
       recipientAddress: note.recipientAddress,
+      asset: note.asset,
       metadata: note.metadata,
       randomSeed: note.randomSeed
     });
@@ -571,30 +1211,6 @@ export class NoteManager {
     return new TextDecoder().decode(decrypted);
   }
 
-  /**
-   * Derives a key from a password
-   */
-  private async deriveKeyFromPassword(password: string): Promise<Uint8Array> {
-    const salt = new TextEncoder().encode('cipherpay-salt');
-    const passwordBuffer = new TextEncoder().encode(password);
-    
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      passwordBuffer,
-      { name: 'PBKDF2' },
-      false,
-      ['deriveBits']
-    );
-
-    const keyBits = await crypto.subtle.deriveBits(
-      { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
-      keyMaterial,
-      256
-    );
-
-    return new Uint8Array(keyBits);
-  }
-
   /**
    * Generates a unique note ID
    */
@@ -618,48 +1234,85 @@ export class NoteManager {
   }
 
   /**
-   * Saves notes to local storage
+   * Copies every note into another store and persists to it from then on
+   * @param store Store to move to
+   * @returns Number of notes copied
+   */
+  async migrateTo(store: NoteStore): Promise<number> {
+    const notes = Array.from(this.notes.values());
+    const target = new ScopedNoteStore(store, 'note');
+    // Learn which notes the target holds, so clearing them leaves other records alone
+    await target.load();
+    await target.transaction(tx => {
+      tx.clear();
+      notes.forEach(note => tx.put(this.serializeNote(note)));
+    });
+    this.store = target;
+    return notes.length;
+  }
+
+  /**
+   * Writes changes to the store in one transaction
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
    */
-  private saveToStorage(): void {
+  private async saveToStorage(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    if (!this.config.autoSync) {
+      return;
+    }
     try {
-      const notesArray = Array.from(this.notes.values());
-      // Convert BigInt values to strings for JSON serialization
-      const serializedNotes = notesArray.map(note => ({
-        ...note,
-        amount: note.amount.toString()
-      }));
-      const storageData = JSON.stringify(serializedNotes);
-      localStorage.setItem(this.config.storageKey!, storageData);
+      await this.store.transaction(write);
     } catch (error) {
-      console.warn('Failed to save notes to storage:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createStorageError(`Failed to save notes to storage: ${errorMessage}`, { operation: 'save_notes' })
+      );
     }
   }
 
   /**
-   * Loads notes from local storage
+   * Loads notes from the store, keeping notes created while it was loading
    */
-  private loadFromStorage(): void {
+  private async loadFromStorage(): Promise<void> {
     try {
-      const storageData = localStorage.getItem(this.config.storageKey!);
-      if (storageData) {
-        const notesArray = JSON.parse(storageData);
-        this.notes.clear();
-        
-        notesArray.forEach((noteData: any) => {
-          if (this.isValidNote(noteData)) {
-            const note: ExtendedNote = {
-              ...noteData,
-              // Convert amount back to BigInt
-              amount: BigInt(noteData.amount),
-              createdAt: new Date(noteData.createdAt),
-              updatedAt: new Date(noteData.updatedAt)
-            };
-            this.notes.set(note.id, note);
-          }
-        });
-      }
+      const stored = this.store.loadSync ? this.store.loadSync() : await this.store.load();
+      stored.forEach(noteData => {
+        if (this.isValidNote(noteData) && !this.notes.has(noteData.id)) {
+          const note = this.deserializeNote(noteData);
+          this.notes.set(note.id, note);
+        }
+      });
     } catch (error) {
       console.warn('Failed to load notes from storage:', error);
+      throw error;
     }
   }
+
+  /**
+   * Converts a note to its stored form
+   */
+  private serializeNote(note: ExtendedNote): StoredNote {
+    return {
+      ...note,
+      amount: note.amount.toString(),
+      encryptedData: note.encryptedData ? Array.from(note.encryptedData) : undefined
+    };
+  }
+
+  /**
+   * Converts a stored note back to a note
+   */
+  private deserializeNote(noteData: StoredNote): ExtendedNote {
+    const encryptedData = noteData.encryptedData;
+    return {
+      ...noteData,
+      // Convert amount back to BigInt
+      amount: BigInt(noteData.amount),
+      // Notes saved before multi-asset support hold the native asset
+      asset: noteAsset({ asset: noteData.asset }),
+      // Notes saved before stores existed hold the bytes as an index-keyed object
+      encryptedData: encryptedData ? new Uint8Array(Object.values(encryptedData)) : undefined,
+      createdAt: new Date(noteData.createdAt),
+      updatedAt: new Date(noteData.updatedAt)
+    } as ExtendedNote;
+  }
 }
@@ -0,0 +1,304 @@
+import { NoteManager, ExtendedNote, NoteType } from './NoteManager';
+import { ViewKeyManager } from './ViewKeyManager';
+import { NATIVE_ASSET, noteAsset } from './AssetRegistry';
+import { EventMonitor, ShieldedEvent, ShieldedTransferEvent } from '../events/EventMonitor';
+import { RelayerAPI, PublishedNote } from '../relayer/RelayerAPI';
+import { sealForRecipient } from '../utils/encryption';
+import { NoteStore } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
+import { LocalStorageNoteStore } from '../storage/LocalStorageNoteStore';
+import { ScopedNoteStore } from '../storage/ScopedNoteStore';
+import { padMemo, unpadMemo } from '../utils/memo';
+
+/**
+ * The part of a note its recipient needs to spend it, as sealed and published with the transaction that creates it
+ */
+export interface NotePayload {
+  amount: string;
+  asset: string;
+  recipientAddress: string;
+  /** Missing from notes sealed by earlier versions, which are treated as transfers */
+  type?: NoteType;
+  /** Blinding seed the commitment was made with (hex) */
+  randomSeed: string;
+  /** Memo padded to MEMO_SIZE bytes (hex); present, and the same size, whether or not the note has one */
+  memo?: string;
+  /** Only written by earlier versions, which sent the memo here unpadded */
+  metadata?: Record<string, any>;
+}
+
+export interface NoteScannerConfig {
+  /** Where the cursor is persisted (defaults to localStorage under storageKey, or memory where there is none) */
+  store?: NoteStore;
+  /** localStorage key of the default store */
+  storageKey?: string;
+  autoSync?: boolean;
+  /** Blocks fetched per query while scanning history */
+  blocksPerQuery?: number;
+}
+
+/** Where the scanner looks up what pool events do not carry: each commitment's sealed note and leaf index */
+export type PublishedNoteSource = Pick<RelayerAPI, 'getPublishedNotes'>;
+
+export interface NoteScanResult {
+  /** ShieldedTransfer events checked for notes */
+  scanned: number;
+  /** Notes found for this wallet that were not already known */
+  discovered: ExtendedNote[];
+  /** Last block scanned */
+  cursor: number;
+}
+
+/**
+ * Encrypts a note for its recipient so their scanner can discover it
+ * @param note Note to send
+ * @param recipientKey Recipient's note encryption key (ViewKeyManager.getNoteEncryptionKey)
+ * @returns The sealed note (hex) to publish with the transfer
+ */
+export function sealNote(note: ExtendedNote, recipientKey: string): string {
+  const payload: NotePayload = {
+    amount: note.amount.toString(),
+    asset: noteAsset(note),
+    recipientAddress: note.recipientAddress,
+    type: note.type,
+    randomSeed: '0x' + note.randomSeed.map(byte => byte.toString(16).padStart(2, '0')).join(''),
+    memo: padMemo(note.memo)
+  };
+  return sealForRecipient(JSON.stringify(payload), recipientKey);
+}
+
+/** Id of the record the cursor is stored as */
+const CURSOR_RECORD_ID = 'scan_cursor';
+
+function isTransferEvent(event: ShieldedEvent): event is ShieldedTransferEvent {
+  return event.type === 'shielded_transfer';
+}
+
+/**
+ * Finds notes paid to this wallet by trial-decrypting, with the view key, the sealed note published with each
+ * commitment a ShieldedTransfer event reports. The event only carries the commitment, so the sealed note and
+ * leaf index are looked up from the relayer's index. The wallet seals its own deposits and change to itself,
+ * so a restored wallet finds those too.
+ */
+export class NoteScanner {
+  private readonly noteManager: NoteManager;
+  private readonly viewKeyManager: ViewKeyManager;
+  private readonly eventMonitor: EventMonitor;
+  private readonly noteSource: PublishedNoteSource;
+  private config: NoteScannerConfig;
+  private readonly store: NoteStore;
+  private cursor: number = -1;
+  public readonly ready: Promise<void>;
+
+  constructor(
+    noteManager: NoteManager,
+    viewKeyManager: ViewKeyManager,
+    eventMonitor: EventMonitor,
+    noteSource: PublishedNoteSource,
+    config: NoteScannerConfig = {}
+  ) {
+    this.noteManager = noteManager;
+    this.viewKeyManager = viewKeyManager;
+    this.eventMonitor = eventMonitor;
+    this.noteSource = noteSource;
+    this.config = {
+      storageKey: 'cipherpay_scanner',
+      autoSync: true,
+      blocksPerQuery: 1000,
+      ...config
+    };
+
+    this.store = new ScopedNoteStore(config.store || (LocalStorageNoteStore.isAvailable()
+      ? new LocalStorageNoteStore(this.config.storageKey)
+      : new MemoryNoteStore()), 'scan_cursor');
+    this.ready = this.config.autoSync ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Gets the last block scanned, or -1 before the first scan
+   */
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Moves the cursor, e.g. back to a block to rescan from after restoring a wallet
+   * @param block Last block to treat as scanned
+   */
+  async resetCursor(block: number = -1): Promise<void> {
+    this.cursor = block;
+    if (this.config.autoSync) {
+      await this.saveToStorage();
+    }
+  }
+
+  /**
+   * Scans pool events after the cursor, advancing it chunk by chunk so an interrupted scan resumes where it stopped
+   * @param toBlock Last block to scan (defaults to the latest block)
+   * @returns What the scan found
+   */
+  async scan(toBlock?: number): Promise<NoteScanResult> {
+    await this.ready;
+    const result: NoteScanResult = { scanned: 0, discovered: [], cursor: this.cursor };
+
+    while (toBlock === undefined || this.cursor < toBlock) {
+      const fromBlock = this.cursor + 1;
+      const chunkEnd = toBlock === undefined ? undefined : Math.min(toBlock, fromBlock + this.config.blocksPerQuery! - 1);
+      const { events, toBlock: scannedTo } = await this.eventMonitor.getShieldedEvents(fromBlock, chunkEnd);
+      if (scannedTo < fromBlock) {
+        break;
+      }
+
+      // One lookup per chunk for the notes published with its commitments
+      const transfers = events.filter(isTransferEvent);
+      const published = transfers.length > 0
+        ? await this.getPublishedNotes(transfers.map(event => event.commitment))
+        : new Map<string, PublishedNote>();
+
+      for (const event of transfers) {
+        result.scanned++;
+        try {
+          const note = await this.receive(event, async () => published.get(event.commitment));
+          if (note) {
+            result.discovered.push(note);
+          }
+        } catch (error) {
+          // A note sealed to us that does not open its commitment is unspendable; skip it
+          console.warn('Skipping invalid received note:', event.commitment, error);
+        }
+      }
+
+      await this.resetCursor(scannedTo);
+      if (toBlock === undefined) {
+        // The latest block was resolved by this query, so the scan is caught up
+        break;
+      }
+    }
+
+    result.cursor = this.cursor;
+    return result;
+  }
+
+  /**
+   * Trial-decrypts the note published with one event's commitment and stores it if it is for this wallet;
+   * for notes already known, records the leaf index the pool inserted them at
+   * @param event Event from the pool
+   * @returns The newly found note, or null if the event is not for this wallet or already known
+   * @throws CipherPayError if the decrypted note does not match the event's commitment
+   */
+  async processEvent(event: ShieldedEvent): Promise<ExtendedNote | null> {
+    if (!isTransferEvent(event)) {
+      return null;
+    }
+    return this.receive(event, async () => (await this.getPublishedNotes([event.commitment])).get(event.commitment));
+  }
+
+  /**
+   * Handles one transfer event, looking up its published note only when it is needed
+   */
+  private async receive(
+    event: ShieldedTransferEvent,
+    lookup: () => Promise<PublishedNote | undefined>
+  ): Promise<ExtendedNote | null> {
+    // Our own outputs are known before they reach the tree; their nullifiers bind the leaf index the pool assigns
+    const known = await this.noteManager.findNotesByCommitment(event.commitment);
+    if (known.length > 0) {
+      if (known.some(note => note.metadata?.leafIndex === undefined)) {
+        await this.bindLeafIndex(known, (await lookup())?.leafIndex);
+      }
+      return null;
+    }
+
+    const published = await lookup();
+    const payload = published?.encryptedNote ? this.decryptPayload(published.encryptedNote) : null;
+    if (!published || !payload) {
+      return null;
+    }
+
+    return this.noteManager.addReceivedNote({
+      amount: BigInt(payload.amount),
+      recipientAddress: payload.recipientAddress,
+      asset: payload.asset || NATIVE_ASSET,
+      randomSeed: Array.from(Buffer.from(payload.randomSeed.replace(/^0x/, ''), 'hex')),
+      commitment: event.commitment,
+      leafIndex: published.leafIndex,
+      memo: payload.memo ? unpadMemo(payload.memo) : undefined,
+      type: payload.type || 'transfer',
+      metadata: {
+        ...payload.metadata,
+        discovered: true,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber
+      }
+    });
+  }
+
+  /**
+   * Records the leaf index of notes that do not have one yet, which finalizes their nullifiers
+   */
+  private async bindLeafIndex(notes: ExtendedNote[], leafIndex?: number): Promise<void> {
+    if (leafIndex === undefined) {
+      return;
+    }
+    for (const note of notes) {
+      if (note.metadata?.leafIndex === undefined) {
+        await this.noteManager.updateNoteMetadata(note.id, { leafIndex });
+      }
+    }
+  }
+
+  /**
+   * Looks up the notes published with the given commitments
+   * @returns The notes found, by commitment
+   */
+  private async getPublishedNotes(commitments: string[]): Promise<Map<string, PublishedNote>> {
+    const notes = await this.noteSource.getPublishedNotes(commitments);
+    return new Map(notes.map(note => [note.commitment, note]));
+  }
+
+  /**
+   * Opens a published note with the view key
+   * @returns The payload, or null if the note was sealed to another key or is malformed
+   */
+  private decryptPayload(encryptedNote: string): NotePayload | null {
+    const plaintext = this.viewKeyManager.openNote(encryptedNote);
+    if (!plaintext) {
+      return null;
+    }
+    try {
+      const payload = JSON.parse(plaintext);
+      return typeof payload.amount === 'string' && typeof payload.randomSeed === 'string' && payload.recipientAddress
+        ? payload
+        : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Saves the cursor to the store; a lost write only means blocks are scanned again
+   */
+  private async saveToStorage(): Promise<void> {
+    const cursor = this.cursor;
+    try {
+      await this.store.transaction(tx => tx.put({ id: CURSOR_RECORD_ID, cursor }));
+    } catch (error) {
+      console.warn('Failed to save scan cursor to storage:', error);
+    }
+  }
+
+  /**
+   * Loads the cursor from the store, unless it was moved while loading
+   */
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = this.store.loadSync ? this.store.loadSync() : await this.store.load();
+      const record = stored.find(data => data.id === CURSOR_RECORD_ID);
+      if (record && this.cursor === -1) {
+        this.cursor = record.cursor;
+      }
+    } catch (error) {
+      console.warn('Failed to load scan cursor from storage:', error);
+    }
+  }
+}
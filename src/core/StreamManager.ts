@@ -0,0 +1,345 @@
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { computeStreamCommitment } from '../zk/StreamWitness';
+import { randomFieldHex } from '../zk/field';
+import { NoteStore, NoteStoreTransaction, StoredNote } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
+import { LocalStorageNoteStore } from '../storage/LocalStorageNoteStore';
+import { ScopedNoteStore } from '../storage/ScopedNoteStore';
+
+export type StreamRole = 'sender' | 'recipient';
+
+export type StreamStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+/**
+ * A payment that vests linearly at `rate` per second between startTime and endTime.
+ * The sender shares this record with the recipient, who needs it to claim.
+ */
+export interface PaymentStream {
+  id: string;
+  commitment: string;
+  salt: string;
+  /** Whether this wallet pays or receives the stream */
+  role: StreamRole;
+  sender: string;
+  recipient: string;
+  asset: string;
+  /** Amount vested per second, in the asset's base units */
+  rate: bigint;
+  /** Unix time (seconds) vesting starts */
+  startTime: number;
+  /** Unix time (seconds) the stream is fully vested */
+  endTime: number;
+  totalAmount: bigint;
+  /** Unix time (seconds) the sender cancelled at; nothing vests after it */
+  cancelledAt?: number;
+  /** Hash of the transaction that funded the stream */
+  txHash?: string;
+  createdAt: number;
+}
+
+export interface NewPaymentStream {
+  sender: string;
+  recipient: string;
+  asset: string;
+  rate: bigint;
+  startTime: number;
+  endTime: number;
+}
+
+export interface StreamFilter {
+  role?: StreamRole;
+  status?: StreamStatus;
+  asset?: string;
+}
+
+export interface StreamManagerConfig {
+  /**
+   * Where streams are persisted (defaults to localStorage under storageKey, or memory where there is none);
+   * may be shared with other modules, which never see the streams
+   */
+  store?: NoteStore;
+  /** localStorage key of the default store */
+  storageKey?: string;
+  autoSync?: boolean;
+}
+
+/**
+ * Gets the current time in the unix seconds streams are scheduled in
+ */
+export function currentStreamTime(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Tracks the payment streams this wallet pays or receives
+ */
+export class StreamManager {
+  private streams: Map<string, PaymentStream> = new Map();
+  private config: StreamManagerConfig;
+  private readonly store: NoteStore;
+  private writes: Promise<void> = Promise.resolve();
+  public readonly ready: Promise<void>;
+
+  constructor(config: StreamManagerConfig = {}) {
+    this.config = {
+      storageKey: 'cipherpay_streams',
+      autoSync: true,
+      ...config
+    };
+
+    this.store = new ScopedNoteStore(config.store || (LocalStorageNoteStore.isAvailable()
+      ? new LocalStorageNoteStore(this.config.storageKey)
+      : new MemoryNoteStore()), 'stream');
+    this.ready = this.config.autoSync ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Waits for the writes made so far to reach the store, e.g. before a process exits
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Registers a new outgoing stream
+   * @param params Stream terms
+   * @returns The stored stream
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async create(params: NewPaymentStream): Promise<PaymentStream> {
+    this.validateTerms(params);
+
+    const salt = randomFieldHex();
+    const stream: PaymentStream = {
+      id: this.generateStreamId(),
+      commitment: computeStreamCommitment({ ...params, salt }),
+      salt,
+      role: 'sender',
+      ...params,
+      totalAmount: params.rate * BigInt(params.endTime - params.startTime),
+      createdAt: Date.now()
+    };
+
+    // Keep the stream only once it is persisted
+    await this.saveToStorage(tx => tx.put(this.serializeStream(stream)));
+    this.streams.set(stream.id, stream);
+    return stream;
+  }
+
+  /**
+   * Stores an incoming stream shared by its sender, after checking its terms match its commitment
+   * @param stream Stream record received from the sender
+   * @returns The stored stream
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async importStream(stream: PaymentStream): Promise<PaymentStream> {
+    this.validateTerms(stream);
+
+    const commitment = computeStreamCommitment(stream);
+    if (commitment !== stream.commitment) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Stream terms do not match its commitment', 'commitment', {
+          streamId: stream.id,
+          commitment: stream.commitment
+        })
+      );
+    }
+    if (stream.totalAmount !== stream.rate * BigInt(stream.endTime - stream.startTime)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Stream total does not match its rate and schedule', 'totalAmount', {
+          streamId: stream.id,
+          totalAmount: stream.totalAmount.toString()
+        })
+      );
+    }
+
+    const existing = this.streams.get(stream.id);
+    const imported: PaymentStream = {
+      ...stream,
+      role: 'recipient',
+      cancelledAt: stream.cancelledAt ?? existing?.cancelledAt
+    };
+    await this.saveToStorage(tx => tx.put(this.serializeStream(imported)));
+    this.streams.set(imported.id, imported);
+    return imported;
+  }
+
+  /**
+   * Gets a stream by id
+   */
+  getStream(id: string): PaymentStream | null {
+    return this.streams.get(id) || null;
+  }
+
+  /**
+   * Lists streams oldest first
+   * @param filter Criteria streams must match
+   */
+  getStreams(filter: StreamFilter = {}): PaymentStream[] {
+    return Array.from(this.streams.values())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .filter(stream => {
+        if (filter.role && stream.role !== filter.role) return false;
+        if (filter.asset && stream.asset !== filter.asset) return false;
+        if (filter.status && this.getStatus(stream) !== filter.status) return false;
+        return true;
+      });
+  }
+
+  /**
+   * Updates fields of a stored stream
+   * @param id Stream id
+   * @param update Fields to change
+   * @returns The updated stream, or null if it doesn't exist
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async updateStream(id: string, update: Partial<Pick<PaymentStream, 'txHash' | 'cancelledAt'>>): Promise<PaymentStream | null> {
+    const stream = this.streams.get(id);
+    if (!stream) {
+      return null;
+    }
+
+    Object.assign(stream, update);
+    await this.saveToStorage(tx => tx.put(this.serializeStream(stream)));
+    return stream;
+  }
+
+  /**
+   * Removes a stream
+   * @returns True if the stream existed
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async deleteStream(id: string): Promise<boolean> {
+    const deleted = this.streams.delete(id);
+    if (deleted) {
+      await this.saveToStorage(tx => tx.delete(id));
+    }
+    return deleted;
+  }
+
+  /**
+   * Gets where a stream is in its schedule
+   * @param stream The stream
+   * @param at Unix time (seconds) to evaluate at (defaults to now)
+   */
+  getStatus(stream: PaymentStream, at: number = currentStreamTime()): StreamStatus {
+    if (stream.cancelledAt !== undefined) return 'cancelled';
+    if (at < stream.startTime) return 'scheduled';
+    if (at < stream.endTime) return 'active';
+    return 'ended';
+  }
+
+  /**
+   * Computes how much of a stream has vested; nothing vests after a cancellation
+   * @param stream The stream
+   * @param at Unix time (seconds) to evaluate at (defaults to now)
+   * @returns Vested amount in base units
+   */
+  getVestedAmount(stream: PaymentStream, at: number = currentStreamTime()): bigint {
+    const end = Math.min(at, stream.cancelledAt ?? stream.endTime, stream.endTime);
+    if (end <= stream.startTime) {
+      return BigInt(0);
+    }
+    return stream.rate * BigInt(end - stream.startTime);
+  }
+
+  /**
+   * Gets the latest time a claim can prove vesting at. zkStream only proves times strictly
+   * inside the schedule, so the last second of a stream is never claimable.
+   * @param stream The stream
+   * @param at Unix time (seconds) the claim is made at (defaults to now)
+   * @returns Unix time (seconds) to prove at
+   */
+  getProofTime(stream: PaymentStream, at: number = currentStreamTime()): number {
+    return Math.min(at, stream.cancelledAt ?? stream.endTime, stream.endTime - 1);
+  }
+
+  /**
+   * Removes all streams
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async clear(): Promise<void> {
+    this.streams.clear();
+    await this.saveToStorage(tx => tx.clear());
+  }
+
+  private validateTerms(terms: NewPaymentStream): void {
+    if (!terms.recipient) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Stream recipient is required', 'recipient')
+      );
+    }
+    if (terms.rate <= BigInt(0)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Stream rate must be greater than 0', 'rate', { rate: terms.rate.toString() })
+      );
+    }
+    if (!Number.isInteger(terms.startTime) || !Number.isInteger(terms.endTime) || terms.endTime <= terms.startTime) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Stream end must be a whole second after its start', 'endTime', {
+          startTime: terms.startTime,
+          endTime: terms.endTime
+        })
+      );
+    }
+  }
+
+  /**
+   * Generates a unique stream ID
+   */
+  private generateStreamId(): string {
+    return `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Writes changes to the store in one transaction
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  private async saveToStorage(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    if (!this.config.autoSync) {
+      return;
+    }
+    const saved = this.store.transaction(write);
+    this.writes = Promise.all([this.writes, saved.catch(() => undefined)]).then(() => undefined);
+    try {
+      await saved;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createStorageError(`Failed to save streams to storage: ${errorMessage}`, { operation: 'save_streams' })
+      );
+    }
+  }
+
+  /**
+   * Converts a stream to its stored form
+   */
+  private serializeStream(stream: PaymentStream): StoredNote {
+    return {
+      ...stream,
+      rate: stream.rate.toString(),
+      totalAmount: stream.totalAmount.toString()
+    };
+  }
+
+  /**
+   * Loads streams from the store, keeping streams registered while it was loading
+   */
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = this.store.loadSync ? this.store.loadSync() : await this.store.load();
+      stored.forEach((data: any) => {
+        if (this.streams.has(data.id)) {
+          return;
+        }
+        this.streams.set(data.id, {
+          ...data,
+          rate: BigInt(data.rate),
+          totalAmount: BigInt(data.totalAmount)
+        });
+      });
+    } catch (error) {
+      console.warn('Failed to load streams from storage:', error);
+    }
+  }
+}
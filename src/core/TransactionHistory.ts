@@ -0,0 +1,426 @@
+import { ShieldedNote } from '../types/Note';
+import { SDKTransactionType } from '../events/SDKEventEmitter';
+import { noteAsset } from './AssetRegistry';
+import { NoteStore, NoteStoreTransaction, StoredNote } from '../storage/NoteStore';
+import { MemoryNoteStore } from '../storage/MemoryNoteStore';
+import { LocalStorageNoteStore } from '../storage/LocalStorageNoteStore';
+import { ScopedNoteStore } from '../storage/ScopedNoteStore';
+import { ErrorHandler } from '../errors/ErrorHandler';
+
+export type TransactionRecordStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TransactionHistoryConfig {
+  /**
+   * Where records are persisted (defaults to localStorage under storageKey, or memory where there is none);
+   * may be shared with other modules, which never see the records
+   */
+  store?: NoteStore;
+  /** localStorage key of the default store */
+  storageKey?: string;
+  autoSync?: boolean;
+  /** Oldest records are dropped beyond this many (default 5000) */
+  maxRecords?: number;
+}
+
+export interface TransactionNoteRef {
+  noteId?: string;
+  commitment: string;
+  amount: bigint;
+  asset: string;
+  /** Role the note played, e.g. 'recipient' or 'change' for outputs */
+  role?: string;
+}
+
+export interface TransactionFee {
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+}
+
+export interface TransactionStatusChange {
+  status: TransactionRecordStatus;
+  timestamp: number;
+  error?: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  type: SDKTransactionType;
+  status: TransactionRecordStatus;
+  amount: bigint;
+  asset: string;
+  recipientAddress?: string;
+  /** Relayer (or wallet, for deposits) transaction hash; missing when rejected before submission */
+  txHash?: string;
+  inputNotes: TransactionNoteRef[];
+  outputNotes: TransactionNoteRef[];
+  fee?: TransactionFee;
+  blockNumber?: number;
+  error?: string;
+  statusHistory: TransactionStatusChange[];
+  metadata: Record<string, any>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface NewTransactionRecord {
+  type: SDKTransactionType;
+  status: TransactionRecordStatus;
+  amount: bigint;
+  asset: string;
+  recipientAddress?: string;
+  txHash?: string;
+  inputNotes?: ShieldedNote[];
+  outputNotes?: ShieldedNote[];
+  error?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface TransactionStatusUpdate {
+  error?: string;
+  fee?: TransactionFee;
+  blockNumber?: number;
+}
+
+export interface TransactionHistoryFilter {
+  type?: SDKTransactionType;
+  status?: TransactionRecordStatus;
+  asset?: string;
+  txHash?: string;
+  /** Records that spent or created this note */
+  noteId?: string;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+export interface TransactionHistoryPage {
+  /** Records to skip (default 0) */
+  offset?: number;
+  /** Records to return (default 50) */
+  limit?: number;
+}
+
+export interface TransactionHistoryResult {
+  records: TransactionRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/** Version of the format written by exportJSON() */
+export const TRANSACTION_HISTORY_EXPORT_VERSION = 1;
+
+/**
+ * Persistent ledger of the deposits, transfers, withdrawals and reshields made by this wallet
+ */
+export class TransactionHistory {
+  private records: Map<string, TransactionRecord> = new Map();
+  private config: TransactionHistoryConfig;
+  private readonly store: NoteStore;
+  private writes: Promise<void> = Promise.resolve();
+  public readonly ready: Promise<void>;
+
+  constructor(config: TransactionHistoryConfig = {}) {
+    this.config = {
+      storageKey: 'cipherpay_history',
+      autoSync: true,
+      maxRecords: 5000,
+      ...config
+    };
+
+    this.store = new ScopedNoteStore(config.store || (LocalStorageNoteStore.isAvailable()
+      ? new LocalStorageNoteStore(this.config.storageKey)
+      : new MemoryNoteStore()), 'transaction');
+    this.ready = this.config.autoSync ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Records a transaction
+   * @param entry Transaction details and its initial status
+   * @returns The stored record
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async record(entry: NewTransactionRecord): Promise<TransactionRecord> {
+    const now = Date.now();
+    const record: TransactionRecord = {
+      id: this.generateRecordId(),
+      type: entry.type,
+      status: entry.status,
+      amount: entry.amount,
+      asset: entry.asset,
+      recipientAddress: entry.recipientAddress,
+      txHash: entry.txHash,
+      inputNotes: (entry.inputNotes || []).map(note => this.toNoteRef(note)),
+      outputNotes: (entry.outputNotes || []).map(note => this.toNoteRef(note)),
+      error: entry.error,
+      statusHistory: [{ status: entry.status, timestamp: now, error: entry.error }],
+      metadata: { ...entry.metadata },
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Keep the record, and drop the ones it pushes out, only once the store has both
+    const pruned = this.excess(1);
+    await this.saveToStorage(tx => {
+      tx.put(this.serializeRecord(record));
+      pruned.forEach(old => tx.delete(old.id));
+    });
+    this.records.set(record.id, record);
+    pruned.forEach(old => this.records.delete(old.id));
+    return record;
+  }
+
+  /**
+   * Moves a record to a new status, keeping the transition in its status history
+   * @param txHash Transaction hash of the record
+   * @param status New status
+   * @param update Error, fee and block details reported with the change
+   * @returns The updated record, or null if no record has this hash
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async updateStatus(
+    txHash: string,
+    status: TransactionRecordStatus,
+    update: TransactionStatusUpdate = {}
+  ): Promise<TransactionRecord | null> {
+    const record = this.findByTxHash(txHash);
+    if (!record) {
+      return null;
+    }
+
+    const now = Date.now();
+    record.status = status;
+    record.statusHistory.push({ status, timestamp: now, error: update.error });
+    record.error = update.error ?? record.error;
+    record.fee = update.fee ?? record.fee;
+    record.blockNumber = update.blockNumber ?? record.blockNumber;
+    record.updatedAt = now;
+
+    await this.saveToStorage(tx => tx.put(this.serializeRecord(record)));
+    return record;
+  }
+
+  /**
+   * Gets a record by id
+   */
+  getRecord(id: string): TransactionRecord | null {
+    return this.records.get(id) || null;
+  }
+
+  /**
+   * Finds the record for a transaction hash
+   */
+  findByTxHash(txHash: string): TransactionRecord | null {
+    return Array.from(this.records.values()).find(record => record.txHash === txHash) || null;
+  }
+
+  /**
+   * Lists records newest first, with optional filtering and paging
+   * @param filter Criteria records must match
+   * @param page Offset and limit of the page to return
+   * @returns The page of records and the total number matching the filter
+   */
+  getRecords(filter: TransactionHistoryFilter = {}, page: TransactionHistoryPage = {}): TransactionHistoryResult {
+    const offset = Math.max(page.offset || 0, 0);
+    const limit = Math.max(page.limit ?? 50, 0);
+
+    const matching = this.sorted()
+      .reverse()
+      .filter(record => {
+        if (filter.type && record.type !== filter.type) return false;
+        if (filter.status && record.status !== filter.status) return false;
+        if (filter.asset && record.asset !== filter.asset) return false;
+        if (filter.txHash && record.txHash !== filter.txHash) return false;
+        if (filter.fromDate && record.createdAt < filter.fromDate.getTime()) return false;
+        if (filter.toDate && record.createdAt > filter.toDate.getTime()) return false;
+        if (filter.noteId && ![...record.inputNotes, ...record.outputNotes].some(note => note.noteId === filter.noteId)) {
+          return false;
+        }
+        return true;
+      });
+
+    return {
+      records: matching.slice(offset, offset + limit),
+      total: matching.length,
+      offset,
+      limit,
+      hasMore: offset + limit < matching.length
+    };
+  }
+
+  /**
+   * Exports the history as JSON. Records are ordered oldest first and fields are written in a
+   * fixed order, so the same history always produces the same document.
+   * @returns JSON document
+   */
+  exportJSON(): string {
+    return JSON.stringify({
+      version: TRANSACTION_HISTORY_EXPORT_VERSION,
+      records: this.sorted().map(record => this.serializeRecord(record))
+    }, null, 2);
+  }
+
+  /**
+   * Waits for the writes made so far to reach the store, e.g. before a process exits
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Removes all records
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  async clear(): Promise<void> {
+    this.records.clear();
+    await this.saveToStorage(tx => tx.clear());
+  }
+
+  /**
+   * Orders records oldest first; the sort is stable, so records made in the same millisecond keep insertion order
+   */
+  private sorted(): TransactionRecord[] {
+    return Array.from(this.records.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private toNoteRef(note: ShieldedNote & { id?: string; metadata?: Record<string, any> }): TransactionNoteRef {
+    return {
+      noteId: note.id,
+      commitment: note.commitment,
+      amount: note.amount,
+      asset: noteAsset(note),
+      role: note.metadata?.role
+    };
+  }
+
+  /**
+   * Converts a record to plain JSON values with a fixed key order
+   */
+  private serializeRecord(record: TransactionRecord): StoredNote {
+    const serializeNote = (note: TransactionNoteRef) => ({
+      noteId: note.noteId ?? null,
+      commitment: note.commitment,
+      amount: note.amount.toString(),
+      asset: note.asset,
+      role: note.role ?? null
+    });
+
+    return {
+      id: record.id,
+      type: record.type,
+      status: record.status,
+      amount: record.amount.toString(),
+      asset: record.asset,
+      recipientAddress: record.recipientAddress ?? null,
+      txHash: record.txHash ?? null,
+      inputNotes: record.inputNotes.map(serializeNote),
+      outputNotes: record.outputNotes.map(serializeNote),
+      fee: record.fee
+        ? { gasUsed: record.fee.gasUsed ?? null, effectiveGasPrice: record.fee.effectiveGasPrice ?? null }
+        : null,
+      blockNumber: record.blockNumber ?? null,
+      error: record.error ?? null,
+      statusHistory: record.statusHistory.map(change => ({
+        status: change.status,
+        timestamp: change.timestamp,
+        error: change.error ?? null
+      })),
+      metadata: this.sortKeys(record.metadata),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+
+  private sortKeys(value: any): any {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.sortKeys(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((sorted, key) => {
+        sorted[key] = this.sortKeys(value[key]);
+        return sorted;
+      }, {} as Record<string, any>);
+    }
+    return value;
+  }
+
+  /**
+   * Finds the oldest records that go beyond the configured maximum once more records are added
+   */
+  private excess(adding: number): TransactionRecord[] {
+    const excess = this.records.size + adding - this.config.maxRecords!;
+    return excess > 0 ? this.sorted().slice(0, excess) : [];
+  }
+
+  /**
+   * Generates a unique record ID
+   */
+  private generateRecordId(): string {
+    return `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Writes changes to the store in one transaction
+   * @throws CipherPayError STORAGE_ERROR if the store rejects the write
+   */
+  private async saveToStorage(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    if (!this.config.autoSync) {
+      return;
+    }
+    const saved = this.store.transaction(write);
+    this.writes = Promise.all([this.writes, saved.catch(() => undefined)]).then(() => undefined);
+    try {
+      await saved;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createStorageError(
+          `Failed to save transaction history to storage: ${errorMessage}`,
+          { operation: 'save_history' }
+        )
+      );
+    }
+  }
+
+  /**
+   * Loads records from the store, keeping records made while it was loading
+   */
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = this.store.loadSync ? this.store.loadSync() : await this.store.load();
+      const deserializeNote = (note: any): TransactionNoteRef => ({
+        noteId: note.noteId ?? undefined,
+        commitment: note.commitment,
+        amount: BigInt(note.amount),
+        asset: note.asset,
+        role: note.role ?? undefined
+      });
+
+      stored.forEach((data: any) => {
+        if (this.records.has(data.id)) {
+          return;
+        }
+        const record: TransactionRecord = {
+          ...data,
+          amount: BigInt(data.amount),
+          recipientAddress: data.recipientAddress ?? undefined,
+          txHash: data.txHash ?? undefined,
+          inputNotes: data.inputNotes.map(deserializeNote),
+          outputNotes: data.outputNotes.map(deserializeNote),
+          fee: data.fee
+            ? { gasUsed: data.fee.gasUsed ?? undefined, effectiveGasPrice: data.fee.effectiveGasPrice ?? undefined }
+            : undefined,
+          blockNumber: data.blockNumber ?? undefined,
+          error: data.error ?? undefined,
+          statusHistory: data.statusHistory.map((change: any) => ({ ...change, error: change.error ?? undefined }))
+        };
+        this.records.set(record.id, record);
+      });
+    } catch (error) {
+      console.warn('Failed to load transaction history from storage:', error);
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { ethers } from 'ethers';
 import { PublicKey } from '@solana/web3.js';
+import * as nacl from 'tweetnacl';
 import { ShieldedNote } from './NoteManager';
+import { openSealed } from '../utils/encryption';
+import { deriveIncomingViewingKey } from './KeyDerivation';
 
 export type ChainType = 'ethereum' | 'solana';
 
@@ -10,7 +13,6 @@ export interface ViewKeyProof {
     commitment: string;
     amount: string;
     timestamp: number;
-    viewKey: string;
     chainType: ChainType;
   };
 }
@@ -50,6 +52,7 @@ export class ViewKeyManager {
    * Generates a proof of payment for a specific note
    * @param note The shielded note to generate proof for
    * @returns The proof and associated metadata
+   * @deprecated Verifying this proof requires handing over the view key; use AuditProver for auditor-facing disclosures
    */
   generateProofOfPayment(note: ShieldedNote): ViewKeyProof {
     // Create a deterministic proof using the note details and view key
@@ -77,7 +80,6 @@ export class ViewKeyManager {
         commitment: note.commitment,
         amount: note.amount.toString(),
         timestamp: note.timestamp,
-        viewKey: this.viewKey,
         chainType: this.chainType
       }
     };
@@ -163,6 +165,30 @@ export class ViewKeyManager {
       : ethers.utils.keccak256(derivationData).slice(2); // Remove '0x' prefix for Solana
   }
 
+  /**
+   * Gets the public key senders encrypt notes to, so this wallet can discover them
+   * @returns X25519 public key as a hex string
+   */
+  getNoteEncryptionKey(): string {
+    return ethers.utils.hexlify(this.noteEncryptionKeyPair().publicKey);
+  }
+
+  /**
+   * Trial-decrypts a note published on chain
+   * @param encryptedNote Note sealed to a note encryption key
+   * @returns The note payload, or null if the note is not for this view key
+   */
+  openNote(encryptedNote: string): string | null {
+    return openSealed(encryptedNote, this.noteEncryptionKeyPair().secretKey);
+  }
+
+  /**
+   * Derives the X25519 key pair notes are encrypted to from the view key
+   */
+  private noteEncryptionKeyPair(): nacl.BoxKeyPair {
+    return nacl.box.keyPair.fromSecretKey(ethers.utils.arrayify(deriveIncomingViewingKey(this.viewKey)));
+  }
+
   /**
    * Gets the current chain type
    * @returns The chain type
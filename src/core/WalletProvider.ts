@@ -41,6 +41,9 @@ export interface WalletBalance {
   tokens: Map<string, number>;
 }
 
+// Minimal ABI for the shielded pool deposit entry point
+const DEPOSIT_ABI = ['function deposit(bytes32 commitment, bytes encryptedNote) payable'];
+
 // Environment detection
 const isBrowser = typeof window !== 'undefined';
 const isNode = typeof process !== 'undefined' && process.versions && process.versions.node;
@@ -255,10 +258,12 @@ export class WalletProvider {
   /**
    * Signs and sends a deposit transaction
    * @param to Recipient address
-   * @param value Amount to send
+   * @param value Amount to send in base units (wei / lamports); passed to the chain as is, never through a float
+   * @param commitment Note commitment to insert into the shielded pool
+   * @param encryptedNote The deposited note sealed to the depositor's own key, published with the commitment
    * @returns Promise<TxReceipt> Transaction receipt
    */
-  async signAndSendDepositTx(to: string, value: string): Promise<TxReceipt> {
+  async signAndSendDepositTx(to: string, value: bigint, commitment?: string, encryptedNote?: string): Promise<TxReceipt> {
     if (!this.userAccount) {
       throw new CipherPayError(
         'No wallet connected',
@@ -273,26 +278,26 @@ export class WalletProvider {
     }
 
     // Validate input
-    const amountValidation = this.validator.validateAmount(value);
-    if (!amountValidation.isValid) {
+    if (typeof value !== 'bigint' || value <= BigInt(0)) {
       const cipherPayError = new CipherPayError(
         'Invalid deposit amount',
         ErrorType.INVALID_INPUT,
-        { amount: value },
+        { amount: String(value) },
         {
           action: 'Provide a valid positive amount',
-          description: 'Deposit amount must be a valid positive number.'
+          description: 'Deposit amount must be a positive integer number of base units.'
         },
         false
       );
       throw ErrorHandler.getInstance().handleError(cipherPayError);
     }
+    const amount = value.toString();
 
     // Apply rate limiting for deposit transactions
     globalRateLimiter.consume('TRANSACTION_SIGNING', {
       operation: 'deposit',
       chainType: this.chainType,
-      amount: amountValidation.sanitized.toString()
+      amount
     });
 
     // Audit deposit attempt
@@ -303,7 +308,7 @@ export class WalletProvider {
       resourceId: this.userAccount.address,
       details: {
         chainType: this.chainType,
-        amount: amountValidation.sanitized,
+        amount,
         address: this.userAccount.address
       },
       success: true,
@@ -315,9 +320,9 @@ export class WalletProvider {
       let result: TxReceipt;
 
       if (this.chainType === 'ethereum') {
-        result = await this.sendEthereumDeposit(amountValidation.sanitized);
+        result = await this.sendEthereumDeposit(value, to, commitment, encryptedNote);
       } else {
-        result = await this.sendSolanaDeposit(amountValidation.sanitized);
+        result = await this.sendSolanaDeposit(value, commitment, encryptedNote);
       }
 
       // Audit successful deposit
@@ -328,7 +333,7 @@ export class WalletProvider {
         resourceId: result.txHash,
         details: {
           chainType: this.chainType,
-          amount: amountValidation.sanitized,
+          amount,
           txHash: result.txHash,
           status: result.status
         },
@@ -348,7 +353,7 @@ export class WalletProvider {
         resourceId: this.userAccount.address,
         details: {
           chainType: this.chainType,
-          amount: amountValidation.sanitized,
+          amount,
           address: this.userAccount.address,
           error: error instanceof Error ? error.message : 'Unknown error'
         },
@@ -362,7 +367,7 @@ export class WalletProvider {
         const cipherPayError = new CipherPayError(
           `Failed to send deposit: ${error.message}`,
           ErrorType.TRANSACTION_FAILED,
-          { chainType: this.chainType, amount: amountValidation.sanitized.toString() },
+          { chainType: this.chainType, amount },
           {
             action: 'Check balance and retry',
             description: 'Failed to send deposit transaction. Please check your balance and try again.'
@@ -374,7 +379,7 @@ export class WalletProvider {
       const cipherPayError = new CipherPayError(
         'Failed to send deposit: Unknown error',
         ErrorType.TRANSACTION_FAILED,
-        { chainType: this.chainType, amount: amountValidation.sanitized.toString() },
+        { chainType: this.chainType, amount },
         {
           action: 'Check balance and retry',
           description: 'Failed to send deposit transaction due to an unknown error.'
@@ -561,8 +566,9 @@ export class WalletProvider {
 
   /**
    * Sends a deposit transaction on Ethereum
+   * @param amount Amount in wei
    */
-  private async sendEthereumDeposit(amount: number): Promise<TxReceipt> {
+  private async sendEthereumDeposit(amount: bigint, to?: string, commitment?: string, encryptedNote?: string): Promise<TxReceipt> {
     if (!this.userAccount || this.chainType !== 'ethereum') {
       throw new CipherPayError(
         'Invalid wallet state',
@@ -583,10 +589,13 @@ export class WalletProvider {
         const signer = provider.getSigner();
 
         // TODO: Replace with actual CipherPay contract address
-        const contractAddress = '0x...';
-        const contract = new ethers.Contract(contractAddress, [], signer);
+        const contractAddress = to || '0x...';
+        const contract = new ethers.Contract(contractAddress, DEPOSIT_ABI, signer);
 
-        const tx = await contract.deposit({ value: ethers.utils.parseEther(amount.toString()) });
+        const value = ethers.BigNumber.from(amount.toString());
+        const tx = commitment
+          ? await contract.deposit(commitment, encryptedNote || '0x', { value })
+          : await contract.deposit({ value });
         const receipt = await tx.wait();
 
         return {
@@ -610,10 +619,13 @@ export class WalletProvider {
       const signer = provider.getSigner();
 
       // TODO: Replace with actual CipherPay contract address
-      const contractAddress = '0x...';
-      const contract = new ethers.Contract(contractAddress, [], signer);
+      const contractAddress = to || '0x...';
+      const contract = new ethers.Contract(contractAddress, DEPOSIT_ABI, signer);
 
-      const tx = await contract.deposit({ value: ethers.utils.parseEther(amount.toString()) });
+      const value = ethers.BigNumber.from(amount.toString());
+      const tx = commitment
+        ? await contract.deposit(commitment, encryptedNote || '0x', { value })
+        : await contract.deposit({ value });
       const receipt = await tx.wait();
 
       return {
@@ -625,10 +637,21 @@ export class WalletProvider {
     }
   }
 
+  /**
+   * Encodes a Solana deposit's instruction data: the commitment followed by the sealed note, if any
+   */
+  private solanaDepositData(commitment: string, encryptedNote?: string): Buffer {
+    return Buffer.concat([
+      Buffer.from(commitment.replace(/^0x/, ''), 'hex'),
+      Buffer.from((encryptedNote || '').replace(/^0x/, ''), 'hex')
+    ]);
+  }
+
   /**
    * Sends a deposit transaction on Solana
+   * @param amount Amount in lamports
    */
-  private async sendSolanaDeposit(amount: number): Promise<TxReceipt> {
+  private async sendSolanaDeposit(amount: bigint, commitment?: string, encryptedNote?: string): Promise<TxReceipt> {
     if (!this.userAccount || this.chainType !== 'solana') {
       throw new CipherPayError(
         'Invalid wallet state',
@@ -658,7 +681,7 @@ export class WalletProvider {
             { pubkey: publicKey, isSigner: true, isWritable: true },
             // Add other required account keys
           ],
-          data: Buffer.from([/* deposit instruction data */])
+          data: commitment ? this.solanaDepositData(commitment, encryptedNote) : Buffer.from([/* deposit instruction data */])
         });
 
         const signature = await sendAndConfirmTransaction(
@@ -696,7 +719,7 @@ export class WalletProvider {
           { pubkey: publicKey, isSigner: true, isWritable: true },
           // Add other required account keys
         ],
-        data: Buffer.from([/* deposit instruction data */])
+        data: commitment ? this.solanaDepositData(commitment, encryptedNote) : Buffer.from([/* deposit instruction data */])
       });
 
       const signature = await sendAndConfirmTransaction(
@@ -24,6 +24,7 @@ export enum ErrorType {
   NOTE_NOT_FOUND = 'NOTE_NOT_FOUND',
   NOTE_ALREADY_SPENT = 'NOTE_ALREADY_SPENT',
   INVALID_NOTE_FORMAT = 'INVALID_NOTE_FORMAT',
+  INVALID_NOTE_TRANSITION = 'INVALID_NOTE_TRANSITION',
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
 
   // Validation errors
@@ -31,9 +32,13 @@ export enum ErrorType {
   INVALID_ADDRESS = 'INVALID_ADDRESS',
   INVALID_AMOUNT = 'INVALID_AMOUNT',
 
+  // Storage errors
+  STORAGE_ERROR = 'STORAGE_ERROR',
+
   // Configuration errors
   CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
   MISSING_DEPENDENCY = 'MISSING_DEPENDENCY',
+  SDK_NOT_READY = 'SDK_NOT_READY',
 
   // Rate limiting and quota errors
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
@@ -283,6 +288,32 @@ export class ErrorHandler {
     );
   }
 
+  public static createNotReadyError(message: string, state: string, context: ErrorContext = {}): CipherPayError {
+    return new CipherPayError(
+      message,
+      ErrorType.SDK_NOT_READY,
+      { ...context, state },
+      {
+        action: 'Wait for the SDK to initialize',
+        description: 'The SDK is not ready for this operation. Await whenReady() and check the failed subsystems.'
+      },
+      false
+    );
+  }
+
+  public static createStorageError(message: string, context: ErrorContext = {}): CipherPayError {
+    return new CipherPayError(
+      message,
+      ErrorType.STORAGE_ERROR,
+      context,
+      {
+        action: 'Check the store and retry',
+        description: 'The change was not persisted and would be lost on restart. Make sure the store is writable.'
+      },
+      true
+    );
+  }
+
   public static createRateLimitError(limit: number, window: number, context: ErrorContext = {}): CipherPayError {
     return new CipherPayError(
       `Rate limit exceeded. Limit: ${limit} requests per ${window}ms`,
@@ -2,7 +2,7 @@ import { ethers } from 'ethers';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { ChainType } from '../core/WalletProvider';
 import { ShieldedNote } from '../types/Note';
-import { ErrorHandler, ErrorType, ErrorContext } from '../errors/ErrorHandler';
+import { ErrorHandler, ErrorType, ErrorContext, CipherPayError } from '../errors/ErrorHandler';
 
 export interface EventConfig {
   chainType: ChainType;
@@ -22,6 +22,7 @@ export interface ShieldedTransferEvent {
   commitment: string;
   nullifier: string;
   timestamp: number;
+  transactionHash?: string;
   blockNumber?: number;
   slot?: number;
 }
@@ -52,6 +53,12 @@ export interface EventData {
   data: any;
 }
 
+// Events emitted by the CipherPay pool contract
+const POOL_EVENTS_ABI = [
+  'event ShieldedTransfer(address indexed from, address indexed to, uint256 amount, bytes32 commitment, bytes32 nullifier)',
+  'event NoteSpent(bytes32 indexed nullifier)'
+];
+
 export class EventMonitor {
   private readonly config: EventConfig;
   private readonly provider: ethers.providers.JsonRpcProvider | null;
@@ -153,15 +160,6 @@ export class EventMonitor {
       throw new Error('Ethereum provider or contract address not initialized');
     }
 
-    const contract = new ethers.Contract(
-      this.config.contractAddress,
-      [
-        'event ShieldedTransfer(address indexed from, address indexed to, uint256 amount, bytes32 commitment, bytes32 nullifier)',
-        'event NoteSpent(bytes32 indexed nullifier)'
-      ],
-      this.provider
-    );
-
     const currentBlock = await this.provider.getBlockNumber();
     
     if (currentBlock > this.lastProcessedBlock) {
@@ -212,6 +210,12 @@ export class EventMonitor {
    * Processes an Ethereum event
    */
   private async processEthereumEvent(log: ethers.providers.Log): Promise<void> {
+    const event = this.parseEthereumLog(log);
+    if (event) {
+      this.emit(event);
+      return;
+    }
+
     const eventData: EventData = {
       eventName: 'Unknown',
       blockNumber: log.blockNumber,
@@ -224,6 +228,46 @@ export class EventMonitor {
     this.emitGeneric('event', eventData);
   }
 
+  /**
+   * Decodes a pool contract log into a typed event
+   * @returns The decoded event, or null if the log is not a known pool event
+   */
+  private parseEthereumLog(log: ethers.providers.Log): ShieldedEvent | null {
+    let parsed: ethers.utils.LogDescription;
+    try {
+      parsed = new ethers.utils.Interface(POOL_EVENTS_ABI).parseLog(log);
+    } catch (error) {
+      return null;
+    }
+
+    const base = {
+      timestamp: Date.now(),
+      blockNumber: log.blockNumber
+    };
+
+    switch (parsed.name) {
+      case 'ShieldedTransfer':
+        return {
+          ...base,
+          type: 'shielded_transfer',
+          from: parsed.args.from,
+          to: parsed.args.to,
+          amount: parsed.args.amount.toString(),
+          commitment: parsed.args.commitment,
+          nullifier: parsed.args.nullifier,
+          transactionHash: log.transactionHash
+        };
+      case 'NoteSpent':
+        return {
+          ...base,
+          type: 'note_spent',
+          nullifier: parsed.args.nullifier
+        };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Processes a Solana event
    */
@@ -241,11 +285,17 @@ export class EventMonitor {
   }
 
   /**
-   * Emits an event (placeholder for event emitter)
+   * Delivers a typed event to the callbacks registered for its type
    */
-  private emit(event: 'shielded_transfer' | 'note_spent' | 'event', data: any): void {
-    // In a real implementation, this would use an event emitter
-    console.log(`Event: ${event}`, data);
+  private emit(event: ShieldedEvent): void {
+    const callbacks = this.callbacks.get(event.type) || [];
+    for (const callback of callbacks) {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error(`Error in ${event.type} event callback:`, error);
+      }
+    }
   }
 
   /**
@@ -279,4 +329,54 @@ export class EventMonitor {
 
     return [];
   }
-} 
\ No newline at end of file
+
+  /**
+   * Fetches and decodes pool events in a block range, e.g. to scan history the monitor has not seen
+   * @param fromBlock First block to include
+   * @param toBlock Last block to include (defaults to the latest block)
+   * @returns The decoded events and the last block they cover
+   * @throws CipherPayError CONFIGURATION_ERROR on Solana, whose program logs are not decoded yet, or without a pool contract
+   */
+  async getShieldedEvents(fromBlock: number, toBlock?: number): Promise<{ events: ShieldedEvent[]; toBlock: number }> {
+    if (this.config.chainType !== 'ethereum') {
+      throw this.errorHandler.handleError(new CipherPayError(
+        `Scanning pool events is not supported on ${this.config.chainType}`,
+        ErrorType.CONFIGURATION_ERROR,
+        { chainType: this.config.chainType, fromBlock },
+        {
+          action: 'Restore notes from a backup instead of rescanning',
+          description: 'Pool events can only be scanned on Ethereum; Solana program logs are not decoded yet.'
+        },
+        false
+      ));
+    }
+    if (!this.provider || !this.config.contractAddress) {
+      throw this.errorHandler.handleError(new CipherPayError(
+        'Scanning pool events requires the pool contract address',
+        ErrorType.CONFIGURATION_ERROR,
+        { chainType: this.config.chainType, fromBlock },
+        {
+          action: 'Set contractAddress in the SDK configuration',
+          description: 'Pool events are read from the pool contract.'
+        },
+        false
+      ));
+    }
+
+    const lastBlock = toBlock ?? await this.provider.getBlockNumber();
+    if (lastBlock < fromBlock) {
+      return { events: [], toBlock: lastBlock };
+    }
+
+    const logs = await this.provider.getLogs({
+      fromBlock,
+      toBlock: lastBlock,
+      address: this.config.contractAddress
+    });
+    const events = logs
+      .map(log => this.parseEthereumLog(log))
+      .filter((event): event is ShieldedEvent => event !== null);
+
+    return { events, toBlock: lastBlock };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { ShieldedNote } from '../types/Note';
+import { SDKLifecycleState, SDKSubsystem } from '../core/CipherPaySDK';
+
+export type SDKTransactionType =
+  | 'deposit'
+  | 'transfer'
+  | 'withdraw'
+  | 'reshield'
+  | 'split'
+  | 'stream_create'
+  | 'stream_claim'
+  | 'stream_cancel'
+  | 'escrow_create'
+  | 'escrow_release'
+  | 'escrow_refund';
+
+export interface NoteReceivedPayload {
+  note: ShieldedNote;
+}
+
+export interface NoteSpentPayload {
+  note: ShieldedNote;
+}
+
+export interface BalanceChangedPayload {
+  asset: string;
+  previousBalance: bigint;
+  balance: bigint;
+}
+
+export interface TransactionSubmittedPayload {
+  type: SDKTransactionType;
+  txHash: string;
+  inputNotes: ShieldedNote[];
+  outputNotes: ShieldedNote[];
+}
+
+export interface TransactionConfirmedPayload {
+  type: SDKTransactionType;
+  txHash: string;
+}
+
+export interface TransactionFailedPayload {
+  type: SDKTransactionType;
+  /** Missing when the transaction was rejected before it got a hash */
+  txHash?: string;
+  error: string;
+}
+
+export interface SyncProgressPayload {
+  state: SDKLifecycleState;
+  subsystem: SDKSubsystem;
+  completed: number;
+  total: number;
+  /** Set when this subsystem failed to initialize */
+  error?: string;
+}
+
+export interface ComplianceBlockedPayload {
+  type: 'transfer' | 'withdraw';
+  amount: bigint;
+  recipientAddress: string;
+  violations: string[];
+  riskScore: number;
+}
+
+export interface SDKEventMap {
+  noteReceived: NoteReceivedPayload;
+  noteSpent: NoteSpentPayload;
+  balanceChanged: BalanceChangedPayload;
+  transactionSubmitted: TransactionSubmittedPayload;
+  transactionConfirmed: TransactionConfirmedPayload;
+  transactionFailed: TransactionFailedPayload;
+  syncProgress: SyncProgressPayload;
+  complianceBlocked: ComplianceBlockedPayload;
+}
+
+export type SDKEventName = keyof SDKEventMap;
+
+export type SDKEventListener<K extends SDKEventName> = (payload: SDKEventMap[K]) => void;
+
+/**
+ * Typed emitter for wallet activity exposed by CipherPaySDK
+ */
+export class SDKEventEmitter {
+  private readonly listeners: Map<SDKEventName, SDKEventListener<any>[]> = new Map();
+
+  /**
+   * Registers a listener for an event
+   * @param event The event to listen for
+   * @param listener Called with the event payload
+   */
+  on<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    const listeners = this.listeners.get(event) || [];
+    listeners.push(listener);
+    this.listeners.set(event, listeners);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call
+   * @param event The event to listen for
+   * @param listener Called with the event payload
+   */
+  once<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    const wrapper: SDKEventListener<K> = payload => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    this.on(event, wrapper);
+  }
+
+  /**
+   * Removes a listener for an event
+   * @param event The event
+   * @param listener The listener to remove
+   */
+  off<K extends SDKEventName>(event: K, listener: SDKEventListener<K>): void {
+    const listeners = this.listeners.get(event) || [];
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+      this.listeners.set(event, listeners);
+    }
+  }
+
+  /**
+   * Emits an event, isolating failures in individual listeners
+   * @param event The event to emit
+   * @param payload The event payload
+   */
+  emit<K extends SDKEventName>(event: K, payload: SDKEventMap[K]): void {
+    const listeners = [...(this.listeners.get(event) || [])];
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Removes all listeners
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
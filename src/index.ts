@@ -5,6 +5,88 @@ import { ChainType } from './core/WalletProvider';
 // Browser-compatible exports
 export { CipherPaySDK } from './core/CipherPaySDK';
 export { ChainType } from './core/WalletProvider';
+export { AssetRegistry, AssetInfo, NATIVE_ASSET } from './core/AssetRegistry';
+export {
+    TransactionHistory,
+    TransactionRecord,
+    TransactionHistoryFilter,
+    TransactionHistoryPage,
+    TransactionHistoryResult
+} from './core/TransactionHistory';
+export { StreamManager, PaymentStream, StreamStatus, StreamFilter } from './core/StreamManager';
+export { buildStreamWitness, computeStreamCommitment, computeStreamId } from './zk/StreamWitness';
+export {
+    buildSplitWitness,
+    computeSplitCommitment,
+    computeSplitId,
+    SPLIT_OUTPUT_COUNT,
+    SPLIT_MAX_AMOUNT
+} from './zk/SplitWitness';
+export { buildTransferWitness, buildReshieldWitness, buildSpendSignals, SPEND_INPUT_COUNT, SPEND_TREE_DEPTH } from './zk/TransferWitness';
+export { buildWithdrawWitness } from './zk/WithdrawWitness';
+export {
+    EscrowManager,
+    Escrow,
+    EscrowCondition,
+    EscrowEvidence,
+    EscrowStatus,
+    EscrowFilter
+} from './core/EscrowManager';
+export { buildConditionWitness, computeConditionCommitment, computeConditionId, CONDITION_TYPES } from './zk/ConditionWitness';
+export {
+    computeNoteCommitment,
+    computeNoteSecret,
+    computeNullifier,
+    computeNullifierPreimage,
+    deriveNullifierKey,
+    deriveOwnerPublicKey,
+    randomBlinding,
+    NoteCommitmentParams
+} from './zk/NoteCrypto';
+export { NoteStore, NoteStoreTransaction, StoredNote, migrateNotes } from './storage/NoteStore';
+export { ScopedNoteStore, StoredRecordKind } from './storage/ScopedNoteStore';
+export { MemoryNoteStore } from './storage/MemoryNoteStore';
+export { LocalStorageNoteStore } from './storage/LocalStorageNoteStore';
+export { IndexedDBNoteStore } from './storage/IndexedDBNoteStore';
+export { EncryptedFileNoteStore } from './storage/EncryptedFileNoteStore';
+export {
+    createNoteBackup,
+    openNoteBackup,
+    BACKUP_FORMAT,
+    BACKUP_VERSION,
+    NoteBackupFile,
+    BackupOptions
+} from './storage/NoteBackup';
+export { NoteScanner, NoteScannerConfig, NoteScanResult, NotePayload, PublishedNoteSource, sealNote } from './core/NoteScanner';
+export {
+    WalletKeys,
+    DERIVATION_PATH_PREFIX,
+    generateMnemonic,
+    validateMnemonic,
+    deriveWalletKeys,
+    deriveIncomingViewingKey,
+    deriveStorageNamespace
+} from './core/KeyDerivation';
+export {
+    ConsolidationService,
+    ConsolidationConfig,
+    ConsolidationExecutor,
+    ConsolidationPlan,
+    ConsolidationOutcome,
+    FragmentationReport
+} from './core/ConsolidationService';
+export {
+    CoinSelector,
+    CoinSelectorConfig,
+    CoinSelection,
+    CoinSelectionStrategy,
+    MAX_INPUT_NOTES
+} from './tx/CoinSelector';
+export { AuditProver } from './compliance/AuditProver';
+export { buildAuditWitness, computeAuditId } from './zk/AuditWitness';
+export { buildNullifierWitness, computeCircuitNullifier } from './zk/NullifierWitness';
+export { buildMembershipWitness, computeMerkleRoot, MEMBERSHIP_TREE_DEPTH } from './zk/MembershipWitness';
+export { AuditVerifier, AUDIT_DISCLOSURE_VERSION, AUDIT_VALID_SIGNAL } from './compliance/AuditVerifier';
 
 // Default export
 export { CipherPaySDK as default } from './core/CipherPaySDK';
@@ -13,9 +95,12 @@ export { CipherPaySDK as default } from './core/CipherPaySDK';
 export * from './types/Note';
 export * from './types/ZKProof';
 export * from './types/CipherTx';
+export * from './types/Audit';
+export * from './events/SDKEventEmitter';
 
 // Utility exports
 export * from './utils/encryption';
+export * from './utils/memo';
 export * from './utils/hash';
 
 // Error exports
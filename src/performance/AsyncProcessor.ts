@@ -58,6 +58,8 @@ export class AsyncProcessor {
   private jobQueue: Job[] = [];
   private activeWorkers: Map<string, Promise<void>> = new Map();
   private jobHandlers: Map<string, JobHandler> = new Map();
+  private jobResults: Map<string, JobResult> = new Map();
+  private resultWaiters: Map<string, Array<(result: JobResult) => void>> = new Map();
   private logger: Logger;
   private errorHandler: ErrorHandler;
   private metrics: ProcessorMetrics;
@@ -138,8 +140,8 @@ export class AsyncProcessor {
       createdAt: Date.now(),
       scheduledFor: options.scheduledFor,
       retryCount: 0,
-      maxRetries: options.maxRetries || this.config.maxRetries,
-      timeout: options.timeout || this.config.jobTimeout,
+      maxRetries: options.maxRetries ?? this.config.maxRetries,
+      timeout: options.timeout ?? this.config.jobTimeout,
       tags: options.tags,
       metadata: options.metadata
     };
@@ -200,10 +202,45 @@ export class AsyncProcessor {
       return 'processing';
     }
 
-    // In a real implementation, you would check completed/failed job storage
+    const result = this.jobResults.get(jobId);
+    if (result) {
+      return result.success ? 'completed' : 'failed';
+    }
+
     return 'not-found';
   }
 
+  /**
+   * Gets the result of a finished job
+   */
+  getJobResult<R = any>(jobId: string): JobResult<R> | undefined {
+    return this.jobResults.get(jobId);
+  }
+
+  /**
+   * Waits for a job to finish, including any retries
+   */
+  waitForJob<R = any>(jobId: string): Promise<JobResult<R>> {
+    const result = this.jobResults.get(jobId);
+    if (result) {
+      return Promise.resolve(result);
+    }
+
+    if (this.getJobStatus(jobId) === 'not-found') {
+      return Promise.reject(new CipherPayError(
+        `Job not found: ${jobId}`,
+        ErrorType.NOT_FOUND,
+        { jobId }
+      ));
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.resultWaiters.get(jobId) || [];
+      waiters.push(resolve);
+      this.resultWaiters.set(jobId, waiters);
+    });
+  }
+
   /**
    * Cancels a job
    */
@@ -353,12 +390,12 @@ export class AsyncProcessor {
     const workerId = `worker-${++this.workerCounter}`;
     
     const workerPromise = this.processJob(job, workerId);
-    this.activeWorkers.set(workerId, workerPromise);
+    this.activeWorkers.set(job.id, workerPromise);
 
     try {
       await workerPromise;
     } finally {
-      this.activeWorkers.delete(workerId);
+      this.activeWorkers.delete(job.id);
     }
   }
 
@@ -381,13 +418,16 @@ export class AsyncProcessor {
         throw new Error(`No handler registered for job type: ${job.type}`);
       }
 
-      // Execute job with timeout
-      const result = await Promise.race([
-        handler(job),
-        new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('Job timeout')), job.timeout);
-        })
-      ]);
+      // Execute job with timeout (a timeout of 0 disables it)
+      let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+      const result = job.timeout > 0
+        ? await Promise.race([
+          handler(job),
+          new Promise<never>((_, reject) => {
+            timeoutHandle = setTimeout(() => reject(new Error('Job timeout')), job.timeout);
+          })
+        ]).finally(() => clearTimeout(timeoutHandle))
+        : await handler(job);
 
       const duration = Date.now() - startTime;
       
@@ -452,6 +492,19 @@ export class AsyncProcessor {
 
     this.metrics.averageProcessingTime = 
       (this.metrics.averageProcessingTime + result.duration) / 2;
+
+    // Keep a bounded window of results for getJobResult / waitForJob
+    this.jobResults.set(result.jobId, result);
+    if (this.jobResults.size > this.config.maxQueueSize) {
+      const oldest = this.jobResults.keys().next().value;
+      if (oldest !== undefined) {
+        this.jobResults.delete(oldest);
+      }
+    }
+
+    const waiters = this.resultWaiters.get(result.jobId) || [];
+    this.resultWaiters.delete(result.jobId);
+    waiters.forEach(resolve => resolve(result));
   }
 
   /**
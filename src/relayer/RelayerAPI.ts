@@ -8,14 +8,37 @@ export interface RelayerConfig {
 }
 
 export interface RelayerRequest {
-  type: 'shielded_transfer' | 'withdrawal' | 'deposit' | 'reshield';
+  type:
+    | 'shielded_transfer'
+    | 'withdrawal'
+    | 'deposit'
+    | 'reshield'
+    | 'split'
+    | 'stream_create'
+    | 'stream_claim'
+    | 'stream_cancel'
+    | 'escrow_create'
+    | 'escrow_release'
+    | 'escrow_refund';
   chainType: ChainType;
   data: {
     proof: string;
     publicInputs: string[];
     encryptedNote?: string;
+    /** Encrypted output notes, for transactions that create several */
+    encryptedNotes?: string[];
+    /** Change note sealed to the sender's own key, so the sender can rediscover it after a restore */
+    changeEncryptedNote?: string;
     recipientAddress?: string;
     amount?: string;
+    tokenAddress?: string;
+    fee?: string;
+    /** Commitment of the payment stream being funded, claimed or cancelled */
+    streamCommitment?: string;
+    /** Commitment of the escrow being funded, released or refunded */
+    escrowCommitment?: string;
+    /** Revealed hashlock preimage or oracle attestation that satisfies an escrow condition */
+    conditionEvidence?: string;
   };
   metadata?: {
     gasLimit?: string;
@@ -45,6 +68,18 @@ export interface RelayerStatus {
   currentLoad: number;
 }
 
+/**
+ * A note the pool holds, as indexed by the relayer. Pool events only carry the commitment, so the relayer keeps
+ * the sealed note published with each deposit or relayed transaction and the leaf it was inserted at.
+ */
+export interface PublishedNote {
+  commitment: string;
+  /** The note sealed to its recipient, if one was published */
+  encryptedNote?: string;
+  /** Position of the commitment in the pool's Merkle tree */
+  leafIndex: number;
+}
+
 export interface RelayerAPI {
   /**
    * Submit a transaction to the relayer
@@ -69,4 +104,9 @@ export interface RelayerAPI {
     maxFeePerGas: string;
     priorityFee: string;
   }>;
+
+  /**
+   * Look up the sealed notes and leaf indices of pool commitments; unknown commitments are left out
+   */
+  getPublishedNotes(commitments: string[]): Promise<PublishedNote[]>;
 }
@@ -1,5 +1,6 @@
-import { RelayerAPI, RelayerConfig, RelayerRequest, RelayerResponse, RelayerStatus } from './RelayerAPI';
+import { RelayerAPI, RelayerConfig, RelayerRequest, RelayerResponse, RelayerStatus, PublishedNote } from './RelayerAPI';
 import { ChainType } from '../core/WalletProvider';
+import { CipherPayError, ErrorType } from '../errors/ErrorHandler';
 
 export interface AuthConfig {
   email: string;
@@ -146,6 +147,8 @@ export class RelayerClient implements RelayerAPI {
 
   /**
    * Wait for a transaction to be confirmed
+   * @throws CipherPayError TRANSACTION_FAILED if the relayer reports the transaction failed,
+   * TIMEOUT_ERROR if it is still pending after maxAttempts; other errors mean the status could not be read
    */
   async waitForConfirmation(txHash: string, maxAttempts = 30): Promise<RelayerResponse> {
     for (let i = 0; i < maxAttempts; i++) {
@@ -156,13 +159,50 @@ export class RelayerClient implements RelayerAPI {
       }
 
       if (status.status === 'failed') {
-        throw new Error(`Transaction failed: ${status.error}`);
+        throw new CipherPayError(
+          `Transaction failed: ${status.error}`,
+          ErrorType.TRANSACTION_FAILED,
+          { txHash, relayerError: status.error },
+          {
+            action: 'Check the transaction and submit it again',
+            description: 'The relayer reports that the transaction failed on-chain.'
+          },
+          false
+        );
       }
 
       await new Promise(resolve => setTimeout(resolve, 2000));
     }
 
-    throw new Error('Transaction confirmation timeout');
+    throw new CipherPayError(
+      'Transaction confirmation timeout',
+      ErrorType.TIMEOUT_ERROR,
+      { txHash, attempts: maxAttempts },
+      {
+        action: 'Check the transaction status again later',
+        description: 'The relayer has not confirmed the transaction yet.'
+      },
+      true
+    );
+  }
+
+  /**
+   * Gets the sealed notes and leaf indices the relayer has indexed for the given commitments
+   */
+  async getPublishedNotes(commitments: string[]): Promise<PublishedNote[]> {
+    return this.retry(async () => {
+      const response = await this.fetchWithTimeout(`${this.endpoint}/api/v1/notes`, {
+        method: 'POST',
+        body: JSON.stringify({ commitments }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to get published notes: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.notes || [];
+    });
   }
 
   /**
@@ -0,0 +1,153 @@
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { NoteStore, NoteStoreTransaction, StoredNote, collectWrites, applyWrites } from './NoteStore';
+
+// Node.js modules; browser bundles replace fs with an empty module
+let fs: any, nodeCrypto: any;
+try {
+  fs = require('fs');
+  nodeCrypto = require('crypto');
+} catch (error) {
+  // Checked when a store is constructed
+}
+
+/** Version of the encrypted file layout */
+const FILE_VERSION = 1;
+
+interface EncryptedNoteFile {
+  version: number;
+  /** scrypt salt the file key is derived with (hex) */
+  salt: string;
+  /** AES-256-GCM nonce (hex) */
+  iv: string;
+  /** AES-256-GCM authentication tag (hex) */
+  tag: string;
+  /** Encrypted JSON array of notes (base64) */
+  data: string;
+}
+
+/**
+ * Keeps notes in a passphrase-encrypted file; for Node.js services that must keep notes across restarts.
+ * Each transaction rewrites the file through a temporary file and a rename, so a crash leaves either
+ * the old or the new notes on disk.
+ */
+export class EncryptedFileNoteStore implements NoteStore {
+  private readonly filePath: string;
+  private readonly passphrase: string;
+  private keys: Map<string, Buffer> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath File the notes are kept in
+   * @param passphrase Passphrase the file key is derived from
+   */
+  constructor(filePath: string, passphrase: string) {
+    if (!fs?.promises || !nodeCrypto?.scryptSync) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        'Encrypted file storage needs the Node.js fs and crypto modules',
+        ErrorType.MISSING_DEPENDENCY,
+        { filePath },
+        {
+          action: 'Use another note store',
+          description: 'EncryptedFileNoteStore only runs in Node.js; use IndexedDBNoteStore in browsers.'
+        },
+        false
+      ));
+    }
+    if (!passphrase) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('A passphrase is required to encrypt the note file', 'passphrase')
+      );
+    }
+
+    this.filePath = filePath;
+    this.passphrase = passphrase;
+  }
+
+  async load(): Promise<StoredNote[]> {
+    return this.enqueue(async () => (await this.read()).notes);
+  }
+
+  async transaction(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    const writes = collectWrites(write);
+
+    return this.enqueue(async () => {
+      const { notes, salt } = await this.read();
+      const byId = new Map(notes.map(note => [note.id, note] as [string, StoredNote]));
+      applyWrites(byId, writes);
+      await this.write(Array.from(byId.values()), salt);
+    });
+  }
+
+  /**
+   * Runs file operations one at a time so transactions never interleave
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<{ notes: StoredNote[]; salt?: string }> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return { notes: [] };
+      }
+      throw error;
+    }
+
+    const file: EncryptedNoteFile = JSON.parse(contents);
+    try {
+      if (file.version !== FILE_VERSION) {
+        throw new Error(`unsupported file version ${file.version}`);
+      }
+      const decipher = nodeCrypto.createDecipheriv('aes-256-gcm', this.key(file.salt), Buffer.from(file.iv, 'hex'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return { notes: JSON.parse(plaintext.toString('utf8')), salt: file.salt };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        `Failed to decrypt note file: ${errorMessage}`,
+        ErrorType.DECRYPTION_ERROR,
+        { filePath: this.filePath },
+        {
+          action: 'Check the passphrase',
+          description: 'The note file could not be decrypted with this passphrase, or it has been modified.'
+        },
+        false
+      ));
+    }
+  }
+
+  private async write(notes: StoredNote[], salt: string = nodeCrypto.randomBytes(16).toString('hex')): Promise<void> {
+    const iv = nodeCrypto.randomBytes(12);
+    const cipher = nodeCrypto.createCipheriv('aes-256-gcm', this.key(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(notes), 'utf8'), cipher.final()]);
+    const file: EncryptedNoteFile = {
+      version: FILE_VERSION,
+      salt,
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      data: data.toString('base64')
+    };
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Derives the file key for a salt, once per salt
+   */
+  private key(salt: string): Buffer {
+    let key = this.keys.get(salt);
+    if (!key) {
+      key = nodeCrypto.scryptSync(this.passphrase, Buffer.from(salt, 'hex'), 32) as Buffer;
+      this.keys.set(salt, key);
+    }
+    return key;
+  }
+}
@@ -0,0 +1,95 @@
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { NoteStore, NoteStoreTransaction, StoredNote, collectWrites } from './NoteStore';
+
+const OBJECT_STORE = 'notes';
+
+/**
+ * Keeps notes in an IndexedDB object store; for browser wallets holding more notes than localStorage fits
+ */
+export class IndexedDBNoteStore implements NoteStore {
+  private readonly databaseName: string;
+  private readonly factory?: IDBFactory;
+  private database?: Promise<IDBDatabase>;
+
+  /**
+   * @param databaseName Database the notes are kept in
+   * @param factory IndexedDB implementation (defaults to the global indexedDB)
+   */
+  constructor(databaseName: string = 'cipherpay_notes', factory?: IDBFactory) {
+    this.databaseName = databaseName;
+    this.factory = factory || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+  }
+
+  async load(): Promise<StoredNote[]> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = database.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as StoredNote[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async transaction(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    const writes = collectWrites(write);
+    const database = await this.open();
+
+    // One readwrite transaction; IndexedDB rolls all of it back if any request fails
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE, 'readwrite');
+      const store = transaction.objectStore(OBJECT_STORE);
+      for (const staged of writes) {
+        if (staged.type === 'put') {
+          store.put(staged.note);
+        } else if (staged.type === 'delete') {
+          store.delete(staged.id);
+        } else {
+          store.clear();
+        }
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Closes the database connection; the store reopens it on next use
+   */
+  async close(): Promise<void> {
+    if (this.database) {
+      (await this.database).close();
+      this.database = undefined;
+    }
+  }
+
+  /**
+   * Opens the database once, creating the notes object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      throw ErrorHandler.getInstance().handleError(new CipherPayError(
+        'IndexedDB is not available in this environment',
+        ErrorType.MISSING_DEPENDENCY,
+        { databaseName: this.databaseName },
+        {
+          action: 'Use another note store',
+          description: 'IndexedDBNoteStore needs a browser; use EncryptedFileNoteStore in Node.js.'
+        },
+        false
+      ));
+    }
+
+    if (!this.database) {
+      const factory = this.factory;
+      this.database = new Promise((resolve, reject) => {
+        const request = factory.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OBJECT_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,36 @@
+import { NoteStore, NoteStoreTransaction, StoredNote, collectWrites, applyWrites } from './NoteStore';
+
+/**
+ * Keeps notes under one localStorage key; the default store in browsers
+ */
+export class LocalStorageNoteStore implements NoteStore {
+  private readonly storageKey: string;
+
+  constructor(storageKey: string = 'cipherpay_notes') {
+    this.storageKey = storageKey;
+  }
+
+  /**
+   * Whether localStorage exists in this environment
+   */
+  static isAvailable(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  async load(): Promise<StoredNote[]> {
+    return this.loadSync();
+  }
+
+  loadSync(): StoredNote[] {
+    const storageData = localStorage.getItem(this.storageKey);
+    return storageData ? JSON.parse(storageData) : [];
+  }
+
+  async transaction(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    const writes = collectWrites(write);
+    // Read and write without yielding, so concurrent transactions cannot interleave
+    const notes = new Map(this.loadSync().map(note => [note.id, note] as [string, StoredNote]));
+    applyWrites(notes, writes);
+    localStorage.setItem(this.storageKey, JSON.stringify(Array.from(notes.values())));
+  }
+}
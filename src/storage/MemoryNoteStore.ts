@@ -0,0 +1,21 @@
+import { NoteStore, NoteStoreTransaction, StoredNote, collectWrites, applyWrites } from './NoteStore';
+
+/**
+ * Keeps notes in memory only; for tests and short-lived processes
+ */
+export class MemoryNoteStore implements NoteStore {
+  private notes: Map<string, StoredNote> = new Map();
+
+  async load(): Promise<StoredNote[]> {
+    return this.loadSync();
+  }
+
+  loadSync(): StoredNote[] {
+    return JSON.parse(JSON.stringify(Array.from(this.notes.values())));
+  }
+
+  async transaction(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    // Writes are staged first, so a throwing transaction leaves the notes untouched
+    applyWrites(this.notes, collectWrites(write));
+  }
+}
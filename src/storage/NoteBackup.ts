@@ -0,0 +1,246 @@
+import { utils } from 'ethers';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { NATIVE_ASSET } from '../core/AssetRegistry';
+import { StoredNote } from './NoteStore';
+
+/**
+ * Wallet backup file format.
+ *
+ * A backup is a JSON object:
+ *   {
+ *     "format": "cipherpay-note-backup",
+ *     "version": 2,                      // schema of the notes inside
+ *     "createdAt": 1700000000000,
+ *     "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "0x…" },   // absent when unencrypted
+ *     "cipher": { "name": "AES-GCM", "iv": "0x…" },                                         // absent when unencrypted
+ *     "payload": "…",                    // base64 of the AES-GCM ciphertext and tag, or of the plain JSON
+ *     "checksum": "0x…"                  // SHA-256 of the plain JSON, unencrypted backups only
+ *   }
+ *
+ * The payload is the JSON `{ "notes": [...] }` of notes in their stored form. Encrypted backups get a
+ * fresh random salt and IV each time, and authenticate every header field as AES-GCM associated data,
+ * so a wrong password, a modified payload and a modified header all fail to open.
+ *
+ * Version 1 is the pre-format export: a plain JSON array (or `{ notes }`) of notes, or `{ encrypted, data }`
+ * encrypted under a fixed salt. Older backups are migrated to the current schema when opened.
+ */
+
+export const BACKUP_FORMAT = 'cipherpay-note-backup';
+export const BACKUP_VERSION = 2;
+
+/** PBKDF2 iterations for new backups; the count used is stored in each header */
+const DEFAULT_ITERATIONS = 600000;
+/** Key derivation of version 1 encrypted exports */
+const LEGACY_SALT = 'cipherpay-salt';
+const LEGACY_ITERATIONS = 100000;
+
+export interface BackupKdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  /** Random per-backup salt (hex) */
+  salt: string;
+}
+
+export interface NoteBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  kdf?: BackupKdfParams;
+  cipher?: { name: 'AES-GCM'; iv: string };
+  payload: string;
+  checksum?: string;
+}
+
+export interface BackupOptions {
+  /** PBKDF2 iterations (defaults to 600000) */
+  iterations?: number;
+}
+
+/**
+ * Upgrades notes from one schema version to the next, keyed by the version upgraded from
+ */
+const MIGRATIONS: Record<number, (notes: any[]) => any[]> = {
+  // Version 1 exports held notes as tracked in memory: amounts as numbers or strings, no asset on older notes
+  1: notes => notes.map(note => ({
+    ...note,
+    amount: BigInt(note.amount).toString(),
+    asset: note.asset || NATIVE_ASSET,
+    randomSeed: note.randomSeed || [],
+    metadata: note.metadata || {}
+  }))
+};
+
+/**
+ * Writes notes into a backup
+ * @param notes Notes in their stored form
+ * @param password Password to encrypt with; without one the backup is only integrity-checked
+ * @param options Key derivation options
+ * @returns The backup as a JSON string
+ */
+export async function createNoteBackup(notes: StoredNote[], password?: string, options: BackupOptions = {}): Promise<string> {
+  const plaintext = utils.toUtf8Bytes(JSON.stringify({ notes }));
+
+  if (!password) {
+    const backup: NoteBackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      payload: utils.base64.encode(plaintext),
+      checksum: utils.sha256(plaintext)
+    };
+    return JSON.stringify(backup);
+  }
+
+  const header: Omit<NoteBackupFile, 'payload'> = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: options.iterations || DEFAULT_ITERATIONS,
+      salt: utils.hexlify(crypto.getRandomValues(new Uint8Array(16)))
+    },
+    cipher: { name: 'AES-GCM', iv: utils.hexlify(crypto.getRandomValues(new Uint8Array(12))) }
+  };
+
+  const key = await deriveKey(password, utils.arrayify(header.kdf!.salt), header.kdf!.iterations, 'encrypt');
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: utils.arrayify(header.cipher!.iv), additionalData: associatedData(header) },
+    key,
+    plaintext
+  );
+
+  return JSON.stringify({ ...header, payload: utils.base64.encode(new Uint8Array(ciphertext)) });
+}
+
+/**
+ * Opens a backup of any supported version
+ * @param contents Backup JSON string
+ * @param password Password the backup was encrypted with
+ * @returns The notes, migrated to the current schema
+ */
+export async function openNoteBackup(contents: string, password?: string): Promise<StoredNote[]> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw formatError('Backup is not valid JSON');
+  }
+
+  if (Array.isArray(parsed) || Array.isArray(parsed?.notes) || parsed?.encrypted === true) {
+    return migrate(await openLegacyBackup(parsed, password), 1);
+  }
+  if (parsed?.format !== BACKUP_FORMAT || typeof parsed.payload !== 'string') {
+    throw formatError('Unrecognized backup format');
+  }
+
+  const backup = parsed as NoteBackupFile;
+  if (!Number.isInteger(backup.version) || backup.version < 1 || backup.version > BACKUP_VERSION) {
+    throw formatError(`Unsupported backup version ${backup.version}`, 'Update the SDK to a version that can read this backup');
+  }
+
+  let plaintext: Uint8Array;
+  if (backup.kdf) {
+    if (!password) {
+      throw decryptionError('This backup is encrypted and needs its password');
+    }
+    const { payload, ...header } = backup;
+    try {
+      const key = await deriveKey(password, utils.arrayify(backup.kdf.salt), backup.kdf.iterations, 'decrypt');
+      plaintext = new Uint8Array(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: utils.arrayify(backup.cipher!.iv), additionalData: associatedData(header) },
+        key,
+        utils.base64.decode(payload)
+      ));
+    } catch (error) {
+      throw decryptionError('Wrong password, or the backup has been modified');
+    }
+  } else {
+    plaintext = utils.base64.decode(backup.payload);
+    if (!backup.checksum || utils.sha256(plaintext) !== backup.checksum) {
+      throw formatError('Backup checksum does not match; the file is damaged or modified');
+    }
+  }
+
+  const notes = JSON.parse(utils.toUtf8String(plaintext)).notes;
+  if (!Array.isArray(notes)) {
+    throw formatError('Backup contains no notes array');
+  }
+  return migrate(notes, backup.version);
+}
+
+/**
+ * Reads a version 1 export
+ */
+async function openLegacyBackup(parsed: any, password?: string): Promise<any[]> {
+  if (parsed.encrypted !== true) {
+    return Array.isArray(parsed) ? parsed : parsed.notes;
+  }
+  if (!password) {
+    throw decryptionError('This backup is encrypted and needs its password');
+  }
+
+  const sealed = Uint8Array.from(parsed.data || []);
+  try {
+    const key = await deriveKey(password, utils.toUtf8Bytes(LEGACY_SALT), LEGACY_ITERATIONS, 'decrypt');
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.slice(0, 12) }, key, sealed.slice(12));
+    const notes = JSON.parse(utils.toUtf8String(new Uint8Array(plaintext)));
+    return Array.isArray(notes) ? notes : notes.notes;
+  } catch (error) {
+    throw decryptionError('Wrong password, or the backup has been modified');
+  }
+}
+
+function migrate(notes: any[], fromVersion: number): StoredNote[] {
+  let migrated = notes;
+  for (let version = fromVersion; version < BACKUP_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number, usage: KeyUsage): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', utils.toUtf8Bytes(password), { name: 'PBKDF2' }, false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Binds the header to the ciphertext; fields are written in a fixed order so the bytes are reproducible
+ */
+function associatedData(header: Omit<NoteBackupFile, 'payload'>): Uint8Array {
+  return utils.toUtf8Bytes(JSON.stringify([
+    header.format,
+    header.version,
+    header.createdAt,
+    header.kdf && [header.kdf.name, header.kdf.hash, header.kdf.iterations, header.kdf.salt],
+    header.cipher && [header.cipher.name, header.cipher.iv]
+  ]));
+}
+
+function formatError(message: string, action: string = 'Check that this is a CipherPay note backup'): CipherPayError {
+  return ErrorHandler.getInstance().handleError(new CipherPayError(
+    message,
+    ErrorType.INVALID_NOTE_FORMAT,
+    {},
+    { action, description: 'The note backup could not be read.' },
+    false
+  ));
+}
+
+function decryptionError(message: string): CipherPayError {
+  return ErrorHandler.getInstance().handleError(new CipherPayError(
+    message,
+    ErrorType.DECRYPTION_ERROR,
+    {},
+    { action: 'Check the backup password', description: 'The note backup could not be decrypted.' },
+    false
+  ));
+}
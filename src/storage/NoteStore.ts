@@ -0,0 +1,106 @@
+/**
+ * A note, or another record, as written to a store: JSON-safe, with bigints as decimal strings and dates as ISO strings
+ */
+export interface StoredNote {
+  id: string;
+  [field: string]: any;
+}
+
+/**
+ * Writes staged inside NoteStore.transaction()
+ */
+export interface NoteStoreTransaction {
+  put(note: StoredNote): void;
+  delete(id: string): void;
+  clear(): void;
+}
+
+/**
+ * Persistent backend of a NoteManager; transaction history, streams, escrows and the scan cursor
+ * are kept in stores of the same kind. One store may back all of them: each module reads and
+ * writes it through a ScopedNoteStore.
+ */
+export interface NoteStore {
+  /**
+   * Reads every stored note
+   */
+  load(): Promise<StoredNote[]>;
+
+  /**
+   * Reads every stored note without waiting, for stores that can (memory, localStorage);
+   * NoteManager then has its notes as soon as it is constructed
+   */
+  loadSync?(): StoredNote[];
+
+  /**
+   * Stages writes and commits them atomically: either all of them or, if `write` throws
+   * or the backend fails, none
+   * @param write Stages the writes; runs synchronously
+   */
+  transaction(write: (tx: NoteStoreTransaction) => void): Promise<void>;
+}
+
+export type NoteStoreWrite =
+  | { type: 'put'; note: StoredNote }
+  | { type: 'delete'; id: string }
+  | { type: 'clear' };
+
+/**
+ * Runs a transaction body and records its writes in order
+ * @param write Transaction body
+ * @returns The staged writes
+ */
+export function collectWrites(write: (tx: NoteStoreTransaction) => void): NoteStoreWrite[] {
+  const writes: NoteStoreWrite[] = [];
+  write({
+    put: note => writes.push({ type: 'put', note: JSON.parse(JSON.stringify(note)) }),
+    delete: id => writes.push({ type: 'delete', id }),
+    clear: () => writes.push({ type: 'clear' })
+  });
+  return writes;
+}
+
+/**
+ * Applies staged writes to notes keyed by id
+ * @param notes Notes to update in place
+ * @param writes Writes from collectWrites
+ */
+export function applyWrites(notes: Map<string, StoredNote>, writes: NoteStoreWrite[]): void {
+  for (const write of writes) {
+    if (write.type === 'put') {
+      notes.set(write.note.id, write.note);
+    } else if (write.type === 'delete') {
+      notes.delete(write.id);
+    } else {
+      notes.clear();
+    }
+  }
+}
+
+/**
+ * Copies every note from one store into another in a single transaction
+ * @param from Store to read
+ * @param to Store to write
+ * @param options clearTarget: remove the target's existing notes first; clearSource: empty the source once copied
+ * @returns Number of notes copied
+ */
+export async function migrateNotes(
+  from: NoteStore,
+  to: NoteStore,
+  options: { clearTarget?: boolean; clearSource?: boolean } = {}
+): Promise<number> {
+  const notes = await from.load();
+
+  await to.transaction(tx => {
+    if (options.clearTarget) {
+      tx.clear();
+    }
+    notes.forEach(note => tx.put(note));
+  });
+
+  if (options.clearSource) {
+    await from.transaction(tx => tx.clear());
+  }
+
+  return notes.length;
+}
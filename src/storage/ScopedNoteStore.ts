@@ -0,0 +1,78 @@
+import { NoteStore, NoteStoreTransaction, StoredNote, collectWrites } from './NoteStore';
+
+/**
+ * Kinds of record the SDK keeps in NoteStores
+ */
+export type StoredRecordKind = 'note' | 'transaction' | 'stream' | 'escrow' | 'scan_cursor';
+
+/**
+ * One module's view of a store that other modules may share. Records are tagged with the view's kind and,
+ * except for notes, stored under `<kind>:<id>`; load() returns only that kind and clear() deletes only
+ * its records. Records without a kind are notes written before stores were shared.
+ */
+export class ScopedNoteStore implements NoteStore {
+  /** The shared store */
+  readonly backend: NoteStore;
+  private readonly kind: StoredRecordKind;
+  /** Stored ids of this kind, so clear() can delete them without touching other kinds */
+  private ids: Set<string> = new Set();
+
+  loadSync?: () => StoredNote[];
+
+  constructor(backend: NoteStore, kind: StoredRecordKind) {
+    this.backend = backend;
+    this.kind = kind;
+    if (backend.loadSync) {
+      this.loadSync = () => this.own(backend.loadSync!());
+    }
+  }
+
+  async load(): Promise<StoredNote[]> {
+    return this.own(await this.backend.load());
+  }
+
+  async transaction(write: (tx: NoteStoreTransaction) => void): Promise<void> {
+    const writes = collectWrites(write);
+    // Whether each id written ends up stored, in order, to replay once the transaction commits
+    const changes: Array<[string, boolean]> = [];
+
+    await this.backend.transaction(tx => {
+      const ids = new Set(this.ids);
+      for (const staged of writes) {
+        if (staged.type === 'put') {
+          const id = this.storedId(staged.note.id);
+          tx.put({ ...staged.note, id, recordKind: this.kind });
+          ids.add(id);
+          changes.push([id, true]);
+        } else if (staged.type === 'delete') {
+          const id = this.storedId(staged.id);
+          tx.delete(id);
+          ids.delete(id);
+          changes.push([id, false]);
+        } else {
+          ids.forEach(id => {
+            tx.delete(id);
+            changes.push([id, false]);
+          });
+          ids.clear();
+        }
+      }
+    });
+
+    changes.forEach(([id, stored]) => (stored ? this.ids.add(id) : this.ids.delete(id)));
+  }
+
+  private storedId(id: string): string {
+    return this.kind === 'note' ? id : `${this.kind}:${id}`;
+  }
+
+  /**
+   * Picks this view's records out of everything stored, with their own ids and without the tag
+   */
+  private own(records: StoredNote[]): StoredNote[] {
+    const prefix = this.storedId('');
+    const scoped = records.filter(record => (record.recordKind ?? 'note') === this.kind);
+    this.ids = new Set(scoped.map(record => record.id));
+    return scoped.map(({ recordKind, ...record }) => ({ ...record, id: record.id.slice(prefix.length) }));
+  }
+}
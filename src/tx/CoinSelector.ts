@@ -0,0 +1,257 @@
+import { ExtendedNote } from '../core/NoteManager';
+import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { SPEND_INPUT_COUNT } from '../zk/TransferWitness';
+
+/** Most notes a transfer, withdraw or reshield circuit can spend in one proof */
+export const MAX_INPUT_NOTES = SPEND_INPUT_COUNT;
+
+/**
+ * How notes are chosen to cover an amount:
+ * - minimize_inputs: largest notes first, spending as few notes as possible
+ * - exact_match: branch-and-bound search for notes summing to the amount so no change is created
+ * - privacy: a single note where possible, and notes received recently only when older ones fall short,
+ *   so fresh deposits and payments are not linked to each other or to this spend
+ * - oldest_first: oldest notes first, then further old notes up to the input limit so dust is swept into change
+ * A strategy that finds no set within the circuit's input limit falls back to minimize_inputs.
+ */
+export type CoinSelectionStrategy = 'minimize_inputs' | 'exact_match' | 'privacy' | 'oldest_first';
+
+export interface CoinSelectorConfig {
+  /** Strategy used when a call does not name one */
+  defaultStrategy?: CoinSelectionStrategy;
+  /** Notes one selection may spend; at most MAX_INPUT_NOTES, the spending circuits' input count */
+  maxInputs?: number;
+  /** Notes created within this many milliseconds count as recently received for the privacy strategy */
+  recentNoteAge?: number;
+  /** Search steps exact_match may take before giving up */
+  maxSearchSteps?: number;
+}
+
+export interface CoinSelection {
+  notes: ExtendedNote[];
+  total: bigint;
+  change: bigint;
+  /** Strategy that produced the selection; minimize_inputs when the requested one found no set within the input limit */
+  strategy: CoinSelectionStrategy;
+}
+
+/**
+ * Chooses which spendable notes pay for an amount
+ */
+export class CoinSelector {
+  private config: CoinSelectorConfig;
+
+  /**
+   * @throws CipherPayError if maxInputs is not between 1 and MAX_INPUT_NOTES, as the circuits could not spend the selection
+   */
+  constructor(config: CoinSelectorConfig = {}) {
+    const { maxInputs } = config;
+    if (maxInputs !== undefined && (!Number.isInteger(maxInputs) || maxInputs < 1 || maxInputs > MAX_INPUT_NOTES)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`maxInputs must be an integer from 1 to ${MAX_INPUT_NOTES}, the spending circuits' input count`, 'maxInputs', {
+          maxInputs
+        })
+      );
+    }
+
+    this.config = {
+      defaultStrategy: 'minimize_inputs',
+      maxInputs: MAX_INPUT_NOTES,
+      recentNoteAge: 24 * 60 * 60 * 1000,
+      maxSearchSteps: 100000,
+      ...config
+    };
+  }
+
+  /**
+   * Selects notes covering an amount
+   * @param candidates Spendable notes, all holding the asset being spent
+   * @param amount Amount the selected notes must cover
+   * @param strategy Strategy to use (defaults to the configured one)
+   * @returns The selected notes and the change they leave
+   * @throws CipherPayError if the candidates, or the most the circuit can spend at once, fall short
+   */
+  select(candidates: ExtendedNote[], amount: bigint, strategy?: CoinSelectionStrategy): CoinSelection {
+    const chosen = strategy || this.config.defaultStrategy!;
+    const maxInputs = this.config.maxInputs!;
+    this.assertCoverable(candidates, amount, maxInputs);
+
+    let notes: ExtendedNote[] | null;
+    switch (chosen) {
+      case 'exact_match':
+        notes = this.selectExact(candidates, amount, maxInputs);
+        break;
+      case 'privacy':
+        notes = this.selectPrivate(candidates, amount, maxInputs);
+        break;
+      case 'oldest_first':
+        notes = this.selectOldestFirst(candidates, amount, maxInputs);
+        break;
+      case 'minimize_inputs':
+        notes = this.selectLargestFirst(candidates, amount, maxInputs);
+        break;
+      default:
+        throw ErrorHandler.getInstance().handleError(
+          ErrorHandler.createValidationError(`Unknown coin selection strategy: ${chosen}`, 'strategy')
+        );
+    }
+
+    if (notes) {
+      const total = sumNotes(notes);
+      return { notes, total, change: total - amount, strategy: chosen };
+    }
+
+    // assertCoverable guarantees the largest notes cover the amount within the input limit
+    const fallback = this.selectLargestFirst(candidates, amount, maxInputs)!;
+    const total = sumNotes(fallback);
+    return { notes: fallback, total, change: total - amount, strategy: 'minimize_inputs' };
+  }
+
+  /**
+   * Fails unless the largest notes the circuit can spend together cover the amount
+   */
+  private assertCoverable(candidates: ExtendedNote[], amount: bigint, maxInputs: number): void {
+    if (amount <= BigInt(0)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError('Amount to select must be greater than 0', 'amount', {
+          amount: amount.toString()
+        })
+      );
+    }
+
+    const available = sumNotes(candidates);
+    if (available < amount) {
+      throw ErrorHandler.createInsufficientFundsError(amount.toString(), available.toString(), {
+        operation: 'note_selection',
+        spendableNotes: candidates.length
+      });
+    }
+
+    const spendableAtOnce = sumNotes(sortLargestFirst(candidates).slice(0, maxInputs));
+    if (spendableAtOnce < amount) {
+      throw new CipherPayError(
+        `Amount needs more than ${maxInputs} input note${maxInputs === 1 ? '' : 's'}. Required: ${amount}, spendable in one transaction: ${spendableAtOnce}`,
+        ErrorType.INSUFFICIENT_FUNDS,
+        {
+          operation: 'note_selection',
+          required: amount.toString(),
+          available: spendableAtOnce.toString(),
+          maxInputs
+        },
+        {
+          action: 'Consolidate your notes',
+          description: 'The balance is spread over more notes than one transaction can spend; reshield them into fewer notes first.'
+        },
+        false
+      );
+    }
+  }
+
+  private selectLargestFirst(candidates: ExtendedNote[], amount: bigint, maxInputs: number): ExtendedNote[] | null {
+    return takeUntilCovered(sortLargestFirst(candidates), amount, maxInputs);
+  }
+
+  /**
+   * Depth-first search over notes sorted largest first for a set summing exactly to the amount,
+   * pruning branches that overshoot or can no longer reach it
+   */
+  private selectExact(candidates: ExtendedNote[], amount: bigint, maxInputs: number): ExtendedNote[] | null {
+    const sorted = sortLargestFirst(candidates);
+    // remaining[i] is the total of sorted[i..], the most a branch starting at i can still add
+    const remaining: bigint[] = new Array(sorted.length + 1).fill(BigInt(0));
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      remaining[i] = remaining[i + 1] + sorted[i].amount;
+    }
+
+    let steps = 0;
+    const path: ExtendedNote[] = [];
+    const search = (start: number, total: bigint): boolean => {
+      if (total === amount) return true;
+      if (path.length === maxInputs || ++steps > this.config.maxSearchSteps!) return false;
+
+      for (let i = start; i < sorted.length; i++) {
+        if (total + remaining[i] < amount) return false;
+        if (total + sorted[i].amount > amount) continue;
+        // Equal amounts are interchangeable; only the first of a run needs exploring at this depth
+        if (i > start && sorted[i].amount === sorted[i - 1].amount) continue;
+
+        path.push(sorted[i]);
+        if (search(i + 1, total + sorted[i].amount)) return true;
+        path.pop();
+      }
+      return false;
+    };
+
+    return search(0, BigInt(0)) ? [...path] : null;
+  }
+
+  private selectPrivate(candidates: ExtendedNote[], amount: bigint, maxInputs: number): ExtendedNote[] | null {
+    const cutoff = Date.now() - this.config.recentNoteAge!;
+    const settled = candidates.filter(note => note.createdAt.getTime() <= cutoff);
+    const recent = candidates.filter(note => note.createdAt.getTime() > cutoff);
+
+    // One input links nothing: prefer the smallest single note that covers the amount, settled before recent
+    for (const pool of [settled, recent]) {
+      const single = sortLargestFirst(pool).reverse().find(note => note.amount >= amount);
+      if (single) return [single];
+    }
+
+    // Otherwise mix in as few recent notes as possible, the largest ones first
+    const settledByAmount = sortLargestFirst(settled);
+    const recentByAmount = sortLargestFirst(recent);
+    for (let count = 0; count <= Math.min(recentByAmount.length, maxInputs); count++) {
+      const fromRecent = recentByAmount.slice(0, count);
+      const fromSettled = takeUntilCovered(settledByAmount, amount - sumNotes(fromRecent), maxInputs - count);
+      if (fromSettled) return [...fromSettled, ...fromRecent];
+    }
+    return null;
+  }
+
+  private selectOldestFirst(candidates: ExtendedNote[], amount: bigint, maxInputs: number): ExtendedNote[] | null {
+    const sorted = [...candidates].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || compareIds(a, b));
+    const selected = takeUntilCovered(sorted, amount, maxInputs);
+    if (!selected) return null;
+
+    // Sweep further old notes into the change while inputs remain
+    for (const note of sorted) {
+      if (selected.length >= maxInputs) break;
+      if (!selected.includes(note)) {
+        selected.push(note);
+      }
+    }
+    return selected;
+  }
+}
+
+function sumNotes(notes: ExtendedNote[]): bigint {
+  return notes.reduce((sum, note) => sum + note.amount, BigInt(0));
+}
+
+function compareIds(a: ExtendedNote, b: ExtendedNote): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Sorts notes by amount descending; equal amounts keep a stable order, oldest first
+ */
+function sortLargestFirst(notes: ExtendedNote[]): ExtendedNote[] {
+  return [...notes].sort((a, b) => {
+    if (a.amount !== b.amount) return b.amount > a.amount ? 1 : -1;
+    return a.createdAt.getTime() - b.createdAt.getTime() || compareIds(a, b);
+  });
+}
+
+/**
+ * Takes notes in order until they cover the amount
+ * @returns The notes taken, or null if the amount is not covered within the input limit
+ */
+function takeUntilCovered(ordered: ExtendedNote[], amount: bigint, maxInputs: number): ExtendedNote[] | null {
+  const selected: ExtendedNote[] = [];
+  let total = BigInt(0);
+  for (const note of ordered) {
+    if (total >= amount || selected.length === maxInputs) break;
+    selected.push(note);
+    total += note.amount;
+  }
+  return total >= amount ? selected : null;
+}
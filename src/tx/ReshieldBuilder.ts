@@ -1,12 +1,22 @@
 import { ethers } from 'ethers';
-import { NoteManager, ShieldedNote } from '../core/NoteManager';
+import { NoteManager, ExtendedNote } from '../core/NoteManager';
 import { ViewKeyManager } from '../core/ViewKeyManager';
 import { ChainType } from '../core/WalletProvider';
-import { ZKProofGenerator } from '../zkp/ZKProofGenerator';
+import { MerkleTreeClient } from '../core/MerkleTreeClient';
+import { ZKProver } from '../zk/ZKProver';
+import { ZKProof } from '../types/ZKProof';
+import { NATIVE_ASSET, noteAsset } from '../core/AssetRegistry';
+import { CoinSelector, CoinSelectionStrategy, MAX_INPUT_NOTES } from './CoinSelector';
 
 export interface ReshieldRequest {
   amount: bigint;
   chainType: ChainType;
+  ownerAddress: string;
+  noteIds?: string[];
+  /** Asset to spend (defaults to the native asset) */
+  asset?: string;
+  /** How notes are chosen when `noteIds` is not given (defaults to the selector's strategy) */
+  selectionStrategy?: CoinSelectionStrategy;
   gasLimit?: string;
   maxFeePerGas?: string;
   priorityFee?: string;
@@ -16,36 +26,47 @@ export interface ReshieldResult {
   success: boolean;
   txHash?: string;
   error?: string;
-  proof?: any;
+  proof?: ZKProof;
+  inputNotes?: ExtendedNote[];
+  outputNote?: ExtendedNote;
+  changeNote?: ExtendedNote;
 }
 
 export class ReshieldBuilder {
   private readonly noteManager: NoteManager;
   private readonly viewKeyManager: ViewKeyManager;
-  private readonly zkProofGenerator: ZKProofGenerator;
+  private readonly zkProver: ZKProver;
   private readonly chainType: ChainType;
+  private readonly merkleTreeClient?: MerkleTreeClient;
+  private readonly coinSelector: CoinSelector;
 
   constructor(
     noteManager: NoteManager,
     viewKeyManager: ViewKeyManager,
-    zkProofGenerator: ZKProofGenerator,
-    chainType: ChainType
+    zkProver: ZKProver,
+    chainType: ChainType,
+    merkleTreeClient?: MerkleTreeClient,
+    coinSelector: CoinSelector = new CoinSelector()
   ) {
     this.noteManager = noteManager;
     this.viewKeyManager = viewKeyManager;
-    this.zkProofGenerator = zkProofGenerator;
+    this.zkProver = zkProver;
     this.chainType = chainType;
+    this.merkleTreeClient = merkleTreeClient;
+    this.coinSelector = coinSelector;
   }
 
   /**
    * Builds a reshield transaction
    * @param request Reshield request parameters
-   * @returns Reshield result
+   * @returns Reshield result; on success its input notes stay reserved until consumed or released
    */
   async buildReshield(request: ReshieldRequest): Promise<ReshieldResult> {
+    let reservedNoteIds: string[] = [];
     try {
-      // Get spendable notes
-      const spendableNotes = this.noteManager.getSpendableNotes();
+      // Get spendable notes of the requested asset
+      const asset = request.asset || NATIVE_ASSET;
+      const spendableNotes = this.noteManager.getSpendableNotes(asset);
       if (spendableNotes.length === 0) {
         return {
           success: false,
@@ -54,7 +75,7 @@ export class ReshieldBuilder {
       }
 
       // Check balance
-      const totalBalance = this.noteManager.getBalance();
+      const totalBalance = this.noteManager.getBalance(asset);
       if (totalBalance < request.amount) {
         return {
           success: false,
@@ -62,21 +83,81 @@ export class ReshieldBuilder {
         };
       }
 
-      // Select notes to spend
-      const selectedNotes = this.selectNotesToReshield(spendableNotes, request.amount);
+      // Use the explicitly requested notes, otherwise select enough to cover the amount
+      let selectedNotes: ExtendedNote[];
+      if (request.noteIds && request.noteIds.length > 0) {
+        if (request.noteIds.length > MAX_INPUT_NOTES) {
+          return {
+            success: false,
+            error: `A reshield spends at most ${MAX_INPUT_NOTES} input note per proof, so it cannot merge ${request.noteIds.length} notes`
+          };
+        }
+        const allSpendable = this.noteManager.getSpendableNotes();
+        selectedNotes = request.noteIds.map(id => {
+          const note = allSpendable.find(candidate => candidate.id === id);
+          if (!note) {
+            throw new Error(`Note ${id} is not spendable`);
+          }
+          if (noteAsset(note) !== asset) {
+            throw new Error(`Note ${id} holds ${noteAsset(note)}, not ${asset}`);
+          }
+          return note;
+        });
+      } else {
+        selectedNotes = this.coinSelector.select(spendableNotes, request.amount, request.selectionStrategy).notes;
+      }
 
-      // Generate proof
-      const proof = await this.zkProofGenerator.generateReshieldProof({
-        inputNotes: selectedNotes,
-        amount: request.amount,
-        viewKey: this.viewKeyManager.exportViewKey()
-      });
+      const selectedTotal = selectedNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+      if (selectedTotal < request.amount) {
+        return {
+          success: false,
+          error: 'Insufficient balance in selected notes'
+        };
+      }
+      const changeAmount = selectedTotal - request.amount;
 
-      return {
-        success: true,
-        proof
-      };
+      // Hold the inputs until the caller consumes them on confirmation or releases them on failure
+      this.noteManager.reserveNotes(selectedNotes.map(note => note.id), { operation: 'reshield' });
+      reservedNoteIds = selectedNotes.map(note => note.id);
+
+      const merkleProofs = this.merkleTreeClient
+        ? await Promise.all(selectedNotes.map(note => this.merkleTreeClient!.getMerklePath(note.commitment)))
+        : undefined;
+
+      // Reshielding re-issues value to ourselves under fresh commitments
+      const outputNote = await this.noteManager.createNote(request.amount, request.ownerAddress, 'reshield', { role: 'output' }, asset);
+      const changeNote = changeAmount > BigInt(0)
+        ? await this.noteManager.createNote(changeAmount, request.ownerAddress, 'reshield', { role: 'change' }, asset)
+        : undefined;
+      const createdNotes = changeNote ? [outputNote, changeNote] : [outputNote];
+
+      try {
+        // Generate proof
+        const proof = await this.zkProver.generateReshieldProof({
+          inputNotes: selectedNotes,
+          amount: request.amount,
+          outputNote,
+          changeNote,
+          merkleProofs,
+          viewKey: this.viewKeyManager.exportViewKey(),
+          nullifierKey: this.noteManager.getNullifierKey()
+        });
+
+        return {
+          success: true,
+          proof,
+          inputNotes: selectedNotes,
+          outputNote,
+          changeNote
+        };
+      } catch (error) {
+        for (const note of createdNotes) {
+          await this.noteManager.deleteNote(note.id);
+        }
+        throw error;
+      }
     } catch (error) {
+      this.noteManager.releaseNotes(reservedNoteIds);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         success: false,
@@ -84,33 +165,4 @@ export class ReshieldBuilder {
       };
     }
   }
-
-  /**
-   * Selects notes to reshield based on the required amount
-   * @param notes Available notes
-   * @param amount Required amount
-   * @returns Selected notes to reshield
-   */
-  private selectNotesToReshield(notes: ShieldedNote[], amount: bigint): ShieldedNote[] {
-    // Sort notes by amount in descending order
-    const sortedNotes = [...notes].sort((a, b) => 
-      b.amount > a.amount ? 1 : -1
-    );
-
-    const selectedNotes: ShieldedNote[] = [];
-    let remainingAmount = amount;
-
-    for (const note of sortedNotes) {
-      if (remainingAmount <= BigInt(0)) break;
-      
-      selectedNotes.push(note);
-      remainingAmount -= note.amount;
-    }
-
-    if (remainingAmount > BigInt(0)) {
-      throw new Error('Insufficient balance in selected notes');
-    }
-
-    return selectedNotes;
-  }
 } 
\ No newline at end of file
@@ -2,9 +2,13 @@ import { Transaction, PublicKey, SystemProgram, LAMPORTS_PER_SOL } from '@solana
 import { ShieldedNote } from '../types/Note';
 import { ZKProof } from '../types/ZKProof';
 import { RelayerClient } from '../relayer/RelayerClient';
+import { RelayerRequest } from '../relayer/RelayerAPI';
 import { WalletProvider } from '../core/WalletProvider';
 import { ZKProver } from '../zk/ZKProver';
 import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { assetTokenAddress, noteAsset } from '../core/AssetRegistry';
+import { computeNoteCommitment, computeNoteSecret, randomBlinding } from '../zk/NoteCrypto';
+import { toFieldElement } from '../zk/field';
 
 export interface TransactionConfig {
   feePayer?: PublicKey;
@@ -75,17 +79,10 @@ export class TransactionBuilder {
       this.validateTransferRequest(request);
 
       // Generate ZK proof
+      const outputNote = this.createOutputNote(request.amount, request.toAddress, noteAsset(request.fromNotes[0]));
       const proof = await this.zkProver.generateTransferProof({
         inputNotes: request.fromNotes,
-        outputNote: {
-          commitment: await this.generateCommitment(request.amount, request.toAddress),
-          nullifier: await this.generateNullifier(request.amount, request.toAddress),
-          amount: request.amount,
-          encryptedNote: '',
-          spent: false,
-          timestamp: Date.now(),
-          recipientAddress: request.toAddress
-        },
+        outputNote,
         viewKey: await this.getViewKey()
       });
 
@@ -98,6 +95,7 @@ export class TransactionBuilder {
         proof,
         fromNotes: request.fromNotes,
         toAddress: request.toAddress,
+        outputNote,
         amount: request.amount,
         fee: request.fee || BigInt(feeEstimate.totalFee),
         metadata: request.metadata
@@ -241,7 +239,10 @@ export class TransactionBuilder {
   /**
    * Estimates transaction fees
    */
-  async estimateTransactionFees(request: TransferRequest | WithdrawRequest | ReshieldRequest): Promise<{
+  async estimateTransactionFees(
+    request: TransferRequest | WithdrawRequest | ReshieldRequest,
+    type: RelayerRequest['type'] = 'shielded_transfer'
+  ): Promise<{
     gasLimit: string;
     maxFeePerGas: string;
     priorityFee: string;
@@ -252,7 +253,7 @@ export class TransactionBuilder {
       const mockTransaction = await this.buildMockTransaction(request);
       
       const feeEstimate = await this.relayerClient.estimateGas({
-        type: 'shielded_transfer',
+        type,
         chainType: 'solana',
         data: {
           proof: 'mock_proof',
@@ -295,6 +296,8 @@ export class TransactionBuilder {
       );
     }
 
+    this.validateSingleAsset(request.fromNotes);
+
     if (!request.toAddress) {
       throw new CipherPayError(
         'Recipient address is required',
@@ -374,6 +377,8 @@ export class TransactionBuilder {
       );
     }
 
+    this.validateSingleAsset(request.fromNotes);
+
     if (!request.toAddress) {
       throw new CipherPayError(
         'Recipient address is required',
@@ -437,6 +442,8 @@ export class TransactionBuilder {
       );
     }
 
+    this.validateSingleAsset(request.fromNotes);
+
     if (request.amount <= 0n) {
       throw new CipherPayError(
         'Amount must be greater than 0',
@@ -470,6 +477,25 @@ export class TransactionBuilder {
     }
   }
 
+  /**
+   * Validates that all input notes hold the same asset
+   */
+  private validateSingleAsset(notes: ShieldedNote[]): void {
+    const assets = Array.from(new Set(notes.map(note => noteAsset(note))));
+    if (assets.length > 1) {
+      throw new CipherPayError(
+        'Input notes must hold the same asset',
+        ErrorType.INVALID_INPUT,
+        { field: 'fromNotes', assets },
+        {
+          action: 'Select notes of one asset',
+          description: 'A single transaction can only spend notes of one asset.'
+        },
+        false
+      );
+    }
+  }
+
   /**
    * Builds a transaction
    */
@@ -478,11 +504,16 @@ export class TransactionBuilder {
     proof: ZKProof;
     fromNotes: ShieldedNote[];
     toAddress?: string;
+    /** Note the proof commits to; created here when omitted */
+    outputNote?: ShieldedNote;
     amount: bigint;
     fee: bigint;
     metadata?: Record<string, any>;
   }): Promise<any> {
     const { type, proof, fromNotes, toAddress, amount, fee, metadata } = params;
+    const outputNote = toAddress
+      ? params.outputNote || this.createOutputNote(amount, toAddress, noteAsset(fromNotes[0]))
+      : undefined;
 
     // Get recent blockhash
     const recentBlockhash = await this.getRecentBlockhash();
@@ -492,11 +523,13 @@ export class TransactionBuilder {
       type,
       proof,
       inputNotes: fromNotes,
-      outputNote: toAddress ? {
-        amount,
-        recipientAddress: toAddress,
-        commitment: await this.generateCommitment(amount, toAddress),
-        nullifier: await this.generateNullifier(amount, toAddress)
+      tokenAddress: assetTokenAddress(noteAsset(fromNotes[0])),
+      outputNote: outputNote ? {
+        amount: outputNote.amount,
+        recipientAddress: outputNote.recipientAddress,
+        asset: outputNote.asset,
+        commitment: outputNote.commitment,
+        nullifier: outputNote.nullifier
       } : undefined,
       fee,
       metadata: metadata || {},
@@ -535,7 +568,8 @@ export class TransactionBuilder {
             proof: JSON.stringify(transaction.proof),
             publicInputs: transaction.proof.publicSignals || [],
             amount: transaction.amount.toString(),
-            recipientAddress: transaction.toAddress
+            recipientAddress: transaction.toAddress,
+            tokenAddress: transaction.tokenAddress
           }
         });
 
@@ -584,21 +618,23 @@ export class TransactionBuilder {
   }
 
   /**
-   * Generates commitment for a note
-   */
-  private async generateCommitment(amount: bigint, recipientAddress: string): Promise<string> {
-    // In a real implementation, this would use proper commitment generation
-    const data = `${amount}_${recipientAddress}_${Date.now()}`;
-    return Buffer.from(data).toString('base64');
-  }
-
-  /**
-   * Generates nullifier for a note
+   * Creates the note a transaction pays to
    */
-  private async generateNullifier(amount: bigint, recipientAddress: string): Promise<string> {
-    // In a real implementation, this would use proper nullifier generation
-    const data = `${amount}_${recipientAddress}_${Date.now()}_nullifier`;
-    return Buffer.from(data).toString('base64');
+  private createOutputNote(amount: bigint, recipientAddress: string, asset: string): ShieldedNote {
+    // The recipient address is the shielded address the recipient publishes, its owner public key
+    const opening = { asset, ownerKey: toFieldElement(recipientAddress), blinding: randomBlinding() };
+    return {
+      commitment: computeNoteCommitment({ amount, ...opening }),
+      secret: computeNoteSecret(opening),
+      // Only the recipient's nullifier key can derive the nullifier
+      nullifier: '',
+      amount,
+      encryptedNote: '',
+      spent: false,
+      timestamp: Date.now(),
+      recipientAddress,
+      asset
+    };
   }
 
   /**
@@ -4,6 +4,7 @@ import { ZKProver } from '../zk/ZKProver';
 import { ShieldedNote } from '../types/Note';
 import { ZKProof } from '../types/ZKProof';
 import { Logger } from '../monitoring/observability/logger';
+import { noteAsset } from '../core/AssetRegistry';
 
 /**
  * Builder class for creating and sending shielded transfers
@@ -64,6 +65,10 @@ export class TransferBuilder {
         if (!this.proof) {
             throw new Error('No proof provided');
         }
+        const asset = noteAsset(this.outputNote);
+        if (this.inputNotes.some(note => noteAsset(note) !== asset)) {
+            throw new Error('Input and output notes must hold the same asset');
+        }
     }
 
     /**
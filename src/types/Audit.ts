@@ -0,0 +1,64 @@
+import { ZKProof } from './ZKProof';
+
+/**
+ * A claim about this wallet's notes that can be proven to an auditor
+ * - received_at_least: notes received between the dates add up to at least `minimum`
+ * - invoice_payment: the note with `noteCommitment` paid the invoice recorded in its `invoice` metadata
+ */
+export type AuditStatement =
+  | {
+      type: 'received_at_least';
+      minimum: bigint;
+      fromDate: Date;
+      toDate: Date;
+      /** Asset identifier (defaults to the native asset) */
+      asset?: string;
+    }
+  | {
+      type: 'invoice_payment';
+      noteCommitment: string;
+      invoiceId: string;
+    };
+
+/**
+ * A proven statement as shown to the auditor, with amounts as decimal strings
+ */
+export type DisclosedStatement =
+  | {
+      type: 'received_at_least';
+      minimum: string;
+      /** Unix time (ms) the period starts */
+      fromTime: number;
+      /** Unix time (ms) the period ends */
+      toTime: number;
+      asset: string;
+    }
+  | {
+      type: 'invoice_payment';
+      noteCommitment: string;
+      invoiceId: string;
+      amount: string;
+    };
+
+/**
+ * Everything an auditor needs to check a statement. Holds note commitments, one proof per
+ * note and the claimed total, never the view key or the individual note amounts.
+ */
+export interface AuditDisclosure {
+  version: number;
+  chainType: string;
+  statement: DisclosedStatement;
+  /** Commitments of the notes the proofs cover */
+  noteCommitments: string[];
+  /** Total the prover claims for the covered notes; audit_proof keeps note amounts private */
+  provenAmount: string;
+  /** One audit_proof proof per note, in noteCommitments order */
+  proofs: ZKProof[];
+  createdAt: number;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  /** Why verification failed */
+  reason?: string;
+}
@@ -7,11 +7,17 @@ export interface ShieldedNote {
   timestamp: number;
   recipientAddress: string;
   merkleRoot?: string;
+  /** Asset held by the note: 'native' or a token address from the token registry (defaults to native) */
+  asset?: string;
+  /** Opens the commitment with the amount (see computeNoteSecret); known to the note's creator and owner */
+  secret?: string;
+  /** Message to the recipient, such as an invoice ID; sealed with the note, padded to MEMO_SIZE bytes */
+  memo?: string;
 }
 
 export type Note = ShieldedNote;
 export type NoteStatus = 'pending' | 'confirmed' | 'spent' | 'expired';
-export type NoteType = 'transfer' | 'withdraw' | 'reshield';
+export type NoteType = 'deposit' | 'transfer' | 'withdraw' | 'reshield';
 
 export interface NoteMetadata {
   version: number;
@@ -1,21 +1,82 @@
 import { ShieldedNote } from './Note';
 
+export interface MerklePathInput {
+  path: string[];
+  indices: number[];
+  root: string;
+}
+
 export interface ProofInput {
   inputNotes: ShieldedNote[];
   viewKey: string;
+  /** Key the input notes' nullifiers derive from (NoteManager.getNullifierKey), proving the spender may spend them */
+  nullifierKey?: string;
+  merkleProofs?: MerklePathInput[];
 }
 
 export interface TransferProofInput extends ProofInput {
   outputNote: ShieldedNote;
+  changeNote?: ShieldedNote;
 }
 
 export interface WithdrawProofInput extends ProofInput {
   recipientAddress: string;
   amount: bigint;
+  changeNote?: ShieldedNote;
 }
 
 export interface ReshieldProofInput extends ProofInput {
   amount: bigint;
+  outputNote?: ShieldedNote;
+  changeNote?: ShieldedNote;
+}
+
+/**
+ * Signals the transfer and withdraw circuits open their single input note with, as decimal field elements
+ */
+export type SpendWitness = {
+  inAmount: string;
+  /** Nullifier preimage (see computeNullifierPreimage); the circuit reveals Poseidon(inNullifier, inSecret) */
+  inNullifier: string;
+  /** Note secret (see computeNoteSecret); the note's leaf is Poseidon(inAmount, inSecret) */
+  inSecret: string;
+  inPathElements: string[];
+  /** 0 where the path's node is the left child, 1 where it is the right */
+  inPathIndices: string[];
+  merkleRoot: string;
+};
+
+/**
+ * Signals of the transfer circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type TransferWitness = SpendWitness & {
+  /** Secret of the output note; the circuit reveals the output commitment Poseidon(inAmount, recipientPubKey) */
+  recipientPubKey: string;
+};
+
+/**
+ * Signals of the withdraw circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type WithdrawWitness = SpendWitness & {
+  recipientAddress: string;
+  /** Amount paid out; the circuit requires it to equal inAmount */
+  withdrawalAmount: string;
+};
+
+export interface SplitProofInput {
+  inputNote: ShieldedNote;
+  /** The two notes the input is divided into; with the fee they must add up to the input amount */
+  outputNotes: ShieldedNote[];
+  /** Amount paid to the relayer out of the input note */
+  fee: bigint;
+  /** Salt the split commitment hides the split id with */
+  splitSecret: string;
+  /** Commitment the split is submitted under, Poseidon(splitId, splitSecret) (see computeSplitCommitment) */
+  splitCommitment: string;
+  /** Root of the note tree the proof is made against */
+  merkleRoot: string;
 }
 
 export interface ProofOutput {
@@ -113,3 +174,165 @@ export interface ZKInput {
      */
     merklePathIndices: number[];
 }
+
+export interface StreamProofInput {
+  /** Id binding the stream's recipient, rate, schedule and asset (see computeStreamId) */
+  streamId: string;
+  /** Salt the stream commitment hides the id with */
+  streamSecret: string;
+  /** Commitment the stream is registered under, Poseidon(streamId, streamSecret) */
+  streamCommitment: string;
+  recipient: string;
+  /** Unix time (seconds) vesting starts */
+  startTime: number;
+  /** Unix time (seconds) the stream is fully vested */
+  endTime: number;
+  /** Unix time (seconds) the vested amount is proven at */
+  currentTime: number;
+  /** Total amount streamed between startTime and endTime */
+  totalAmount: bigint;
+  /** Root of the note tree the proof is made against */
+  merkleRoot: string;
+}
+
+/**
+ * Signals of the zkStream circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type StreamWitness = {
+  streamId: string;
+  streamSecret: string;
+  streamCommitment: string;
+  recipientAddress: string;
+  totalAmount: string;
+  /** Amount vested at currentTime; a public signal of the proof */
+  claimedAmount: string;
+  startTime: string;
+  endTime: string;
+  currentTime: string;
+  merkleRoot: string;
+};
+
+/** Condition kinds the zkCondition circuit understands */
+export type ConditionCircuitType = 0 | 1 | 2;
+
+export interface ConditionProofInput {
+  /** Id binding the escrow's recipient, amount, condition, timeout and asset (see computeConditionId) */
+  conditionId: string;
+  /** Salt the escrow commitment hides the id with */
+  conditionSecret: string;
+  /** Commitment the escrow is registered under, Poseidon(conditionId, conditionSecret) */
+  conditionCommitment: string;
+  /** 0: time-based, 1: event-based, 2: threshold-based */
+  conditionType: ConditionCircuitType;
+  /** Unix time (seconds) the proof is made at */
+  currentTime: number;
+  /** Time conditions hold while currentTime is before this unix time (seconds) */
+  targetTime?: number;
+  /** Event conditions hold when the hash of the event that occurred equals the expected one */
+  eventHash?: bigint;
+  targetHash?: bigint;
+  /** Threshold conditions hold while this amount is below thresholdAmount (defaults to 1) */
+  currentAmount?: bigint;
+  thresholdAmount?: bigint;
+  /** Root of the note tree the proof is made against */
+  merkleRoot: string;
+}
+
+/**
+ * Signals of the zkCondition circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type ConditionWitness = {
+  conditionType: string;
+  conditionSecret: string;
+  conditionId: string;
+  currentTime: string;
+  targetTime: string;
+  eventHash: string;
+  targetHash: string;
+  currentAmount: string;
+  thresholdAmount: string;
+  merkleRoot: string;
+  conditionCommitment: string;
+};
+
+/**
+ * Signals of the zkSplit circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type SplitWitness = {
+  /** Input note amount less the fee */
+  totalAmount: string;
+  splitSecret: string;
+  splitId: string;
+  amounts: string[];
+  recipientAddresses: string[];
+  merkleRoot: string;
+  splitCommitment: string;
+};
+
+export interface AuditProofInput {
+  /** Commitment of the note the proof is about */
+  noteCommitment: string;
+  /** Stays in the private witness and never leaves the prover */
+  viewKey: string;
+  amount: bigint;
+  /** Unix time (seconds) the note was received */
+  timestamp: number;
+  /** Unix time (seconds) the statement is made at; must be after the note's timestamp */
+  currentTime: number;
+  /** What the disclosure is made for, such as the statement type */
+  purpose: string;
+  /** Root of the note tree the proof is made against */
+  merkleRoot: string;
+}
+
+/**
+ * Signals of the audit_proof circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type AuditWitness = {
+  noteCommitment: string;
+  viewKey: string;
+  amount: string;
+  timestamp: string;
+  purpose: string;
+  /** Poseidon(Poseidon(noteCommitment, viewKey), amount) (see computeAuditId) */
+  auditId: string;
+  merkleRoot: string;
+  currentTime: string;
+};
+
+export interface NullifierProofInput {
+  /** Note the nullifier is derived from; only the nullifier becomes public */
+  note: ShieldedNote;
+  /** Key from deriveNullifierKey, as hex; stays in the private witness */
+  nullifierKey: string;
+}
+
+/**
+ * Signals of the nullifier circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type NullifierWitness = {
+  secret: string;
+  noteCommitment: string;
+};
+
+export interface MembershipProofInput {
+  /** Commitment proven to be a leaf of the note tree; stays in the private witness */
+  commitment: string;
+  merkleProof: MerklePathInput;
+}
+
+/**
+ * Signals of the merkle circuit, as decimal field elements
+ * (a type alias so it satisfies snarkjs' signal map)
+ */
+export type MembershipWitness = {
+  leaf: string;
+  root: string;
+  pathElements: string[];
+  pathIndices: string[];
+};
@@ -1,26 +1,43 @@
 import { utils } from 'ethers';
+import * as nacl from 'tweetnacl';
 import { EncryptedNote, NoteMetadata } from '../types/Note';
 import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
+import { computeNoteCommitment, computeNullifier, deriveNullifierKey, randomBlinding } from '../zk/NoteCrypto';
+import { randomFieldHex, toFieldElement } from '../zk/field';
 
 /**
  * Generates a commitment for a note
+ * @deprecated Use computeNoteCommitment, which takes the blinding as a field element
  * @param amount Note amount
- * @param recipientAddress Recipient address
+ * @param recipientAddress Recipient's shielded address, the hex form of its owner public key
+ * @param randomness Blinding randomness; fresh randomness when omitted
+ * @param asset Token address the note holds; omitted for the native asset
  * @returns Commitment hash
  */
-export async function generateCommitment(amount: bigint, recipientAddress: string): Promise<string> {
-  const data = `${amount}_${recipientAddress}_${Date.now()}`;
-  return utils.keccak256(utils.toUtf8Bytes(data));
+export async function generateCommitment(
+  amount: bigint,
+  recipientAddress: string,
+  randomness?: Uint8Array,
+  asset?: string
+): Promise<string> {
+  return computeNoteCommitment({
+    amount,
+    asset,
+    ownerKey: toFieldElement(recipientAddress),
+    blinding: randomness ? BigInt(utils.hexlify(randomness)) : randomBlinding()
+  });
 }
 
 /**
  * Generates a nullifier for a note
- * @param commitment Note commitment
+ * @deprecated Use computeNullifier with the wallet's nullifier key (NoteManager.getNullifierKey) and the note secret
+ * @param commitment Note commitment, standing in for the note secret
+ * @param nullifierKey Key the nullifier derives from; without one a random key is used and the nullifier spends nothing
  * @returns Nullifier hash
  */
-export async function generateNullifier(commitment: string): Promise<string> {
-  const data = `${commitment}_${Date.now()}_nullifier`;
-  return utils.keccak256(utils.toUtf8Bytes(data));
+export async function generateNullifier(commitment: string, nullifierKey?: string): Promise<string> {
+  const key = nullifierKey ? BigInt(nullifierKey) : deriveNullifierKey(randomFieldHex());
+  return computeNullifier(key, commitment);
 }
 
 /**
@@ -199,3 +216,51 @@ export async function decryptNote(
     encryptedNote.nonce
   );
 }
+
+/**
+ * Encrypts data to an X25519 note encryption key with a fresh ephemeral key pair.
+ * Output layout: ephemeral public key (32 bytes) | nonce (24 bytes) | box ciphertext
+ * @param data Data to encrypt
+ * @param recipientKey Recipient's note encryption public key (hex)
+ * @returns Sealed data as a hex string
+ */
+export function sealForRecipient(data: string, recipientKey: string): string {
+  const publicKey = utils.arrayify(recipientKey);
+  if (publicKey.length !== nacl.box.publicKeyLength) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Note encryption key must be 32 bytes', 'recipientKey', {
+        keyLength: publicKey.length
+      })
+    );
+  }
+
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const box = nacl.box(utils.toUtf8Bytes(data), nonce, publicKey, ephemeral.secretKey);
+  return utils.hexlify(utils.concat([ephemeral.publicKey, nonce, box]));
+}
+
+/**
+ * Trial-decrypts data sealed by sealForRecipient
+ * @param sealed Sealed data (hex)
+ * @param secretKey X25519 secret key to try
+ * @returns The data, or null if it was not sealed to this key or is malformed
+ */
+export function openSealed(sealed: string, secretKey: Uint8Array): string | null {
+  if (!utils.isHexString(sealed)) {
+    return null;
+  }
+  const bytes = utils.arrayify(sealed);
+  const headerLength = nacl.box.publicKeyLength + nacl.box.nonceLength;
+  if (bytes.length <= headerLength) {
+    return null;
+  }
+
+  const opened = nacl.box.open(
+    bytes.slice(headerLength),
+    bytes.slice(nacl.box.publicKeyLength, headerLength),
+    bytes.slice(0, nacl.box.publicKeyLength),
+    secretKey
+  );
+  return opened ? utils.toUtf8String(opened) : null;
+}
@@ -0,0 +1,64 @@
+import { utils } from 'ethers';
+import { ErrorHandler } from '../errors/ErrorHandler';
+
+/**
+ * Bytes a memo takes up in a sealed note whatever its length, so the ciphertext does not reveal
+ * whether a payment carries a memo or how long it is.
+ * Layout: memo length (2 bytes, big-endian) | UTF-8 memo | zero padding
+ */
+export const MEMO_SIZE = 512;
+
+/** Longest memo that fits, in UTF-8 bytes */
+export const MAX_MEMO_BYTES = MEMO_SIZE - 2;
+
+/**
+ * Checks that a memo fits in a note
+ * @param memo Memo text
+ * @throws CipherPayError if the memo is longer than MAX_MEMO_BYTES once UTF-8 encoded
+ */
+export function validateMemo(memo: string): void {
+  const length = utils.toUtf8Bytes(memo).length;
+  if (length > MAX_MEMO_BYTES) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Memo is ${length} bytes; the limit is ${MAX_MEMO_BYTES}`, 'memo', {
+        memoBytes: length
+      })
+    );
+  }
+}
+
+/**
+ * Pads a memo to MEMO_SIZE bytes
+ * @param memo Memo text; without one an empty memo of the same size is produced
+ * @returns The padded memo (hex)
+ */
+export function padMemo(memo: string = ''): string {
+  validateMemo(memo);
+  const bytes = utils.toUtf8Bytes(memo);
+  const padded = new Uint8Array(MEMO_SIZE);
+  padded[0] = bytes.length >> 8;
+  padded[1] = bytes.length & 0xff;
+  padded.set(bytes, 2);
+  return utils.hexlify(padded);
+}
+
+/**
+ * Reads a memo padded by padMemo
+ * @param padded Padded memo (hex)
+ * @returns The memo text, or undefined if it is empty or malformed
+ */
+export function unpadMemo(padded: string): string | undefined {
+  if (!utils.isHexString(padded, MEMO_SIZE)) {
+    return undefined;
+  }
+  const bytes = utils.arrayify(padded);
+  const length = (bytes[0] << 8) | bytes[1];
+  if (length === 0 || length > MAX_MEMO_BYTES) {
+    return undefined;
+  }
+  try {
+    return utils.toUtf8String(bytes.slice(2, 2 + length));
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,65 @@
+import { AuditProofInput, AuditWitness } from '../types/ZKProof';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement } from './field';
+
+/** Bit width audit_proof decomposes note amounts into */
+const AUDIT_AMOUNT_BITS = 32;
+
+/** Bit width of audit_proof's time comparison */
+const AUDIT_TIME_BITS = 32;
+
+/**
+ * Computes the audit id audit_proof binds a note's commitment, view key and amount into:
+ * Poseidon(Poseidon(noteCommitment, viewKey), amount)
+ * @returns The id as a field element
+ */
+export function computeAuditId(noteCommitment: bigint, viewKey: bigint, amount: bigint): bigint {
+  return poseidonHashMany([poseidonHashMany([noteCommitment, viewKey]), amount]);
+}
+
+/**
+ * Builds the audit_proof circuit witness for one note, rejecting inputs the circuit could not satisfy
+ * @param input The note, the view key that holds it and the time the statement is made at
+ * @returns The witness signals
+ */
+export function buildAuditWitness(input: AuditProofInput): AuditWitness {
+  if (input.amount < BigInt(0) || input.amount >= BigInt(2) ** BigInt(AUDIT_AMOUNT_BITS)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Audited note amounts must be below 2^${AUDIT_AMOUNT_BITS}`, 'amount', {
+        noteCommitment: input.noteCommitment,
+        amount: input.amount.toString()
+      })
+    );
+  }
+  if (input.currentTime >= 2 ** AUDIT_TIME_BITS) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Audit times must be unix seconds', 'currentTime', {
+        timestamp: input.timestamp,
+        currentTime: input.currentTime
+      })
+    );
+  }
+  if (input.timestamp >= input.currentTime) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Audited notes must predate the statement', 'timestamp', {
+        noteCommitment: input.noteCommitment,
+        timestamp: input.timestamp,
+        currentTime: input.currentTime
+      })
+    );
+  }
+
+  const noteCommitment = toFieldElement(input.noteCommitment);
+  const viewKey = toFieldElement(input.viewKey);
+  return {
+    noteCommitment: noteCommitment.toString(),
+    viewKey: viewKey.toString(),
+    amount: input.amount.toString(),
+    timestamp: input.timestamp.toString(),
+    purpose: toFieldElement(input.purpose).toString(),
+    auditId: computeAuditId(noteCommitment, viewKey, input.amount).toString(),
+    merkleRoot: toFieldElement(input.merkleRoot).toString(),
+    currentTime: input.currentTime.toString()
+  };
+}
@@ -0,0 +1,145 @@
+import { ConditionCircuitType, ConditionProofInput, ConditionWitness } from '../types/ZKProof';
+import { assetTokenAddress } from '../core/AssetRegistry';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement, fieldToHex, SNARK_FIELD_SIZE } from './field';
+
+/** Condition kinds of the zkCondition circuit */
+export const CONDITION_TYPES = {
+  TIME: 0,
+  EVENT: 1,
+  THRESHOLD: 2
+} as const;
+
+/** Bit width of the zkCondition circuit's time and amount comparisons */
+const CONDITION_COMPARISON_BITS = 32;
+
+export interface ConditionTerms {
+  recipient: string;
+  amount: bigint;
+  conditionType: ConditionCircuitType;
+  conditionData: bigint;
+  asset: string;
+  /** Unix time (seconds) after which the sender may reclaim the funds */
+  timeout: number;
+}
+
+export interface ConditionCommitmentParams extends ConditionTerms {
+  /** Random value that keeps escrows with identical terms unlinkable */
+  salt: string;
+}
+
+/**
+ * Computes the id the zkCondition circuit knows an escrow by, binding its terms
+ * @param terms Escrow terms
+ * @returns The id as a 32-byte hex string
+ */
+export function computeConditionId(terms: ConditionTerms): string {
+  const conditionId = poseidonHashMany([
+    toFieldElement(terms.recipient),
+    terms.amount,
+    BigInt(terms.conditionType),
+    terms.conditionData,
+    toFieldElement(assetTokenAddress(terms.asset)),
+    BigInt(terms.timeout)
+  ]);
+  return fieldToHex(conditionId);
+}
+
+/**
+ * Computes the commitment an escrow is registered under: Poseidon(conditionId, salt), as checked by zkCondition
+ * @param params Escrow terms and salt
+ * @returns The commitment as a 32-byte hex string
+ */
+export function computeConditionCommitment(params: ConditionCommitmentParams): string {
+  const commitment = poseidonHashMany([toFieldElement(computeConditionId(params)), toFieldElement(params.salt)]);
+  return fieldToHex(commitment);
+}
+
+/**
+ * Builds the zkCondition circuit witness, rejecting inputs the circuit would not prove valid.
+ * The circuit holds a time condition while currentTime is before targetTime, an event condition when
+ * eventHash equals targetHash and a threshold condition while currentAmount is below thresholdAmount.
+ * @param input Escrow opening and the condition being proven
+ * @returns The witness signals
+ */
+export function buildConditionWitness(input: ConditionProofInput): ConditionWitness {
+  if (!Object.values(CONDITION_TYPES).includes(input.conditionType)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Unknown condition type: ${input.conditionType}`, 'conditionType', {
+        conditionType: input.conditionType
+      })
+    );
+  }
+
+  const conditionId = toFieldElement(input.conditionId);
+  const conditionSecret = toFieldElement(input.conditionSecret);
+  const conditionCommitment = toFieldElement(input.conditionCommitment);
+  if (poseidonHashMany([conditionId, conditionSecret]) !== conditionCommitment) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Condition id and secret do not open its commitment', 'conditionCommitment', {
+        conditionCommitment: input.conditionCommitment
+      })
+    );
+  }
+
+  // Only threshold conditions compare currentAmount, but the circuit requires it to be positive
+  const currentTime = BigInt(input.currentTime);
+  const targetTime = BigInt(input.targetTime ?? 0);
+  const currentAmount = input.currentAmount ?? BigInt(1);
+  const thresholdAmount = input.thresholdAmount ?? BigInt(0);
+  const eventHash = input.eventHash ?? BigInt(0);
+  const targetHash = input.targetHash ?? BigInt(0);
+
+  const comparisonLimit = BigInt(2) ** BigInt(CONDITION_COMPARISON_BITS);
+  const compared = { currentTime, targetTime, currentAmount, thresholdAmount };
+  for (const [field, value] of Object.entries(compared)) {
+    if (value < BigInt(0) || value >= comparisonLimit) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`${field} must fit in ${CONDITION_COMPARISON_BITS} bits`, field, {
+          [field]: value.toString()
+        })
+      );
+    }
+  }
+  if (currentAmount <= BigInt(0)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Condition amount must be greater than 0', 'currentAmount', {
+        currentAmount: currentAmount.toString()
+      })
+    );
+  }
+  for (const [field, value] of Object.entries({ eventHash, targetHash })) {
+    if (value < BigInt(0) || value >= SNARK_FIELD_SIZE) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`${field} must be a field element`, field, { [field]: value.toString() })
+      );
+    }
+  }
+
+  const holds =
+    (input.conditionType === CONDITION_TYPES.TIME && currentTime < targetTime) ||
+    (input.conditionType === CONDITION_TYPES.EVENT && eventHash === targetHash) ||
+    (input.conditionType === CONDITION_TYPES.THRESHOLD && currentAmount < thresholdAmount);
+  if (!holds) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Condition does not hold', 'conditionType', {
+        conditionType: input.conditionType
+      })
+    );
+  }
+
+  return {
+    conditionType: input.conditionType.toString(),
+    conditionSecret: conditionSecret.toString(),
+    conditionId: conditionId.toString(),
+    currentTime: currentTime.toString(),
+    targetTime: targetTime.toString(),
+    eventHash: eventHash.toString(),
+    targetHash: targetHash.toString(),
+    currentAmount: currentAmount.toString(),
+    thresholdAmount: thresholdAmount.toString(),
+    merkleRoot: toFieldElement(input.merkleRoot).toString(),
+    conditionCommitment: conditionCommitment.toString()
+  };
+}
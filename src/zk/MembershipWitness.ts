@@ -0,0 +1,55 @@
+import { MembershipProofInput, MembershipWitness, MerklePathInput } from '../types/ZKProof';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement } from './field';
+
+/** Depth of the note tree the merkle circuit proves membership in */
+export const MEMBERSHIP_TREE_DEPTH = 32;
+
+/**
+ * Hashes a leaf up its Merkle path the way the circuits do: index 0 puts the node on the left, 1 on the right
+ * @param leaf The leaf, as a field element
+ * @param merkleProof Siblings and indices from the leaf up
+ * @returns The root the path leads to
+ */
+export function computeMerkleRoot(leaf: bigint, merkleProof: MerklePathInput): bigint {
+  return merkleProof.path.reduce((node, sibling, level) => merkleProof.indices[level] === 0
+    ? poseidonHashMany([node, toFieldElement(sibling)])
+    : poseidonHashMany([toFieldElement(sibling), node]), leaf);
+}
+
+/**
+ * Builds the merkle circuit witness, rejecting paths the circuit would not prove valid
+ * @param input The commitment and its path to the root
+ * @returns The witness signals
+ */
+export function buildMembershipWitness(input: MembershipProofInput): MembershipWitness {
+  const { path, indices } = input.merkleProof;
+  if (path.length !== MEMBERSHIP_TREE_DEPTH || indices.length !== MEMBERSHIP_TREE_DEPTH ||
+      indices.some(index => index !== 0 && index !== 1)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Merkle path must have ${MEMBERSHIP_TREE_DEPTH} levels with 0/1 indices`, 'merkleProof', {
+        path: path.length,
+        indices: indices.length
+      })
+    );
+  }
+
+  const leaf = toFieldElement(input.commitment);
+  const root = computeMerkleRoot(leaf, input.merkleProof);
+  if (root !== toFieldElement(input.merkleProof.root)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Merkle path does not lead from the commitment to the root', 'merkleProof', {
+        commitment: input.commitment,
+        root: input.merkleProof.root
+      })
+    );
+  }
+
+  return {
+    leaf: leaf.toString(),
+    root: root.toString(),
+    pathElements: path.map(sibling => toFieldElement(sibling).toString()),
+    pathIndices: indices.map(index => index.toString())
+  };
+}
@@ -0,0 +1,126 @@
+import { poseidonHashMany } from '../utils/poseidon';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { assetTokenAddress, NATIVE_ASSET } from '../core/AssetRegistry';
+import { SNARK_FIELD_SIZE, toFieldElement, randomFieldHex, fieldToHex } from './field';
+
+/** Domain tag separating nullifier keys from other hashes of the spending key */
+const NULLIFIER_KEY_DOMAIN = BigInt(1);
+
+/** Domain tag separating owner public keys from other hashes of the spending key */
+const OWNER_KEY_DOMAIN = BigInt(2);
+
+export interface NoteCommitmentParams {
+  amount: bigint;
+  /** Asset identifier (defaults to the native asset) */
+  asset?: string;
+  /** Public key of the wallet the note is spendable by (see deriveOwnerPublicKey) */
+  ownerKey: bigint;
+  /** Blinding randomness hiding the other fields */
+  blinding: bigint;
+}
+
+/**
+ * Derives the owner public key notes paid to a wallet commit to. Its hex form is the wallet's
+ * shielded address, which payers send to; only the spending key holder can derive it.
+ * @param spendingKey Wallet spending key
+ * @returns The owner public key
+ */
+export function deriveOwnerPublicKey(spendingKey: string): bigint {
+  return poseidonHashMany([toFieldElement(spendingKey), OWNER_KEY_DOMAIN]);
+}
+
+/**
+ * Generates fresh blinding randomness for a note commitment
+ * @returns A uniformly random 248-bit field element
+ */
+export function randomBlinding(): bigint {
+  return BigInt(randomFieldHex());
+}
+
+/**
+ * Reads blinding randomness from a stored seed
+ * @param seed Seed bytes, at most 31 so the value is a field element
+ * @returns The blinding field element
+ */
+export function blindingFromSeed(seed: ArrayLike<number>): bigint {
+  if (seed.length === 0 || seed.length > 31) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Blinding seed must be 1 to 31 bytes', 'seed', { length: seed.length })
+    );
+  }
+  return Array.from(seed).reduce((value, byte) => (value << BigInt(8)) + BigInt(byte), BigInt(0));
+}
+
+/**
+ * Computes a note's secret, Poseidon(asset, owner public key, blinding): the value the transfer and
+ * withdraw circuits open a commitment with alongside the amount
+ * @param params Note fields
+ * @returns The secret as a 32-byte hex string
+ */
+export function computeNoteSecret(params: Omit<NoteCommitmentParams, 'amount'>): string {
+  return fieldToHex(poseidonHashMany([
+    toFieldElement(assetTokenAddress(params.asset || NATIVE_ASSET)),
+    params.ownerKey % SNARK_FIELD_SIZE,
+    params.blinding % SNARK_FIELD_SIZE
+  ]));
+}
+
+/**
+ * Computes a note commitment, Poseidon(amount, secret), the leaf the transfer and withdraw circuits prove
+ * membership of. Binding through Poseidon collision resistance, hiding through the blinding in the secret.
+ * @param params Note fields
+ * @returns The commitment as a 32-byte hex string
+ */
+export function computeNoteCommitment(params: NoteCommitmentParams): string {
+  if (params.amount < BigInt(0) || params.amount >= SNARK_FIELD_SIZE) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Note amount must be a non-negative field element', 'amount', {
+        amount: params.amount.toString()
+      })
+    );
+  }
+
+  return fieldToHex(poseidonHashMany([params.amount, toFieldElement(computeNoteSecret(params))]));
+}
+
+/**
+ * Derives the key nullifiers are computed with; it can be shared with a watcher
+ * to detect spends without granting the spending key
+ * @param spendingKey Wallet spending key
+ * @returns The nullifier key
+ */
+export function deriveNullifierKey(spendingKey: string): bigint {
+  return poseidonHashMany([toFieldElement(spendingKey), NULLIFIER_KEY_DOMAIN]);
+}
+
+/**
+ * Computes the value a spend reveals the nullifier of together with the note secret: Poseidon(nullifier key,
+ * leaf index), or the nullifier key itself before the leaf index is known. Circuits take it as inNullifier.
+ * @param nullifierKey Key from deriveNullifierKey
+ * @param leafIndex Position of the commitment in the note tree
+ * @returns The nullifier preimage
+ */
+export function computeNullifierPreimage(nullifierKey: bigint, leafIndex?: number): bigint {
+  if (leafIndex === undefined) {
+    return nullifierKey;
+  }
+  if (!Number.isInteger(leafIndex) || leafIndex < 0) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Leaf index must be a non-negative integer', 'leafIndex', { leafIndex })
+    );
+  }
+  return poseidonHashMany([nullifierKey, BigInt(leafIndex)]);
+}
+
+/**
+ * Computes a note's nullifier, Poseidon(nullifier preimage, note secret), as the transfer and withdraw
+ * circuits reveal it. Before the note's leaf index is known the preimage is the bare nullifier key,
+ * so the nullifier must be recomputed once the note is inserted into the tree.
+ * @param nullifierKey Key from deriveNullifierKey
+ * @param secret Note secret (see computeNoteSecret)
+ * @param leafIndex Position of the commitment in the note tree
+ * @returns The nullifier as a 32-byte hex string
+ */
+export function computeNullifier(nullifierKey: bigint, secret: string, leafIndex?: number): string {
+  return fieldToHex(poseidonHashMany([computeNullifierPreimage(nullifierKey, leafIndex), toFieldElement(secret)]));
+}
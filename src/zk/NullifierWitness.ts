@@ -0,0 +1,26 @@
+import { NullifierProofInput, NullifierWitness } from '../types/ZKProof';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement, fieldToHex } from './field';
+
+/**
+ * Computes the nullifier the nullifier circuit reveals for a note: Poseidon(noteCommitment, nullifierKey).
+ * Unlike the spend nullifier (see computeNullifier) it does not bind the leaf index.
+ * @param nullifierKey Key from deriveNullifierKey, as hex
+ * @param commitment Note commitment
+ * @returns The nullifier as a 32-byte hex string
+ */
+export function computeCircuitNullifier(nullifierKey: string, commitment: string): string {
+  return fieldToHex(poseidonHashMany([toFieldElement(commitment), toFieldElement(nullifierKey)]));
+}
+
+/**
+ * Builds the nullifier circuit witness; the nullifier key is the circuit's secret
+ * @param input The note and the nullifier key that spends it
+ * @returns The witness signals
+ */
+export function buildNullifierWitness(input: NullifierProofInput): NullifierWitness {
+  return {
+    secret: toFieldElement(input.nullifierKey).toString(),
+    noteCommitment: toFieldElement(input.note.commitment).toString()
+  };
+}
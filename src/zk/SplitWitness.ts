@@ -0,0 +1,116 @@
+import { SplitProofInput, SplitWitness } from '../types/ZKProof';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement, fieldToHex } from './field';
+
+/** Number of notes the zkSplit circuit divides a note into */
+export const SPLIT_OUTPUT_COUNT = 2;
+
+/** Bit width of the zkSplit circuit's amount comparisons */
+const SPLIT_AMOUNT_BITS = 32;
+
+/** Largest amount a zkSplit output may hold */
+export const SPLIT_MAX_AMOUNT = BigInt(2) ** BigInt(SPLIT_AMOUNT_BITS);
+
+export interface SplitTerms {
+  /** Commitment of the note being split */
+  inputCommitment: string;
+  /** Commitments of the notes it is divided into, in output order */
+  outputCommitments: string[];
+}
+
+export interface SplitCommitmentParams extends SplitTerms {
+  /** Random value that keeps the split commitment from revealing its notes */
+  salt: string;
+}
+
+/**
+ * Computes the id the zkSplit circuit knows a split by, binding the spent note to its outputs
+ * @param terms Input and output commitments
+ * @returns The id as a 32-byte hex string
+ */
+export function computeSplitId(terms: SplitTerms): string {
+  const splitId = poseidonHashMany([
+    toFieldElement(terms.inputCommitment),
+    ...terms.outputCommitments.map(commitment => toFieldElement(commitment))
+  ]);
+  return fieldToHex(splitId);
+}
+
+/**
+ * Computes the commitment a split is submitted under: Poseidon(splitId, salt), as checked by zkSplit
+ * @param params Input and output commitments and salt
+ * @returns The commitment as a 32-byte hex string
+ */
+export function computeSplitCommitment(params: SplitCommitmentParams): string {
+  const commitment = poseidonHashMany([toFieldElement(computeSplitId(params)), toFieldElement(params.salt)]);
+  return fieldToHex(commitment);
+}
+
+/**
+ * Builds the zkSplit circuit witness, rejecting inputs the circuit would not prove valid.
+ * The circuit divides totalAmount, the input note less the fee, into exactly two positive amounts.
+ * @param input The note being split, its two outputs and the split commitment opening
+ * @returns The witness signals
+ */
+export function buildSplitWitness(input: SplitProofInput): SplitWitness {
+  if (input.outputNotes.length !== SPLIT_OUTPUT_COUNT) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`A split must create exactly ${SPLIT_OUTPUT_COUNT} notes`, 'outputNotes', {
+        outputNotes: input.outputNotes.length
+      })
+    );
+  }
+
+  const totalAmount = input.inputNote.amount - input.fee;
+  const outputTotal = input.outputNotes.reduce((sum, note) => sum + note.amount, BigInt(0));
+  if (input.fee < BigInt(0) || outputTotal !== totalAmount) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Split outputs plus fee must equal the input note amount', 'outputNotes', {
+        inputAmount: input.inputNote.amount.toString(),
+        outputTotal: outputTotal.toString(),
+        fee: input.fee.toString()
+      })
+    );
+  }
+
+  input.outputNotes.forEach((note, index) => {
+    if (note.amount <= BigInt(0) || note.amount > SPLIT_MAX_AMOUNT) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`Split output ${index} must be between 1 and 2^${SPLIT_AMOUNT_BITS}`, 'outputNotes', {
+          index,
+          amount: note.amount.toString()
+        })
+      );
+    }
+    if (toFieldElement(note.recipientAddress) === BigInt(0)) {
+      throw ErrorHandler.getInstance().handleError(
+        ErrorHandler.createValidationError(`Split output ${index} has no recipient`, 'outputNotes', { index })
+      );
+    }
+  });
+
+  const splitId = toFieldElement(computeSplitId({
+    inputCommitment: input.inputNote.commitment,
+    outputCommitments: input.outputNotes.map(note => note.commitment)
+  }));
+  const splitSecret = toFieldElement(input.splitSecret);
+  const splitCommitment = toFieldElement(input.splitCommitment);
+  if (poseidonHashMany([splitId, splitSecret]) !== splitCommitment) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Split notes and secret do not open its commitment', 'splitCommitment', {
+        splitCommitment: input.splitCommitment
+      })
+    );
+  }
+
+  return {
+    totalAmount: totalAmount.toString(),
+    splitSecret: splitSecret.toString(),
+    splitId: splitId.toString(),
+    amounts: input.outputNotes.map(note => note.amount.toString()),
+    recipientAddresses: input.outputNotes.map(note => toFieldElement(note.recipientAddress).toString()),
+    merkleRoot: toFieldElement(input.merkleRoot).toString(),
+    splitCommitment: splitCommitment.toString()
+  };
+}
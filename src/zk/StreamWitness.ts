@@ -0,0 +1,121 @@
+import { StreamProofInput, StreamWitness } from '../types/ZKProof';
+import { assetTokenAddress } from '../core/AssetRegistry';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { poseidonHashMany } from '../utils/poseidon';
+import { toFieldElement, fieldToHex } from './field';
+
+/** Bit width of the zkStream circuit's time comparisons */
+const STREAM_TIME_BITS = 32;
+
+export interface StreamTerms {
+  recipient: string;
+  rate: bigint;
+  startTime: number;
+  endTime: number;
+  asset: string;
+}
+
+export interface StreamCommitmentParams extends StreamTerms {
+  /** Random value that keeps streams with identical terms unlinkable */
+  salt: string;
+}
+
+/**
+ * Computes the id the zkStream circuit knows a stream by, binding its terms
+ * @param terms Stream terms
+ * @returns The id as a 32-byte hex string
+ */
+export function computeStreamId(terms: StreamTerms): string {
+  const streamId = poseidonHashMany([
+    toFieldElement(terms.recipient),
+    terms.rate,
+    BigInt(terms.startTime),
+    BigInt(terms.endTime),
+    toFieldElement(assetTokenAddress(terms.asset))
+  ]);
+  return fieldToHex(streamId);
+}
+
+/**
+ * Computes the commitment a stream is registered under: Poseidon(streamId, salt), as checked by zkStream
+ * @param params Stream terms and salt
+ * @returns The commitment as a 32-byte hex string
+ */
+export function computeStreamCommitment(params: StreamCommitmentParams): string {
+  const commitment = poseidonHashMany([toFieldElement(computeStreamId(params)), toFieldElement(params.salt)]);
+  return fieldToHex(commitment);
+}
+
+/**
+ * Builds the zkStream circuit witness, rejecting inputs the circuit could not satisfy.
+ * The circuit proves the amount vested at `currentTime`, which must fall strictly inside the schedule.
+ * @param input Stream opening and the time the vested amount is proven at
+ * @returns The witness signals
+ */
+export function buildStreamWitness(input: StreamProofInput): StreamWitness {
+  const context = {
+    startTime: input.startTime,
+    endTime: input.endTime,
+    currentTime: input.currentTime
+  };
+  if (input.endTime >= 2 ** STREAM_TIME_BITS) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream times must be unix seconds', 'endTime', context)
+    );
+  }
+  if (input.currentTime <= input.startTime || input.currentTime >= input.endTime) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream proof time must fall strictly within the stream schedule', 'currentTime', context)
+    );
+  }
+  if (input.totalAmount <= BigInt(0)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream amount must be greater than 0', 'totalAmount', {
+        totalAmount: input.totalAmount.toString()
+      })
+    );
+  }
+
+  const recipientAddress = toFieldElement(input.recipient);
+  if (recipientAddress === BigInt(0)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream recipient is required', 'recipient')
+    );
+  }
+
+  const streamId = toFieldElement(input.streamId);
+  const streamSecret = toFieldElement(input.streamSecret);
+  const streamCommitment = toFieldElement(input.streamCommitment);
+  if (poseidonHashMany([streamId, streamSecret]) !== streamCommitment) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream id and secret do not open its commitment', 'streamCommitment', {
+        streamCommitment: input.streamCommitment
+      })
+    );
+  }
+
+  // The circuit checks claimedAmount * duration == totalAmount * elapsed exactly
+  const elapsed = BigInt(input.currentTime - input.startTime);
+  const duration = BigInt(input.endTime - input.startTime);
+  if ((input.totalAmount * elapsed) % duration !== BigInt(0)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Stream total must vest a whole amount every second', 'totalAmount', {
+        totalAmount: input.totalAmount.toString(),
+        ...context
+      })
+    );
+  }
+
+  return {
+    streamId: streamId.toString(),
+    streamSecret: streamSecret.toString(),
+    streamCommitment: streamCommitment.toString(),
+    recipientAddress: recipientAddress.toString(),
+    totalAmount: input.totalAmount.toString(),
+    claimedAmount: (input.totalAmount * elapsed / duration).toString(),
+    startTime: input.startTime.toString(),
+    endTime: input.endTime.toString(),
+    currentTime: input.currentTime.toString(),
+    merkleRoot: toFieldElement(input.merkleRoot).toString()
+  };
+}
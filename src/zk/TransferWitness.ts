@@ -0,0 +1,153 @@
+import { MerklePathInput, ReshieldProofInput, SpendWitness, TransferProofInput, TransferWitness } from '../types/ZKProof';
+import { ShieldedNote } from '../types/Note';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { noteAsset } from '../core/AssetRegistry';
+import { poseidonHashMany } from '../utils/poseidon';
+import { computeNullifier, computeNullifierPreimage } from './NoteCrypto';
+import { computeMerkleRoot } from './MembershipWitness';
+import { toFieldElement } from './field';
+
+/** Number of notes the transfer and withdraw circuits spend per proof */
+export const SPEND_INPUT_COUNT = 1;
+
+/** Depth of the note tree the transfer and withdraw circuits prove membership in */
+export const SPEND_TREE_DEPTH = 32;
+
+/** Bit width of the transfer and withdraw circuits' amount check, which accepts amounts below 2^32 */
+const SPEND_AMOUNT_BITS = 32;
+
+/**
+ * Builds the signals that open the note a transfer or withdraw proof spends, rejecting inputs the circuits
+ * would not prove valid: one note below 2^32, its secret and the path of its leaf to the root.
+ * @param notes Notes being spent
+ * @param merkleProofs Paths of their commitments in the note tree
+ * @param nullifierKey Key from deriveNullifierKey, as hex
+ * @returns The input note signals
+ */
+export function buildSpendSignals(notes: ShieldedNote[], merkleProofs: MerklePathInput[] | undefined, nullifierKey?: string): SpendWitness {
+  if (notes.length !== SPEND_INPUT_COUNT || merkleProofs?.length !== SPEND_INPUT_COUNT) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`A spend proof takes exactly ${SPEND_INPUT_COUNT} input note and its Merkle path`, 'inputNotes', {
+        inputNotes: notes.length,
+        merkleProofs: merkleProofs?.length || 0
+      })
+    );
+  }
+
+  const [note] = notes;
+  const [merkleProof] = merkleProofs;
+  if (note.amount <= BigInt(0) || note.amount >= BigInt(2) ** BigInt(SPEND_AMOUNT_BITS)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Input note amount must be between 1 and 2^${SPEND_AMOUNT_BITS} - 1`, 'inputNotes', {
+        amount: note.amount.toString()
+      })
+    );
+  }
+  if (!note.secret || poseidonHashMany([note.amount, toFieldElement(note.secret)]) !== toFieldElement(note.commitment)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Input note secret does not open its commitment', 'inputNotes', {
+        commitment: note.commitment
+      })
+    );
+  }
+  if (merkleProof.path.length !== SPEND_TREE_DEPTH || merkleProof.indices.length !== SPEND_TREE_DEPTH ||
+      merkleProof.indices.some(index => index !== 0 && index !== 1)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError(`Merkle path must have ${SPEND_TREE_DEPTH} levels with 0/1 indices`, 'merkleProofs', {
+        path: merkleProof.path.length,
+        indices: merkleProof.indices.length
+      })
+    );
+  }
+
+  const root = computeMerkleRoot(toFieldElement(note.commitment), merkleProof);
+  if (root !== toFieldElement(merkleProof.root)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Merkle path does not lead from the input note to the root', 'merkleProofs', {
+        commitment: note.commitment,
+        root: merkleProof.root
+      })
+    );
+  }
+
+  // The path indices spell out the leaf index the nullifier binds
+  const leafIndex = merkleProof.indices.reduce((index, bit, level) => index + bit * 2 ** level, 0);
+  if (!nullifierKey || toFieldElement(computeNullifier(toFieldElement(nullifierKey), note.secret, leafIndex)) !== toFieldElement(note.nullifier)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Nullifier key does not spend the input note', 'nullifierKey', {
+        commitment: note.commitment,
+        leafIndex
+      })
+    );
+  }
+
+  return {
+    inAmount: note.amount.toString(),
+    inNullifier: computeNullifierPreimage(toFieldElement(nullifierKey), leafIndex).toString(),
+    inSecret: toFieldElement(note.secret).toString(),
+    inPathElements: merkleProof.path.map(sibling => toFieldElement(sibling).toString()),
+    inPathIndices: merkleProof.indices.map(index => index.toString()),
+    merkleRoot: root.toString()
+  };
+}
+
+/**
+ * Builds the transfer circuit witness. The circuit moves its input note whole to one output note,
+ * Poseidon(amount, output secret), so the output must hold the input amount and there is no change.
+ * @param input The note being spent, its path and the note it pays
+ * @returns The witness signals
+ */
+export function buildTransferWitness(input: TransferProofInput): TransferWitness {
+  const spend = buildSpendSignals(input.inputNotes, input.merkleProofs, input.nullifierKey);
+
+  const { outputNote } = input;
+  if (input.changeNote || outputNote.amount !== input.inputNotes[0].amount) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('A transfer moves its input note whole: the output must hold its amount, with no change', 'outputNote', {
+        inputAmount: input.inputNotes[0].amount.toString(),
+        outputAmount: outputNote.amount.toString(),
+        change: !!input.changeNote
+      })
+    );
+  }
+  if (noteAsset(outputNote) !== noteAsset(input.inputNotes[0])) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Notes in one proof must hold the same asset', 'outputNote', {
+        inputAsset: noteAsset(input.inputNotes[0]),
+        outputAsset: noteAsset(outputNote)
+      })
+    );
+  }
+  if (!outputNote.secret || poseidonHashMany([outputNote.amount, toFieldElement(outputNote.secret)]) !== toFieldElement(outputNote.commitment)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('Output note secret does not open its commitment', 'outputNote', {
+        commitment: outputNote.commitment
+      })
+    );
+  }
+
+  return {
+    ...spend,
+    recipientPubKey: toFieldElement(outputNote.secret).toString()
+  };
+}
+
+/**
+ * Builds the transfer circuit witness of a reshield, which re-issues the input note to the wallet
+ * under a fresh commitment; like a transfer it moves the whole note
+ * @param input The note being spent, its path and the note it is re-issued as
+ * @returns The witness signals
+ */
+export function buildReshieldWitness(input: ReshieldProofInput): TransferWitness {
+  const { outputNote } = input;
+  if (!outputNote || outputNote.amount !== input.amount) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('A reshield needs the note it re-issues its amount as', 'outputNote', {
+        amount: input.amount.toString(),
+        outputAmount: outputNote?.amount.toString()
+      })
+    );
+  }
+
+  return buildTransferWitness({ ...input, outputNote });
+}
@@ -0,0 +1,39 @@
+import { WithdrawProofInput, WithdrawWitness } from '../types/ZKProof';
+import { ErrorHandler } from '../errors/ErrorHandler';
+import { buildSpendSignals } from './TransferWitness';
+import { toFieldElement } from './field';
+
+/**
+ * Builds the withdraw circuit witness. The circuit pays its input note out whole to a non-zero recipient.
+ * The bundled withdraw.wasm also gates its final check on the input amount being zero, so it rejects every
+ * real withdrawal; proofs need a corrected circuit registered with ZKProver.registerCircuit.
+ * @param input The note being withdrawn, its path, the amount and recipient
+ * @returns The witness signals
+ */
+export function buildWithdrawWitness(input: WithdrawProofInput): WithdrawWitness {
+  const spend = buildSpendSignals(input.inputNotes, input.merkleProofs, input.nullifierKey);
+
+  if (input.changeNote || input.amount !== input.inputNotes[0].amount) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('A withdrawal pays out its input note whole: the amount must be its amount, with no change', 'amount', {
+        amount: input.amount.toString(),
+        inputAmount: input.inputNotes[0].amount.toString(),
+        change: !!input.changeNote
+      })
+    );
+  }
+  const recipientAddress = toFieldElement(input.recipientAddress);
+  if (recipientAddress === BigInt(0)) {
+    throw ErrorHandler.getInstance().handleError(
+      ErrorHandler.createValidationError('A withdrawal requires a recipient address', 'recipientAddress', {
+        recipientAddress: input.recipientAddress
+      })
+    );
+  }
+
+  return {
+    ...spend,
+    recipientAddress: recipientAddress.toString(),
+    withdrawalAmount: input.amount.toString()
+  };
+}
@@ -1,8 +1,30 @@
 // Browser-compatible ZKProver
 // Import only what we can safely use in the browser
-import { ZKProof, ZKInput, ProofInput, TransferProofInput, WithdrawProofInput, ReshieldProofInput } from '../types/ZKProof';
+import {
+  ZKProof,
+  ZKInput,
+  ProofInput,
+  TransferProofInput,
+  WithdrawProofInput,
+  ReshieldProofInput,
+  SplitProofInput,
+  StreamProofInput,
+  ConditionProofInput,
+  AuditProofInput,
+  NullifierProofInput,
+  MembershipProofInput
+} from '../types/ZKProof';
 import { ErrorHandler, ErrorType, CipherPayError } from '../errors/ErrorHandler';
 import { globalRateLimiter } from '../utils/RateLimiter';
+import { buildStreamWitness } from './StreamWitness';
+import { buildConditionWitness } from './ConditionWitness';
+import { buildSplitWitness } from './SplitWitness';
+import { buildAuditWitness } from './AuditWitness';
+import { buildNullifierWitness } from './NullifierWitness';
+import { buildMembershipWitness } from './MembershipWitness';
+import { buildTransferWitness, buildReshieldWitness } from './TransferWitness';
+import { buildWithdrawWitness } from './WithdrawWitness';
+import { toFieldElement } from './field';
 
 // Import snarkjs for all environments
 import * as snarkjs from 'snarkjs';
@@ -50,7 +72,19 @@ export class ZKProver {
    * Static factory method to create ZKProver from URLs (browser-friendly)
    */
   static async fromUrls(urlMap: Record<string, CircuitUrls>): Promise<ZKProver> {
-    const configs = new Map<string, CircuitConfig>();
+    const prover = new ZKProver();
+    await prover.loadCircuitsFromUrls(urlMap);
+    return prover;
+  }
+
+  /**
+   * Fetches circuit files from URLs and registers them on this prover.
+   * Circuits that fail to load are skipped so the rest stay usable.
+   * @param urlMap Circuit URLs keyed by circuit type
+   * @returns The circuit types that were registered
+   */
+  async loadCircuitsFromUrls(urlMap: Record<string, CircuitUrls>): Promise<string[]> {
+    const loaded: string[] = [];
 
     for (const [circuit, urls] of Object.entries(urlMap)) {
       try {
@@ -70,17 +104,27 @@ export class ZKProver {
           verifierResponse.json()
         ]);
 
-        configs.set(circuit, {
+        this.registerCircuit(circuit, {
           wasmBuffer,
           zkeyBuffer,
           verifierData
         });
+        loaded.push(circuit);
       } catch (error) {
         console.warn(`Failed to load circuit ${circuit}:`, error);
       }
     }
 
-    return new ZKProver(configs);
+    return loaded;
+  }
+
+  /**
+   * Registers or replaces the configuration for a circuit type
+   * @param circuitType The circuit name, e.g. 'transfer'
+   * @param config Circuit file paths or buffers
+   */
+  registerCircuit(circuitType: string, config: CircuitConfig): void {
+    this.circuitConfigs.set(circuitType, config);
   }
 
   /**
@@ -222,8 +266,8 @@ export class ZKProver {
   }
 
   /**
-   * Generates a transfer proof using real snarkjs
-   * @param input The transfer proof input
+   * Generates a transfer proof spending one note whole into one output note
+   * @param input The note being spent, its Merkle path, nullifier key and the note it pays
    * @returns Promise<ZKProof> The generated proof
    */
   async generateTransferProof(input: TransferProofInput): Promise<ZKProof> {
@@ -234,6 +278,9 @@ export class ZKProver {
       userId: input.viewKey ? 'authenticated' : 'anonymous'
     });
 
+    // The circuit spends one note whole into one output note
+    const witnessInput = buildTransferWitness(input);
+
     try {
       // Use snarkjs for all environments
       if (!snarkjs) {
@@ -242,9 +289,6 @@ export class ZKProver {
 
       const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('transfer');
 
-      // Prepare witness inputs for the circuit
-      const witnessInput = this.prepareTransferWitness(input);
-
       // Generate proof using snarkjs
       const { proof, publicSignals } = await snarkjs.groth16.fullProve(
         witnessInput,
@@ -279,8 +323,8 @@ export class ZKProver {
   }
 
   /**
-   * Generates a withdraw proof using real snarkjs
-   * @param input The withdraw proof input
+   * Generates a withdraw proof paying one note out whole
+   * @param input The note being withdrawn, its Merkle path, nullifier key, amount and recipient
    * @returns Promise<ZKProof> The generated proof
    */
   async generateWithdrawProof(input: WithdrawProofInput): Promise<ZKProof> {
@@ -291,6 +335,9 @@ export class ZKProver {
       userId: input.viewKey ? 'authenticated' : 'anonymous'
     });
 
+    // The circuit pays one note out whole
+    const witnessInput = buildWithdrawWitness(input);
+
     try {
       // Use snarkjs for all environments
       if (!snarkjs) {
@@ -299,9 +346,6 @@ export class ZKProver {
 
       const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('withdraw');
 
-      // Prepare witness inputs for the circuit
-      const witnessInput = this.prepareWithdrawWitness(input);
-
       // Generate proof using snarkjs
       const { proof, publicSignals } = await snarkjs.groth16.fullProve(
         witnessInput,
@@ -336,8 +380,8 @@ export class ZKProver {
   }
 
   /**
-   * Generates a reshield proof using real snarkjs
-   * @param input The reshield proof input
+   * Generates a reshield proof re-issuing one note whole to the wallet
+   * @param input The note being spent, its Merkle path, nullifier key and the note it is re-issued as
    * @returns Promise<ZKProof> The generated proof
    */
   async generateReshieldProof(input: ReshieldProofInput): Promise<ZKProof> {
@@ -348,12 +392,12 @@ export class ZKProver {
       userId: input.viewKey ? 'authenticated' : 'anonymous'
     });
 
+    // Reshields run on the transfer circuit, moving the note whole to its re-issued note
+    const witnessInput = buildReshieldWitness(input);
+
     try {
       const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('transfer'); // Reshield uses transfer circuit
 
-      // Prepare witness inputs for the circuit
-      const witnessInput = this.prepareReshieldWitness(input);
-
       // Generate proof using snarkjs
       const { proof, publicSignals } = await snarkjs.groth16.fullProve(
         witnessInput,
@@ -387,6 +431,355 @@ export class ZKProver {
     }
   }
 
+  /**
+   * Generates a zkSplit proof dividing one input note into two output notes
+   * @param input The note being split, its outputs, the fee and the split commitment opening
+   * @returns Promise<ZKProof> The generated proof
+   */
+  async generateSplitProof(input: SplitProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'zkSplit',
+      outputNotesCount: input.outputNotes.length,
+      commitment: input.splitCommitment
+    });
+
+    // The circuit only accepts two outputs that conserve the input amount
+    const witnessInput = buildSplitWitness(input);
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('zkSplit');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        witnessInput,
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate split proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'zkSplit',
+          inputNote: input.inputNote.commitment,
+          outputNotes: input.outputNotes.length
+        },
+        {
+          action: 'Check circuit files and inputs',
+          description: 'Failed to generate split proof. Please verify circuit files are available and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Generates a zkStream proof of the amount vested at `currentTime`
+   * @param input The stream opening and proof time
+   * @returns Promise<ZKProof> The generated proof
+   */
+  async generateStreamProof(input: StreamProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'zkStream',
+      commitment: input.streamCommitment
+    });
+
+    // Invalid schedules are input errors, not proof failures
+    const witnessInput = buildStreamWitness(input);
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('zkStream');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        witnessInput,
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate stream proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'zkStream',
+          commitment: input.streamCommitment,
+          currentTime: input.currentTime
+        },
+        {
+          action: 'Check circuit files and inputs',
+          description: 'Failed to generate stream proof. Please verify circuit files are available and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Generates a zkCondition proof that an escrow's release condition holds
+   * @param input The escrow opening and the condition being proven
+   * @returns Promise<ZKProof> The generated proof
+   */
+  async generateConditionProof(input: ConditionProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'zkCondition',
+      commitment: input.conditionCommitment
+    });
+
+    // Malformed conditions are input errors, not proof failures
+    const witnessInput = buildConditionWitness(input);
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('zkCondition');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        witnessInput,
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate condition proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'zkCondition',
+          commitment: input.conditionCommitment,
+          conditionType: input.conditionType
+        },
+        {
+          action: 'Check circuit files and inputs',
+          description: 'Failed to generate condition proof. Please verify circuit files are available and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Generates an audit_proof proof about one note, keeping the view key and amount private.
+   * The circuit's only public signal is its validity flag (see AUDIT_VALID_SIGNAL).
+   * @param input The note, the view key that holds it and the time the statement is made at
+   * @returns Promise<ZKProof> The generated proof
+   */
+  async generateAuditProof(input: AuditProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'audit_proof',
+      commitment: input.noteCommitment
+    });
+
+    // Notes the circuit cannot decompose are input errors, not proof failures
+    const witnessInput = buildAuditWitness(input);
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('audit_proof');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        witnessInput,
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate audit proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'audit_proof',
+          noteCommitment: input.noteCommitment
+        },
+        {
+          action: 'Check circuit files and inputs',
+          description: 'Failed to generate audit proof. Please verify circuit files are available and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Generates a proof that a nullifier belongs to a note this wallet holds, without revealing the note
+   * @param input The note and the nullifier key that spends it
+   * @returns Promise<ZKProof> The generated proof; its public signal is the nullifier (see computeCircuitNullifier)
+   */
+  async generateNullifierProof(input: NullifierProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'nullifier',
+      commitment: input.note.commitment
+    });
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('nullifier');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        buildNullifierWitness(input),
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate nullifier proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'nullifier',
+          commitment: input.note.commitment
+        },
+        {
+          action: 'Check circuit files and inputs',
+          description: 'Failed to generate nullifier proof. Please verify circuit files are available and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Generates a proof that a commitment is a leaf of the note tree under a given root, without revealing the leaf.
+   * The merkle circuit ships without a proving key: register one set up with the root as its only public
+   * signal, along with its verification key, through registerCircuit('merkle', ...).
+   * @param input The commitment and its Merkle path
+   * @returns Promise<ZKProof> The generated proof; its public signal is the root
+   */
+  async generateMembershipProof(input: MembershipProofInput): Promise<ZKProof> {
+    // Apply rate limiting
+    globalRateLimiter.consume('PROOF_GENERATION', {
+      proofType: 'merkle',
+      depth: input.merkleProof.path.length
+    });
+
+    const witness = buildMembershipWitness(input);
+
+    try {
+      if (!snarkjs) {
+        throw new Error('snarkjs not available');
+      }
+
+      const { wasmBuffer, zkeyBuffer } = await this.loadCircuitFiles('merkle');
+
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        witness,
+        wasmBuffer,
+        zkeyBuffer
+      );
+
+      return {
+        proof,
+        publicSignals,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cipherPayError = new CipherPayError(
+        `Failed to generate membership proof: ${errorMessage}`,
+        ErrorType.PROOF_GENERATION_FAILED,
+        {
+          circuitType: 'merkle',
+          root: input.merkleProof.root
+        },
+        {
+          action: 'Register the merkle circuit\'s proving key and check the inputs',
+          description: 'Failed to generate membership proof. Please verify a merkle proving key is registered and inputs are valid.'
+        },
+        true
+      );
+
+      throw ErrorHandler.getInstance().handleError(cipherPayError);
+    }
+  }
+
+  /**
+   * Verifies a nullifier proof against the nullifier it is claimed to reveal (see computeCircuitNullifier).
+   * Whether the note is unspent is then a lookup of that nullifier in the pool's spent set.
+   * @param proof The proof to verify
+   * @param nullifier The nullifier the proof must commit to
+   * @returns Promise<boolean> Whether the proof is valid for that nullifier
+   */
+  async verifyNullifierProof(proof: ZKProof, nullifier: string): Promise<boolean> {
+    if (proof.publicSignals[0] !== toFieldElement(nullifier).toString()) {
+      return false;
+    }
+    return this.verifyProof(proof, proof.publicSignals, 'nullifier');
+  }
+
+  /**
+   * Verifies a membership proof against the root it is claimed to be under. A proof whose only public
+   * signal is not that root is rejected, so a proving key that leaves the root private never verifies.
+   * @param proof The proof to verify
+   * @param root The root the proof must commit to
+   * @returns Promise<boolean> Whether the proof is valid for that root
+   */
+  async verifyMembershipProof(proof: ZKProof, root: string): Promise<boolean> {
+    if (proof.publicSignals.length !== 1 || proof.publicSignals[0] !== toFieldElement(root).toString()) {
+      return false;
+    }
+    return this.verifyProof(proof, proof.publicSignals, 'merkle');
+  }
+
   /**
    * Verifies a zero-knowledge proof using real snarkjs
    * @param proof The proof to verify
@@ -441,61 +834,6 @@ export class ZKProver {
     }
   }
 
-  /**
-   * Prepares witness inputs for transfer proof generation
-   */
-  private prepareTransferWitness(input: TransferProofInput): any {
-    // This is a simplified witness preparation
-    // In a real implementation, this would include proper circuit-specific witness generation
-    return {
-      inputNotes: input.inputNotes.map(note => ({
-        commitment: note.commitment,
-        nullifier: note.nullifier,
-        amount: note.amount,
-        recipientAddress: note.recipientAddress
-      })),
-      outputNote: {
-        commitment: input.outputNote.commitment,
-        amount: input.outputNote.amount,
-        recipientAddress: input.outputNote.recipientAddress
-      },
-      viewKey: input.viewKey || '0x0000000000000000000000000000000000000000000000000000000000000000'
-    };
-  }
-
-  /**
-   * Prepares witness inputs for withdraw proof generation
-   */
-  private prepareWithdrawWitness(input: WithdrawProofInput): any {
-    return {
-      inputNotes: input.inputNotes.map(note => ({
-        commitment: note.commitment,
-        nullifier: note.nullifier,
-        amount: note.amount,
-        recipientAddress: note.recipientAddress
-      })),
-      recipientAddress: input.recipientAddress,
-      amount: input.amount,
-      viewKey: input.viewKey || '0x0000000000000000000000000000000000000000000000000000000000000000'
-    };
-  }
-
-  /**
-   * Prepares witness inputs for reshield proof generation
-   */
-  private prepareReshieldWitness(input: ReshieldProofInput): any {
-    return {
-      inputNotes: input.inputNotes.map(note => ({
-        commitment: note.commitment,
-        nullifier: note.nullifier,
-        amount: note.amount,
-        recipientAddress: note.recipientAddress
-      })),
-      amount: input.amount,
-      viewKey: input.viewKey || '0x0000000000000000000000000000000000000000000000000000000000000000'
-    };
-  }
-
   /**
    * Gets available circuit types
    */
@@ -0,0 +1,34 @@
+import { hashToField } from '../utils/hash';
+
+/** Order of the BN254 scalar field the circuits operate in */
+export const SNARK_FIELD_SIZE = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
+/**
+ * Maps a hex string, decimal string or address to a field element.
+ * Values that aren't numeric (e.g. base58 Solana addresses) are hashed first.
+ * @param value Value to convert
+ * @returns The field element
+ */
+export function toFieldElement(value: string): bigint {
+  if (/^0x[0-9a-fA-F]+$/.test(value) || /^[0-9]+$/.test(value)) {
+    return BigInt(value) % SNARK_FIELD_SIZE;
+  }
+  return hashToField(value) % SNARK_FIELD_SIZE;
+}
+
+/**
+ * Generates a random 31-byte hex value, small enough to always be a field element
+ * @returns The value as a hex string
+ */
+export function randomFieldHex(): string {
+  return '0x' + Array.from(crypto.getRandomValues(new Uint8Array(31)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Formats a field element as a 32-byte hex string
+ */
+export function fieldToHex(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
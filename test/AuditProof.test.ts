@@ -0,0 +1,198 @@
+import * as snarkjs from 'snarkjs';
+import { AuditProver } from '../src/compliance/AuditProver';
+import { AuditVerifier } from '../src/compliance/AuditVerifier';
+import { NoteManager } from '../src/core/NoteManager';
+import { ViewKeyManager } from '../src/core/ViewKeyManager';
+import { ZKProver } from '../src/zk/ZKProver';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+import { buildAuditWitness, computeAuditId } from '../src/zk/AuditWitness';
+import { toFieldElement } from '../src/zk/field';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock snarkjs proving; the audit circuit's only public signal is its validity flag
+jest.mock('snarkjs', () => ({
+    ...jest.requireActual('snarkjs'),
+    groth16: {
+        fullProve: jest.fn().mockResolvedValue({
+            proof: {
+                pi_a: ['1', '2'],
+                pi_b: [['3', '4'], ['5', '6']],
+                pi_c: ['7', '8'],
+                protocol: 'groth16',
+                curve: 'bn128'
+            },
+            publicSignals: ['1']
+        }),
+        verify: jest.fn().mockResolvedValue(true)
+    }
+}));
+
+// Mock the logger
+jest.mock('../src/monitoring/observability/logger', () => ({
+    Logger: {
+        getInstance: jest.fn().mockReturnValue({
+            info: jest.fn(),
+            warn: jest.fn(),
+            error: jest.fn(),
+            debug: jest.fn()
+        })
+    }
+}));
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const JAN = new Date('2026-01-15T00:00:00Z').getTime();
+const MAR = new Date('2026-03-15T00:00:00Z').getTime();
+const APR = new Date('2026-04-15T00:00:00Z').getTime();
+const ROOT = '0x99';
+const CIRCUITS = path.join(__dirname, '../src/zk/circuits');
+
+describe('Audit proofs', () => {
+    let noteManager: NoteManager;
+    let viewKeyManager: ViewKeyManager;
+    let prover: AuditProver;
+    let now: number;
+
+    const receive = async (amount: number, at: number, metadata?: Record<string, any>, recipient = OWNER) => {
+        now = at;
+        const note = await noteManager.createNote(BigInt(amount), recipient, 'transfer', metadata);
+        return (await noteManager.updateNoteStatus(note.id, 'confirmed'))!;
+    };
+
+    beforeEach(() => {
+        localStorage.clear();
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        globalRateLimiter.reset('PROOF_GENERATION');
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+        noteManager = new NoteManager({ autoSync: false });
+        viewKeyManager = new ViewKeyManager('ethereum');
+        const zkProver = ZKProver.fromBuffers({
+            audit_proof: { wasmBuffer: new ArrayBuffer(8), zkeyBuffer: new ArrayBuffer(8), verifierData: {} }
+        });
+        prover = new AuditProver(noteManager, viewKeyManager, zkProver, 'ethereum');
+    });
+
+    afterEach(() => {
+        (Date.now as jest.Mock).mockRestore();
+        localStorage.clear();
+    });
+
+    it('should prove a received minimum from the fewest notes in the period', async () => {
+        const first = await receive(300, JAN);
+        const large = await receive(700, JAN + 1000);
+        await receive(5000, MAR);
+        await receive(900, JAN, { role: 'change' });
+        await receive(800, JAN, undefined, OTHER);
+        now = APR;
+
+        const disclosure = await prover.prove(
+            { type: 'received_at_least', minimum: BigInt(900), fromDate: new Date(JAN), toDate: new Date(JAN + 86400000) },
+            OWNER,
+            ROOT
+        );
+
+        expect(disclosure.noteCommitments).toEqual([large.commitment, first.commitment]);
+        expect(disclosure.proofs).toHaveLength(2);
+        expect(disclosure.provenAmount).toBe('1000');
+        expect(disclosure.statement).toMatchObject({ type: 'received_at_least', minimum: '900', asset: 'native' });
+        expect(JSON.stringify(disclosure)).not.toContain(viewKeyManager.exportViewKey());
+        expect(snarkjs.groth16.fullProve).toHaveBeenCalledWith(
+            expect.objectContaining({
+                noteCommitment: toFieldElement(large.commitment).toString(),
+                viewKey: toFieldElement(viewKeyManager.exportViewKey()).toString(),
+                amount: '700',
+                currentTime: (APR / 1000).toString()
+            }),
+            expect.anything(),
+            expect.anything()
+        );
+
+        await expect(new AuditVerifier({}).verify(disclosure)).resolves.toEqual({ valid: true });
+    });
+
+    it('should refuse to prove a minimum that was not received', async () => {
+        await receive(300, JAN);
+        now = APR;
+
+        await expect(prover.prove(
+            { type: 'received_at_least', minimum: BigInt(600), fromDate: new Date(JAN), toDate: new Date(MAR) },
+            OWNER,
+            ROOT
+        )).rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+    });
+
+    it('should prove that a note paid an invoice', async () => {
+        const paid = await receive(250, JAN, { invoice: 'INV-7' });
+        now = APR;
+
+        const disclosure = await prover.prove(
+            { type: 'invoice_payment', noteCommitment: paid.commitment, invoiceId: 'INV-7' },
+            OWNER,
+            ROOT
+        );
+
+        expect(disclosure.statement).toEqual({
+            type: 'invoice_payment',
+            noteCommitment: paid.commitment,
+            invoiceId: 'INV-7',
+            amount: '250'
+        });
+        await expect(new AuditVerifier({}).verify(disclosure)).resolves.toEqual({ valid: true });
+        await expect(prover.prove({ type: 'invoice_payment', noteCommitment: paid.commitment, invoiceId: 'INV-8' }, OWNER, ROOT))
+            .rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+    });
+
+    it('should reject disclosures whose statement is not backed by the proofs', async () => {
+        const note = await receive(700, JAN);
+        now = APR;
+        const disclosure = await prover.prove(
+            { type: 'received_at_least', minimum: BigInt(600), fromDate: new Date(JAN), toDate: new Date(MAR) },
+            OWNER,
+            ROOT
+        );
+        const verifier = new AuditVerifier({});
+        const [proof] = disclosure.proofs;
+
+        const inflated = await verifier.verify({ ...disclosure, statement: { ...disclosure.statement, minimum: '1000' } as any });
+        const unproven = await verifier.verify({ ...disclosure, noteCommitments: [note.commitment, '0x01'] });
+        const rejected = await verifier.verify({ ...disclosure, proofs: [{ ...proof, publicSignals: ['0'] }] });
+        (snarkjs.groth16.verify as jest.Mock).mockResolvedValueOnce(false);
+        const forged = await verifier.verify(disclosure);
+
+        expect(inflated).toEqual({ valid: false, reason: 'Proven total 700 is below 1000' });
+        expect(unproven.reason).toBe('Disclosure needs one proof per note');
+        expect(rejected.reason).toBe(`Proof does not accept note ${note.commitment}`);
+        expect(forged).toEqual({ valid: false, reason: 'Proof is invalid' });
+    });
+
+    it('should build audit_proof witnesses the circuit accepts', async () => {
+        const input = {
+            noteCommitment: '0x0b',
+            viewKey: viewKeyManager.exportViewKey(),
+            amount: BigInt(700),
+            timestamp: JAN / 1000,
+            currentTime: APR / 1000,
+            purpose: 'received_at_least',
+            merkleRoot: ROOT
+        };
+        const wasm = new Uint8Array(fs.readFileSync(path.join(CIRCUITS, 'audit_proof.wasm')));
+        const calculate = async (witness: Record<string, string>) => {
+            const wtns: any = { type: 'mem' };
+            await snarkjs.wtns.calculate(witness, wasm, wtns);
+            return (await snarkjs.wtns.exportJson(wtns)) as any as bigint[];
+        };
+
+        const witness = buildAuditWitness(input);
+        await calculate(witness);
+
+        // The circuit asserts the audit id binds the commitment, view key and amount
+        expect(BigInt(witness.auditId)).toBe(computeAuditId(BigInt(11), toFieldElement(input.viewKey), BigInt(700)));
+        await expect(calculate({ ...witness, viewKey: '1' })).rejects.toThrow();
+        expect(() => buildAuditWitness({ ...input, currentTime: JAN / 1000 })).toThrow('must predate the statement');
+        expect(() => buildAuditWitness({ ...input, currentTime: APR })).toThrow('unix seconds');
+        expect(() => buildAuditWitness({ ...input, amount: BigInt(2) ** BigInt(32) })).toThrow('below 2^32');
+    });
+});
@@ -0,0 +1,1464 @@
+import { CipherPaySDK } from '../src/core/CipherPaySDK';
+import { RelayerRequest, RelayerResponse } from '../src/relayer/RelayerAPI';
+import { ZKProof } from '../src/types/ZKProof';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { SDKEventName, SyncProgressPayload } from '../src/events/SDKEventEmitter';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+import { StreamManager } from '../src/core/StreamManager';
+import { EscrowManager } from '../src/core/EscrowManager';
+import { hash } from '../src/utils/hash';
+import { ViewKeyManager } from '../src/core/ViewKeyManager';
+import { NoteScanner } from '../src/core/NoteScanner';
+import { unpadMemo } from '../src/utils/memo';
+import { computeSplitCommitment } from '../src/zk/SplitWitness';
+import { ShieldedNote } from '../src/types/Note';
+
+// Mock the logger
+jest.mock('../src/monitoring/observability/logger', () => ({
+    Logger: {
+        getInstance: jest.fn().mockReturnValue({
+            info: jest.fn(),
+            warn: jest.fn(),
+            error: jest.fn(),
+            debug: jest.fn()
+        })
+    }
+}));
+
+const OWNER_ADDRESS = 'Owner1111111111111111111111111111111111111';
+const RECIPIENT_ADDRESS = 'Recipient11111111111111111111111111111111';
+
+const mockProof: ZKProof = {
+    proof: {
+        pi_a: ['1', '2'],
+        pi_b: [['3', '4'], ['5', '6']],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128'
+    },
+    publicSignals: ['9', '10'],
+    timestamp: Date.now()
+};
+
+const waitFor = async (predicate: () => boolean, attempts = 50) => {
+    for (let i = 0; i < attempts && !predicate(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+const SDK_CONFIG = {
+    chainType: 'solana' as const,
+    rpcUrl: 'http://localhost:8899',
+    relayerUrl: 'http://localhost:3000',
+    allowEphemeralNotes: true,
+    circuits: {
+        transfer: { wasmUrl: '/circuits/transfer.wasm', zkeyUrl: '/circuits/transfer.zkey', verifierUrl: '/circuits/transfer.json' },
+        withdraw: { wasmUrl: '/circuits/withdraw.wasm', zkeyUrl: '/circuits/withdraw.zkey', verifierUrl: '/circuits/withdraw.json' }
+    }
+};
+
+/**
+ * Serves circuit files; any URL containing one of `failing` returns a 404
+ */
+const mockCircuitFetch = (failing: string[] = []) => jest.fn(async (url: string) => ({
+    ok: !failing.some(part => url.includes(part)),
+    status: 404,
+    arrayBuffer: async () => new ArrayBuffer(8),
+    json: async () => ({ protocol: 'groth16' })
+}));
+
+/**
+ * In-memory stand-in for the relayer HTTP service
+ */
+class LocalRelayer {
+    public readonly submitted: RelayerRequest[] = [];
+    public rejectNext = false;
+    public readonly rejectedRecipients = new Set<string>();
+    public readonly failedTxs = new Set<string>();
+
+    async submitTransaction(request: RelayerRequest): Promise<RelayerResponse> {
+        if (this.rejectNext) {
+            this.rejectNext = false;
+            return { success: false, status: 'failed', error: 'nullifier already spent' };
+        }
+        if (request.data.recipientAddress && this.rejectedRecipients.has(request.data.recipientAddress)) {
+            return { success: false, status: 'failed', error: 'relayer overloaded' };
+        }
+        this.submitted.push(request);
+        return { success: true, status: 'pending', txHash: `0xrelayed${this.submitted.length}` };
+    }
+
+    async getTransactionStatus(txHash: string): Promise<RelayerResponse> {
+        if (this.failedTxs.has(txHash)) {
+            return { success: false, status: 'failed', txHash, error: 'reverted' };
+        }
+        return { success: true, status: 'success', txHash, receipt: { blockNumber: 42 } };
+    }
+}
+
+describe('CipherPaySDK', () => {
+    let sdk: CipherPaySDK;
+    let relayer: LocalRelayer;
+
+    const seedConfirmedNote = async (amount: bigint) => {
+        const note = await sdk.noteManager.createNote(amount, OWNER_ADDRESS);
+        await sdk.noteManager.updateNoteStatus(note.id, 'confirmed');
+        return note;
+    };
+
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        localStorage.clear();
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        globalRateLimiter.reset('MERKLE_OPERATIONS');
+        global.fetch = mockCircuitFetch() as any;
+        sdk = new CipherPaySDK(SDK_CONFIG);
+
+        relayer = new LocalRelayer();
+        jest.spyOn(sdk.relayerClient, 'submitTransaction').mockImplementation(request => relayer.submitTransaction(request));
+        jest.spyOn(sdk.relayerClient, 'getTransactionStatus').mockImplementation(txHash => relayer.getTransactionStatus(txHash));
+        jest.spyOn(sdk.merkleTreeClient, 'getMerklePath').mockImplementation(async () => ({
+            path: ['0x01', '0x02'],
+            indices: [0, 1],
+            root: '0xroot'
+        }));
+        jest.spyOn(sdk.zkProver, 'generateTransferProof').mockResolvedValue(mockProof);
+        jest.spyOn(sdk.zkProver, 'generateWithdrawProof').mockResolvedValue(mockProof);
+        jest.spyOn(sdk.zkProver, 'generateReshieldProof').mockResolvedValue(mockProof);
+        jest.spyOn(sdk.walletProvider, 'getAddress').mockReturnValue(OWNER_ADDRESS);
+        jest.spyOn(sdk.merkleTreeClient, 'fetchMerkleRoot').mockResolvedValue('0xroot');
+
+        await sdk.initialize();
+    });
+
+    afterEach(() => {
+        sdk.destroy();
+        global.fetch = originalFetch;
+        localStorage.clear();
+    });
+
+    describe('lifecycle', () => {
+        it('should load circuits and sync before reporting ready', async () => {
+            expect(sdk.getState()).toBe('ready');
+            await expect(sdk.whenReady()).resolves.toBe('ready');
+            expect(sdk.getFailedSubsystems()).toEqual([]);
+            expect(sdk.zkProver.isCircuitAvailable('transfer')).toBe(true);
+            expect(sdk.merkleTreeClient.fetchMerkleRoot).toHaveBeenCalled();
+        });
+
+        it('should reject operations before initialization', async () => {
+            const fresh = new CipherPaySDK(SDK_CONFIG);
+
+            expect(fresh.getState()).toBe('uninitialized');
+            await expect(fresh.transfer({ amount: BigInt(1), recipientAddress: RECIPIENT_ADDRESS }))
+                .rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY });
+            await expect(fresh.deposit({ amount: BigInt(1) }))
+                .rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY });
+
+            fresh.destroy();
+        });
+
+        it('should report failed subsystems and block operations that need them', async () => {
+            global.fetch = mockCircuitFetch(['withdraw']) as any;
+            const degraded = new CipherPaySDK(SDK_CONFIG);
+            jest.spyOn(degraded.merkleTreeClient, 'fetchMerkleRoot').mockRejectedValue(new Error('relayer offline'));
+
+            const ready = degraded.whenReady();
+            await expect(degraded.initialize()).resolves.toBe('degraded');
+            await expect(ready).resolves.toBe('degraded');
+
+            expect(degraded.getFailedSubsystems()).toEqual([
+                { subsystem: 'circuits', error: 'Failed to load circuits: withdraw' },
+                { subsystem: 'merkleTree', error: 'relayer offline' }
+            ]);
+            await expect(degraded.withdraw({ amount: BigInt(1), recipientAddress: RECIPIENT_ADDRESS }))
+                .rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY, context: { circuit: 'withdraw' } });
+
+            degraded.destroy();
+        });
+
+        it('should initialize through the async factory', async () => {
+            const created = await CipherPaySDK.create({ ...SDK_CONFIG, relayerUrl: undefined });
+
+            // Without a relayer URL the Merkle root cannot be synced on Solana
+            expect(created.getState()).toBe('degraded');
+            expect(created.getFailedSubsystems().map(failure => failure.subsystem)).toEqual(['merkleTree']);
+
+            created.destroy();
+        });
+
+        it('should reject background consolidation while the circuits spend one note per proof', () => {
+            expect(() => new CipherPaySDK({ ...SDK_CONFIG, enableConsolidation: true }))
+                .toThrow(expect.objectContaining({ type: ErrorType.CONFIGURATION_ERROR }));
+        });
+
+        it('should refuse to move value while notes would only be kept in memory', async () => {
+            const ephemeral = await CipherPaySDK.create({ ...SDK_CONFIG, allowEphemeralNotes: undefined });
+
+            await expect(ephemeral.deposit({ amount: BigInt(1) }))
+                .rejects.toMatchObject({ type: ErrorType.CONFIGURATION_ERROR, context: { operation: 'deposit' } });
+            await expect(ephemeral.transfer({ amount: BigInt(1), recipientAddress: RECIPIENT_ADDRESS }))
+                .rejects.toThrow('notes are only kept in memory');
+
+            ephemeral.destroy();
+        });
+
+        it('should restore the wallet keys from a mnemonic and rescan from the given block', async () => {
+            const mnemonic = 'test test test test test test test test test test test junk';
+            const scan = jest.spyOn(NoteScanner.prototype, 'scan').mockResolvedValue({ scanned: 0, discovered: [], cursor: 99 });
+            const original = new CipherPaySDK({ ...SDK_CONFIG, mnemonic });
+
+            const restored = await CipherPaySDK.restore({ ...SDK_CONFIG, relayerUrl: undefined, mnemonic }, 50);
+
+            expect(restored.viewKeyManager.getNoteEncryptionKey()).toBe(original.viewKeyManager.getNoteEncryptionKey());
+            expect(restored.noteScanner.getCursor()).toBe(49);
+            expect(scan).toHaveBeenCalledTimes(1);
+            const otherAccount = new CipherPaySDK({ ...SDK_CONFIG, mnemonic, account: 1 });
+            expect(otherAccount.viewKeyManager.getNoteEncryptionKey()).not.toBe(original.viewKeyManager.getNoteEncryptionKey());
+
+            scan.mockRestore();
+            [original, restored, otherAccount].forEach(instance => instance.destroy());
+        });
+
+        it('should refuse to scan Solana pool events rather than report an empty scan', async () => {
+            await expect(sdk.scanForNotes()).rejects.toMatchObject({
+                type: ErrorType.CONFIGURATION_ERROR,
+                message: 'Scanning pool events is not supported on solana'
+            });
+            expect(sdk.noteScanner.getCursor()).toBe(-1);
+        });
+
+        it('should keep each account\'s notes and cursor under its own storage keys', async () => {
+            const mnemonic = 'test test test test test test test test test test test junk';
+            const first = new CipherPaySDK({ ...SDK_CONFIG, mnemonic });
+            const second = new CipherPaySDK({ ...SDK_CONFIG, mnemonic, account: 1 });
+            await Promise.all([first.noteManager.ready, second.noteManager.ready]);
+
+            await first.noteManager.createNote(BigInt(100), OWNER_ADDRESS);
+            await first.noteScanner.resetCursor(500);
+
+            const reopened = new CipherPaySDK({ ...SDK_CONFIG, mnemonic });
+            const reopenedSecond = new CipherPaySDK({ ...SDK_CONFIG, mnemonic, account: 1 });
+            await Promise.all([reopened.noteManager.ready, reopenedSecond.noteManager.ready]);
+            expect(await reopened.noteManager.getNotes()).toHaveLength(1);
+            expect(reopened.noteScanner.getCursor()).toBe(500);
+            expect(await reopenedSecond.noteManager.getNotes()).toHaveLength(0);
+            expect(reopenedSecond.noteScanner.getCursor()).toBe(-1);
+            expect(localStorage.getItem('cipherpay_notes')).toBeNull();
+
+            [first, second, reopened, reopenedSecond].forEach(instance => instance.destroy());
+        });
+
+        it('should reject whenReady and operations once destroyed', async () => {
+            const fresh = new CipherPaySDK(SDK_CONFIG);
+            const ready = fresh.whenReady();
+
+            fresh.destroy();
+
+            expect(fresh.getState()).toBe('destroyed');
+            await expect(ready).rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY });
+            await expect(fresh.deposit({ amount: BigInt(1) }))
+                .rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY });
+        });
+    });
+
+    describe('transfer', () => {
+        it('should spend inputs, create outputs and relay the transaction', async () => {
+            const input = await seedConfirmedNote(BigInt(150));
+
+            const result = await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(true);
+            expect(result.txHash).toBe('0xrelayed1');
+            expect(result.proof).toEqual(mockProof);
+            expect(result.inputNotes?.map(note => note.commitment)).toEqual([input.commitment]);
+            expect(result.outputNote?.amount).toBe(BigInt(100));
+            expect(result.outputNote?.recipientAddress).toBe(RECIPIENT_ADDRESS);
+            expect(result.changeNote?.amount).toBe(BigInt(50));
+            expect(result.changeNote?.recipientAddress).toBe(OWNER_ADDRESS);
+
+            expect(relayer.submitted).toHaveLength(1);
+            expect(relayer.submitted[0].type).toBe('shielded_transfer');
+            expect(relayer.submitted[0].data.amount).toBe('100');
+            expect(relayer.submitted[0].data.publicInputs).toEqual(mockProof.publicSignals);
+
+            const [spent] = await sdk.noteManager.getNotes({ status: 'spent' });
+            expect(spent.id).toBe(input.id);
+            expect(spent.spent).toBe(true);
+
+            const outputs = (await sdk.noteManager.getNotes()).filter(note => note.id !== input.id);
+            expect(outputs.map(note => note.commitment)).toEqual([result.changeNote!.commitment]);
+            expect(outputs[0].metadata.txHash).toBe('0xrelayed1');
+        });
+
+        it('should reject a non-positive amount or a missing recipient before touching notes', async () => {
+            await seedConfirmedNote(BigInt(150));
+
+            const zero = await sdk.transfer({ amount: BigInt(0), recipientAddress: RECIPIENT_ADDRESS });
+            const negative = await sdk.transfer({ amount: BigInt(-5), recipientAddress: RECIPIENT_ADDRESS });
+            const noRecipient = await sdk.transfer({ amount: BigInt(100), recipientAddress: '' });
+
+            expect(zero).toMatchObject({ success: false, error: expect.stringContaining('greater than 0') });
+            expect(negative.success).toBe(false);
+            expect(noRecipient).toMatchObject({ success: false, error: expect.stringContaining('recipient address') });
+            expect(relayer.submitted).toHaveLength(0);
+            expect(await sdk.noteManager.getNotes()).toHaveLength(1);
+            expect(sdk.getBalance()).toBe(BigInt(150));
+        });
+
+        it('should confirm the change note and not store the recipient note', async () => {
+            await seedConfirmedNote(BigInt(150));
+
+            const result = await sdk.transfer({
+                amount: BigInt(100),
+                recipientAddress: RECIPIENT_ADDRESS,
+                waitForConfirmation: true
+            });
+
+            expect(result.status).toBe('confirmed');
+            expect(sdk.getBalance()).toBe(BigInt(50));
+            expect(await sdk.noteManager.getNotes({ status: 'pending' })).toHaveLength(0);
+            expect(await sdk.noteManager.getNotes({ recipientAddress: RECIPIENT_ADDRESS })).toHaveLength(0);
+            expect(sdk.getTransactionHistory().records[0].outputNotes.map(note => note.commitment))
+                .toContain(result.outputNote!.commitment);
+        });
+
+        it('should seal the change note to the wallet\'s own key so a restored wallet finds it', async () => {
+            await seedConfirmedNote(BigInt(150));
+
+            await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            const sealed = relayer.submitted[0].data.changeEncryptedNote!;
+            expect(JSON.parse(sdk.viewKeyManager.openNote(sealed)!)).toMatchObject({
+                amount: '50',
+                recipientAddress: OWNER_ADDRESS
+            });
+        });
+
+        it('should pass the Merkle path of its one input to the prover', async () => {
+            await seedConfirmedNote(BigInt(60));
+            await seedConfirmedNote(BigInt(100));
+
+            await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            const proofInput = (sdk.zkProver.generateTransferProof as jest.Mock).mock.calls[0][0];
+            expect(proofInput.inputNotes.map((note: any) => note.amount)).toEqual([BigInt(100)]);
+            expect(proofInput.merkleProofs).toHaveLength(1);
+            expect(proofInput.changeNote).toBeUndefined();
+        });
+
+        it('should not combine notes the circuit cannot spend together', async () => {
+            await seedConfirmedNote(BigInt(60));
+            await seedConfirmedNote(BigInt(60));
+
+            const result = await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('more than 1 input note');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+
+        it('should fail without side effects when the balance is insufficient', async () => {
+            await seedConfirmedNote(BigInt(10));
+
+            const result = await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Insufficient funds');
+            expect(relayer.submitted).toHaveLength(0);
+            expect(await sdk.noteManager.getNotes()).toHaveLength(1);
+        });
+
+        it('should discard output notes and keep inputs spendable when the relayer rejects', async () => {
+            const input = await seedConfirmedNote(BigInt(100));
+            relayer.rejectNext = true;
+
+            const result = await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('nullifier already spent');
+            expect(sdk.getSpendableNotes().map(note => note.commitment)).toEqual([input.commitment]);
+            expect(await sdk.noteManager.getNotes()).toHaveLength(1);
+        });
+
+        it('should seal a memo that only the recipient view key opens', async () => {
+            await seedConfirmedNote(BigInt(150));
+            const recipientKeys = new ViewKeyManager('ethereum');
+
+            const unsealed = await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS, memo: 'INV-42' });
+            expect(unsealed.success).toBe(false);
+            expect(relayer.submitted).toHaveLength(0);
+
+            const result = await sdk.transfer({
+                amount: BigInt(100),
+                recipientAddress: RECIPIENT_ADDRESS,
+                recipientEncryptionKey: recipientKeys.getNoteEncryptionKey(),
+                memo: 'INV-42'
+            });
+
+            expect(result.success).toBe(true);
+            const sealed: string = relayer.submitted[0].data.encryptedNote!;
+            expect(sealed).not.toContain(Buffer.from('INV-42').toString('hex'));
+            expect(new ViewKeyManager('ethereum').openNote(sealed)).toBeNull();
+            expect(unpadMemo(JSON.parse(recipientKeys.openNote(sealed)!).memo)).toBe('INV-42');
+        });
+    });
+
+    describe('withdraw', () => {
+        it('should relay a withdrawal and confirm its change note', async () => {
+            const input = await seedConfirmedNote(BigInt(80));
+
+            const result = await sdk.withdraw({
+                amount: BigInt(30),
+                recipientAddress: RECIPIENT_ADDRESS,
+                waitForConfirmation: true
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.status).toBe('confirmed');
+            expect(result.txHash).toBe('0xrelayed1');
+            expect(result.inputNotes?.map(note => note.commitment)).toEqual([input.commitment]);
+            expect(result.changeNote?.amount).toBe(BigInt(50));
+
+            expect(relayer.submitted[0].type).toBe('withdrawal');
+            expect(relayer.submitted[0].data.recipientAddress).toBe(RECIPIENT_ADDRESS);
+
+            const proofInput = (sdk.zkProver.generateWithdrawProof as jest.Mock).mock.calls[0][0];
+            expect(proofInput.merkleProofs).toHaveLength(1);
+            expect(proofInput.changeNote.amount).toBe(BigInt(50));
+
+            expect(sdk.getBalance()).toBe(BigInt(50));
+        });
+
+        it('should restore inputs when the withdrawal fails on-chain', async () => {
+            await seedConfirmedNote(BigInt(80));
+            relayer.failedTxs.add('0xrelayed1');
+
+            const result = await sdk.withdraw({
+                amount: BigInt(30),
+                recipientAddress: RECIPIENT_ADDRESS,
+                waitForConfirmation: true
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.status).toBe('failed');
+            expect(sdk.getBalance()).toBe(BigInt(80));
+            expect(await sdk.noteManager.getNotes({ status: 'expired' })).toHaveLength(1);
+        });
+
+        it('should keep the withdrawal pending when its status cannot be read', async () => {
+            await seedConfirmedNote(BigInt(80));
+            jest.spyOn(sdk.relayerClient, 'getTransactionStatus')
+                .mockRejectedValue(new Error('Transaction failed to load: relayer unavailable'));
+
+            const result = await sdk.withdraw({
+                amount: BigInt(30),
+                recipientAddress: RECIPIENT_ADDRESS,
+                waitForConfirmation: true
+            });
+
+            expect(result.status).toBe('pending');
+            expect(sdk.getLockedBalance()).toBe(BigInt(80));
+            expect(await sdk.noteManager.getNotes({ status: 'expired' })).toHaveLength(0);
+        });
+
+        it('should report insufficient balance without relaying', async () => {
+            await seedConfirmedNote(BigInt(10));
+
+            const result = await sdk.withdraw({ amount: BigInt(30), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Insufficient balance');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+    });
+
+    describe('deposit', () => {
+        beforeEach(() => {
+            jest.spyOn(sdk.walletProvider, 'signAndSendDepositTx').mockResolvedValue({
+                txHash: '0xdeposit',
+                chainType: 'solana',
+                status: 'success'
+            });
+        });
+
+        it('should send the note commitment with the deposit and track the note as pending', async () => {
+            const result = await sdk.deposit({ amount: BigInt(2500000000) });
+
+            expect(result.success).toBe(true);
+            expect(result.txHash).toBe('0xdeposit');
+            expect(result.note?.amount).toBe(BigInt(2500000000));
+            expect(result.note?.recipientAddress).toBe(OWNER_ADDRESS);
+            expect(sdk.walletProvider.signAndSendDepositTx).toHaveBeenCalledWith('', BigInt(2500000000), result.note?.commitment, expect.any(String));
+            // The note is published sealed to our own key, so a wallet restored from the mnemonic finds it
+            const sealed = (sdk.walletProvider.signAndSendDepositTx as jest.Mock).mock.calls[0][3];
+            expect(JSON.parse(sdk.viewKeyManager.openNote(sealed)!)).toMatchObject({ amount: '2500000000' });
+
+            const [pending] = await sdk.noteManager.getNotes({ status: 'pending' });
+            expect(pending.type).toBe('deposit');
+            expect(pending.metadata.txHash).toBe('0xdeposit');
+            expect(sdk.getBalance()).toBe(BigInt(0));
+        });
+
+        it('should confirm the note once the pool reports its commitment', async () => {
+            const result = await sdk.deposit({ amount: BigInt(1000) });
+            jest.spyOn(sdk.relayerClient, 'getPublishedNotes').mockResolvedValue([
+                { commitment: result.note!.commitment, leafIndex: 7 }
+            ]);
+
+            (sdk.eventMonitor as any).emit({
+                type: 'shielded_transfer',
+                from: OWNER_ADDRESS,
+                to: OWNER_ADDRESS,
+                amount: '1000',
+                commitment: result.note!.commitment,
+                nullifier: '0x' + '00'.repeat(32),
+                timestamp: Date.now()
+            });
+            await waitFor(() => sdk.getBalance() > BigInt(0));
+            await waitFor(() => sdk.noteManager.getSpendableNotes()[0]?.metadata.leafIndex !== undefined);
+
+            const [confirmed] = await sdk.noteManager.getNotes({ status: 'confirmed' });
+            expect(confirmed.commitment).toBe(result.note!.commitment);
+            expect(confirmed.metadata.leafIndex).toBe(7);
+            expect(sdk.getBalance()).toBe(BigInt(1000));
+        });
+
+        it('should use fresh randomness for every commitment', async () => {
+            const first = await sdk.deposit({ amount: BigInt(1000) });
+            const second = await sdk.deposit({ amount: BigInt(1000) });
+
+            expect(first.note!.commitment).not.toBe(second.note!.commitment);
+        });
+
+        it('should drop the note when the deposit transaction fails', async () => {
+            (sdk.walletProvider.signAndSendDepositTx as jest.Mock).mockRejectedValueOnce(new Error('user rejected'));
+
+            const result = await sdk.deposit({ amount: BigInt(1000) });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('user rejected');
+            expect(await sdk.noteManager.getNotes()).toHaveLength(0);
+        });
+    });
+
+    describe('reshield', () => {
+        it('should re-issue the given note under a fresh commitment', async () => {
+            const input = await seedConfirmedNote(BigInt(40));
+
+            const result = await sdk.reshield({ noteIds: [input.id], waitForConfirmation: true });
+
+            expect(result.success).toBe(true);
+            expect(result.status).toBe('confirmed');
+            expect(result.outputNote?.amount).toBe(BigInt(40));
+            expect(result.outputNote?.recipientAddress).toBe(OWNER_ADDRESS);
+            expect(result.outputNote?.commitment).not.toBe(input.commitment);
+            expect(result.changeNote).toBeUndefined();
+
+            expect(relayer.submitted[0].type).toBe('reshield');
+            const proofInput = (sdk.zkProver.generateReshieldProof as jest.Mock).mock.calls[0][0];
+            expect(proofInput.inputNotes).toHaveLength(1);
+            expect(proofInput.merkleProofs).toHaveLength(1);
+
+            expect(await sdk.noteManager.getNotes({ status: 'spent' })).toHaveLength(1);
+            expect(sdk.getSpendableNotes().map(note => note.commitment)).toEqual([result.outputNote!.commitment]);
+            expect(sdk.getBalance()).toBe(BigInt(40));
+        });
+
+        it('should not merge more notes than one proof can spend', async () => {
+            const first = await seedConfirmedNote(BigInt(40));
+            const second = await seedConfirmedNote(BigInt(25));
+
+            const result = await sdk.reshield({ noteIds: [first.id, second.id] });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('cannot merge 2 notes');
+            expect(relayer.submitted).toHaveLength(0);
+            expect(sdk.getBalance()).toBe(BigInt(65));
+            await expect(sdk.consolidateNotes()).rejects.toMatchObject({ type: ErrorType.CONFIGURATION_ERROR });
+        });
+
+        it('should select notes for an amount and return the rest as change', async () => {
+            await seedConfirmedNote(BigInt(100));
+
+            const result = await sdk.reshield({ amount: BigInt(70) });
+
+            expect(result.success).toBe(true);
+            expect(result.status).toBe('pending');
+            expect(result.outputNote?.amount).toBe(BigInt(70));
+            expect(result.changeNote?.amount).toBe(BigInt(30));
+
+            const outputs = (await sdk.noteManager.getNotes()).filter(note => note.type === 'reshield');
+            expect(outputs).toHaveLength(2);
+            outputs.forEach(note => expect(note.metadata.txHash).toBe('0xrelayed1'));
+        });
+
+        it('should discard new notes when the relayer rejects', async () => {
+            const input = await seedConfirmedNote(BigInt(50));
+            relayer.rejectNext = true;
+
+            const result = await sdk.reshield({ noteIds: [input.id] });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('nullifier already spent');
+            expect(await sdk.noteManager.getNotes()).toHaveLength(1);
+            expect(sdk.getBalance()).toBe(BigInt(50));
+        });
+
+        it('should reject notes that are not spendable', async () => {
+            await seedConfirmedNote(BigInt(50));
+            const note = await sdk.noteManager.createNote(BigInt(50), OWNER_ADDRESS);
+
+            const result = await sdk.reshield({ amount: BigInt(50), noteIds: [note.id] });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('not spendable');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+    });
+
+    describe('events', () => {
+        it('should report sync progress for each subsystem while initializing', async () => {
+            const fresh = new CipherPaySDK(SDK_CONFIG);
+            jest.spyOn(fresh.merkleTreeClient, 'fetchMerkleRoot').mockRejectedValue(new Error('relayer offline'));
+            const progress: SyncProgressPayload[] = [];
+            fresh.on('syncProgress', payload => progress.push(payload));
+
+            await fresh.initialize();
+
+            expect(progress).toEqual([
+                { state: 'loading_circuits', subsystem: 'circuits', completed: 1, total: 2, error: undefined },
+                { state: 'syncing', subsystem: 'merkleTree', completed: 2, total: 2, error: 'relayer offline' }
+            ]);
+            fresh.destroy();
+        });
+
+        it('should emit the lifecycle of a confirmed transfer', async () => {
+            await seedConfirmedNote(BigInt(150));
+            const events: string[] = [];
+            const balances: bigint[] = [];
+            const listen = (name: SDKEventName) => sdk.on(name, () => events.push(name));
+            (['noteReceived', 'noteSpent', 'transactionSubmitted', 'transactionConfirmed'] as SDKEventName[]).forEach(listen);
+            sdk.on('balanceChanged', payload => balances.push(payload.balance));
+
+            const submitted = jest.fn();
+            sdk.once('transactionSubmitted', submitted);
+
+            await sdk.transfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS, waitForConfirmation: true });
+
+            expect(events).toEqual(['noteSpent', 'transactionSubmitted', 'noteReceived', 'transactionConfirmed']);
+            expect(balances).toEqual([BigInt(0), BigInt(50)]);
+            expect(submitted).toHaveBeenCalledWith(expect.objectContaining({ type: 'transfer', txHash: '0xrelayed1' }));
+        });
+
+        it('should emit transactionFailed when the relayer rejects', async () => {
+            await seedConfirmedNote(BigInt(100));
+            relayer.rejectNext = true;
+            const failed = jest.fn();
+            sdk.on('transactionFailed', failed);
+
+            await sdk.withdraw({ amount: BigInt(40), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(failed).toHaveBeenCalledWith({
+                type: 'withdraw',
+                error: 'Relayer rejected withdraw: nullifier already spent'
+            });
+        });
+
+        it('should emit complianceBlocked when a transfer is rejected by compliance', async () => {
+            (sdk as any).complianceManager = {
+                validateTransaction: jest.fn().mockResolvedValue({
+                    compliant: false,
+                    violations: ['sanctioned recipient'],
+                    riskScore: 95
+                })
+            };
+            const blocked = jest.fn();
+            sdk.on('complianceBlocked', blocked);
+
+            const result = await sdk.transfer({ amount: BigInt(10), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(result.success).toBe(false);
+            expect(blocked).toHaveBeenCalledWith({
+                type: 'transfer',
+                amount: BigInt(10),
+                recipientAddress: RECIPIENT_ADDRESS,
+                violations: ['sanctioned recipient'],
+                riskScore: 95
+            });
+        });
+
+        it('should mark notes spent when the pool reports their nullifier', async () => {
+            const note = await seedConfirmedNote(BigInt(100));
+            const spent = jest.fn();
+            sdk.on('noteSpent', spent);
+
+            (sdk.eventMonitor as any).emit({ type: 'note_spent', nullifier: note.nullifier, timestamp: Date.now() });
+            await waitFor(() => spent.mock.calls.length > 0);
+
+            expect(spent.mock.calls[0][0].note.commitment).toBe(note.commitment);
+            expect(sdk.getBalance()).toBe(BigInt(0));
+        });
+
+        it('should stop notifying removed listeners', async () => {
+            const listener = jest.fn();
+            sdk.on('balanceChanged', listener);
+            sdk.off('balanceChanged', listener);
+
+            await seedConfirmedNote(BigInt(100));
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('simulation', () => {
+        beforeEach(() => {
+            jest.spyOn(sdk.relayerClient, 'estimateGas').mockResolvedValue({
+                gasLimit: '200000',
+                maxFeePerGas: '0.000002',
+                priorityFee: '0.000001'
+            });
+        });
+
+        it('should plan a transfer without proving or relaying', async () => {
+            const input = await seedConfirmedNote(BigInt(150));
+
+            const plan = await sdk.simulateTransfer({ amount: BigInt(100), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(plan.kind).toBe('transfer');
+            expect(plan.inputNoteIds).toEqual([input.id]);
+            expect(plan.inputTotal).toBe(BigInt(150));
+            expect(plan.changeAmount).toBe(BigInt(50));
+            expect(plan.fee.gasLimit).toBe('200000');
+            expect(plan.fee.totalFee).toBeCloseTo(0.4);
+            expect(plan.stealthAddress).toBeUndefined();
+            expect(plan.blockers).toEqual([]);
+
+            expect(sdk.zkProver.generateTransferProof).not.toHaveBeenCalled();
+            expect(relayer.submitted).toHaveLength(0);
+            expect(await sdk.noteManager.getNotes()).toHaveLength(1);
+            expect(sdk.relayerClient.estimateGas).toHaveBeenCalledWith(expect.objectContaining({ type: 'shielded_transfer' }));
+        });
+
+        it('should execute a plan with exactly the planned notes', async () => {
+            const planned = await seedConfirmedNote(BigInt(60));
+            const plan = await sdk.simulateTransfer({ amount: BigInt(50), recipientAddress: RECIPIENT_ADDRESS });
+
+            // A larger note arriving later would win fresh selection, but the plan is binding
+            await seedConfirmedNote(BigInt(200));
+            const result = await sdk.execute(plan);
+
+            expect(result.success).toBe(true);
+            expect(result.inputNotes?.map(note => note.commitment)).toEqual([planned.commitment]);
+            expect(result.changeNote?.amount).toBe(BigInt(10));
+        });
+
+        it('should report blockers instead of throwing', async () => {
+            await seedConfirmedNote(BigInt(10));
+            (sdk as any).complianceManager = {
+                validateTransaction: jest.fn().mockResolvedValue({
+                    compliant: false,
+                    violations: ['amount over limit'],
+                    riskScore: 50
+                })
+            };
+
+            const plan = await sdk.simulateWithdraw({ amount: BigInt(30), recipientAddress: RECIPIENT_ADDRESS });
+
+            expect(plan.complianceStatus?.compliant).toBe(false);
+            expect(plan.blockers).toEqual([
+                'Compliance check failed: amount over limit',
+                'Insufficient funds. Required: 30, Available: 10'
+            ]);
+            expect((sdk as any).complianceManager.validateTransaction).toHaveBeenCalledWith(
+                expect.objectContaining({ type: 'withdraw' }), 'user', false
+            );
+
+            const result = await sdk.execute(plan);
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Plan cannot be executed');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+
+        it('should execute a withdrawal plan through the withdraw builder', async () => {
+            const input = await seedConfirmedNote(BigInt(80));
+
+            const plan = await sdk.simulateWithdraw({ amount: BigInt(30), recipientAddress: RECIPIENT_ADDRESS });
+            expect(sdk.relayerClient.estimateGas).toHaveBeenCalledWith(expect.objectContaining({ type: 'withdrawal' }));
+
+            const result = await sdk.execute(plan);
+
+            expect(result.success).toBe(true);
+            expect(result.inputNotes?.map(note => note.commitment)).toEqual([input.commitment]);
+            expect(relayer.submitted[0].type).toBe('withdrawal');
+        });
+
+        it('should refuse a stale plan whose notes were spent', async () => {
+            const input = await seedConfirmedNote(BigInt(80));
+            const plan = await sdk.simulateTransfer({ amount: BigInt(30), recipientAddress: RECIPIENT_ADDRESS });
+
+            await sdk.noteManager.updateNoteStatus(input.id, 'spent');
+            const result = await sdk.execute(plan);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain(`Note ${input.id} is not spendable`);
+            expect(relayer.submitted).toHaveLength(0);
+        });
+    });
+
+    describe('batchTransfer', () => {
+        const payroll = [
+            { recipientAddress: 'Employee1111111111111111111111111111111111', amount: BigInt(100) },
+            { recipientAddress: 'Employee2222222222222222222222222222222222', amount: BigInt(100) },
+            { recipientAddress: 'Employee3333333333333333333333333333333333', amount: BigInt(100) }
+        ];
+
+        it('should pay every recipient from disjoint notes with bounded concurrency', async () => {
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+
+            let active = 0;
+            let peak = 0;
+            (sdk.zkProver.generateTransferProof as jest.Mock).mockImplementation(async () => {
+                active++;
+                peak = Math.max(peak, active);
+                await new Promise(resolve => setTimeout(resolve, 20));
+                active--;
+                return mockProof;
+            });
+
+            const report = await sdk.batchTransfer(payroll, { concurrency: 2 });
+
+            expect(report.complete).toBe(true);
+            expect(report.submitted).toBe(3);
+            expect(report.results.map(result => result.status)).toEqual(['submitted', 'submitted', 'submitted']);
+            expect(peak).toBe(2);
+
+            const usedNotes = report.results.flatMap(result => result.inputNoteIds || []);
+            expect(new Set(usedNotes).size).toBe(3);
+            expect(relayer.submitted.map(request => request.data.recipientAddress).sort())
+                .toEqual(payroll.map(payment => payment.recipientAddress).sort());
+            expect(sdk.getBalance()).toBe(BigInt(0));
+        });
+
+        it('should hold every payment\'s notes from allocation until it settles or fails', async () => {
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+            relayer.rejectedRecipients.add(payroll[1].recipientAddress);
+
+            const spendableDuringProofs: bigint[] = [];
+            (sdk.zkProver.generateTransferProof as jest.Mock).mockImplementation(async () => {
+                spendableDuringProofs.push(sdk.getBalance());
+                return mockProof;
+            });
+
+            const report = await sdk.batchTransfer(payroll.slice(0, 2), { concurrency: 1 });
+
+            expect(spendableDuringProofs).toEqual([BigInt(0), BigInt(0)]);
+            expect(report.results.map(result => result.status)).toEqual(['submitted', 'failed']);
+            expect(sdk.getBalance()).toBe(BigInt(100));
+        });
+
+        it('should report payments that cannot be funded without blocking the rest', async () => {
+            await seedConfirmedNote(BigInt(150));
+            await seedConfirmedNote(BigInt(100));
+
+            const report = await sdk.batchTransfer(payroll);
+
+            expect(report.submitted).toBe(2);
+            expect(report.failed).toBe(1);
+            expect(report.complete).toBe(false);
+            expect(report.results[2].status).toBe('failed');
+            expect(report.results[2].error).toContain('Insufficient funds');
+        });
+
+        it('should resume a partially failed batch without paying anyone twice', async () => {
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+            relayer.rejectedRecipients.add(payroll[1].recipientAddress);
+
+            const first = await sdk.batchTransfer(payroll);
+
+            expect(first.results.map(result => result.status)).toEqual(['submitted', 'failed', 'submitted']);
+            expect(first.results[1].error).toContain('relayer overloaded');
+            expect(sdk.getBalance()).toBe(BigInt(100));
+
+            relayer.rejectedRecipients.clear();
+            const resumed = await sdk.batchTransfer(payroll, { resume: first });
+
+            expect(resumed.batchId).toBe(first.batchId);
+            expect(resumed.complete).toBe(true);
+            expect(resumed.results[0].txHash).toBe(first.results[0].txHash);
+            expect(relayer.submitted).toHaveLength(3);
+            expect(relayer.submitted[2].data.recipientAddress).toBe(payroll[1].recipientAddress);
+        });
+
+        it('should refuse to resume with a different recipient list', async () => {
+            await seedConfirmedNote(BigInt(300));
+            const report = await sdk.batchTransfer(payroll.slice(0, 1));
+
+            await expect(sdk.batchTransfer(payroll.slice(1, 2), { resume: report }))
+                .rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+        });
+    });
+
+    describe('assets', () => {
+        const USDC = { id: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6, native: false };
+
+        const seedTokenNote = async (amount: bigint) => {
+            const note = await sdk.noteManager.createNote(amount, OWNER_ADDRESS, 'transfer', {}, USDC.id);
+            await sdk.noteManager.updateNoteStatus(note.id, 'confirmed');
+            return note;
+        };
+
+        beforeEach(() => {
+            sdk.assetRegistry.register(USDC);
+        });
+
+        it('should report balances per asset', async () => {
+            await seedConfirmedNote(BigInt(100));
+            await seedTokenNote(BigInt(500));
+
+            expect(sdk.getBalance()).toBe(BigInt(100));
+            expect(sdk.getBalance('USDC')).toBe(BigInt(500));
+            expect(sdk.getBalances()).toEqual({ native: BigInt(100), [USDC.id]: BigInt(500) });
+            expect(sdk.getSpendableNotes('USDC')).toHaveLength(1);
+        });
+
+        it('should spend only notes of the requested asset', async () => {
+            const native = await seedConfirmedNote(BigInt(1000));
+            const token = await seedTokenNote(BigInt(500));
+
+            const result = await sdk.transfer({ amount: BigInt(200), recipientAddress: RECIPIENT_ADDRESS, asset: 'USDC' });
+
+            expect(result.success).toBe(true);
+            expect(result.inputNotes?.map(note => note.commitment)).toEqual([token.commitment]);
+            expect(result.outputNote?.asset).toBe(USDC.id);
+            expect(result.changeNote?.asset).toBe(USDC.id);
+            expect(relayer.submitted[0].data.tokenAddress).toBe(USDC.id);
+            expect(sdk.getSpendableNotes('native').map(note => note.commitment)).toEqual([native.commitment]);
+        });
+
+        it('should not cover a token payment with native notes', async () => {
+            await seedConfirmedNote(BigInt(1000));
+            await seedTokenNote(BigInt(100));
+
+            const result = await sdk.withdraw({ amount: BigInt(200), recipientAddress: RECIPIENT_ADDRESS, asset: USDC.id });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Insufficient balance');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+
+        it('should reject assets missing from the token registry', async () => {
+            await seedConfirmedNote(BigInt(1000));
+
+            const result = await sdk.transfer({ amount: BigInt(10), recipientAddress: RECIPIENT_ADDRESS, asset: 'DOGE' });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Asset DOGE is not supported');
+        });
+
+        it('should reshield in the asset of the given notes', async () => {
+            const token = await seedTokenNote(BigInt(75));
+            await seedConfirmedNote(BigInt(10));
+
+            const result = await sdk.reshield({ noteIds: [token.id] });
+
+            expect(result.success).toBe(true);
+            expect(result.outputNote?.asset).toBe(USDC.id);
+            expect(relayer.submitted[0].data.tokenAddress).toBe(USDC.id);
+        });
+
+        it('should tag balance changes with their asset', async () => {
+            const changes: Array<{ asset: string; balance: bigint }> = [];
+            sdk.on('balanceChanged', ({ asset, balance }) => changes.push({ asset, balance }));
+
+            await seedTokenNote(BigInt(500));
+
+            expect(changes).toEqual([{ asset: USDC.id, balance: BigInt(500) }]);
+        });
+    });
+
+    describe('transaction history', () => {
+        it('should record a transfer with its notes and confirmation', async () => {
+            const input = await seedConfirmedNote(BigInt(150));
+
+            const result = await sdk.transfer({
+                amount: BigInt(100),
+                recipientAddress: RECIPIENT_ADDRESS,
+                waitForConfirmation: true,
+                metadata: { invoice: 'INV-7' }
+            });
+
+            const { records, total } = sdk.getTransactionHistory();
+            expect(total).toBe(1);
+            expect(records[0]).toMatchObject({
+                type: 'transfer',
+                status: 'confirmed',
+                amount: BigInt(100),
+                asset: 'native',
+                recipientAddress: RECIPIENT_ADDRESS,
+                txHash: result.txHash,
+                blockNumber: 42,
+                metadata: { invoice: 'INV-7' }
+            });
+            expect(records[0].statusHistory.map(change => change.status)).toEqual(['pending', 'confirmed']);
+            expect(records[0].inputNotes.map(note => note.noteId)).toEqual([input.id]);
+            expect(records[0].outputNotes.map(note => note.role)).toEqual(['recipient', 'change']);
+        });
+
+        it('should record relayer rejections and on-chain failures', async () => {
+            await seedConfirmedNote(BigInt(100));
+            await seedConfirmedNote(BigInt(100));
+            relayer.rejectNext = true;
+            await sdk.withdraw({ amount: BigInt(50), recipientAddress: RECIPIENT_ADDRESS });
+            relayer.failedTxs.add('0xrelayed1');
+            await sdk.reshield({ amount: BigInt(100), waitForConfirmation: true });
+
+            const failed = sdk.getTransactionHistory({ status: 'failed' }).records;
+            expect(failed.map(record => record.type)).toEqual(['reshield', 'withdraw']);
+            expect(failed[1].txHash).toBeUndefined();
+            expect(failed[1].error).toContain('nullifier already spent');
+            expect(failed[0].statusHistory.map(change => change.status)).toEqual(['pending', 'failed']);
+        });
+
+        it('should record deposits and confirm them from pool events', async () => {
+            jest.spyOn(sdk.walletProvider, 'signAndSendDepositTx').mockResolvedValue({
+                txHash: '0xdeposit',
+                chainType: 'solana',
+                status: 'success'
+            });
+            const result = await sdk.deposit({ amount: BigInt(1000) });
+            jest.spyOn(sdk.relayerClient, 'getPublishedNotes').mockResolvedValue([]);
+
+            (sdk.eventMonitor as any).emit({
+                type: 'shielded_transfer',
+                from: OWNER_ADDRESS,
+                to: OWNER_ADDRESS,
+                amount: '1000',
+                commitment: result.note!.commitment,
+                nullifier: '0x' + '00'.repeat(32),
+                timestamp: Date.now()
+            });
+            await waitFor(() => sdk.getBalance() > BigInt(0));
+
+            const [record] = sdk.getTransactionHistory({ type: 'deposit' }).records;
+            expect(record.status).toBe('confirmed');
+            expect(record.outputNotes[0].commitment).toBe(result.note!.commitment);
+            expect(JSON.parse(sdk.exportTransactionHistory()).records).toHaveLength(1);
+        });
+    });
+    describe('splitPayment', () => {
+        const MARKETPLACE_ADDRESS = 'Market11111111111111111111111111111111111';
+
+        beforeEach(async () => {
+            jest.spyOn(sdk.zkProver, 'generateSplitProof').mockResolvedValue(mockProof);
+            await sdk.configureZKComponents({
+                zkSplit: { wasmUrl: '/circuits/zkSplit.wasm', zkeyUrl: '/circuits/zkSplit.zkey', verifierUrl: '/circuits/zkSplit.json' }
+            });
+        });
+
+        it('should split the smallest covering note into an output and change in one proof', async () => {
+            await seedConfirmedNote(BigInt(5000));
+            const input = await seedConfirmedNote(BigInt(1200));
+            await seedConfirmedNote(BigInt(300));
+
+            const result = await sdk.splitPayment({
+                outputs: [{ recipientAddress: MARKETPLACE_ADDRESS, amount: BigInt(900) }],
+                fee: BigInt(50),
+                waitForConfirmation: true
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.inputNote?.commitment).toBe(input.commitment);
+            expect(result.outputNotes?.map(note => [note.recipientAddress, note.amount])).toEqual([
+                [MARKETPLACE_ADDRESS, BigInt(900)]
+            ]);
+            expect(result.changeNote?.amount).toBe(BigInt(250));
+            const [proofInput] = (sdk.zkProver.generateSplitProof as jest.Mock).mock.calls[0];
+            expect(proofInput).toMatchObject({ fee: BigInt(50), outputNotes: [...result.outputNotes!, result.changeNote] });
+            expect(proofInput.splitCommitment).toBe(computeSplitCommitment({
+                inputCommitment: input.commitment,
+                outputCommitments: proofInput.outputNotes.map((note: ShieldedNote) => note.commitment),
+                salt: proofInput.splitSecret
+            }));
+            expect(relayer.submitted).toHaveLength(1);
+            expect(relayer.submitted[0]).toMatchObject({ type: 'split', data: { amount: '900', fee: '50' } });
+            expect(relayer.submitted[0].data.encryptedNotes).toHaveLength(2);
+            expect(sdk.getBalance()).toBe(BigInt(5550));
+        });
+
+        it('should only split between two outputs a note they use exactly', async () => {
+            await seedConfirmedNote(BigInt(5000));
+            const outputs = [
+                { recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(900) },
+                { recipientAddress: MARKETPLACE_ADDRESS, amount: BigInt(100) }
+            ];
+
+            const inexact = await sdk.splitPayment({ outputs });
+            const threeWay = await sdk.splitPayment({ outputs: [...outputs, outputs[0]] });
+
+            expect(inexact.error).toContain('two outputs need a note of exactly 1000');
+            expect(threeWay.error).toContain('at most 2 outputs');
+            expect(sdk.zkProver.generateSplitProof).not.toHaveBeenCalled();
+        });
+
+        it('should split a requested note exactly when the outputs use all of it', async () => {
+            const input = await seedConfirmedNote(BigInt(1000));
+
+            const result = await sdk.splitPayment({
+                noteId: input.id,
+                outputs: [
+                    { recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(700) },
+                    { recipientAddress: MARKETPLACE_ADDRESS, amount: BigInt(300) }
+                ]
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.changeNote).toBeUndefined();
+            expect(sdk.noteManager.getSpendableNotes()).toEqual([]);
+        });
+
+        it('should store and confirm only the shares paid back to the wallet', async () => {
+            const input = await seedConfirmedNote(BigInt(1000));
+
+            const result = await sdk.splitPayment({
+                noteId: input.id,
+                outputs: [
+                    { recipientAddress: OWNER_ADDRESS, amount: BigInt(700) },
+                    { recipientAddress: MARKETPLACE_ADDRESS, amount: BigInt(300) }
+                ],
+                waitForConfirmation: true
+            });
+
+            expect(result.success).toBe(true);
+            expect(sdk.getBalance()).toBe(BigInt(700));
+            expect(await sdk.noteManager.getNotes({ recipientAddress: MARKETPLACE_ADDRESS })).toHaveLength(0);
+        });
+
+        it('should refuse splits no single note can cover', async () => {
+            await seedConfirmedNote(BigInt(600));
+            await seedConfirmedNote(BigInt(600));
+
+            const result = await sdk.splitPayment({
+                outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(1000) }]
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Insufficient funds');
+            expect(sdk.zkProver.generateSplitProof).not.toHaveBeenCalled();
+        });
+
+        it('should validate the outputs before selecting notes', async () => {
+            await seedConfirmedNote(BigInt(1000));
+
+            const empty = await sdk.splitPayment({ outputs: [] });
+            const zero = await sdk.splitPayment({ outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(0) }] });
+
+            expect(empty.error).toContain('at least one output');
+            expect(zero.error).toContain('Split output 0 must have an amount greater than 0');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+
+        it('should reject amounts beyond the zkSplit limit before creating notes', async () => {
+            const large = await seedConfirmedNote(BigInt(2) ** BigInt(33));
+
+            const oversized = await sdk.splitPayment({
+                outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(2) ** BigInt(32) + BigInt(1) }]
+            });
+            const bigChange = await sdk.splitPayment({
+                noteId: large.id,
+                outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(100) }]
+            });
+            const selected = await sdk.splitPayment({
+                outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(100) }]
+            });
+
+            expect(oversized.error).toContain('exceeds the zkSplit limit of 2^32');
+            expect(bigChange.error).toContain('more change than the zkSplit limit');
+            expect(selected.error).toContain('leaves change within the zkSplit limit');
+            expect(await sdk.getNotes()).toHaveLength(1);
+            expect(sdk.zkProver.generateSplitProof).not.toHaveBeenCalled();
+        });
+
+        it('should remove the output notes when the relayer rejects the split', async () => {
+            await seedConfirmedNote(BigInt(1000));
+            relayer.rejectNext = true;
+
+            const result = await sdk.splitPayment({
+                outputs: [{ recipientAddress: RECIPIENT_ADDRESS, amount: BigInt(400) }]
+            });
+
+            expect(result.success).toBe(false);
+            expect(await sdk.getNotes()).toHaveLength(1);
+            expect(sdk.getBalance()).toBe(BigInt(1000));
+        });
+    });
+
+    describe('escrow', () => {
+        const NOW = 1700000000;
+        const SECRET = 'invoice-88-paid';
+        let now: number;
+
+        beforeEach(async () => {
+            now = NOW;
+            jest.spyOn(Date, 'now').mockImplementation(() => now * 1000);
+            jest.spyOn(sdk.zkProver, 'generateConditionProof').mockResolvedValue(mockProof);
+            await sdk.configureZKComponents({
+                zkCondition: { wasmUrl: '/circuits/zkCondition.wasm', zkeyUrl: '/circuits/zkCondition.zkey', verifierUrl: '/circuits/zkCondition.json' }
+            });
+        });
+
+        afterEach(() => {
+            (Date.now as jest.Mock).mockRestore();
+        });
+
+        /**
+         * A hashlocked escrow paying this wallet, as shared by its sender
+         */
+        const incomingEscrow = () => new EscrowManager('solana', { autoSync: false }).create({
+            sender: RECIPIENT_ADDRESS,
+            recipient: OWNER_ADDRESS,
+            asset: 'native',
+            amount: BigInt(400),
+            condition: { type: 'hashlock', hash: hash(SECRET) },
+            timeout: NOW + 3600
+        });
+
+        it('should lock the escrowed amount in a conditional note', async () => {
+            await seedConfirmedNote(BigInt(1000));
+
+            const result = await sdk.createEscrow(RECIPIENT_ADDRESS, BigInt(400), { type: 'deadline', releaseAfter: NOW + 60 }, NOW + 3600);
+
+            expect(result.success).toBe(true);
+            expect(result.escrow).toMatchObject({ role: 'sender', status: 'locked', txHash: result.txHash });
+            expect(result.changeNote?.amount).toBe(BigInt(600));
+            expect(relayer.submitted[0]).toMatchObject({
+                type: 'escrow_create',
+                data: { amount: '400', escrowCommitment: result.escrow!.commitment }
+            });
+            // The conditional note is released or refunded by the pool, so the sender does not store it
+            expect(await sdk.noteManager.getNotes({ recipientAddress: RECIPIENT_ADDRESS })).toHaveLength(0);
+        });
+
+        it('should release a hashlocked escrow when the preimage is revealed', async () => {
+            const escrow = await incomingEscrow();
+
+            const wrong = await sdk.releaseEscrow(escrow, { preimage: 'guess' });
+            const result = await sdk.releaseEscrow(escrow.id, { preimage: SECRET }, { waitForConfirmation: true });
+
+            expect(wrong.error).toContain('Preimage does not match');
+            expect(result.success).toBe(true);
+            expect(result.escrow?.status).toBe('released');
+            expect(sdk.zkProver.generateConditionProof).toHaveBeenCalledTimes(1);
+            expect(relayer.submitted[0]).toMatchObject({ type: 'escrow_release', data: { conditionEvidence: SECRET } });
+            expect(sdk.getBalance()).toBe(BigInt(400));
+
+            const again = await sdk.releaseEscrow(escrow.id, { preimage: SECRET });
+            expect(again.error).toContain('already released');
+        });
+
+        it('should put the escrow back to locked when the release fails on-chain', async () => {
+            const escrow = await incomingEscrow();
+            relayer.failedTxs.add('0xrelayed1');
+
+            const result = await sdk.releaseEscrow(escrow, { preimage: SECRET }, { waitForConfirmation: true });
+
+            expect(result.success).toBe(false);
+            expect(sdk.escrowManager.getEscrow(escrow.id)?.status).toBe('locked');
+            expect(sdk.getBalance()).toBe(BigInt(0));
+        });
+
+        it('should refund the sender only after the timeout', async () => {
+            await seedConfirmedNote(BigInt(400));
+            const { escrow } = await sdk.createEscrow(RECIPIENT_ADDRESS, BigInt(400), { type: 'hashlock', hash: hash(SECRET) }, NOW + 3600);
+
+            const early = await sdk.refundEscrow(escrow!.id);
+            now = NOW + 3600;
+            const result = await sdk.refundEscrow(escrow!.id, { waitForConfirmation: true });
+
+            expect(early.error).toContain('cannot be refunded before');
+            expect(result.success).toBe(true);
+            expect(result.outputNote?.amount).toBe(BigInt(400));
+            expect(sdk.getEscrows({ status: 'refunded' })).toHaveLength(1);
+            expect(sdk.zkProver.generateConditionProof).toHaveBeenCalledWith(expect.objectContaining({
+                conditionCommitment: escrow!.commitment,
+                conditionType: 1,
+                eventHash: BigInt(NOW + 3600)
+            }));
+            expect(sdk.getBalance()).toBe(BigInt(400));
+        });
+
+        it('should not release an escrow after it times out', async () => {
+            const escrow = await incomingEscrow();
+            now = NOW + 3600;
+
+            const result = await sdk.releaseEscrow(escrow, { preimage: SECRET });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('timed out');
+            expect(relayer.submitted).toHaveLength(0);
+        });
+    });
+
+    describe('streams', () => {
+        const START = 1700000000;
+        let now: number;
+
+        beforeEach(async () => {
+            now = START - 10;
+            jest.spyOn(Date, 'now').mockImplementation(() => now * 1000);
+            jest.spyOn(sdk.zkProver, 'generateStreamProof').mockResolvedValue(mockProof);
+            await sdk.configureZKComponents({
+                zkStream: { wasmUrl: '/circuits/zkStream.wasm', zkeyUrl: '/circuits/zkStream.zkey', verifierUrl: '/circuits/zkStream.json' }
+            });
+        });
+
+        afterEach(() => {
+            (Date.now as jest.Mock).mockRestore();
+        });
+
+        /**
+         * A stream paying this wallet, as shared by its sender
+         */
+        const incomingStream = () => new StreamManager({ autoSync: false }).create({
+            sender: RECIPIENT_ADDRESS,
+            recipient: OWNER_ADDRESS,
+            asset: 'native',
+            rate: BigInt(2),
+            startTime: START,
+            endTime: START + 100
+        });
+
+        it('should escrow the full stream amount when a stream is created', async () => {
+            await seedConfirmedNote(BigInt(500));
+
+            const result = await sdk.createStream(RECIPIENT_ADDRESS, BigInt(3), START, new Date((START + 100) * 1000));
+
+            expect(result.success).toBe(true);
+            expect(result.stream).toMatchObject({
+                role: 'sender',
+                recipient: RECIPIENT_ADDRESS,
+                totalAmount: BigInt(300),
+                txHash: result.txHash
+            });
+            expect(result.changeNote?.amount).toBe(BigInt(200));
+            expect(relayer.submitted[0]).toMatchObject({
+                type: 'stream_create',
+                data: { amount: '300', streamCommitment: result.stream!.commitment }
+            });
+            expect(sdk.getStreams({ status: 'scheduled' })).toHaveLength(1);
+            expect(sdk.getTransactionHistory({ type: 'stream_create' }).total).toBe(1);
+        });
+
+        it('should drop the stream when it cannot be funded', async () => {
+            await seedConfirmedNote(BigInt(100));
+
+            const result = await sdk.createStream(RECIPIENT_ADDRESS, BigInt(3), START, START + 100);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Insufficient funds');
+            expect(sdk.getStreams()).toEqual([]);
+        });
+
+        it('should claim only what has vested since the last claim', async () => {
+            const stream = await incomingStream();
+
+            now = START + 30;
+            const first = await sdk.claimStream(stream, { waitForConfirmation: true });
+            now = START + 250;
+            const second = await sdk.claimStream(stream.id, { waitForConfirmation: true });
+            const third = await sdk.claimStream(stream.id);
+
+            // zkStream proves times strictly inside the schedule, so the last second stays unclaimable
+            expect(first.amount).toBe(BigInt(60));
+            expect(second.amount).toBe(BigInt(138));
+            expect(sdk.zkProver.generateStreamProof).toHaveBeenLastCalledWith(expect.objectContaining({
+                streamSecret: stream.salt,
+                streamCommitment: stream.commitment,
+                currentTime: START + 99,
+                totalAmount: BigInt(200)
+            }));
+            expect(third.success).toBe(false);
+            expect(third.error).toContain('nothing left to claim');
+            await expect(sdk.getClaimableStreamAmount(stream.id)).resolves.toBe(BigInt(0));
+            expect(sdk.getBalance()).toBe(BigInt(198));
+            expect(relayer.submitted.map(request => request.type)).toEqual(['stream_claim', 'stream_claim']);
+        });
+
+        it('should not claim the same vested amount twice when claims overlap', async () => {
+            const stream = await incomingStream();
+            now = START + 50;
+
+            const [first, second] = await Promise.all([sdk.claimStream(stream), sdk.claimStream(stream.id)]);
+
+            expect(first.amount).toBe(BigInt(100));
+            expect(second.success).toBe(false);
+            expect(second.error).toContain('nothing left to claim');
+            expect(relayer.submitted).toHaveLength(1);
+        });
+
+        it('should let a failed claim be retried', async () => {
+            const stream = await incomingStream();
+            now = START + 50;
+            relayer.failedTxs.add('0xrelayed1');
+
+            const failed = await sdk.claimStream(stream, { waitForConfirmation: true });
+
+            expect(failed.success).toBe(false);
+            await expect(sdk.getClaimableStreamAmount(stream.id)).resolves.toBe(BigInt(100));
+        });
+
+        it('should reject streams whose terms were altered', async () => {
+            const stream = { ...(await incomingStream()), rate: BigInt(20), totalAmount: BigInt(2000) };
+            now = START + 50;
+
+            const result = await sdk.claimStream(stream);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('do not match its commitment');
+            expect(sdk.zkProver.generateStreamProof).not.toHaveBeenCalled();
+        });
+
+        it('should refund the unvested amount when the sender cancels', async () => {
+            await seedConfirmedNote(BigInt(300));
+            const { stream } = await sdk.createStream(RECIPIENT_ADDRESS, BigInt(3), START, START + 100);
+
+            now = START + 40;
+            const result = await sdk.cancelStream(stream!.id, { waitForConfirmation: true });
+
+            expect(result.success).toBe(true);
+            expect(result.refundAmount).toBe(BigInt(180));
+            expect(result.stream?.cancelledAt).toBe(START + 40);
+            expect(sdk.getBalance()).toBe(BigInt(180));
+            expect(sdk.getStreams({ status: 'cancelled' })).toHaveLength(1);
+
+            const again = await sdk.cancelStream(stream!.id);
+            expect(again.error).toContain('already cancelled');
+        });
+
+        it('should reopen a stream whose cancellation failed on-chain', async () => {
+            await seedConfirmedNote(BigInt(300));
+            const { stream } = await sdk.createStream(RECIPIENT_ADDRESS, BigInt(3), START, START + 100, {
+                waitForConfirmation: true
+            });
+            relayer.failedTxs.add('0xrelayed2');
+
+            now = START + 40;
+            const result = await sdk.cancelStream(stream!.id, { waitForConfirmation: true });
+
+            expect(result.success).toBe(false);
+            expect(sdk.streamManager.getStream(stream!.id)?.cancelledAt).toBeUndefined();
+        });
+
+        it('should require the zkStream circuit to claim', async () => {
+            jest.spyOn(sdk.zkProver, 'isCircuitAvailable').mockImplementation(circuit => circuit !== 'zkStream');
+
+            await expect(sdk.claimStream(await incomingStream())).rejects.toMatchObject({ type: ErrorType.SDK_NOT_READY });
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { CoinSelector, MAX_INPUT_NOTES } from '../src/tx/CoinSelector';
+import { SPEND_INPUT_COUNT } from '../src/zk/TransferWitness';
+import { ExtendedNote } from '../src/core/NoteManager';
+import { ErrorType } from '../src/errors/ErrorHandler';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function note(id: string, amount: number, ageDays: number): ExtendedNote {
+    const createdAt = new Date(Date.now() - ageDays * DAY);
+    return {
+        id,
+        amount: BigInt(amount),
+        recipientAddress: '0x1111111111111111111111111111111111111111',
+        commitment: `0x${id}`,
+        nullifier: '',
+        encryptedNote: '',
+        spent: false,
+        timestamp: createdAt.getTime(),
+        status: 'confirmed',
+        type: 'transfer',
+        createdAt,
+        updatedAt: createdAt,
+        metadata: {},
+        randomSeed: []
+    } as ExtendedNote;
+}
+
+const ids = (notes: ExtendedNote[]) => notes.map(selected => selected.id);
+
+describe('CoinSelector', () => {
+    const notes = [note('a', 50, 30), note('b', 30, 20), note('c', 20, 10), note('d', 70, 0.1), note('e', 5, 40)];
+    const selector = new CoinSelector();
+
+    it('should spend the largest note with minimize_inputs, breaking ties by age', () => {
+        expect(ids(selector.select(notes, BigInt(60), 'minimize_inputs').notes)).toEqual(['d']);
+
+        const tied = [note('young', 10, 1), note('old', 10, 5)];
+        expect(ids(selector.select(tied, BigInt(10)).notes)).toEqual(['old']);
+    });
+
+    it('should find a change-free note with exact_match and fall back when none exists', () => {
+        const exact = selector.select(notes, BigInt(30), 'exact_match');
+        expect(ids(exact.notes)).toEqual(['b']);
+        expect(exact.change).toBe(BigInt(0));
+
+        const fallback = selector.select(notes, BigInt(45), 'exact_match');
+        expect(fallback.strategy).toBe('minimize_inputs');
+        expect(fallback.change).toBe(BigInt(25));
+    });
+
+    it('should avoid recently received notes with the privacy strategy', () => {
+        expect(ids(selector.select(notes, BigInt(45), 'privacy').notes)).toEqual(['a']);
+        expect(ids(selector.select(notes, BigInt(25), 'privacy').notes)).toEqual(['b']);
+        expect(ids(selector.select(notes, BigInt(60), 'privacy').notes)).toEqual(['d']);
+    });
+
+    it('should spend the oldest note with oldest_first and fall back when it falls short', () => {
+        const selection = selector.select(notes, BigInt(4), 'oldest_first');
+        expect(ids(selection.notes)).toEqual(['e']);
+        expect(selection.change).toBe(BigInt(1));
+
+        expect(selector.select(notes, BigInt(40), 'oldest_first').strategy).toBe('minimize_inputs');
+    });
+
+    it('should respect the circuit input limit', () => {
+        expect(MAX_INPUT_NOTES).toBe(SPEND_INPUT_COUNT);
+        expect(() => selector.select(notes, BigInt(80))).toThrow(expect.objectContaining({
+            type: ErrorType.INSUFFICIENT_FUNDS,
+            message: expect.stringContaining('more than 1 input note')
+        }));
+        expect(() => selector.select(notes, BigInt(1000))).toThrow(expect.objectContaining({
+            type: ErrorType.INSUFFICIENT_FUNDS
+        }));
+        expect(() => new CoinSelector({ maxInputs: SPEND_INPUT_COUNT + 1 })).toThrow(expect.objectContaining({
+            type: ErrorType.INVALID_INPUT
+        }));
+    });
+});
@@ -0,0 +1,111 @@
+import { ConsolidationService, ConsolidationExecutor } from '../src/core/ConsolidationService';
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+import { MAX_INPUT_NOTES } from '../src/tx/CoinSelector';
+import { ErrorType } from '../src/errors/ErrorHandler';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+describe('ConsolidationService', () => {
+    let noteManager: NoteManager;
+    let executor: { estimateFee: jest.Mock; reshield: jest.Mock };
+
+    const addNotes = async (amounts: number[], asset?: string) => {
+        for (const amount of amounts) {
+            const note = await noteManager.createNote(BigInt(amount), OWNER, 'transfer', {}, asset);
+            await noteManager.updateNoteStatus(note.id, 'confirmed');
+        }
+    };
+
+    beforeEach(() => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        noteManager = new NoteManager({ store: new MemoryNoteStore() });
+        executor = {
+            estimateFee: jest.fn().mockResolvedValue(0.001),
+            reshield: jest.fn().mockResolvedValue({ success: true, txHash: '0xabc' })
+        };
+    });
+
+    it('should detect fragmented assets and dust', async () => {
+        await addNotes([100, 200, 300, 400, 500]);
+        await addNotes([1, 2, 1000], 'USDC');
+        const service = new ConsolidationService(noteManager, executor as ConsolidationExecutor, {
+            maxInputs: 2,
+            dustThresholds: { USDC: BigInt(10) }
+        });
+
+        const reports = service.analyze();
+
+        expect(reports.find(report => report.asset === 'native')).toMatchObject({ spendableNotes: 5, fragmented: true });
+        expect(reports.find(report => report.asset === 'USDC')).toMatchObject({ dustNotes: 2, fragmented: true });
+    });
+
+    it('should merge the smallest notes and report the run in the note statistics', async () => {
+        await addNotes([500, 100, 300, 200, 400]);
+        const service = new ConsolidationService(noteManager, executor as ConsolidationExecutor, { maxInputs: 2 });
+
+        const outcomes = await service.runOnce();
+
+        expect(outcomes).toHaveLength(1);
+        expect(outcomes[0]).toMatchObject({ status: 'submitted', txHash: '0xabc', plan: { amount: BigInt(300) } });
+        const stats = await noteManager.getNoteStatistics();
+        expect(stats.spendableByAsset).toEqual({ native: 5 });
+        expect(stats.consolidation).toMatchObject({ runs: 1, submitted: 1, notesMerged: 2, feesPaid: 0.001 });
+    });
+
+    it('should skip merges above the fee cap', async () => {
+        await addNotes([1, 2, 3]);
+        executor.estimateFee.mockResolvedValue(0.5);
+        const service = new ConsolidationService(noteManager, executor as ConsolidationExecutor, {
+            maxInputs: 2,
+            maxNotesPerAsset: 2,
+            maxFee: 0.01
+        });
+
+        const outcomes = await service.runOnce();
+
+        expect(outcomes[0].status).toBe('skipped');
+        expect(executor.reshield).not.toHaveBeenCalled();
+        expect((await noteManager.getNoteStatistics()).consolidation).toMatchObject({ runs: 1, skipped: 1, submitted: 0 });
+    });
+
+    it('should only consolidate in the background once the wallet is idle', async () => {
+        await addNotes([1, 2, 3]);
+        jest.useFakeTimers();
+        const service = new ConsolidationService(noteManager, executor as ConsolidationExecutor, {
+            maxInputs: 2,
+            maxNotesPerAsset: 2,
+            idleTime: 10000,
+            checkInterval: 1000
+        });
+
+        try {
+            service.start();
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(executor.reshield).not.toHaveBeenCalled();
+
+            service.recordActivity();
+            await jest.advanceTimersByTimeAsync(9000);
+            expect(executor.reshield).not.toHaveBeenCalled();
+
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(executor.reshield).toHaveBeenCalledTimes(1);
+        } finally {
+            service.stop();
+            jest.useRealTimers();
+        }
+    });
+
+    it('should refuse to merge with a circuit that spends one note per proof', async () => {
+        await addNotes([1, 2, 3]);
+        const service = new ConsolidationService(noteManager, executor as ConsolidationExecutor, { maxNotesPerAsset: 2 });
+
+        expect(MAX_INPUT_NOTES).toBe(1);
+        expect(service.canMerge()).toBe(false);
+        expect(service.analyze()[0].fragmented).toBe(true);
+        await expect(service.runOnce()).rejects.toMatchObject({ type: ErrorType.CONFIGURATION_ERROR });
+        expect(() => service.start()).toThrow(expect.objectContaining({ type: ErrorType.CONFIGURATION_ERROR }));
+        expect(executor.reshield).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,149 @@
+import { ethers } from 'ethers';
+import * as nacl from 'tweetnacl';
+import { PublicKey } from '@solana/web3.js';
+import * as snarkjs from 'snarkjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    EscrowManager,
+    Escrow,
+    NewEscrow,
+    escrowConditionId,
+    releaseConditionCheck,
+    refundConditionCheck
+} from '../src/core/EscrowManager';
+import { buildConditionWitness, CONDITION_TYPES } from '../src/zk/ConditionWitness';
+import { ConditionProofInput } from '../src/types/ZKProof';
+import { hash } from '../src/utils/hash';
+import { EncryptedFileNoteStore } from '../src/storage/EncryptedFileNoteStore';
+
+const TERMS: NewEscrow = {
+    sender: '0xsender',
+    recipient: '0x1111111111111111111111111111111111111111',
+    asset: 'native',
+    amount: BigInt(1000),
+    condition: { type: 'deadline', releaseAfter: 2000 },
+    timeout: 3000
+};
+
+describe('EscrowManager', () => {
+    let escrows: EscrowManager;
+
+    beforeEach(() => {
+        localStorage.clear();
+        escrows = new EscrowManager('ethereum');
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+    });
+
+    it('should release deadline escrows only between the deadline and the timeout', async () => {
+        const escrow = await escrows.create(TERMS);
+
+        expect(() => escrows.assertReleasable(escrow, {}, 1999)).toThrow('cannot be released before 2000');
+        expect(() => escrows.assertReleasable(escrow, {}, 2000)).not.toThrow();
+        expect(() => escrows.assertReleasable(escrow, {}, 3000)).toThrow('timed out');
+        expect(() => escrows.assertRefundable(escrow, 2999)).toThrow('cannot be refunded before 3000');
+        expect(() => escrows.assertRefundable(escrow, 3000)).not.toThrow();
+    });
+
+    it('should check hashlock preimages', async () => {
+        const escrow = await escrows.create({ ...TERMS, condition: { type: 'hashlock', hash: hash('open sesame') } });
+
+        expect(() => escrows.assertReleasable(escrow, { preimage: 'open sesame' }, 1000)).not.toThrow();
+        expect(() => escrows.assertReleasable(escrow, { preimage: 'guess' }, 1000)).toThrow('does not match');
+    });
+
+    it('should verify oracle attestations with the chain signature scheme', async () => {
+        const oracle = ethers.Wallet.createRandom();
+        const statement = 'shipment 42 delivered';
+        const escrow = await escrows.create({ ...TERMS, condition: { type: 'oracle', oracle: oracle.address, statement } });
+
+        const attestation = await oracle.signMessage(statement);
+        const forged = await ethers.Wallet.createRandom().signMessage(statement);
+
+        expect(() => escrows.assertReleasable(escrow, { attestation }, 1000)).not.toThrow();
+        expect(() => escrows.assertReleasable(escrow, { attestation: forged }, 1000)).toThrow('attestation is missing or invalid');
+
+        const solanaEscrows = new EscrowManager('solana', { autoSync: false });
+        const keypair = nacl.sign.keyPair();
+        const solanaEscrow = await solanaEscrows.create({
+            ...TERMS,
+            condition: { type: 'oracle', oracle: new PublicKey(keypair.publicKey).toBase58(), statement }
+        });
+        const signature = ethers.utils.hexlify(nacl.sign.detached(ethers.utils.toUtf8Bytes(statement), keypair.secretKey));
+
+        expect(() => solanaEscrows.assertReleasable(solanaEscrow, { attestation: signature }, 1000)).not.toThrow();
+    });
+
+    it('should reject conditions that can never release', async () => {
+        await expect(escrows.create({ ...TERMS, condition: { type: 'deadline', releaseAfter: 3000 } })).rejects.toThrow(
+            'Invalid deadline escrow condition'
+        );
+        await expect(escrows.create({ ...TERMS, condition: { type: 'hashlock', hash: 'secret' } })).rejects.toThrow(
+            'Invalid hashlock escrow condition'
+        );
+    });
+
+    it('should import shared escrows only when they match their commitment and persist them', async () => {
+        const shared = await new EscrowManager('ethereum', { autoSync: false }).create(TERMS);
+
+        await expect(escrows.importEscrow({ ...shared, amount: BigInt(5000) })).rejects.toThrow('do not match its commitment');
+        await escrows.importEscrow(shared);
+
+        const reloaded = new EscrowManager('ethereum');
+        expect(reloaded.getEscrow(shared.id)).toMatchObject({ role: 'recipient', status: 'locked', amount: BigInt(1000) });
+        expect(reloaded.getEscrows({ role: 'sender' })).toEqual([]);
+    });
+
+    it('should persist escrows in the configured store', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cipherpay-escrows-'));
+        const fileStore = () => new EncryptedFileNoteStore(path.join(dir, 'escrows.enc'), 'correct horse');
+
+        try {
+            const fileEscrows = new EscrowManager('ethereum', { store: fileStore() });
+            const escrow = await fileEscrows.create(TERMS);
+            await fileEscrows.flush();
+
+            const restarted = new EscrowManager('ethereum', { store: fileStore() });
+            await restarted.ready;
+            expect(restarted.getEscrow(escrow.id)).toEqual(escrow);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should map releases and refunds onto zkCondition witnesses the circuit accepts', async () => {
+        const deadline = await escrows.create(TERMS);
+        const hashlock = await escrows.create({ ...TERMS, condition: { type: 'hashlock', hash: hash('open sesame') } });
+        const wasm = new Uint8Array(fs.readFileSync(path.join(__dirname, '../src/zk/circuits/zkCondition.wasm')));
+        const opening = (escrow: Escrow) => ({
+            conditionId: escrowConditionId(escrow),
+            conditionSecret: escrow.salt,
+            conditionCommitment: escrow.commitment,
+            merkleRoot: '0x01'
+        });
+
+        // Outputs follow the constant 1 signal: valid, then whether the condition holds
+        const outputs = async (input: ConditionProofInput): Promise<bigint[]> => {
+            const wtns: any = { type: 'mem' };
+            await snarkjs.wtns.calculate(buildConditionWitness(input), wasm, wtns);
+            return ((await snarkjs.wtns.exportJson(wtns)) as any).slice(1, 3);
+        };
+
+        const release = { ...opening(deadline), ...releaseConditionCheck(deadline, {}, 2500) };
+        expect(release).toMatchObject({ conditionType: CONDITION_TYPES.TIME, targetTime: 3000 });
+        await expect(outputs(release)).resolves.toEqual([BigInt(1), BigInt(1)]);
+        await expect(outputs({ ...opening(hashlock), ...releaseConditionCheck(hashlock, { preimage: 'open sesame' }, 2500) }))
+            .resolves.toEqual([BigInt(1), BigInt(1)]);
+        await expect(outputs({ ...opening(deadline), ...refundConditionCheck(deadline, 3000) }))
+            .resolves.toEqual([BigInt(1), BigInt(1)]);
+
+        expect(() => buildConditionWitness({ ...release, currentTime: 3000 })).toThrow('Condition does not hold');
+        expect(() => buildConditionWitness({ ...release, conditionSecret: '0x02' })).toThrow('do not open its commitment');
+        expect(() => buildConditionWitness({ ...opening(hashlock), ...releaseConditionCheck(hashlock, { preimage: 'guess' }, 2500) }))
+            .toThrow('Condition does not hold');
+    });
+});
@@ -0,0 +1,65 @@
+import { deriveWalletKeys, generateMnemonic, validateMnemonic } from '../src/core/KeyDerivation';
+import { ViewKeyManager } from '../src/core/ViewKeyManager';
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { sealNote } from '../src/core/NoteScanner';
+import { deriveNullifierKey, deriveOwnerPublicKey } from '../src/zk/NoteCrypto';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+describe('Key derivation', () => {
+    it('should derive the same keys from the same mnemonic', () => {
+        const keys = deriveWalletKeys(MNEMONIC);
+
+        expect(deriveWalletKeys(MNEMONIC)).toEqual(keys);
+        expect(keys.account).toBe(0);
+        expect(BigInt(keys.nullifierKey)).toBe(deriveNullifierKey(keys.spendingKey));
+        expect(BigInt(keys.ownerPublicKey)).toBe(deriveOwnerPublicKey(keys.spendingKey));
+        expect(new Set([keys.spendingKey, keys.nullifierKey, keys.ownerPublicKey, keys.fullViewingKey, keys.incomingViewingKey]).size).toBe(5);
+    });
+
+    it('should derive unrelated keys for each account and passphrase', () => {
+        const first = deriveWalletKeys(MNEMONIC, 0);
+        const second = deriveWalletKeys(MNEMONIC, 1);
+        const protectedKeys = deriveWalletKeys(MNEMONIC, 0, 'extra words');
+
+        expect(second.spendingKey).not.toBe(first.spendingKey);
+        expect(second.fullViewingKey).not.toBe(first.fullViewingKey);
+        expect(protectedKeys.spendingKey).not.toBe(first.spendingKey);
+        expect(() => deriveWalletKeys(MNEMONIC, -1)).toThrow(expect.objectContaining({ type: ErrorType.INVALID_INPUT }));
+    });
+
+    it('should reject phrases that are not BIP-39 mnemonics', () => {
+        expect(generateMnemonic().split(' ')).toHaveLength(24);
+        expect(() => validateMnemonic(generateMnemonic())).not.toThrow();
+        expect(() => validateMnemonic(MNEMONIC.replace('junk', 'test'))).toThrow(expect.objectContaining({
+            type: ErrorType.INVALID_PRIVATE_KEY
+        }));
+    });
+
+    it('should recover notes and nullifiers with keys restored from the mnemonic', async () => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        const keys = deriveWalletKeys(MNEMONIC);
+        const original = new NoteManager({ store: new MemoryNoteStore(), spendingKey: keys.spendingKey });
+        const note = await original.createNote(BigInt(100), OWNER, 'transfer', { leafIndex: 3 });
+        const sealed = sealNote(note, new ViewKeyManager('ethereum', keys.fullViewingKey).getNoteEncryptionKey());
+
+        const restoredKeys = deriveWalletKeys(MNEMONIC);
+        const restoredViewKeys = new ViewKeyManager('ethereum', restoredKeys.fullViewingKey);
+        const restored = new NoteManager({ store: new MemoryNoteStore(), spendingKey: restoredKeys.spendingKey });
+        const payload = JSON.parse(restoredViewKeys.openNote(sealed)!);
+        const recovered = await restored.addReceivedNote({
+            amount: BigInt(payload.amount),
+            recipientAddress: payload.recipientAddress,
+            randomSeed: Array.from(Buffer.from(payload.randomSeed.slice(2), 'hex')),
+            commitment: note.commitment,
+            leafIndex: 3
+        });
+
+        expect(recovered.nullifier).toBe(note.nullifier);
+        expect(new ViewKeyManager('ethereum').openNote(sealed)).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../src/storage/NoteBackup';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const FAST_KDF = { iterations: 1000 };
+
+describe('Note backups', () => {
+    let source: NoteManager;
+
+    beforeEach(() => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        source = new NoteManager({ store: new MemoryNoteStore() });
+    });
+
+    it('should round-trip notes through an encrypted backup with a fresh salt', async () => {
+        const note = await source.createNote(BigInt(250), OWNER, 'deposit', { memo: 'savings' });
+        await source.updateNoteStatus(note.id, 'confirmed');
+
+        const backup = await source.exportNotes('hunter2', FAST_KDF);
+        const header = JSON.parse(backup);
+        expect(header).toMatchObject({ format: BACKUP_FORMAT, version: BACKUP_VERSION, kdf: { iterations: 1000 } });
+        expect(JSON.parse(await source.exportNotes('hunter2', FAST_KDF)).kdf.salt).not.toBe(header.kdf.salt);
+        expect(backup).not.toContain(note.commitment);
+
+        const restored = new NoteManager({ store: new MemoryNoteStore() });
+        await expect(restored.importNotes(backup, 'hunter2')).resolves.toEqual({ imported: 1, updated: 0, skipped: 0, rejected: [] });
+        expect(restored.getBalance()).toBe(BigInt(250));
+        expect((await restored.getNote(note.id))?.metadata.memo).toBe('savings');
+    });
+
+    it('should reject a wrong password or a modified backup', async () => {
+        await source.createNote(BigInt(250), OWNER);
+        const backup = await source.exportNotes('hunter2', FAST_KDF);
+        const restored = new NoteManager({ store: new MemoryNoteStore() });
+
+        await expect(restored.importNotes(backup, 'hunter3')).rejects.toMatchObject({ type: ErrorType.DECRYPTION_ERROR });
+        const tampered = JSON.stringify({ ...JSON.parse(backup), createdAt: 0 });
+        await expect(restored.importNotes(tampered, 'hunter2')).rejects.toMatchObject({ type: ErrorType.DECRYPTION_ERROR });
+        const future = JSON.stringify({ ...JSON.parse(backup), version: BACKUP_VERSION + 1 });
+        await expect(restored.importNotes(future, 'hunter2')).rejects.toMatchObject({ type: ErrorType.INVALID_NOTE_FORMAT });
+    });
+
+    it('should merge by commitment without moving notes backwards', async () => {
+        const kept = await source.createNote(BigInt(100), OWNER);
+        const spent = await source.createNote(BigInt(200), OWNER);
+        await source.updateNoteStatus(kept.id, 'confirmed');
+        await source.updateNoteStatus(spent.id, 'confirmed');
+        const before = await source.exportNotes();
+
+        await source.updateNoteStatus(spent.id, 'spent');
+        const after = await source.exportNotes();
+
+        const restored = new NoteManager({ store: new MemoryNoteStore() });
+        await expect(restored.importNotes(after)).resolves.toEqual({ imported: 2, updated: 0, skipped: 0, rejected: [] });
+        await expect(restored.importNotes(before)).resolves.toEqual({ imported: 0, updated: 0, skipped: 2, rejected: [] });
+        expect(restored.getBalance()).toBe(BigInt(100));
+
+        const stale = new NoteManager({ store: new MemoryNoteStore() });
+        await stale.importNotes(before);
+        await expect(stale.importNotes(after)).resolves.toEqual({ imported: 0, updated: 1, skipped: 1, rejected: [] });
+        expect(stale.getBalance()).toBe(BigInt(100));
+    });
+
+    it('should report status changes a note may not make instead of applying them', async () => {
+        const note = await source.createNote(BigInt(100), OWNER);
+        const pending = await source.exportNotes();
+        await source.updateNoteStatus(note.id, 'confirmed');
+        await source.updateNoteStatus(note.id, 'spent');
+
+        const restored = new NoteManager({ store: new MemoryNoteStore() });
+        await restored.importNotes(pending);
+        await expect(restored.importNotes(await source.exportNotes())).resolves.toEqual({
+            imported: 0,
+            updated: 0,
+            skipped: 0,
+            rejected: [{ noteId: note.id, from: 'pending', to: 'spent' }]
+        });
+        expect((await restored.getNote(note.id))?.status).toBe('pending');
+    });
+
+    it('should migrate version 1 exports', async () => {
+        const legacy = JSON.stringify([{
+            id: 'note_legacy',
+            amount: '75',
+            recipientAddress: OWNER,
+            commitment: '0x' + '12'.repeat(32),
+            nullifier: '0x' + '34'.repeat(32),
+            type: 'transfer',
+            status: 'confirmed',
+            spent: false,
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: '2024-01-01T00:00:00.000Z'
+        }]);
+        const restored = new NoteManager({ store: new MemoryNoteStore() });
+
+        await expect(restored.importNotes(legacy)).resolves.toMatchObject({ imported: 1 });
+        expect(restored.getBalances()).toEqual({ native: BigInt(75) });
+    });
+});
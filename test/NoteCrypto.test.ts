@@ -0,0 +1,100 @@
+import {
+    computeNoteCommitment,
+    computeNoteSecret,
+    computeNullifier,
+    deriveNullifierKey,
+    deriveOwnerPublicKey,
+    blindingFromSeed
+} from '../src/zk/NoteCrypto';
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { generateCommitment, generateNullifier } from '../src/utils/encryption';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { SNARK_FIELD_SIZE, toFieldElement } from '../src/zk/field';
+import { poseidonHashMany } from '../src/utils/poseidon';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const NOTE = { amount: BigInt(1000), ownerKey: deriveOwnerPublicKey('0xabc123'), blinding: BigInt(42) };
+const NOTE_COMMITMENT = computeNoteCommitment(NOTE);
+
+describe('NoteCrypto', () => {
+    it('should commit to every note field as a field element', () => {
+        const commitment = computeNoteCommitment(NOTE);
+
+        expect(commitment).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(BigInt(commitment) < SNARK_FIELD_SIZE).toBe(true);
+        expect(computeNoteCommitment(NOTE)).toBe(commitment);
+        expect(computeNoteCommitment({ ...NOTE, amount: BigInt(1001) })).not.toBe(commitment);
+        expect(computeNoteCommitment({ ...NOTE, blinding: BigInt(43) })).not.toBe(commitment);
+        expect(computeNoteCommitment({ ...NOTE, ownerKey: deriveOwnerPublicKey('0xdef456') })).not.toBe(commitment);
+        expect(computeNoteCommitment({ ...NOTE, asset: '0x3333333333333333333333333333333333333333' })).not.toBe(commitment);
+        expect(computeNoteCommitment({ ...NOTE, asset: 'native' })).toBe(commitment);
+        expect(() => computeNoteCommitment({ ...NOTE, amount: BigInt(-1) })).toThrow('non-negative field element');
+    });
+
+    it('should commit as the leaf the spend circuits open, Poseidon(amount, secret)', () => {
+        const secret = computeNoteSecret(NOTE);
+
+        expect(computeNoteCommitment(NOTE)).toBe('0x' + poseidonHashMany([NOTE.amount, toFieldElement(secret)]).toString(16).padStart(64, '0'));
+        expect(deriveOwnerPublicKey('0xabc123')).not.toBe(toFieldElement('0xabc123'));
+        expect(deriveOwnerPublicKey('0xabc123')).not.toBe(deriveNullifierKey('0xabc123'));
+    });
+
+    it('should derive nullifiers from the spending key and leaf index', () => {
+        const secret = computeNoteSecret(NOTE);
+        const key = deriveNullifierKey('0xabc123');
+
+        expect(computeNullifier(key, secret, 7)).toBe(computeNullifier(key, secret, 7));
+        expect(computeNullifier(key, secret, 8)).not.toBe(computeNullifier(key, secret, 7));
+        expect(computeNullifier(deriveNullifierKey('0xdef456'), secret, 7)).not.toBe(computeNullifier(key, secret, 7));
+        expect(() => computeNullifier(key, secret, -1)).toThrow('non-negative integer');
+        expect(() => blindingFromSeed(new Uint8Array(32))).toThrow('1 to 31 bytes');
+    });
+
+    it('should let note managers sharing a spending key derive the same nullifiers', async () => {
+        localStorage.clear();
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        const manager = new NoteManager({ spendingKey: '0xabc123', autoSync: false });
+
+        const note = await manager.createNote(BigInt(500), OWNER, 'deposit');
+        const inserted = await manager.updateNoteMetadata(note.id, { leafIndex: 3 });
+
+        // Notes the wallet keeps commit to its owner public key, not to the address they are labelled with
+        expect(manager.getShieldedAddress()).toBe('0x' + deriveOwnerPublicKey('0xabc123').toString(16).padStart(64, '0'));
+        expect(note.commitment).toBe(computeNoteCommitment({
+            amount: BigInt(500),
+            ownerKey: deriveOwnerPublicKey('0xabc123'),
+            blinding: blindingFromSeed(note.randomSeed)
+        }));
+        expect(inserted!.nullifier).toBe(computeNullifier(deriveNullifierKey('0xabc123'), note.secret!, 3));
+        await expect(manager.findNotesByNullifier(inserted!.nullifier)).resolves.toHaveLength(1);
+    });
+
+    it('should require a spending key to persist notes', async () => {
+        localStorage.clear();
+        const restarted = () => new NoteManager({ spendingKey: '0xabc123' });
+
+        expect(() => new NoteManager()).toThrow(expect.objectContaining({ type: ErrorType.CONFIGURATION_ERROR }));
+        expect(() => new NoteManager({ store: new MemoryNoteStore() })).not.toThrow();
+
+        // Nullifiers bound after a restart are the ones the pool will see
+        const note = await restarted().createNote(BigInt(500), OWNER, 'deposit');
+        const inserted = await restarted().updateNoteMetadata(note.id, { leafIndex: 3 });
+        expect(inserted!.nullifier).toBe(computeNullifier(deriveNullifierKey('0xabc123'), note.secret!, 3));
+        expect(restarted().getNullifierKey()).toBe('0x' + deriveNullifierKey('0xabc123').toString(16).padStart(64, '0'));
+        localStorage.clear();
+    });
+
+    it('should keep the deprecated commitment and nullifier helpers on Poseidon', async () => {
+        const seed = new Uint8Array([1, 2, 3]);
+        const key = deriveNullifierKey('0xabc123');
+
+        await expect(generateCommitment(BigInt(1000), OWNER, seed)).resolves.toBe(computeNoteCommitment({
+            ...NOTE,
+            ownerKey: BigInt(OWNER),
+            blinding: BigInt('0x010203')
+        }));
+        await expect(generateNullifier(NOTE_COMMITMENT, '0x' + key.toString(16))).resolves.toBe(computeNullifier(key, NOTE_COMMITMENT));
+    });
+});
@@ -2,6 +2,9 @@ import { NoteManager, ShieldedNote } from '../src/core/NoteManager';
 import { ViewKeyManager } from '../src/core/ViewKeyManager';
 import { Logger } from '../src/monitoring/observability/logger';
 import { NoteType } from '../src/types/Note';
+import { ErrorType } from '../src/errors/ErrorHandler';
+
+const SPENDING_KEY = '0x' + '11'.repeat(32);
 
 // Mock the logger
 jest.mock('../src/monitoring/observability/logger', () => ({
@@ -27,7 +30,7 @@ describe('NoteManager', () => {
         localStorage.clear();
         
         // Create a new instance for each test
-        noteManager = new NoteManager();
+        noteManager = new NoteManager({ spendingKey: SPENDING_KEY });
     });
 
     afterEach(() => {
@@ -126,12 +129,42 @@ describe('NoteManager', () => {
         });
     });
 
+    describe('assets', () => {
+        const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+        it('should keep balances and spendable notes separate per asset', async () => {
+            const native = await noteManager.createNote(BigInt(100), '0x789');
+            const token = await noteManager.createNote(BigInt(500), '0x789', 'deposit', {}, USDC);
+            await noteManager.updateNoteStatus(native.id, 'confirmed');
+            await noteManager.updateNoteStatus(token.id, 'confirmed');
+
+            expect(native.asset).toBe('native');
+            expect(token.asset).toBe(USDC);
+            expect(noteManager.getBalance()).toBe(BigInt(100));
+            expect(noteManager.getBalance(USDC)).toBe(BigInt(500));
+            expect(noteManager.getBalances()).toEqual({ native: BigInt(100), [USDC]: BigInt(500) });
+            expect(noteManager.getSpendableNotes(USDC).map(note => note.id)).toEqual([token.id]);
+            expect((await noteManager.getNotes({ asset: USDC })).map(note => note.id)).toEqual([token.id]);
+        });
+
+        it('should treat stored notes without an asset as native', async () => {
+            const note = await noteManager.createNote(BigInt(100), '0x789');
+            await noteManager.updateNoteStatus(note.id, 'confirmed');
+            const stored = JSON.parse(localStorage.getItem('cipherpay_notes')!);
+            delete stored[0].asset;
+            localStorage.setItem('cipherpay_notes', JSON.stringify(stored));
+
+            const reloaded = new NoteManager({ spendingKey: SPENDING_KEY });
+
+            expect(reloaded.getSpendableNotes('native')).toHaveLength(1);
+            expect(reloaded.getBalance()).toBe(BigInt(100));
+        });
+    });
+
     describe('updateNoteStatus', () => {
         it('should update note status successfully', async () => {
             const note = await noteManager.createNote(BigInt(100), '0x1234567890123456789012345678901234567890');
             
-            console.log('DEBUG: Test - Original note timestamp:', note.updatedAt.getTime());
-            
             // Store the original timestamp before updating
             const originalTimestamp = note.updatedAt.getTime();
             
@@ -139,8 +172,6 @@ describe('NoteManager', () => {
             await new Promise(resolve => setTimeout(resolve, 1));
             
             const updatedNote = await noteManager.updateNoteStatus(note.id, 'confirmed');
-            console.log('DEBUG: Test - Updated note timestamp:', updatedNote?.updatedAt.getTime());
-            console.log('DEBUG: Test - Original timestamp (stored):', originalTimestamp);
             
             expect(updatedNote?.status).toBe('confirmed');
             expect(updatedNote?.updatedAt.getTime()).toBeGreaterThan(originalTimestamp);
@@ -150,14 +181,53 @@ describe('NoteManager', () => {
             const result = await noteManager.updateNoteStatus('non-existent', 'confirmed');
             expect(result).toBeNull();
         });
+
+        it('should reject transitions the state machine does not allow', async () => {
+            const note = await noteManager.createNote(BigInt(100), '0x789');
+
+            await expect(noteManager.updateNoteStatus(note.id, 'spent')).rejects.toMatchObject({
+                type: ErrorType.INVALID_NOTE_TRANSITION
+            });
+            await noteManager.updateNoteStatus(note.id, 'expired');
+            await expect(noteManager.updateNoteStatus(note.id, 'pending')).rejects.toMatchObject({
+                type: ErrorType.INVALID_NOTE_TRANSITION
+            });
+            expect((await noteManager.getNote(note.id))?.status).toBe('expired');
+        });
+
+        it('should record each transition with its reason and transaction', async () => {
+            const note = await noteManager.createNote(BigInt(100), '0x789');
+
+            await noteManager.updateNoteStatus(note.id, 'confirmed', { reason: 'Deposit observed on-chain', txHash: '0xaaa' });
+            await noteManager.updateNoteStatus(note.id, 'confirmed');
+            await noteManager.updateNoteStatus(note.id, 'spent', { txHash: '0xbbb' });
+
+            expect(noteManager.getStatusHistory(note.id)).toEqual([
+                { from: 'pending', to: 'confirmed', at: expect.any(Number), reason: 'Deposit observed on-chain', txHash: '0xaaa' },
+                { from: 'confirmed', to: 'spent', at: expect.any(Number), txHash: '0xbbb' }
+            ]);
+        });
+
+        it('should expire notes left pending past the timeout', async () => {
+            const timed = new NoteManager({ spendingKey: SPENDING_KEY, pendingTimeout: 1000 });
+            const stale = await timed.createNote(BigInt(100), '0x789');
+            const fresh = await timed.createNote(BigInt(50), '0x789');
+            stale.createdAt = new Date(Date.now() - 1000);
+
+            const expired = await timed.expirePendingNotes();
+
+            expect(expired.map(note => note.id)).toEqual([stale.id]);
+            expect(timed.getStatusHistory(stale.id)).toEqual([
+                expect.objectContaining({ from: 'pending', to: 'expired', reason: 'Pending timeout' })
+            ]);
+            expect((await timed.getNote(fresh.id))?.status).toBe('pending');
+        });
     });
 
     describe('updateNoteMetadata', () => {
         it('should update note metadata successfully', async () => {
             const note = await noteManager.createNote(BigInt(100), '0x1234567890123456789012345678901234567890');
             
-            console.log('DEBUG: Test - Original note timestamp (metadata):', note.updatedAt.getTime());
-            
             // Store the original timestamp before updating
             const originalTimestamp = note.updatedAt.getTime();
             
@@ -169,9 +239,6 @@ describe('NoteManager', () => {
                 timestamp: Date.now()
             });
             
-            console.log('DEBUG: Test - Updated note timestamp (metadata):', updatedNote?.updatedAt.getTime());
-            console.log('DEBUG: Test - Original timestamp (stored):', originalTimestamp);
-            
             expect(updatedNote?.metadata.newField).toBe('newValue');
             expect(updatedNote?.metadata).toEqual({
                 newField: 'newValue',
@@ -221,4 +288,28 @@ describe('NoteManager', () => {
             expect(foundNotes).toHaveLength(0);
         });
     });
-}); 
\ No newline at end of file
+
+    describe('onChange', () => {
+        it('should report creation, status, metadata and deletion changes', async () => {
+            const changes: string[] = [];
+            noteManager.onChange(change => changes.push(`${change.type}:${change.previousStatus || ''}`));
+
+            const note = await noteManager.createNote(BigInt(100), '0x789');
+            await noteManager.updateNoteStatus(note.id, 'confirmed');
+            await noteManager.updateNoteMetadata(note.id, { label: 'savings' });
+            await noteManager.deleteNote(note.id);
+
+            expect(changes).toEqual(['created:', 'status:pending', 'metadata:', 'deleted:']);
+        });
+
+        it('should stop notifying after unsubscribing', async () => {
+            const listener = jest.fn();
+            const unsubscribe = noteManager.onChange(listener);
+            unsubscribe();
+
+            await noteManager.createNote(BigInt(100), '0x789');
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { WithdrawBuilder } from '../src/tx/WithdrawBuilder';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+describe('Note reservations', () => {
+    let noteManager: NoteManager;
+
+    const addNote = async (amount: number, asset?: string) => {
+        const note = await noteManager.createNote(BigInt(amount), OWNER, 'transfer', {}, asset);
+        await noteManager.updateNoteStatus(note.id, 'confirmed');
+        return note;
+    };
+
+    beforeEach(() => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        noteManager = new NoteManager({ store: new MemoryNoteStore() });
+    });
+
+    it('should keep reserved notes out of selection and the spendable balance', async () => {
+        const first = await addNote(100);
+        const second = await addNote(50);
+
+        noteManager.reserveNotes([first.id], { operation: 'transfer' });
+
+        expect(noteManager.getSpendableNotes().map(note => note.id)).toEqual([second.id]);
+        expect(noteManager.getBalance()).toBe(BigInt(50));
+        expect(noteManager.getLockedBalance()).toBe(BigInt(100));
+        expect(() => noteManager.reserveNotes([first.id, second.id])).toThrow(expect.objectContaining({
+            type: ErrorType.NOTE_ALREADY_SPENT,
+            retryable: true
+        }));
+        expect(noteManager.getReservation(second.id)).toBeUndefined();
+    });
+
+    it('should release notes on failure and mark them spent when consumed', async () => {
+        const released = await addNote(100);
+        const consumed = await addNote(40, 'USDC');
+        noteManager.reserveNotes([released.id]);
+        noteManager.reserveNotes([consumed.id]);
+        expect(noteManager.getLockedBalances()).toEqual({ native: BigInt(100), USDC: BigInt(40) });
+
+        noteManager.releaseNotes([released.id]);
+        await noteManager.consumeNotes([consumed.id]);
+
+        expect(noteManager.getBalance()).toBe(BigInt(100));
+        expect(noteManager.getLockedBalances()).toEqual({});
+        expect((await noteManager.getNote(consumed.id))?.status).toBe('spent');
+    });
+
+    it('should restore only the inputs a failed transaction spent', async () => {
+        const input = await addNote(100);
+        const observed = await addNote(40);
+        noteManager.reserveNotes([input.id]);
+        await noteManager.updateNoteStatus(input.id, 'spent', { reason: 'Spent by submitted transfer', txHash: '0xfailed' });
+        await noteManager.updateNoteStatus(observed.id, 'spent', { reason: 'Nullifier observed on-chain' });
+
+        await expect(noteManager.updateNoteStatus(input.id, 'confirmed')).rejects.toMatchObject({
+            type: ErrorType.INVALID_NOTE_TRANSITION
+        });
+        await expect(noteManager.restoreFailedSpend([input.id], '0xother')).rejects.toMatchObject({
+            type: ErrorType.INVALID_NOTE_TRANSITION
+        });
+        await expect(noteManager.restoreFailedSpend([observed.id], '0xfailed')).rejects.toMatchObject({
+            type: ErrorType.INVALID_NOTE_TRANSITION
+        });
+
+        await noteManager.restoreFailedSpend([input.id], '0xfailed');
+        expect(noteManager.getSpendableNotes().map(note => note.id)).toEqual([input.id]);
+        expect(noteManager.getLockedBalance()).toBe(BigInt(0));
+    });
+
+    it('should unlock notes when the reservation expires', async () => {
+        const note = await addNote(100);
+        const now = Date.now();
+        const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        try {
+            noteManager.reserveNotes([note.id], { ttl: 1000 });
+            clock.mockReturnValue(now + 999);
+            expect(noteManager.getBalance()).toBe(BigInt(0));
+
+            clock.mockReturnValue(now + 1000);
+            expect(noteManager.getBalance()).toBe(BigInt(100));
+            expect(noteManager.getLockedBalance()).toBe(BigInt(0));
+        } finally {
+            clock.mockRestore();
+        }
+    });
+
+    it('should release a builder reservation when building fails', async () => {
+        await addNote(100);
+        const merkleTreeClient = { getMerklePath: jest.fn().mockRejectedValue(new Error('Merkle service unavailable')) };
+        const builder = new WithdrawBuilder(noteManager, {} as any, {} as any, 'ethereum', merkleTreeClient as any);
+
+        const result = await builder.buildWithdraw({ amount: BigInt(60), recipientAddress: OWNER, chainType: 'ethereum', changeAddress: OWNER });
+
+        expect(result.success).toBe(false);
+        expect(merkleTreeClient.getMerklePath).toHaveBeenCalled();
+        expect(noteManager.getLockedBalance()).toBe(BigInt(0));
+        expect(noteManager.getBalance()).toBe(BigInt(100));
+    });
+});
@@ -0,0 +1,172 @@
+import { NoteScanner, sealNote } from '../src/core/NoteScanner';
+import { NoteManager, ExtendedNote } from '../src/core/NoteManager';
+import { ViewKeyManager } from '../src/core/ViewKeyManager';
+import { EventMonitor, ShieldedTransferEvent } from '../src/events/EventMonitor';
+import { PublishedNote } from '../src/relayer/RelayerAPI';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { EncryptedFileNoteStore } from '../src/storage/EncryptedFileNoteStore';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+describe('NoteScanner', () => {
+    let sender: NoteManager;
+    let receiver: NoteManager;
+    let viewKeyManager: ViewKeyManager;
+    let getShieldedEvents: jest.Mock;
+    let published: Map<string, PublishedNote>;
+    let noteSource: { getPublishedNotes: jest.Mock };
+    let scanner: NoteScanner;
+
+    /**
+     * Publishes a note the way the pool does: the event carries the commitment, the relayer indexes the sealed note
+     */
+    const transferEvent = (note: ExtendedNote, encryptedNote: string, blockNumber: number, leafIndex: number): ShieldedTransferEvent => {
+        published.set(note.commitment, { commitment: note.commitment, encryptedNote: encryptedNote || undefined, leafIndex });
+        return {
+            type: 'shielded_transfer',
+            from: '0x0000000000000000000000000000000000000000',
+            to: '0x0000000000000000000000000000000000000000',
+            amount: '0',
+            commitment: note.commitment,
+            nullifier: '0x' + '00'.repeat(32),
+            timestamp: Date.now(),
+            transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+            blockNumber
+        };
+    };
+
+    beforeEach(() => {
+        localStorage.clear();
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        sender = new NoteManager({ store: new MemoryNoteStore() });
+        receiver = new NoteManager({ store: new MemoryNoteStore() });
+        viewKeyManager = new ViewKeyManager('ethereum');
+        getShieldedEvents = jest.fn();
+        published = new Map();
+        noteSource = {
+            getPublishedNotes: jest.fn(async (commitments: string[]) =>
+                commitments.filter(commitment => published.has(commitment)).map(commitment => published.get(commitment)!))
+        };
+        scanner = new NoteScanner(receiver, viewKeyManager, { getShieldedEvents } as unknown as EventMonitor, noteSource);
+    });
+
+    it('should discover notes sealed to the view key and ignore others', async () => {
+        const ours = await sender.buildNote(BigInt(500), receiver.getShieldedAddress(), 'transfer', {}, undefined, 'rent');
+        const theirs = await sender.buildNote(BigInt(700), receiver.getShieldedAddress());
+        const otherKey = new ViewKeyManager('ethereum').getNoteEncryptionKey();
+
+        const found = await scanner.processEvent(transferEvent(ours, sealNote(ours, viewKeyManager.getNoteEncryptionKey()), 10, 4));
+        expect(await scanner.processEvent(transferEvent(theirs, sealNote(theirs, otherKey), 11, 5))).toBeNull();
+
+        expect(found).toMatchObject({ commitment: ours.commitment, status: 'confirmed', amount: BigInt(500) });
+        expect(found!.metadata).toMatchObject({ leafIndex: 4, discovered: true });
+        expect(found!.memo).toBe('rent');
+        expect(receiver.getBalance()).toBe(BigInt(500));
+
+        // Seeing the same event again does not add the note twice
+        expect(await scanner.processEvent(transferEvent(ours, sealNote(ours, viewKeyManager.getNoteEncryptionKey()), 10, 4))).toBeNull();
+        expect(await receiver.getNotes()).toHaveLength(1);
+    });
+
+    it('should rediscover the wallet\'s own deposits from the notes published with them', async () => {
+        // A wallet restored from the same spending key finds the deposits it made
+        const depositor = new NoteManager({ store: new MemoryNoteStore(), spendingKey: '0xabc123' });
+        receiver = new NoteManager({ store: new MemoryNoteStore(), spendingKey: '0xabc123' });
+        scanner = new NoteScanner(receiver, viewKeyManager, { getShieldedEvents } as unknown as EventMonitor, noteSource);
+        const deposited = await depositor.createNote(BigInt(900), RECIPIENT, 'deposit');
+        const event = transferEvent(deposited, sealNote(deposited, viewKeyManager.getNoteEncryptionKey()), 3, 7);
+        getShieldedEvents.mockResolvedValue({ events: [event], toBlock: 10 });
+
+        const result = await scanner.scan(10);
+
+        expect(noteSource.getPublishedNotes).toHaveBeenCalledWith([deposited.commitment]);
+        expect(result.scanned).toBe(1);
+        expect(result.discovered).toHaveLength(1);
+        expect(result.discovered[0]).toMatchObject({ type: 'deposit', status: 'confirmed', amount: BigInt(900) });
+        expect(result.discovered[0].metadata).toMatchObject({ leafIndex: 7 });
+    });
+
+    it('should bind the leaf index of our own outputs once the pool reports them', async () => {
+        const change = await receiver.createNote(BigInt(300), RECIPIENT, 'transfer', { role: 'change' });
+        const unbound = change.nullifier;
+
+        await expect(scanner.processEvent(transferEvent(change, '', 12, 9))).resolves.toBeNull();
+
+        const [bound] = await receiver.findNotesByCommitment(change.commitment);
+        expect(bound.metadata.leafIndex).toBe(9);
+        expect(bound.nullifier).not.toBe(unbound);
+
+        // Once bound, the note needs no further lookups
+        await scanner.processEvent(transferEvent(change, '', 12, 9));
+        expect(noteSource.getPublishedNotes).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore commitments the relayer has no note for', async () => {
+        const note = await sender.createNote(BigInt(500), RECIPIENT);
+        const event = transferEvent(note, sealNote(note, viewKeyManager.getNoteEncryptionKey()), 10, 4);
+        published.clear();
+
+        await expect(scanner.processEvent(event)).resolves.toBeNull();
+        expect(receiver.getBalance()).toBe(BigInt(0));
+    });
+
+    it('should reject notes that do not open their commitment', async () => {
+        const note = await sender.createNote(BigInt(500), RECIPIENT);
+        const forged = { ...note, amount: BigInt(5000) };
+
+        await expect(scanner.processEvent(transferEvent(note, sealNote(forged, viewKeyManager.getNoteEncryptionKey()), 10, 4)))
+            .rejects.toThrow('Received note does not match its commitment');
+        expect(receiver.getBalance()).toBe(BigInt(0));
+    });
+
+    it('should scan incrementally from a persisted cursor', async () => {
+        const first = await sender.buildNote(BigInt(100), receiver.getShieldedAddress());
+        const second = await sender.buildNote(BigInt(200), receiver.getShieldedAddress());
+        const key = viewKeyManager.getNoteEncryptionKey();
+        const events = [transferEvent(first, sealNote(first, key), 5, 0), transferEvent(second, sealNote(second, key), 1500, 1)];
+        getShieldedEvents.mockImplementation(async (fromBlock: number, toBlock: number) => ({
+            events: events.filter(event => event.blockNumber! >= fromBlock && event.blockNumber! <= toBlock),
+            toBlock
+        }));
+
+        const initial = await scanner.scan(999);
+        expect(initial).toMatchObject({ scanned: 1, cursor: 999 });
+        expect(initial.discovered.map(note => note.commitment)).toEqual([first.commitment]);
+
+        // A restarted scanner resumes after the stored cursor, a block range at a time
+        const restarted = new NoteScanner(receiver, viewKeyManager, { getShieldedEvents } as unknown as EventMonitor, noteSource, {
+            blocksPerQuery: 400
+        });
+        expect(restarted.getCursor()).toBe(999);
+        const next = await restarted.scan(2000);
+
+        expect(getShieldedEvents.mock.calls.slice(1).map(call => call[0])).toEqual([1000, 1400, 1800]);
+        // Chunks without events need no lookup
+        expect(noteSource.getPublishedNotes).toHaveBeenCalledTimes(2);
+        expect(next.discovered.map(note => note.commitment)).toEqual([second.commitment]);
+        expect(next.cursor).toBe(2000);
+        expect(receiver.getBalance()).toBe(BigInt(300));
+    });
+
+    it('should keep the cursor in the configured store across restarts', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cipherpay-scanner-'));
+        const fileStore = () => new EncryptedFileNoteStore(path.join(dir, 'scanner.enc'), 'correct horse');
+        const monitor = { getShieldedEvents } as unknown as EventMonitor;
+        getShieldedEvents.mockImplementation(async (fromBlock: number, toBlock: number) => ({ events: [], toBlock }));
+
+        try {
+            await new NoteScanner(receiver, viewKeyManager, monitor, noteSource, { store: fileStore() }).scan(250);
+
+            const restarted = new NoteScanner(receiver, viewKeyManager, monitor, noteSource, { store: fileStore() });
+            await restarted.ready;
+            expect(restarted.getCursor()).toBe(250);
+            expect(localStorage.length).toBe(0);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
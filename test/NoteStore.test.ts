@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NoteManager } from '../src/core/NoteManager';
+import { TransactionHistory } from '../src/core/TransactionHistory';
+import { StreamManager } from '../src/core/StreamManager';
+import { EscrowManager } from '../src/core/EscrowManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { EncryptedFileNoteStore } from '../src/storage/EncryptedFileNoteStore';
+import { IndexedDBNoteStore } from '../src/storage/IndexedDBNoteStore';
+import { migrateNotes } from '../src/storage/NoteStore';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const ENCRYPTION_KEY = '0123456789abcdef0123456789abcdef';
+const SPENDING_KEY = '0x' + '11'.repeat(32);
+
+describe('NoteStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cipherpay-notes-'));
+        filePath = path.join(dir, 'notes.enc');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should commit all writes of a transaction or none', async () => {
+        const store = new MemoryNoteStore();
+        await store.transaction(tx => tx.put({ id: 'a', amount: '1' }));
+
+        await expect(store.transaction(tx => {
+            tx.put({ id: 'b', amount: '2' });
+            throw new Error('aborted');
+        })).rejects.toThrow('aborted');
+        await store.transaction(tx => {
+            tx.delete('a');
+            tx.put({ id: 'c', amount: '3' });
+        });
+
+        expect(await store.load()).toEqual([{ id: 'c', amount: '3' }]);
+    });
+
+    it('should keep notes across restarts in an encrypted file', async () => {
+        const manager = new NoteManager({ store: new EncryptedFileNoteStore(filePath, 'correct horse'), encryptionKey: ENCRYPTION_KEY, spendingKey: SPENDING_KEY });
+        const note = await manager.createNote(BigInt(250), OWNER);
+        await manager.updateNoteStatus(note.id, 'confirmed');
+
+        expect(fs.readFileSync(filePath, 'utf8')).not.toContain(note.commitment);
+
+        const restarted = new NoteManager({ store: new EncryptedFileNoteStore(filePath, 'correct horse'), encryptionKey: ENCRYPTION_KEY, spendingKey: SPENDING_KEY });
+        await restarted.ready;
+        expect(restarted.getBalance()).toBe(BigInt(250));
+        expect((await restarted.getNote(note.id))?.commitment).toBe(note.commitment);
+
+        const wrongKey = new NoteManager({ store: new EncryptedFileNoteStore(filePath, 'battery staple'), encryptionKey: ENCRYPTION_KEY, spendingKey: SPENDING_KEY });
+        await expect(wrongKey.ready).rejects.toMatchObject({ type: ErrorType.DECRYPTION_ERROR });
+    });
+
+    it('should fail writes the store rejects without keeping unsaved notes', async () => {
+        const store = new MemoryNoteStore();
+        const manager = new NoteManager({ store });
+        const note = await manager.createNote(BigInt(250), OWNER);
+        jest.spyOn(store, 'transaction').mockRejectedValue(new Error('disk full'));
+
+        await expect(manager.createNote(BigInt(100), OWNER)).rejects.toMatchObject({
+            type: ErrorType.STORAGE_ERROR,
+            message: 'Failed to save notes to storage: disk full'
+        });
+        await expect(manager.updateNoteStatus(note.id, 'confirmed')).rejects.toMatchObject({ type: ErrorType.STORAGE_ERROR });
+        expect((await manager.getNotes()).map(stored => stored.id)).toEqual([note.id]);
+    });
+
+    it('should serialize concurrent file transactions', async () => {
+        const store = new EncryptedFileNoteStore(filePath, 'correct horse');
+
+        await Promise.all(['a', 'b', 'c'].map(id => store.transaction(tx => tx.put({ id, amount: '1' }))));
+
+        expect((await store.load()).map(note => note.id).sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should migrate notes between stores', async () => {
+        const memory = new MemoryNoteStore();
+        const manager = new NoteManager({ store: memory });
+        await manager.createNote(BigInt(100), OWNER);
+        await manager.createNote(BigInt(200), OWNER);
+
+        const file = new EncryptedFileNoteStore(filePath, 'correct horse');
+        await expect(migrateNotes(memory, file, { clearSource: true })).resolves.toBe(2);
+        expect(await memory.load()).toEqual([]);
+
+        const other = new MemoryNoteStore();
+        await expect(manager.migrateTo(other)).resolves.toBe(2);
+        await manager.createNote(BigInt(300), OWNER);
+        expect(await other.load()).toHaveLength(3);
+        expect(await file.load()).toHaveLength(2);
+    });
+
+    it('should keep each module\'s records apart in a shared store', async () => {
+        const store = new MemoryNoteStore();
+        const manager = new NoteManager({ store });
+        const history = new TransactionHistory({ store });
+        const streams = new StreamManager({ store });
+        const escrows = new EscrowManager('ethereum', { store });
+
+        const note = await manager.createNote(BigInt(250), OWNER);
+        await history.record({ type: 'deposit', status: 'pending', amount: BigInt(250), asset: 'native', txHash: '0xdep' });
+        const stream = await streams.create({
+            sender: OWNER,
+            recipient: '0xrecipient',
+            asset: 'native',
+            rate: BigInt(5),
+            startTime: 1000,
+            endTime: 1100
+        });
+        await escrows.create({
+            sender: OWNER,
+            recipient: '0x2222222222222222222222222222222222222222',
+            asset: 'native',
+            amount: BigInt(1000),
+            condition: { type: 'deadline', releaseAfter: 2000 },
+            timeout: 3000
+        });
+        await history.clear();
+
+        expect(await store.load()).toHaveLength(3);
+        expect((await new NoteManager({ store }).getNotes()).map(stored => stored.id)).toEqual([note.id]);
+        expect(new StreamManager({ store }).getStream(stream.id)).toEqual(stream);
+        expect(new EscrowManager('ethereum', { store }).getEscrows()).toHaveLength(1);
+        expect(new TransactionHistory({ store }).getRecords().total).toBe(0);
+    });
+
+    it('should require IndexedDB for the IndexedDB store', async () => {
+        await expect(new IndexedDBNoteStore('cipherpay_test').load()).rejects.toMatchObject({
+            type: ErrorType.MISSING_DEPENDENCY
+        });
+    });
+});
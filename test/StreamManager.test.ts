@@ -0,0 +1,117 @@
+import { StreamManager } from '../src/core/StreamManager';
+import { buildStreamWitness, computeStreamId } from '../src/zk/StreamWitness';
+import { toFieldElement } from '../src/zk/field';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import * as snarkjs from 'snarkjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncryptedFileNoteStore } from '../src/storage/EncryptedFileNoteStore';
+
+const CIRCUITS = path.join(__dirname, '../src/zk/circuits');
+
+const TERMS = {
+    sender: '0xsender',
+    recipient: 'Recipient11111111111111111111111111111111',
+    asset: 'native',
+    rate: BigInt(5),
+    startTime: 1000,
+    endTime: 1100
+};
+
+describe('StreamManager', () => {
+    let streams: StreamManager;
+
+    beforeEach(() => {
+        localStorage.clear();
+        streams = new StreamManager();
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+    });
+
+    it('should vest linearly and stop vesting at cancellation', async () => {
+        const stream = await streams.create(TERMS);
+
+        expect(stream.totalAmount).toBe(BigInt(500));
+        expect(streams.getVestedAmount(stream, 900)).toBe(BigInt(0));
+        expect(streams.getVestedAmount(stream, 1040)).toBe(BigInt(200));
+        expect(streams.getVestedAmount(stream, 5000)).toBe(BigInt(500));
+        expect(streams.getStatus(stream, 900)).toBe('scheduled');
+        expect(streams.getStatus(stream, 1040)).toBe('active');
+        expect(streams.getStatus(stream, 1100)).toBe('ended');
+
+        const cancelled = (await streams.updateStream(stream.id, { cancelledAt: 1020 }))!;
+        expect(streams.getVestedAmount(cancelled, 1090)).toBe(BigInt(100));
+        expect(streams.getStatus(cancelled, 1090)).toBe('cancelled');
+    });
+
+    it('should reject invalid schedules', async () => {
+        await expect(streams.create({ ...TERMS, endTime: TERMS.startTime })).rejects.toThrow(
+            expect.objectContaining({ type: ErrorType.INVALID_INPUT })
+        );
+        await expect(streams.create({ ...TERMS, rate: BigInt(0) })).rejects.toThrow('rate must be greater than 0');
+    });
+
+    it('should import shared streams only when they match their commitment', async () => {
+        const shared = await new StreamManager({ autoSync: false }).create(TERMS);
+
+        expect((await streams.importStream(shared)).role).toBe('recipient');
+        await expect(streams.importStream({ ...shared, recipient: '0xattacker' })).rejects.toThrow('do not match its commitment');
+    });
+
+    it('should persist streams across instances', async () => {
+        const stream = await streams.create(TERMS);
+
+        const reloaded = new StreamManager();
+
+        expect(reloaded.getStream(stream.id)).toEqual(stream);
+        expect(reloaded.getStreams({ role: 'sender' })).toHaveLength(1);
+    });
+
+    it('should persist streams in the configured store', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cipherpay-streams-'));
+        const fileStore = () => new EncryptedFileNoteStore(path.join(dir, 'streams.enc'), 'correct horse');
+
+        try {
+            const fileStreams = new StreamManager({ store: fileStore() });
+            const stream = await fileStreams.create(TERMS);
+            await fileStreams.flush();
+
+            const restarted = new StreamManager({ store: fileStore() });
+            await restarted.ready;
+            expect(restarted.getStream(stream.id)).toEqual(stream);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should build zkStream witnesses the circuit accepts', async () => {
+        const stream = await streams.create(TERMS);
+        const input = {
+            streamId: computeStreamId(stream),
+            streamSecret: stream.salt,
+            streamCommitment: stream.commitment,
+            recipient: stream.recipient,
+            startTime: stream.startTime,
+            endTime: stream.endTime,
+            currentTime: 1050,
+            totalAmount: stream.totalAmount,
+            merkleRoot: '0x01'
+        };
+
+        const witness = buildStreamWitness(input);
+        const wtns: any = { type: 'mem' };
+        await snarkjs.wtns.calculate(witness, new Uint8Array(fs.readFileSync(path.join(CIRCUITS, 'zkStream.wasm'))), wtns);
+        const signals: bigint[] = (await snarkjs.wtns.exportJson(wtns)) as any;
+
+        // Outputs follow the constant 1 signal: valid, then the vested amount
+        expect(signals.slice(1, 3)).toEqual([BigInt(1), BigInt(250)]);
+        expect(witness.claimedAmount).toBe('250');
+        expect(BigInt(witness.recipientAddress)).toBe(toFieldElement(stream.recipient));
+        expect(() => buildStreamWitness({ ...input, currentTime: 1100 })).toThrow('strictly within the stream schedule');
+        expect(() => buildStreamWitness({ ...input, streamSecret: '0x02' })).toThrow('do not open its commitment');
+        expect(streams.getProofTime(stream, 5000)).toBe(1099);
+    });
+});
@@ -0,0 +1,153 @@
+import { TransactionHistory } from '../src/core/TransactionHistory';
+import { ShieldedNote } from '../src/types/Note';
+import { EncryptedFileNoteStore } from '../src/storage/EncryptedFileNoteStore';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const note = (commitment: string, amount: bigint, extra: Record<string, any> = {}): ShieldedNote & Record<string, any> => ({
+    commitment,
+    nullifier: `${commitment}_nullifier`,
+    amount,
+    encryptedNote: '',
+    spent: false,
+    timestamp: 0,
+    recipientAddress: '0xowner',
+    ...extra
+});
+
+describe('TransactionHistory', () => {
+    let history: TransactionHistory;
+
+    beforeEach(() => {
+        localStorage.clear();
+        history = new TransactionHistory();
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+    });
+
+    it('should record notes, metadata and status transitions', async () => {
+        const record = await history.record({
+            type: 'transfer',
+            status: 'pending',
+            amount: BigInt(100),
+            asset: 'native',
+            recipientAddress: '0xrecipient',
+            txHash: '0xabc',
+            inputNotes: [note('0xin', BigInt(150), { id: 'note_in' })],
+            outputNotes: [note('0xout', BigInt(50), { id: 'note_change', metadata: { role: 'change' } })],
+            metadata: { memo: 'rent' }
+        });
+
+        await history.updateStatus('0xabc', 'confirmed', { blockNumber: 42, fee: { gasUsed: '21000' } });
+
+        const stored = history.getRecord(record.id)!;
+        expect(stored.status).toBe('confirmed');
+        expect(stored.statusHistory.map(change => change.status)).toEqual(['pending', 'confirmed']);
+        expect(stored.blockNumber).toBe(42);
+        expect(stored.fee).toEqual({ gasUsed: '21000' });
+        expect(stored.inputNotes[0]).toMatchObject({ noteId: 'note_in', amount: BigInt(150), asset: 'native' });
+        expect(stored.outputNotes[0].role).toBe('change');
+        expect(stored.metadata).toEqual({ memo: 'rent' });
+    });
+
+    it('should page and filter records newest first', async () => {
+        for (let i = 0; i < 5; i++) {
+            await history.record({
+                type: i % 2 === 0 ? 'transfer' : 'withdraw',
+                status: 'pending',
+                amount: BigInt(i),
+                asset: 'native',
+                txHash: `0x${i}`
+            });
+        }
+
+        const firstPage = history.getRecords({}, { limit: 2 });
+        expect(firstPage.total).toBe(5);
+        expect(firstPage.hasMore).toBe(true);
+        expect(firstPage.records.map(record => record.txHash)).toEqual(['0x4', '0x3']);
+
+        const lastPage = history.getRecords({}, { offset: 4, limit: 2 });
+        expect(lastPage.records.map(record => record.txHash)).toEqual(['0x0']);
+        expect(lastPage.hasMore).toBe(false);
+
+        const withdrawals = history.getRecords({ type: 'withdraw' });
+        expect(withdrawals.records.map(record => record.txHash)).toEqual(['0x3', '0x1']);
+    });
+
+    it('should persist records across instances', async () => {
+        await history.record({ type: 'deposit', status: 'pending', amount: BigInt(7), asset: 'native', txHash: '0xdep' });
+        await history.updateStatus('0xdep', 'failed', { error: 'reverted' });
+
+        const reloaded = new TransactionHistory();
+        const [record] = reloaded.getRecords().records;
+
+        expect(record.amount).toBe(BigInt(7));
+        expect(record.status).toBe('failed');
+        expect(record.error).toBe('reverted');
+        expect(record.statusHistory).toHaveLength(2);
+    });
+
+    it('should persist records in the configured store', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cipherpay-history-'));
+        const fileStore = () => new EncryptedFileNoteStore(path.join(dir, 'history.enc'), 'correct horse');
+
+        try {
+            const fileHistory = new TransactionHistory({ store: fileStore() });
+            await fileHistory.record({ type: 'deposit', status: 'pending', amount: BigInt(7), asset: 'native', txHash: '0xdep' });
+            await fileHistory.updateStatus('0xdep', 'confirmed', { blockNumber: 9 });
+            await fileHistory.flush();
+
+            const restarted = new TransactionHistory({ store: fileStore() });
+            await restarted.ready;
+            expect(restarted.findByTxHash('0xdep')).toMatchObject({ status: 'confirmed', amount: BigInt(7), blockNumber: 9 });
+            expect(localStorage.getItem('cipherpay_history')).toBeNull();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should export the same document for the same history', async () => {
+        await history.record({
+            type: 'reshield',
+            status: 'pending',
+            amount: BigInt(65),
+            asset: 'native',
+            txHash: '0xre',
+            metadata: { b: 2, a: 1 }
+        });
+
+        const exported = history.exportJSON();
+        const parsed = JSON.parse(exported);
+
+        expect(new TransactionHistory().exportJSON()).toBe(exported);
+        expect(parsed.version).toBe(1);
+        expect(parsed.records[0].amount).toBe('65');
+        expect(Object.keys(parsed.records[0].metadata)).toEqual(['a', 'b']);
+    });
+
+    it('should drop the oldest records beyond the maximum from the store too', async () => {
+        const store = new MemoryNoteStore();
+        const capped = new TransactionHistory({ store, maxRecords: 2 });
+        for (let i = 0; i < 3; i++) {
+            await capped.record({ type: 'transfer', status: 'pending', amount: BigInt(i), asset: 'native', txHash: `0x${i}` });
+        }
+
+        expect(capped.getRecords().records.map(record => record.txHash)).toEqual(['0x2', '0x1']);
+        expect((await store.load()).map(record => record.txHash).sort()).toEqual(['0x1', '0x2']);
+    });
+
+    it('should reject records the store fails to write, without keeping them', async () => {
+        const store = new MemoryNoteStore();
+        store.transaction = () => Promise.reject(new Error('disk full'));
+        const failing = new TransactionHistory({ store });
+
+        await expect(failing.record({ type: 'deposit', status: 'pending', amount: BigInt(7), asset: 'native', txHash: '0xdep' }))
+            .rejects.toMatchObject({ type: ErrorType.STORAGE_ERROR });
+        expect(failing.getRecords().total).toBe(0);
+    });
+});
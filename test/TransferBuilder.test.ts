@@ -6,6 +6,8 @@ import { ShieldedNote } from '../src/types/Note';
 import { ZKProof } from '../src/types/ZKProof';
 import { Logger } from '../src/monitoring/observability/logger';
 
+const SPENDING_KEY = '0x' + '11'.repeat(32);
+
 // Mock the logger
 jest.mock('../src/monitoring/observability/logger', () => ({
     Logger: {
@@ -78,7 +80,7 @@ describe('TransferBuilder', () => {
 
         // Initialize components
         walletProvider = new WalletProvider('ethereum', { rpcUrl: 'http://localhost:8545' });
-        noteManager = new NoteManager();
+        noteManager = new NoteManager({ spendingKey: SPENDING_KEY });
         zkProver = new ZKProver();
         transferBuilder = new TransferBuilder(
             walletProvider,
@@ -34,6 +34,9 @@ jest.doMock('ethers', () => {
         JsonRpcProvider: jest.fn()
       },
       Contract: jest.fn().mockImplementation(() => mockContract),
+      BigNumber: {
+        from: jest.fn().mockImplementation((value: string) => ({ toString: () => value }))
+      },
       utils: {
         parseEther: jest.fn().mockReturnValue({ toString: () => '1000000000000000000' })
       }
@@ -93,6 +96,9 @@ describe('WalletProvider', () => {
                         JsonRpcProvider: jest.fn()
                     },
                     Contract: jest.fn().mockImplementation(() => mockContract),
+                    BigNumber: {
+                        from: jest.fn().mockImplementation((value: string) => ({ toString: () => value }))
+                    },
                     utils: {
                         parseEther: jest.fn().mockReturnValue({ toString: () => '1000000000000000000' })
                     }
@@ -211,13 +217,37 @@ describe('WalletProvider', () => {
             (window as any).ethereum = mockEthereum;
 
             await walletProvider.connect();
-            const result = await walletProvider.signAndSendDepositTx(1.0);
+            const result = await walletProvider.signAndSendDepositTx('0xpool', BigInt('1000000000000000000'));
             expect(result.txHash).toBe('0xabc123');
             expect(result.status).toBe('success');
         });
 
+        it('should send the amount in wei without rounding it', async () => {
+            (window as any).ethereum = {
+                request: jest.fn().mockResolvedValue(['0x1234567890123456789012345678901234567890'])
+            };
+
+            await walletProvider.connect();
+            await walletProvider.signAndSendDepositTx('0xpool', BigInt('1123456789123456789'), '0x' + '11'.repeat(32));
+
+            const contract = ethers.Contract.mock.results[0].value;
+            const [, , overrides] = contract.deposit.mock.calls[0];
+            expect(overrides.value.toString()).toBe('1123456789123456789');
+            expect(ethers.utils.parseEther).not.toHaveBeenCalled();
+        });
+
+        it('should reject amounts that are not positive base units', async () => {
+            (window as any).ethereum = {
+                request: jest.fn().mockResolvedValue(['0x1234567890123456789012345678901234567890'])
+            };
+
+            await walletProvider.connect();
+            await expect(walletProvider.signAndSendDepositTx('0xpool', BigInt(0))).rejects.toThrow('Invalid deposit amount');
+            await expect(walletProvider.signAndSendDepositTx('0xpool', 1.5)).rejects.toThrow('Invalid deposit amount');
+        });
+
         it('should throw error if not connected', async () => {
-            await expect(walletProvider.signAndSendDepositTx(1.0)).rejects.toThrow('No wallet connected');
+            await expect(walletProvider.signAndSendDepositTx('0xpool', BigInt(1))).rejects.toThrow('No wallet connected');
         });
     });
 
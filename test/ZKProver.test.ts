@@ -1,5 +1,16 @@
 import { ZKProver } from '../src/zk/ZKProver';
-import { TransferProofInput, WithdrawProofInput, ReshieldProofInput } from '../src/types/ZKProof';
+import { TransferProofInput, WithdrawProofInput, ReshieldProofInput, SplitProofInput, MerklePathInput } from '../src/types/ZKProof';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { computeSplitCommitment } from '../src/zk/SplitWitness';
+import { computeCircuitNullifier } from '../src/zk/NullifierWitness';
+import { deriveNullifierKey } from '../src/zk/NoteCrypto';
+import { SPEND_TREE_DEPTH } from '../src/zk/TransferWitness';
+import { fieldToHex } from '../src/zk/field';
+import { poseidonHashMany } from '../src/utils/poseidon';
+import { NoteManager } from '../src/core/NoteManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+import * as snarkjs from 'snarkjs';
 import { ShieldedNote } from '../src/types/Note';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -47,9 +58,42 @@ jest.mock('../src/monitoring/observability/logger', () => ({
     }
 }));
 
+// Proofs over the bundled circuits use the real snarkjs and files rather than the mocks
+const actualSnarkjs = jest.requireActual('snarkjs');
+const actualFs = jest.requireActual('fs');
+const circuitFile = (name: string) => actualFs.readFileSync(path.join(__dirname, '../src/zk/circuits', name));
+const proveWithCircuit = () =>
+    (snarkjs.groth16.fullProve as jest.Mock).mockImplementationOnce(actualSnarkjs.groth16.fullProve);
+// Circuits bundled without a proving key can still compute their witness, which checks every constraint
+const calculateWitness = async (circuit: string, signals: object): Promise<string[]> => {
+    const wtns = { type: 'mem' };
+    await actualSnarkjs.wtns.calculate(signals, new Uint8Array(circuitFile(`${circuit}.wasm`)), wtns);
+    return (await actualSnarkjs.wtns.exportJson(wtns)).map(String);
+};
+const lastProvenWitness = () => (snarkjs.groth16.fullProve as jest.Mock).mock.calls.slice(-1)[0][0];
+/** Path of a leaf in a tree of the spend circuits' depth, with the root it leads to */
+const merklePath = (commitment: string, leafIndex: number): MerklePathInput => {
+    const path = Array.from({ length: SPEND_TREE_DEPTH }, (_, level) => fieldToHex(BigInt(level + 1)));
+    const indices = path.map((_, level) => Math.floor(leafIndex / 2 ** level) % 2);
+    const root = path.reduce((node, sibling, level) => indices[level] === 0
+        ? poseidonHashMany([node, BigInt(sibling)])
+        : poseidonHashMany([BigInt(sibling), node]), BigInt(commitment));
+    return { path, indices, root: fieldToHex(root) };
+};
+/** A note of the wallet inserted into the tree at leafIndex, with its path */
+const spendableNote = async (manager: NoteManager, amount: bigint, leafIndex: number) => {
+    const note = await manager.createNote(amount, '0x1111111111111111111111111111111111111111');
+    return { note: (await manager.updateNoteMetadata(note.id, { leafIndex }))!, merkleProof: merklePath(note.commitment, leafIndex) };
+};
+
 describe('ZKProver', () => {
     let zkProver: ZKProver;
 
+    afterAll(async () => {
+        // snarkjs keeps its curve's worker threads alive until told otherwise
+        await (globalThis as any).curve_bn128?.terminate();
+    });
+
     beforeEach(() => {
         // Use the new constructor with empty config for testing
         zkProver = new ZKProver();
@@ -163,6 +207,278 @@ describe('ZKProver', () => {
 
             await expect(zkProver.generateReshieldProof(input)).rejects.toThrow();
         });
+
+        describe('transfer proofs', () => {
+            const transferProver = () => ZKProver.fromBuffers({
+                transfer: {
+                    wasmBuffer: circuitFile('transfer.wasm'),
+                    zkeyBuffer: Buffer.from('no proving key is bundled'),
+                    verifierData: JSON.parse(circuitFile('verifier-transfer.json').toString())
+                }
+            });
+
+            let wallet: NoteManager;
+            let recipient: NoteManager;
+
+            beforeEach(() => {
+                // Proofs made with a view key are limited apart from anonymous ones
+                globalRateLimiter.reset('PROOF_GENERATION', { userId: 'authenticated' });
+                globalRateLimiter.reset('NOTE_ENCRYPTION');
+                wallet = new NoteManager({ store: new MemoryNoteStore(), spendingKey: '0x5eed' });
+                recipient = new NoteManager({ store: new MemoryNoteStore(), spendingKey: '0xbeef' });
+            });
+
+            it('should build a witness the bundled transfer circuit accepts', async () => {
+                const { note, merkleProof } = await spendableNote(wallet, BigInt(1000000), 5);
+                const outputNote = await wallet.buildNote(BigInt(1000000), recipient.getShieldedAddress());
+
+                await transferProver().generateTransferProof({
+                    inputNotes: [note],
+                    outputNote,
+                    merkleProofs: [merkleProof],
+                    viewKey: '0xviewkey123',
+                    nullifierKey: wallet.getNullifierKey()
+                });
+
+                // The circuit reveals the note's nullifier and the output commitment
+                const witness = await calculateWitness('transfer', lastProvenWitness());
+                expect(witness.slice(1, 3)).toEqual([BigInt(note.nullifier).toString(), BigInt(outputNote.commitment).toString()]);
+            });
+
+            it('should build a reshield witness the bundled transfer circuit accepts', async () => {
+                const { note, merkleProof } = await spendableNote(wallet, BigInt(250000), 2);
+                const reissued = await wallet.createNote(BigInt(250000), '0x1111111111111111111111111111111111111111', 'reshield');
+                const input: ReshieldProofInput = {
+                    inputNotes: [note],
+                    amount: BigInt(250000),
+                    outputNote: reissued,
+                    merkleProofs: [merkleProof],
+                    viewKey: '0xviewkey123',
+                    nullifierKey: wallet.getNullifierKey()
+                };
+
+                await transferProver().generateReshieldProof(input);
+
+                const witness = await calculateWitness('transfer', lastProvenWitness());
+                expect(witness.slice(1, 3)).toEqual([BigInt(note.nullifier).toString(), BigInt(reissued.commitment).toString()]);
+                globalRateLimiter.reset('PROOF_GENERATION', { userId: 'authenticated' });
+                await expect(transferProver().generateReshieldProof({ ...input, amount: BigInt(100000) }))
+                    .rejects.toThrow('re-issues its amount');
+            });
+
+            it('should reject transfers the circuit could not prove', async () => {
+                const prover = transferProver();
+                const { note, merkleProof } = await spendableNote(wallet, BigInt(1000000), 5);
+                const second = await spendableNote(wallet, BigInt(500000), 6);
+                const whole = await wallet.buildNote(BigInt(1000000), recipient.getShieldedAddress());
+                const partial = await wallet.buildNote(BigInt(600000), recipient.getShieldedAddress());
+                const input = { inputNotes: [note], outputNote: whole, merkleProofs: [merkleProof], viewKey: '0xviewkey123', nullifierKey: wallet.getNullifierKey() };
+                const proofsMade = (snarkjs.groth16.fullProve as jest.Mock).mock.calls.length;
+                const attempt = (overrides: Partial<TransferProofInput>) => {
+                    globalRateLimiter.reset('PROOF_GENERATION', { userId: 'authenticated' });
+                    return prover.generateTransferProof({ ...input, ...overrides });
+                };
+
+                await expect(attempt({ outputNote: partial })).rejects.toThrow('moves its input note whole');
+                await expect(attempt({ inputNotes: [note, second.note], merkleProofs: [merkleProof, second.merkleProof] }))
+                    .rejects.toThrow('exactly 1 input note');
+                await expect(attempt({ nullifierKey: recipient.getNullifierKey() })).rejects.toThrow('Nullifier key does not spend the input note');
+                await expect(attempt({ merkleProofs: [second.merkleProof] })).rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+                expect(snarkjs.groth16.fullProve).toHaveBeenCalledTimes(proofsMade);
+            });
+        });
+
+        describe('withdraw proofs', () => {
+            const withdrawProver = () => ZKProver.fromBuffers({
+                withdraw: {
+                    wasmBuffer: circuitFile('withdraw.wasm'),
+                    zkeyBuffer: Buffer.from('no proving key is bundled'),
+                    verifierData: JSON.parse(circuitFile('verifier-withdraw.json').toString())
+                }
+            });
+
+            let wallet: NoteManager;
+
+            beforeEach(() => {
+                globalRateLimiter.reset('PROOF_GENERATION', { userId: 'authenticated' });
+                globalRateLimiter.reset('NOTE_ENCRYPTION');
+                wallet = new NoteManager({ store: new MemoryNoteStore(), spendingKey: '0x5eed' });
+            });
+
+            it('should build a witness from the signals of the bundled withdraw circuit', async () => {
+                const { note, merkleProof } = await spendableNote(wallet, BigInt(1000000), 9);
+                const input: WithdrawProofInput = {
+                    inputNotes: [note],
+                    recipientAddress: '0x1111111111111111111111111111111111111111',
+                    amount: BigInt(1000000),
+                    merkleProofs: [merkleProof],
+                    viewKey: '0xviewkey123',
+                    nullifierKey: wallet.getNullifierKey()
+                };
+
+                await withdrawProver().generateWithdrawProof(input);
+                const signals = lastProvenWitness();
+
+                expect(signals).toMatchObject({ withdrawalAmount: '1000000', recipientAddress: BigInt(input.recipientAddress).toString() });
+                // The witness opens the note in the tree; a wrong root fails the circuit's Merkle check at line 77.
+                // The bundled circuit's final check (line 92) also requires a zero inAmount, so it rejects real amounts.
+                await expect(calculateWitness('withdraw', { ...signals, merkleRoot: '1' })).rejects.toThrow('line: 77');
+                await expect(calculateWitness('withdraw', signals)).rejects.toThrow('line: 92');
+
+                globalRateLimiter.reset('PROOF_GENERATION', { userId: 'authenticated' });
+                await expect(withdrawProver().generateWithdrawProof({ ...input, amount: BigInt(400000) })).rejects.toThrow('pays out its input note whole');
+            });
+        });
+
+        describe('split proofs', () => {
+            const splitProver = () => ZKProver.fromBuffers({
+                zkSplit: {
+                    wasmBuffer: circuitFile('zkSplit.wasm'),
+                    zkeyBuffer: circuitFile('zkSplit.zkey'),
+                    verifierData: JSON.parse(circuitFile('verifier-zkSplit.json').toString())
+                }
+            });
+            const share = (amount: number, commitment: string): ShieldedNote => ({ ...mockOutputNote, amount: BigInt(amount), commitment });
+            const splitInput = (outputNotes: ShieldedNote[], fee: bigint): SplitProofInput => {
+                const splitSecret = '0x2a';
+                return {
+                    inputNote: mockInputNote,
+                    outputNotes,
+                    fee,
+                    splitSecret,
+                    splitCommitment: computeSplitCommitment({
+                        inputCommitment: mockInputNote.commitment,
+                        outputCommitments: outputNotes.map(note => note.commitment),
+                        salt: splitSecret
+                    }),
+                    merkleRoot: '0x99'
+                };
+            };
+
+            beforeEach(() => {
+                globalRateLimiter.reset('PROOF_GENERATION');
+            });
+
+            it('should prove a split the zkSplit circuit accepts', async () => {
+                proveWithCircuit();
+                const input = splitInput([share(600000, '0x01'), share(390000, '0x02')], BigInt(10000));
+
+                const proof = await splitProver().generateSplitProof(input);
+
+                // The circuit's only public signal is its validity flag
+                expect(proof.publicSignals).toEqual(['1']);
+                expect(snarkjs.groth16.fullProve).toHaveBeenLastCalledWith(
+                    expect.objectContaining({ totalAmount: '990000', amounts: ['600000', '390000'] }),
+                    expect.anything(),
+                    expect.anything()
+                );
+            });
+
+            it('should reject splits the circuit could not prove', async () => {
+                const prover = splitProver();
+                const unbalanced = splitInput([share(600000, '0x01'), share(600000, '0x02')], BigInt(0));
+                const threeWay = splitInput([share(500000, '0x01'), share(250000, '0x02'), share(250000, '0x03')], BigInt(0));
+                const wrongSecret = { ...splitInput([share(500000, '0x01'), share(500000, '0x02')], BigInt(0)), splitSecret: '0x2b' };
+
+                await expect(prover.generateSplitProof(unbalanced)).rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+                await expect(prover.generateSplitProof(threeWay)).rejects.toThrow('exactly 2 notes');
+                await expect(prover.generateSplitProof(wrongSecret)).rejects.toThrow('do not open its commitment');
+            });
+        });
+
+        describe('nullifier proofs', () => {
+            const nullifierKey = fieldToHex(deriveNullifierKey('0x5eed'));
+            const nullifierProver = () => ZKProver.fromBuffers({
+                nullifier: {
+                    wasmBuffer: circuitFile('nullifier.wasm'),
+                    zkeyBuffer: circuitFile('nullifier.zkey'),
+                    verifierData: JSON.parse(circuitFile('verifier-nullifier.json').toString())
+                }
+            });
+
+            beforeEach(() => {
+                globalRateLimiter.reset('PROOF_GENERATION');
+            });
+
+            it('should prove a nullifier with the nullifier key and verify it only against that nullifier', async () => {
+                const prover = nullifierProver();
+                const nullifier = computeCircuitNullifier(nullifierKey, mockInputNote.commitment);
+                proveWithCircuit();
+
+                const proof = await prover.generateNullifierProof({ note: mockInputNote, nullifierKey });
+
+                expect(proof.publicSignals).toEqual([BigInt(nullifier).toString()]);
+                expect(snarkjs.groth16.fullProve).toHaveBeenLastCalledWith(
+                    { secret: BigInt(nullifierKey).toString(), noteCommitment: BigInt(mockInputNote.commitment).toString() },
+                    expect.anything(),
+                    expect.anything()
+                );
+                await expect(prover.verifyNullifierProof(proof, nullifier)).resolves.toBe(true);
+                await expect(prover.verifyNullifierProof(proof, computeCircuitNullifier(nullifierKey, mockOutputNote.commitment)))
+                    .resolves.toBe(false);
+            });
+        });
+        describe('membership proofs', () => {
+            const commitment = fieldToHex(BigInt(12345));
+            // The merkle circuit ships without a proving key; integrators register their own
+            const membershipProver = () => {
+                const prover = new ZKProver();
+                prover.registerCircuit('merkle', {
+                    wasmBuffer: circuitFile('merkle.wasm'),
+                    zkeyBuffer: new ArrayBuffer(8),
+                    verifierData: { protocol: 'groth16', nPublic: 1 }
+                });
+                return prover;
+            };
+            const proveWithSignals = (signals: string[]) => (snarkjs.groth16.fullProve as jest.Mock).mockResolvedValueOnce({
+                proof: { pi_a: ['1', '2'], pi_b: [['3', '4'], ['5', '6']], pi_c: ['7', '8'], protocol: 'groth16', curve: 'bn128' },
+                publicSignals: signals
+            });
+
+            beforeEach(() => {
+                globalRateLimiter.reset('PROOF_GENERATION');
+            });
+
+            it('should prove with the signals the merkle circuit accepts and verify only against the root', async () => {
+                const prover = membershipProver();
+                const merkleProof = merklePath(commitment, 5);
+                proveWithSignals([BigInt(merkleProof.root).toString()]);
+
+                const proof = await prover.generateMembershipProof({ commitment, merkleProof });
+
+                const witness = await calculateWitness('merkle', lastProvenWitness());
+                expect(witness.slice(1, 3)).toEqual([BigInt(merkleProof.root).toString(), BigInt(commitment).toString()]);
+                await expect(prover.verifyMembershipProof(proof, merkleProof.root)).resolves.toBe(true);
+                await expect(prover.verifyMembershipProof(proof, fieldToHex(BigInt(1)))).resolves.toBe(false);
+            });
+
+            it('should not verify a proof that leaves the root private', async () => {
+                const prover = membershipProver();
+                const merkleProof = merklePath(commitment, 5);
+                proveWithSignals([]);
+
+                const proof = await prover.generateMembershipProof({ commitment, merkleProof });
+
+                await expect(prover.verifyMembershipProof(proof, merkleProof.root)).resolves.toBe(false);
+            });
+
+            it('should reject paths the circuit would not accept before proving', async () => {
+                const prover = membershipProver();
+                const merkleProof = merklePath(commitment, 5);
+                const proveCalls = (snarkjs.groth16.fullProve as jest.Mock).mock.calls.length;
+
+                await expect(prover.generateMembershipProof({ commitment, merkleProof: { ...merkleProof, root: fieldToHex(BigInt(1)) } }))
+                    .rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+                await expect(prover.generateMembershipProof({ commitment, merkleProof: { ...merkleProof, indices: merkleProof.indices.slice(1) } }))
+                    .rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+                expect((snarkjs.groth16.fullProve as jest.Mock).mock.calls.length).toBe(proveCalls);
+            });
+
+            it('should fail until a merkle proving key is registered', async () => {
+                await expect(new ZKProver().generateMembershipProof({ commitment, merkleProof: merklePath(commitment, 5) }))
+                    .rejects.toMatchObject({ type: ErrorType.PROOF_GENERATION_FAILED });
+            });
+        });
     });
 
     describe('utility methods', () => {
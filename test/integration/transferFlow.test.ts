@@ -9,6 +9,8 @@ import { WalletProvider } from '../../src/core/WalletProvider';
 import { ZKProver } from '../../src/zk/ZKProver';
 import { ZKInput } from '../../src/types/ZKProof';
 
+const SPENDING_KEY = '0x' + '11'.repeat(32);
+
 // Mock the logger
 jest.mock('../../src/monitoring/observability/logger', () => ({
     Logger: {
@@ -118,7 +120,7 @@ describe('Transfer Flow Integration', () => {
 
         // Initialize components
         walletProvider = new WalletProvider('ethereum', { rpcUrl: 'http://localhost:8545' });
-        noteManager = new NoteManager();
+        noteManager = new NoteManager({ spendingKey: SPENDING_KEY });
         zkProver = new ZKProver();
         transferBuilder = new TransferBuilder(
             walletProvider,
@@ -0,0 +1,46 @@
+import { MEMO_SIZE, MAX_MEMO_BYTES, padMemo, unpadMemo } from '../src/utils/memo';
+import { sealNote } from '../src/core/NoteScanner';
+import { NoteManager } from '../src/core/NoteManager';
+import { ViewKeyManager } from '../src/core/ViewKeyManager';
+import { MemoryNoteStore } from '../src/storage/MemoryNoteStore';
+import { ErrorType } from '../src/errors/ErrorHandler';
+import { globalRateLimiter } from '../src/utils/RateLimiter';
+
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+describe('Note memos', () => {
+    it('should pad every memo to the same size and read it back', () => {
+        const invoice = padMemo('Invoice #2024-0117');
+        const unicode = padMemo('Café ☕ order');
+
+        expect((invoice.length - 2) / 2).toBe(MEMO_SIZE);
+        expect(unicode.length).toBe(invoice.length);
+        expect(padMemo().length).toBe(invoice.length);
+        expect(unpadMemo(invoice)).toBe('Invoice #2024-0117');
+        expect(unpadMemo(unicode)).toBe('Café ☕ order');
+        expect(unpadMemo(padMemo())).toBeUndefined();
+        expect(unpadMemo('0x1234')).toBeUndefined();
+    });
+
+    it('should reject memos that do not fit', () => {
+        expect(padMemo('a'.repeat(MAX_MEMO_BYTES))).toHaveLength(2 + MEMO_SIZE * 2);
+        expect(() => padMemo('a'.repeat(MAX_MEMO_BYTES + 1))).toThrow(expect.objectContaining({
+            type: ErrorType.INVALID_INPUT
+        }));
+    });
+
+    it('should seal notes to the same size whatever their memo', async () => {
+        globalRateLimiter.reset('NOTE_ENCRYPTION');
+        const noteManager = new NoteManager({ store: new MemoryNoteStore() });
+        const key = new ViewKeyManager('ethereum').getNoteEncryptionKey();
+
+        const plain = await noteManager.createNote(BigInt(100), RECIPIENT);
+        const short = await noteManager.createNote(BigInt(100), RECIPIENT, 'transfer', {}, undefined, 'hi');
+        const long = await noteManager.createNote(BigInt(100), RECIPIENT, 'transfer', {}, undefined, 'x'.repeat(400));
+
+        const sizes = [plain, short, long].map(note => sealNote(note, key).length);
+        expect(new Set(sizes).size).toBe(1);
+        await expect(noteManager.createNote(BigInt(100), RECIPIENT, 'transfer', {}, undefined, 'x'.repeat(MEMO_SIZE)))
+            .rejects.toMatchObject({ type: ErrorType.INVALID_INPUT });
+    });
+});